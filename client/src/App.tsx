@@ -5,15 +5,21 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "next-themes";
 import { AuthProvider } from "./hooks/use-auth";
+import { WorkspaceProvider } from "./hooks/use-workspaces";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import Dashboard from "@/pages/dashboard";
 import IdeaDetail from "@/pages/idea-detail";
 import Settings from "@/pages/settings";
+import SharedIdea from "@/pages/shared-idea";
+import WorkspaceSettings from "@/pages/workspace-settings";
+import WorkspaceInvite from "@/pages/workspace-invite";
+import ResetPassword from "@/pages/reset-password";
 // Using direct import instead of alias to avoid path issues
 import EmailVerification from "./pages/email-verification";
 import { ProtectedRoute } from "./lib/protected-route";
 import ErrorBoundary from "@/components/error-boundary";
+import { ImpersonationBanner } from "@/components/impersonation-banner";
 
 function Router() {
   return (
@@ -21,9 +27,13 @@ function Router() {
       <ProtectedRoute path="/" component={Dashboard} />
       <ProtectedRoute path="/ideas/:id" component={IdeaDetail} />
       <ProtectedRoute path="/settings" component={Settings} />
+      <ProtectedRoute path="/workspace" component={WorkspaceSettings} />
       <Route path="/auth" component={AuthPage} />
       <Route path="/confirm-email/:userId/:token" component={EmailVerification} />
       <Route path="/verify" component={EmailVerification} />
+      <Route path="/share/:token" component={SharedIdea} />
+      <Route path="/invite/:token" component={WorkspaceInvite} />
+      <Route path="/reset-password/:token" component={ResetPassword} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -36,8 +46,11 @@ function App() {
         <ThemeProvider attribute="class" defaultTheme="light">
           <TooltipProvider>
             <AuthProvider>
-              <Toaster />
-              <Router />
+              <WorkspaceProvider>
+                <Toaster />
+                <ImpersonationBanner />
+                <Router />
+              </WorkspaceProvider>
             </AuthProvider>
           </TooltipProvider>
         </ThemeProvider>
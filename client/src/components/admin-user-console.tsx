@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AdminUserSummary, UserRole } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { ADMIN_USERS_PAGE_SIZE, AdminUserQuery, useAdminUsers } from "@/hooks/use-admin-users";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Ban, CheckCircle, KeyRound, Loader2, LogOut, MoreHorizontal, Search, Shield, ShieldOff, Trash2, Unlock, UserCog, Users } from "lucide-react";
+
+type PendingAction =
+  | { kind: "delete"; user: AdminUserSummary }
+  | { kind: "reset"; user: AdminUserSummary }
+  | { kind: "reset2fa"; user: AdminUserSummary }
+  | { kind: "revokeSessions"; user: AdminUserSummary }
+  | { kind: "impersonate"; user: AdminUserSummary };
+
+const CONFIRMATIONS: Record<PendingAction["kind"], { title: string; description: (username: string) => string; action: string }> = {
+  delete: {
+    title: "Delete this user?",
+    description: (username) =>
+      `This permanently deletes ${username}, their personal ideas with all documents and jobs, and any workspaces they own. Ideas they created in other teams' workspaces pass to those workspace owners.`,
+    action: "Delete User",
+  },
+  reset: {
+    title: "Force a password reset?",
+    description: (username) =>
+      `${username}'s current password stops working immediately. They'll be emailed a link to choose a new one.`,
+    action: "Force Reset",
+  },
+  reset2fa: {
+    title: "Reset two-factor authentication?",
+    description: (username) =>
+      `${username} will be able to sign in with just their password, and can set up a new authenticator app from their account settings.`,
+    action: "Reset 2FA",
+  },
+  revokeSessions: {
+    title: "Sign this user out everywhere?",
+    description: (username) =>
+      `Every session ${username} has open ends now, on all their devices. They can sign in again straight away.`,
+    action: "Sign Out Everywhere",
+  },
+  impersonate: {
+    title: "Impersonate this user?",
+    description: (username) =>
+      `You'll be signed in as ${username} until you return to your own account from the banner. Starting and ending impersonation is logged.`,
+    action: "Impersonate",
+  },
+};
+
+// Locked after repeated failed sign-ins; the lock lapses on its own
+function isLocked(account: AdminUserSummary) {
+  return !!account.lockedUntil && new Date(account.lockedUntil).getTime() > Date.now();
+}
+
+/** Superadmin console for finding accounts and acting on them. */
+export function AdminUserConsole() {
+  const { user: currentUser } = useAuth();
+  const [query, setQuery] = useState<AdminUserQuery>({ search: "", role: "all", status: "all", offset: 0 });
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const {
+    users,
+    total,
+    isLoading,
+    setDisabled,
+    changeRole,
+    forcePasswordReset,
+    resetTwoFactor,
+    revokeSessions,
+    unlock,
+    deleteUser,
+    impersonate,
+    isImpersonating,
+  } = useAdminUsers(query);
+
+  const updateQuery = (changes: Partial<AdminUserQuery>) => {
+    // Any filter change starts again from the first page
+    setQuery(current => ({ ...current, offset: 0, ...changes }));
+  };
+
+  const confirmPending = () => {
+    if (!pending) return;
+    if (pending.kind === "delete") deleteUser(pending.user.id);
+    if (pending.kind === "reset") forcePasswordReset(pending.user.id);
+    if (pending.kind === "reset2fa") resetTwoFactor(pending.user.id);
+    if (pending.kind === "revokeSessions") revokeSessions(pending.user.id);
+    if (pending.kind === "impersonate") impersonate(pending.user.id);
+    setPending(null);
+  };
+
+  const firstShown = total === 0 ? 0 : query.offset + 1;
+  const lastShown = Math.min(query.offset + ADMIN_USERS_PAGE_SIZE, total);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Users className="h-5 w-5 mr-2 text-primary" />
+          Users
+        </CardTitle>
+        <CardDescription>
+          Search accounts, change roles, and disable, reset, impersonate or delete users.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-neutral-400" />
+            <Input
+              className="pl-9"
+              placeholder="Search by username or email"
+              value={query.search}
+              onChange={(e) => updateQuery({ search: e.target.value })}
+            />
+          </div>
+          <Select value={query.role} onValueChange={(v) => updateQuery({ role: v as AdminUserQuery["role"] })}>
+            <SelectTrigger className="sm:w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All roles</SelectItem>
+              <SelectItem value="user">User</SelectItem>
+              <SelectItem value="superadmin">Superadmin</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={query.status} onValueChange={(v) => updateQuery({ status: v as AdminUserQuery["status"] })}>
+            <SelectTrigger className="sm:w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any status</SelectItem>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="disabled">Disabled</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : users.length === 0 ? (
+          <p className="text-sm text-neutral-500 text-center py-8">No users match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Ideas</TableHead>
+                <TableHead className="w-[50px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map(account => {
+                const isSelf = account.id === currentUser?.id;
+                const nextRole: UserRole = account.role === "superadmin" ? "user" : "superadmin";
+                return (
+                  <TableRow key={account.id}>
+                    <TableCell>
+                      <div className="font-medium text-neutral-900">
+                        {account.username}
+                        {isSelf && <span className="ml-2 text-xs text-neutral-500">(you)</span>}
+                      </div>
+                      <div className="text-xs text-neutral-500">{account.email || "No email"}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Badge variant={account.role === "superadmin" ? "default" : "outline"} className="capitalize">
+                          {account.role}
+                        </Badge>
+                        {account.totpEnabledAt && (
+                          <Badge variant="outline" title="Two-factor authentication on">2FA</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {account.disabledAt ? (
+                        <Badge variant="destructive" title={`Disabled ${format(new Date(account.disabledAt), "MMM d, yyyy")}`}>
+                          Disabled
+                        </Badge>
+                      ) : isLocked(account) ? (
+                        <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200" title={`Locked until ${format(new Date(account.lockedUntil!), "MMM d, h:mm a")}`}>
+                          Locked
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Active</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{account.ideaCount}</TableCell>
+                    <TableCell>
+                      {!isSelf && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-8 w-8">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => changeRole({ userId: account.id, role: nextRole })}>
+                              <Shield className="mr-2 h-4 w-4" />
+                              {nextRole === "superadmin" ? "Make superadmin" : "Make regular user"}
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setDisabled({ userId: account.id, disabled: !account.disabledAt })}>
+                              {account.disabledAt
+                                ? <><CheckCircle className="mr-2 h-4 w-4" /> Enable account</>
+                                : <><Ban className="mr-2 h-4 w-4" /> Disable account</>}
+                            </DropdownMenuItem>
+                            {isLocked(account) && (
+                              <DropdownMenuItem onClick={() => unlock(account.id)}>
+                                <Unlock className="mr-2 h-4 w-4" />
+                                Unlock account
+                              </DropdownMenuItem>
+                            )}
+                            <DropdownMenuItem onClick={() => setPending({ kind: "reset", user: account })} disabled={!account.email}>
+                              <KeyRound className="mr-2 h-4 w-4" />
+                              Force password reset
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setPending({ kind: "reset2fa", user: account })} disabled={!account.totpEnabledAt}>
+                              <ShieldOff className="mr-2 h-4 w-4" />
+                              Reset two-factor
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setPending({ kind: "revokeSessions", user: account })}>
+                              <LogOut className="mr-2 h-4 w-4" />
+                              Sign out everywhere
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => setPending({ kind: "impersonate", user: account })}
+                              disabled={account.role === "superadmin" || !!account.disabledAt || isImpersonating}
+                            >
+                              <UserCog className="mr-2 h-4 w-4" />
+                              Impersonate
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              className="text-red-600 focus:text-red-600"
+                              onClick={() => setPending({ kind: "delete", user: account })}
+                            >
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              Delete user
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      <CardFooter className="bg-neutral-50 border-t px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center text-sm text-neutral-500">
+          <Shield className="h-4 w-4 mr-2 text-primary" />
+          Every action here is logged for audit purposes
+        </div>
+        <div className="flex items-center gap-2 text-sm text-neutral-500">
+          <span>{firstShown}–{lastShown} of {total}</span>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={query.offset === 0}
+            onClick={() => setQuery(current => ({ ...current, offset: Math.max(0, current.offset - ADMIN_USERS_PAGE_SIZE) }))}
+          >
+            Previous
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={lastShown >= total}
+            onClick={() => setQuery(current => ({ ...current, offset: current.offset + ADMIN_USERS_PAGE_SIZE }))}
+          >
+            Next
+          </Button>
+        </div>
+      </CardFooter>
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pending && CONFIRMATIONS[pending.kind].title}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending && CONFIRMATIONS[pending.kind].description(pending.user.username)}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmPending}
+              className={pending?.kind === "delete" ? "bg-red-600 hover:bg-red-700" : undefined}
+            >
+              {pending && CONFIRMATIONS[pending.kind].action}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
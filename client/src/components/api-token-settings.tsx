@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { useApiTokens } from "@/hooks/use-api-tokens";
+import { useToast } from "@/hooks/use-toast";
+import { apiTokenScopes, type ApiTokenScope, type ApiTokenSummary, type CreatedApiToken } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, ExternalLink, KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+
+const SCOPE_LABELS: Record<ApiTokenScope, { label: string; description: string }> = {
+  "ideas:read": { label: "Read ideas", description: "Ideas, documents, the Lean Canvas and jobs" },
+  "ideas:write": { label: "Write ideas", description: "Create, edit and delete ideas and documents" },
+  "generation:trigger": { label: "Trigger generation", description: "Start and cancel document generation" },
+};
+
+const EXPIRY_OPTIONS: { value: string; label: string; days: number | null }[] = [
+  { value: "30", label: "30 days", days: 30 },
+  { value: "90", label: "90 days", days: 90 },
+  { value: "365", label: "1 year", days: 365 },
+  { value: "never", label: "Never", days: null },
+];
+
+function isExpired(token: ApiTokenSummary) {
+  return !!token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now();
+}
+
+/** Account card for personal access tokens to the public REST API. */
+export function ApiTokenSettings() {
+  const { toast } = useToast();
+  const { tokens, isLoading, createToken, isCreating, revokeToken, revokingId } = useApiTokens();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["ideas:read"]);
+  const [expiry, setExpiry] = useState("90");
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  const openDialog = () => {
+    setName("");
+    setScopes(["ideas:read"]);
+    setExpiry("90");
+    setCreated(null);
+    setIsDialogOpen(true);
+  };
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(s => s !== scope));
+  };
+
+  const handleCreate = async () => {
+    const days = EXPIRY_OPTIONS.find(option => option.value === expiry)?.days ?? null;
+    const token = await createToken({ name: name.trim(), scopes, expiresInDays: days });
+    setCreated(token);
+  };
+
+  const copyToken = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.token);
+    toast({ title: "API token copied" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="h-5 w-5 mr-2 text-primary" />
+          API Tokens
+        </CardTitle>
+        <CardDescription>
+          Personal tokens for scripts and integrations using the REST API. Send one as{" "}
+          <code className="text-xs">Authorization: Bearer &lt;token&gt;</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-neutral-500">You haven't created any API tokens.</p>
+        ) : (
+          <ul className="divide-y divide-neutral-200">
+            {tokens.map(token => (
+              <li key={token.id} className="flex items-start justify-between gap-4 py-3">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2 text-sm font-medium text-neutral-900">
+                    {token.name}
+                    <code className="text-xs font-normal text-neutral-500">{token.tokenPrefix}…</code>
+                    {isExpired(token) && <Badge variant="secondary">Expired</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map(scope => (
+                      <Badge key={scope} variant="outline" className="text-xs font-normal">{SCOPE_LABELS[scope]?.label ?? scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-neutral-500">
+                    Created {format(new Date(token.createdAt), "MMM d, yyyy")}
+                    {" · "}
+                    {token.expiresAt
+                      ? `${isExpired(token) ? "Expired" : "Expires"} ${format(new Date(token.expiresAt), "MMM d, yyyy")}`
+                      : "Never expires"}
+                    {" · "}
+                    {token.lastUsedAt
+                      ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                      : "Never used"}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => revokeToken(token.id)}
+                  disabled={revokingId === token.id}
+                >
+                  {revokingId === token.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={openDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Token
+          </Button>
+          <Button variant="ghost" asChild>
+            <a href="/api/openapi.json" target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="mr-2 h-4 w-4" />
+              API Reference
+            </a>
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{created ? "Copy your new token" : "New API token"}</DialogTitle>
+            <DialogDescription>
+              {created
+                ? "This is the only time the token is shown. Store it somewhere safe, such as a password manager or your CI secrets."
+                : "Choose what the token may do. You can revoke it at any time."}
+            </DialogDescription>
+          </DialogHeader>
+          {created ? (
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-neutral-100 px-2 py-1 font-mono text-xs">{created.token}</code>
+              <Button variant="outline" size="sm" onClick={copyToken}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4 py-2">
+              <div className="grid gap-2">
+                <Label htmlFor="api-token-name">Name</Label>
+                <Input
+                  id="api-token-name"
+                  placeholder="e.g. Nightly export script"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Scopes</Label>
+                {apiTokenScopes.map(scope => (
+                  <label key={scope} className="flex items-start gap-2 text-sm">
+                    <Checkbox
+                      className="mt-0.5"
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    <span>
+                      <span className="font-medium text-neutral-900">{SCOPE_LABELS[scope].label}</span>
+                      <span className="block text-xs text-neutral-500">{SCOPE_LABELS[scope].description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <div className="grid gap-2">
+                <Label>Expires</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            {created ? (
+              <Button onClick={() => setIsDialogOpen(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+                <Button onClick={handleCreate} disabled={isCreating || !name.trim() || scopes.length === 0}>
+                  {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create Token
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import { Fragment, useState } from "react";
+import { format } from "date-fns";
+import { AuditLogQuery, auditLogExportUrl, useAuditLogs } from "@/hooks/use-audit-logs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Download, FileText, Loader2 } from "lucide-react";
+
+const EMPTY_QUERY: AuditLogQuery = { actor: "", action: "", targetType: "", targetId: "", from: "", to: "" };
+
+const FILTER_FIELDS: { key: keyof AuditLogQuery; label: string; placeholder?: string; type?: string }[] = [
+  { key: "actor", label: "Actor", placeholder: "Username or user id" },
+  { key: "action", label: "Action", placeholder: "e.g. admin or idea.delete" },
+  { key: "targetType", label: "Target type", placeholder: "e.g. user, idea, setting" },
+  { key: "targetId", label: "Target id" },
+  { key: "from", label: "From", type: "date" },
+  { key: "to", label: "To", type: "date" },
+];
+
+/** Superadmin view of the audit log with filters, expandable details and export. */
+export function AuditLogViewer() {
+  const [draft, setDraft] = useState<AuditLogQuery>(EMPTY_QUERY);
+  const [query, setQuery] = useState<AuditLogQuery>(EMPTY_QUERY);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const { logs, isLoading, loadMore, hasMore, isLoadingMore } = useAuditLogs(query);
+
+  const toggle = (id: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileText className="h-5 w-5 mr-2 text-primary" />
+          Audit Log
+        </CardTitle>
+        <CardDescription>
+          Security-relevant actions across the platform, newest first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="grid gap-3 sm:grid-cols-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setExpanded(new Set());
+            setQuery(draft);
+          }}
+        >
+          {FILTER_FIELDS.map(field => (
+            <div key={field.key} className="grid gap-1">
+              <Label htmlFor={`audit-${field.key}`} className="text-xs">{field.label}</Label>
+              <Input
+                id={`audit-${field.key}`}
+                type={field.type || "text"}
+                placeholder={field.placeholder}
+                value={draft[field.key]}
+                onChange={(e) => setDraft(current => ({ ...current, [field.key]: e.target.value }))}
+              />
+            </div>
+          ))}
+          <div className="sm:col-span-3 flex flex-wrap items-center justify-between gap-2">
+            <div className="flex gap-2">
+              <Button type="submit" size="sm">Apply Filters</Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => {
+                  setDraft(EMPTY_QUERY);
+                  setQuery(EMPTY_QUERY);
+                }}
+              >
+                Clear
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" variant="outline" asChild>
+                <a href={auditLogExportUrl(query, "csv")} download>
+                  <Download className="mr-2 h-4 w-4" />
+                  CSV
+                </a>
+              </Button>
+              <Button type="button" size="sm" variant="outline" asChild>
+                <a href={auditLogExportUrl(query, "ndjson")} download>
+                  <Download className="mr-2 h-4 w-4" />
+                  NDJSON
+                </a>
+              </Button>
+            </div>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : logs.length === 0 ? (
+          <p className="text-sm text-neutral-500 text-center py-8">No audit entries match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[30px]" />
+                <TableHead>When</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {logs.map(log => {
+                const isOpen = expanded.has(log.id);
+                return (
+                  <Fragment key={log.id}>
+                    <TableRow className="cursor-pointer" onClick={() => toggle(log.id)}>
+                      <TableCell>
+                        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-xs text-neutral-500">
+                        {format(new Date(log.createdAt), "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {log.actorUsername || <span className="text-neutral-400">{log.actorId ? "deleted user" : "system"}</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="font-mono text-xs">{log.action}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-neutral-600">
+                        {log.targetType}
+                        <span className="ml-1 font-mono text-neutral-400">{log.targetId}</span>
+                      </TableCell>
+                    </TableRow>
+                    {isOpen && (
+                      <TableRow className="bg-neutral-50 hover:bg-neutral-50">
+                        <TableCell />
+                        <TableCell colSpan={4} className="space-y-2 text-xs">
+                          <div className="flex flex-wrap gap-x-6 gap-y-1 text-neutral-600">
+                            <span>Actor id: <span className="font-mono">{log.actorId || "—"}</span></span>
+                            <span>IP: <span className="font-mono">{log.ipAddress || "—"}</span></span>
+                          </div>
+                          <pre className="max-h-64 overflow-auto rounded bg-white border border-neutral-200 p-2 font-mono whitespace-pre-wrap break-all">
+                            {log.details ? JSON.stringify(log.details, null, 2) : "No details"}
+                          </pre>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {hasMore && (
+          <div className="flex justify-center">
+            <Button variant="outline" size="sm" onClick={() => loadMore()} disabled={isLoadingMore}>
+              {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Load More
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { pipelineStepLabels, getStagesForSteps, type BatchJob, type PipelineStep } from "@shared/schema";
+import { useBatches, useBatchProgress, isActiveBatchJob, type BatchJobProgress } from "@/hooks/use-batches";
+import { computeProgress } from "@/components/pipeline-progress";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { CheckCircle2, ChevronDown, ChevronUp, Circle, Hammer, Loader2, X, XCircle } from "lucide-react";
+
+/** Progress of one job (0–100); finished jobs count as done so the batch bar reaches 100%. */
+function jobPercent(job: BatchJob, live: BatchJobProgress | undefined): number {
+  if (!isActiveBatchJob(job.status)) return 100;
+  const currentStep = live?.step ?? job.currentStep;
+  if (currentStep == null) return 0;
+  const substep = live?.step != null ? live.substep : job.currentSubstep;
+  const totalSubsteps = live?.step != null ? live.totalSubsteps : job.totalSubsteps;
+  return computeProgress(currentStep, substep, totalSubsteps, job.plannedSteps ? getStagesForSteps(job.plannedSteps) : undefined);
+}
+
+function JobStatusIcon({ status }: { status: string | null }) {
+  switch (status) {
+    case "completed":
+      return <CheckCircle2 className="h-3.5 w-3.5 flex-shrink-0 text-green-600" />;
+    case "failed":
+      return <XCircle className="h-3.5 w-3.5 flex-shrink-0 text-red-500" />;
+    case "cancelled":
+      return <XCircle className="h-3.5 w-3.5 flex-shrink-0 text-neutral-400" />;
+    case "queued":
+      return <Circle className="h-3.5 w-3.5 flex-shrink-0 text-neutral-300" />;
+    default:
+      return <Loader2 className="h-3.5 w-3.5 flex-shrink-0 animate-spin text-primary" />;
+  }
+}
+
+/** Aggregate progress of the user's latest batch, live over each job's socket channel. */
+export function BatchProgress() {
+  const { latestBatch: batch, cancelBatch, isCancelling } = useBatches();
+  const progress = useBatchProgress(batch);
+  const [dismissedBatchId, setDismissedBatchId] = useState<string | null>(null);
+  const [showJobs, setShowJobs] = useState(true);
+
+  if (!batch || batch.jobs.length === 0 || batch.id === dismissedBatchId) {
+    return null;
+  }
+
+  const step = batch.pipelineStep as PipelineStep | null;
+  const percents = batch.jobs.map(job => jobPercent(job, progress[job.id]));
+  const overall = Math.round(percents.reduce((sum, percent) => sum + percent, 0) / percents.length);
+  const countOf = (status: string) => batch.jobs.filter(job => job.status === status).length;
+  const activeCount = batch.jobs.filter(job => isActiveBatchJob(job.status)).length;
+  const counts = [
+    { label: "completed", count: countOf("completed") },
+    { label: "failed", count: countOf("failed") },
+    { label: "cancelled", count: countOf("cancelled") },
+    { label: "running", count: countOf("pending") + countOf("processing") },
+    { label: "queued", count: countOf("queued") },
+  ].filter(({ count }) => count > 0);
+  const title = step
+    ? `Regenerating ${pipelineStepLabels[step]} for ${batch.jobs.length} idea${batch.jobs.length === 1 ? "" : "s"}`
+    : `Forging ${batch.jobs.length} idea${batch.jobs.length === 1 ? "" : "s"}`;
+
+  return (
+    <div className="mb-6 bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-lg p-4">
+      <div className="flex items-center gap-3 mb-3">
+        <Hammer className={`h-6 w-6 flex-shrink-0 text-primary ${activeCount > 0 ? "animate-pulse" : ""}`} />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-neutral-800">
+              {activeCount > 0 ? title : `${title} — finished`}
+            </h4>
+            {activeCount > 0 ? (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="sm" variant="ghost" className="h-7 px-2 text-neutral-500 hover:text-red-600" disabled={isCancelling}>
+                    {isCancelling ? (
+                      <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <XCircle className="mr-1 h-3.5 w-3.5" />
+                    )}
+                    Cancel all
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Cancel the whole batch?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {activeCount} unfinished job{activeCount === 1 ? "" : "s"} will stop. Documents that are already complete will be kept.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Keep Running</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => cancelBatch(batch.id)} className="bg-red-600 hover:bg-red-700">
+                      Cancel Batch
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            ) : (
+              <Button size="sm" variant="ghost" className="h-7 px-2 text-neutral-500" onClick={() => setDismissedBatchId(batch.id)}>
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+          <p className="text-sm text-neutral-600">
+            {counts.map(({ label, count }) => `${count} ${label}`).join(" · ")}
+          </p>
+        </div>
+      </div>
+      <Progress value={overall} className="h-2" />
+      <div className="flex items-center justify-between mt-1">
+        <button
+          onClick={() => setShowJobs(!showJobs)}
+          className="flex items-center text-xs text-neutral-500 hover:text-neutral-700"
+        >
+          {showJobs ? <ChevronUp className="mr-1 h-3 w-3" /> : <ChevronDown className="mr-1 h-3 w-3" />}
+          {showJobs ? "Hide ideas" : "Show ideas"}
+        </button>
+        <p className="text-xs text-neutral-400">{overall}%</p>
+      </div>
+      {showJobs && (
+        <ul className="mt-3 space-y-1 border-t border-amber-200 pt-3">
+          {batch.jobs.map((job, index) => (
+            <li key={job.id} className="flex items-center justify-between gap-3 text-xs">
+              <Link href={`/ideas/${job.ideaId}`} className="flex min-w-0 items-center gap-2 text-neutral-700 hover:text-primary">
+                <JobStatusIcon status={job.status} />
+                <span className="truncate">{job.ideaTitle || "Untitled idea"}</span>
+              </Link>
+              <span
+                className={`flex-shrink-0 ${job.status === "failed" ? "text-red-600" : "text-neutral-400"}`}
+                title={job.status === "failed" ? job.description ?? undefined : undefined}
+              >
+                {job.status === "queued"
+                  ? "Queued"
+                  : isActiveBatchJob(job.status)
+                    ? `${percents[index]}%`
+                    : job.status === "completed" ? "Done" : job.status === "failed" ? "Failed" : "Cancelled"}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
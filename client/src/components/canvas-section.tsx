@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { PencilIcon } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { useLeanCanvas } from "@/hooks/use-lean-canvas";
+import { SectionComments } from "@/components/section-comments";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 
 interface CanvasSectionProps {
@@ -67,14 +68,21 @@ export function CanvasSectionComponent({ ideaId, section, content, isEditing: pa
       <div className="bg-neutral-50 rounded-lg p-4 border border-neutral-200">
         <div className="flex justify-between items-start mb-3">
           <h3 className="font-semibold text-neutral-900">{formatSectionTitle(section)}</h3>
-          {parentEditing && (
-            <Button variant="ghost" size="icon" className="h-6 w-6 text-neutral-400 hover:text-neutral-600" onClick={() => {
-              setEditedContent(content || "");
-              setIsEditDialogOpen(true);
-            }}>
-              <PencilIcon className="h-4 w-4" />
-            </Button>
-          )}
+          <div className="flex items-center gap-1">
+            <SectionComments
+              ideaId={ideaId}
+              anchor={{ canvasSection: section }}
+              title={formatSectionTitle(section)}
+            />
+            {parentEditing && (
+              <Button variant="ghost" size="icon" className="h-6 w-6 text-neutral-400 hover:text-neutral-600" onClick={() => {
+                setEditedContent(content || "");
+                setIsEditDialogOpen(true);
+              }}>
+                <PencilIcon className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
         </div>
         {formatContent(content)}
       </div>
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Document, PipelineStep, pipelineSteps, pipelineStepLabels, resolvePipelineSelection } from "@shared/schema";
+import { useIdeas } from "@/hooks/use-ideas";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Info, ListChecks, Loader2 } from "lucide-react";
+
+interface CustomRunDialogProps {
+  ideaId: string;
+  disabled?: boolean;
+}
+
+/** Pick which pipeline steps a generation run covers, e.g. "canvas + PRD only". */
+export function CustomRunDialog({ ideaId, disabled }: CustomRunDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<PipelineStep[]>([]);
+  const { runSteps, isRunningSteps } = useIdeas();
+
+  const { data: documents } = useQuery<Document[]>({
+    queryKey: [`/api/ideas/${ideaId}/documents`],
+    enabled: open,
+  });
+
+  // Same rule the server applies, so the user sees what will actually run
+  const completedTypes = (documents ?? []).filter(doc => doc.status === "completed").map(doc => doc.documentType);
+  const selection = selected.length > 0 ? resolvePipelineSelection(selected, completedTypes) : null;
+
+  const toggleStep = (step: PipelineStep, checked: boolean) => {
+    setSelected(current => checked ? [...current, step] : current.filter(s => s !== step));
+  };
+
+  const handleRun = async () => {
+    try {
+      await runSteps({ ideaId, steps: selected });
+      setOpen(false);
+      setSelected([]);
+    } catch {
+      // useIdeas already reported the error
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" disabled={disabled}>
+          <ListChecks className="mr-2 h-4 w-4" />
+          Choose Steps
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Choose Steps to Forge</DialogTitle>
+          <DialogDescription>
+            Only the selected steps run, in pipeline order. Documents they produce are regenerated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          {pipelineSteps.map((step) => {
+            const isAdded = selection?.addedSteps.includes(step) ?? false;
+            return (
+              <div key={step} className="flex items-center gap-3">
+                <Checkbox
+                  id={`custom-run-${step}`}
+                  checked={selected.includes(step) || (isAdded ? "indeterminate" : false)}
+                  onCheckedChange={(checked) => toggleStep(step, checked === true)}
+                />
+                <Label htmlFor={`custom-run-${step}`} className="flex-1 font-normal">
+                  {pipelineStepLabels[step]}
+                </Label>
+                {isAdded && <span className="text-xs text-amber-700">required</span>}
+              </div>
+            );
+          })}
+        </div>
+
+        {selection && selection.addedSteps.length > 0 && (
+          <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+            <Info className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+            <span>
+              {selection.addedSteps.map(step => pipelineStepLabels[step]).join(", ")}{" "}
+              {selection.addedSteps.length === 1 ? "hasn't" : "haven't"} been generated yet and will run first,
+              because the chosen steps are built from {selection.addedSteps.length === 1 ? "it" : "them"}.
+            </span>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleRun} disabled={!selection || isRunningSteps}>
+            {isRunningSteps && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {selection ? `Forge ${selection.steps.length} step${selection.steps.length === 1 ? "" : "s"}` : "Forge"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,158 @@
+import { useMemo, useState } from "react";
+import { DocumentVersion } from "@shared/schema";
+import { useDocumentVersions } from "@/hooks/use-document-versions";
+import { diffLines, toSideBySide, type DiffLine } from "@/lib/diff";
+import { formatDate } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { History, Loader2, RotateCcw } from "lucide-react";
+
+interface DocumentVersionHistoryProps {
+  ideaId: string;
+  documentId: string;
+  title: string;
+  current: {
+    content: string | null;
+    contentSections: unknown;
+  };
+  /** Compare the markdown body, or the individual sections (used by the Lean Canvas). */
+  compareBy?: "content" | "sections";
+  onRestored?: () => void;
+}
+
+const CHANGE_REASON_LABELS: Record<string, string> = {
+  manual_edit: "Manual edit",
+  regeneration: "Regeneration",
+  restore: "Before restore",
+};
+
+function formatSectionTitle(key: string) {
+  return key.replace(/([A-Z])/g, " $1").replace(/^./, s => s.toUpperCase()).trim();
+}
+
+function toComparableText(content: string | null, contentSections: unknown, compareBy: "content" | "sections") {
+  const sections = (contentSections as Record<string, string | null> | null) || {};
+  const sectionText = Object.entries(sections)
+    .map(([key, value]) => `## ${formatSectionTitle(key)}\n${value || ""}`)
+    .join("\n\n");
+
+  if (compareBy === "sections") {
+    return sectionText;
+  }
+  return content || sectionText;
+}
+
+const LINE_CLASSES: Record<DiffLine["type"], string> = {
+  equal: "text-neutral-700",
+  removed: "bg-red-50 text-red-800",
+  added: "bg-green-50 text-green-800",
+};
+
+export function DocumentVersionHistory({
+  ideaId,
+  documentId,
+  title,
+  current,
+  compareBy = "content",
+  onRestored,
+}: DocumentVersionHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { versions, isLoading, restoreVersion, isRestoring } = useDocumentVersions(ideaId, open ? documentId : null);
+
+  const selected: DocumentVersion | undefined = versions.find(v => v.id === selectedId) ?? versions[0];
+
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    const before = toComparableText(selected.content, selected.contentSections, compareBy);
+    const after = toComparableText(current.content, current.contentSections, compareBy);
+    return toSideBySide(diffLines(before, after));
+  }, [selected, current.content, current.contentSections, compareBy]);
+
+  const handleRestore = () => {
+    if (!selected) return;
+    restoreVersion(selected.id, {
+      onSuccess: () => {
+        setOpen(false);
+        onRestored?.();
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <History className="mr-2 h-4 w-4" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>{title} History</DialogTitle>
+          <DialogDescription>
+            Compare a previous version with the current document, or restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-neutral-500">
+            No previous versions yet. A version is saved every time this document is edited, regenerated or restored.
+          </p>
+        ) : (
+          <div className="flex gap-4 max-h-[70vh]">
+            <div className="w-56 flex-shrink-0 overflow-y-auto border-r border-neutral-200 pr-3 space-y-1">
+              {versions.map(version => (
+                <button
+                  key={version.id}
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full text-left rounded-md px-3 py-2 text-sm ${selected?.id === version.id ? "bg-primary/10 text-primary" : "hover:bg-neutral-50 text-neutral-700"}`}
+                >
+                  <div className="font-medium">Version {version.versionNumber}</div>
+                  <div className="text-xs text-neutral-500">{formatDate(version.createdAt)}</div>
+                  <Badge variant="outline" className="mt-1">
+                    {CHANGE_REASON_LABELS[version.changeReason] || version.changeReason}
+                  </Badge>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="grid grid-cols-2 gap-2 mb-2 text-xs font-semibold text-neutral-500 uppercase">
+                <div>Version {selected?.versionNumber}</div>
+                <div>Current</div>
+              </div>
+              <div className="flex-1 overflow-y-auto border border-neutral-200 rounded-md font-mono text-xs">
+                {rows.map((row, index) => (
+                  <div key={index} className="grid grid-cols-2 divide-x divide-neutral-200">
+                    <pre className={`whitespace-pre-wrap px-2 py-0.5 ${row.left ? LINE_CLASSES[row.left.type] : "bg-neutral-50"}`}>
+                      {row.left?.text ?? ""}
+                    </pre>
+                    <pre className={`whitespace-pre-wrap px-2 py-0.5 ${row.right ? LINE_CLASSES[row.right.type] : "bg-neutral-50"}`}>
+                      {row.right?.text ?? ""}
+                    </pre>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end mt-3">
+                <Button size="sm" onClick={handleRestore} disabled={!selected || isRestoring}>
+                  {isRestoring ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                  )}
+                  Restore Version {selected?.versionNumber}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,28 @@
+import { formatDistanceToNow } from "date-fns";
+import { useGenerationService } from "@/hooks/use-generation-service";
+import { ServerCrash } from "lucide-react";
+
+/** Shown while anvil-api is unreachable or not configured, instead of letting generation requests fail one by one. */
+export function GenerationServiceBanner() {
+  const { isAvailable, isConfigured, retryAt } = useGenerationService();
+
+  if (isAvailable) return null;
+
+  return (
+    <div className="mb-4 flex items-start gap-3 rounded-lg border border-red-200 bg-red-50 px-4 py-3">
+      <ServerCrash className="mt-0.5 h-5 w-5 shrink-0 text-red-600" />
+      <div className="text-sm text-red-900">
+        <p className="font-medium">Generation service unavailable</p>
+        <p>
+          {!isConfigured
+            ? "Document generation isn't set up on this server. Ask an administrator to configure the generation service."
+            : `The generation service isn't responding, so new generation requests are paused.${
+                retryAt && retryAt.getTime() > Date.now()
+                  ? ` We'll try again ${formatDistanceToNow(retryAt, { addSuffix: true })}.`
+                  : " We'll keep checking."
+              } Your documents are safe.`}
+        </p>
+      </div>
+    </div>
+  );
+}
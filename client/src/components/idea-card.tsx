@@ -1,28 +1,37 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
-import { Idea } from "@shared/schema";
+import { Idea, exportFormats } from "@shared/schema";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { formatDistanceToNow } from "date-fns";
 import { CalendarIcon, MoreHorizontal, ExternalLink, Hammer } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useIdeas } from "@/hooks/use-ideas";
+import { useIdeaExport, EXPORT_FORMAT_LABELS } from "@/hooks/use-idea-export";
 
 interface IdeaCardProps {
   idea: Idea;
   onGenerate: () => void;
+  /** Shows a checkbox for picking the idea for a batch action when set. */
+  selected?: boolean;
+  onSelectChange?: (selected: boolean) => void;
 }
 
-export function IdeaCard({ idea, onGenerate }: IdeaCardProps) {
+export function IdeaCard({ idea, onGenerate, selected, onSelectChange }: IdeaCardProps) {
   const [, navigate] = useLocation();
   const { deleteIdea } = useIdeas();
   const [showDeleteAlert, setShowDeleteAlert] = useState(false);
+  const { exportIdea, isExporting } = useIdeaExport(idea.id);
 
   const formatTimeAgo = (date: string | Date) => {
     try {
@@ -64,14 +73,24 @@ export function IdeaCard({ idea, onGenerate }: IdeaCardProps) {
   return (
     <>
       <Card
-        className="border border-neutral-200 shadow-sm overflow-hidden hover:shadow-md transition duration-200 cursor-pointer"
+        className={`border shadow-sm overflow-hidden hover:shadow-md transition duration-200 cursor-pointer ${selected ? "border-primary ring-1 ring-primary" : "border-neutral-200"}`}
         onClick={handleCardClick}
       >
         <CardContent className="p-5">
           <div className="flex items-center justify-between mb-3">
-            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusClasses(idea.status)}`}>
-              {idea.status}
-            </span>
+            <div className="flex items-center gap-2">
+              {onSelectChange && (
+                <Checkbox
+                  checked={!!selected}
+                  onCheckedChange={(checked) => onSelectChange(checked === true)}
+                  onClick={(e) => e.stopPropagation()}
+                  aria-label={`Select ${idea.title || "idea"}`}
+                />
+              )}
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusClasses(idea.status)}`}>
+                {idea.status}
+              </span>
+            </div>
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button
@@ -88,6 +107,20 @@ export function IdeaCard({ idea, onGenerate }: IdeaCardProps) {
                 {idea.status === 'Draft' && (
                   <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onGenerate(); }}>Start Forging</DropdownMenuItem>
                 )}
+                {idea.status !== 'Draft' && (
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger disabled={isExporting} onClick={(e) => e.stopPropagation()}>
+                      {isExporting ? "Exporting..." : "Export"}
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {exportFormats.map(format => (
+                        <DropdownMenuItem key={format} onClick={(e) => { e.stopPropagation(); exportIdea(format); }}>
+                          {EXPORT_FORMAT_LABELS[format]}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                )}
                 <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setShowDeleteAlert(true); }} className="text-red-600">
                   Delete
                 </DropdownMenuItem>
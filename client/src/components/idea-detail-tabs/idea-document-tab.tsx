@@ -8,6 +8,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, RefreshCw, Copy, FileText, Hammer, Flame, AlertTriangle, RotateCcw } from "lucide-react";
 import { formatDate, copyHtmlToClipboard } from "@/lib/utils";
+import { DocumentVersionHistory } from "@/components/document-version-history";
+import { SectionComments } from "@/components/section-comments";
 import { DocumentType } from "@shared/schema";
 
 interface IdeaDocumentTabProps {
@@ -153,12 +155,20 @@ export function IdeaDocumentTab({ ideaId, documentType }: IdeaDocumentTabProps)
                             </DialogContent>
                         </Dialog>
 
+                        <DocumentVersionHistory
+                            ideaId={ideaId}
+                            documentId={document.id}
+                            title={formatDocumentType(documentType)}
+                            current={{ content: document.content, contentSections: document.contentSections }}
+                            onRestored={fetchDocument}
+                        />
+
                         <Button
                             size="sm"
                             variant="outline"
                             onClick={() => {
                                 if (stepName) {
-                                    regenerateStep({ ideaId, step: stepName });
+                                    regenerateStep({ ideaId, step: stepName, notes: tabNotes });
                                 }
                             }}
                             disabled={documentGenerating || isRegeneratingStep}
@@ -256,7 +266,14 @@ export function IdeaDocumentTab({ ideaId, documentType }: IdeaDocumentTabProps)
                             {Object.entries(sections).map(([key, value]) => (
                                 value && (
                                     <div key={key} className="bg-neutral-50 rounded-lg p-4 border border-neutral-200">
-                                        <h3 className="font-semibold text-neutral-900 mb-3">{formatSectionTitle(key)}</h3>
+                                        <div className="flex justify-between items-start mb-3">
+                                            <h3 className="font-semibold text-neutral-900">{formatSectionTitle(key)}</h3>
+                                            <SectionComments
+                                                ideaId={ideaId}
+                                                anchor={{ documentId: document.id, sectionKey: key }}
+                                                title={formatSectionTitle(key)}
+                                            />
+                                        </div>
                                         <div className="text-sm text-neutral-700 prose prose-sm max-w-none">
                                             <ReactMarkdown>{value}</ReactMarkdown>
                                         </div>
@@ -8,6 +8,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, RefreshCw, Copy, Download, Sparkles, Flame, Hammer, AlertTriangle, RotateCcw } from "lucide-react";
 import { CanvasSectionComponent } from "@/components/canvas-section";
+import { DocumentVersionHistory } from "@/components/document-version-history";
 import { jsonToCSV, downloadCSV, copyHtmlToClipboard } from "@/lib/utils";
 
 interface LeanCanvasTabProps {
@@ -32,7 +33,7 @@ export function LeanCanvasTab({ ideaId }: LeanCanvasTabProps) {
     const hasContent = !!canvas?.content;
 
     const handleRegenerateLeanCanvasClick = () => {
-        regenerateStep({ ideaId, step: "lean_canvas" });
+        regenerateStep({ ideaId, step: "lean_canvas", notes: canvasNotes });
         setCanvasNotes('');
     };
 
@@ -126,6 +127,29 @@ export function LeanCanvasTab({ ideaId }: LeanCanvasTabProps) {
                         Copy
                     </Button>
 
+                    {canvas && (
+                        <DocumentVersionHistory
+                            ideaId={ideaId}
+                            documentId={canvas.id}
+                            title="Lean Canvas"
+                            compareBy="sections"
+                            current={{
+                                content: canvas.content,
+                                contentSections: {
+                                    problem: canvas.problem,
+                                    customerSegments: canvas.customerSegments,
+                                    uniqueValueProposition: canvas.uniqueValueProposition,
+                                    solution: canvas.solution,
+                                    channels: canvas.channels,
+                                    revenueStreams: canvas.revenueStreams,
+                                    costStructure: canvas.costStructure,
+                                    keyMetrics: canvas.keyMetrics,
+                                    unfairAdvantage: canvas.unfairAdvantage,
+                                },
+                            }}
+                        />
+                    )}
+
                     <Dialog>
                         <DialogTrigger asChild>
                             <Button
@@ -0,0 +1,40 @@
+import { exportFormats } from "@shared/schema";
+import { useIdeaExport, EXPORT_FORMAT_LABELS } from "@/hooks/use-idea-export";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Loader2 } from "lucide-react";
+
+interface IdeaExportMenuProps {
+  ideaId: string;
+}
+
+export function IdeaExportMenu({ ideaId }: IdeaExportMenuProps) {
+  const { exportIdea, isExporting } = useIdeaExport(ideaId);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" disabled={isExporting}>
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {exportFormats.map(format => (
+          <DropdownMenuItem key={format} onClick={() => exportIdea(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
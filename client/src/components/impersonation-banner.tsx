@@ -0,0 +1,32 @@
+import { useAuth } from "@/hooks/use-auth";
+import { useImpersonation } from "@/hooks/use-admin-users";
+import { Button } from "@/components/ui/button";
+import { Loader2, UserCog } from "lucide-react";
+
+/** Pinned above every page while a superadmin is signed in as someone else. */
+export function ImpersonationBanner() {
+  const { user } = useAuth();
+  const { impersonator, stopImpersonating, isStopping } = useImpersonation(!!user);
+
+  if (!user || !impersonator) return null;
+
+  return (
+    <div className="sticky top-0 z-50 flex items-center justify-center gap-3 bg-red-600 px-4 py-2 text-sm text-white">
+      <UserCog className="h-4 w-4 shrink-0" />
+      <span>
+        You are signed in as <strong>{user.username}</strong> on behalf of {impersonator.username}.
+        Everything you do is recorded against this account.
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 border-white bg-transparent text-white hover:bg-white hover:text-red-700"
+        onClick={() => stopImpersonating()}
+        disabled={isStopping}
+      >
+        {isStopping && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+        Return to {impersonator.username}
+      </Button>
+    </div>
+  );
+}
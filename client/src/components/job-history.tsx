@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Job } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ListChecks, Loader2 } from "lucide-react";
+
+interface JobHistoryProps {
+  ideaId: string;
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  completed: "default",
+  failed: "destructive",
+  cancelled: "secondary",
+};
+
+/** Past generation runs for an idea, with the guidance notes each one was started with. */
+export function JobHistory({ ideaId }: JobHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const { data: jobs, isLoading } = useQuery<Job[]>({
+    queryKey: [`/api/ideas/${ideaId}/jobs`],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ListChecks className="mr-2 h-4 w-4" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Generation History</DialogTitle>
+          <DialogDescription>
+            Every generation and regeneration run for this idea, with the instructions it was given.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-3">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !jobs || jobs.length === 0 ? (
+            <p className="text-sm text-neutral-500 text-center py-8">No generation runs yet.</p>
+          ) : (
+            jobs.map(job => (
+              <div key={job.id} className="rounded-lg border border-neutral-200 p-3 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <p className="text-sm font-medium text-neutral-900">{job.description || "Generation run"}</p>
+                  <Badge variant={STATUS_VARIANTS[job.status || ""] || "outline"} className="capitalize shrink-0">
+                    {job.status || "pending"}
+                  </Badge>
+                </div>
+                <p className="text-xs text-neutral-500">{format(new Date(job.createdAt), "MMM d, yyyy h:mm a")}</p>
+                {job.guidanceNotes ? (
+                  <blockquote className="border-l-2 border-primary pl-3 text-sm text-neutral-700 whitespace-pre-wrap">
+                    {job.guidanceNotes}
+                  </blockquote>
+                ) : (
+                  <p className="text-xs italic text-neutral-400">No guidance notes</p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
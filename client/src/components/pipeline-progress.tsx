@@ -1,49 +1,63 @@
 import { useEffect, useState, useCallback } from "react";
 import { useJobSocket } from "@/hooks/use-job-socket";
-import { queryClient } from "@/lib/queryClient";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { pipelineStages, getStagesForSteps, type JobWithTimeline, type JobStepTiming } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Progress } from "@/components/ui/progress";
-import { Flame, Hammer } from "lucide-react";
-
-const PIPELINE_STEPS = [
-  { name: "Lean Canvas", substeps: 9 },
-  { name: "Project Requirements", substeps: 13 },
-  { name: "Business Requirements", substeps: 13 },
-  { name: "Functional Requirements", substeps: 32 },
-  { name: "Workflow Vectorizer", substeps: 10 },
-  { name: "Workflow Interrogation", substeps: 27 },
-  { name: "Workflow Parsing", substeps: 10 },
-  { name: "Mermaid", substeps: 10 },
-  { name: "Vibe Coder", substeps: 29 },
-  { name: "Estimate", substeps: 10 },
-] as const;
-
-const TOTAL_SUBSTEPS = PIPELINE_STEPS.reduce((sum, s) => sum + s.substeps, 0);
-
-/** Compute weighted progress (0–100), interpolating within a step using substep data. */
-function computeProgress(step: number, substep?: number | null, totalSubsteps?: number | null): number {
+import { Button } from "@/components/ui/button";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { CheckCircle2, ChevronDown, ChevronUp, Circle, Flame, Hammer, Loader2, XCircle } from "lucide-react";
+
+const PIPELINE_STEPS = pipelineStages;
+
+const ALL_STAGES = PIPELINE_STEPS.map((_, index) => index + 1);
+
+function stageWeight(stage: number): number {
+  return PIPELINE_STEPS[stage - 1]?.substeps ?? 0;
+}
+
+/**
+ * Compute weighted progress (0–100), interpolating within a step using substep data.
+ * Pass `stages` when the job only runs part of the pipeline, e.g. a single step.
+ */
+export function computeProgress(
+  step: number,
+  substep?: number | null,
+  totalSubsteps?: number | null,
+  stages: readonly number[] = ALL_STAGES,
+): number {
   if (step <= 0) return 0;
-  if (step > PIPELINE_STEPS.length) return 100;
+  const totalWeight = stages.reduce((sum, stage) => sum + stageWeight(stage), 0);
+  if (totalWeight === 0) return 0;
 
   // Sum weights of fully completed steps (before current step)
-  let completedWeight = 0;
-  for (let i = 0; i < step - 1; i++) {
-    completedWeight += PIPELINE_STEPS[i].substeps;
-  }
+  let completedWeight = stages
+    .filter(stage => stage < step)
+    .reduce((sum, stage) => sum + stageWeight(stage), 0);
 
   // Interpolate within current step if substep data is available
-  const currentStepWeight = PIPELINE_STEPS[step - 1].substeps;
-  let fraction = 0;
-  if (substep != null && totalSubsteps != null && totalSubsteps > 0) {
-    fraction = Math.min(substep / totalSubsteps, 1);
+  if (stages.includes(step) && substep != null && totalSubsteps != null && totalSubsteps > 0) {
+    completedWeight += stageWeight(step) * Math.min(substep / totalSubsteps, 1);
   }
 
-  return Math.round(((completedWeight + currentStepWeight * fraction) / TOTAL_SUBSTEPS) * 100);
+  return Math.round((completedWeight / totalWeight) * 100);
 }
 
-/** Parse step number from description like "Starting PRD (2/10)" or "BRD complete. Starting FRD (4/10)". */
-function parseStepFromDescription(description: string): number | null {
-  const match = description.match(/\((\d+)\/10\)/);
-  return match ? parseInt(match[1], 10) : null;
+function formatDuration(startedAt: string, finishedAt: string | null): string {
+  const ms = (finishedAt ? new Date(finishedAt).getTime() : Date.now()) - new Date(startedAt).getTime();
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/** Latest timing recorded for each stage, keyed by 1-based step number. */
+function latestTimingByStep(timings: JobStepTiming[] | null | undefined): Map<number, JobStepTiming> {
+  const byStep = new Map<number, JobStepTiming>();
+  for (const timing of timings ?? []) {
+    byStep.set(timing.step, timing);
+  }
+  return byStep;
 }
 
 interface PipelineProgressProps {
@@ -53,6 +67,9 @@ interface PipelineProgressProps {
 export function PipelineProgress({ ideaId }: PipelineProgressProps) {
   const [jobId, setJobId] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string>("Starting pipeline...");
+  const [isCancelled, setIsCancelled] = useState(false);
+  const [showLog, setShowLog] = useState(false);
+  const { toast } = useToast();
 
   // Fetch the current active job for this idea
   const fetchCurrentJob = useCallback(async () => {
@@ -76,16 +93,49 @@ export function PipelineProgress({ ideaId }: PipelineProgressProps) {
     fetchCurrentJob();
   }, [fetchCurrentJob]);
 
+  // Persisted progress and step timings, so a refresh restores the exact position
+  const { data: jobTimeline, refetch: refetchTimeline } = useQuery<JobWithTimeline>({
+    queryKey: [`/api/jobs/${jobId}`],
+    enabled: !!jobId,
+  });
+
   // Subscribe to real-time socket events for this job
   const { message, eventType, step, substep, totalSubsteps } = useJobSocket({
     jobId,
     onDone: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}`] });
       queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}/canvas`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}/documents`] });
     },
     onError: (msg) => {
       setStatusMessage(msg || "Generation failed");
     },
+    onCancelled: () => {
+      setIsCancelled(true);
+      queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}`] });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/jobs/${jobId}/cancel`);
+      return res.json();
+    },
+    onSuccess: () => {
+      setIsCancelled(true);
+      queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}`] });
+      toast({
+        title: "Generation cancelled",
+        description: "Documents completed so far have been kept.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel generation",
+        variant: "destructive",
+      });
+    },
   });
 
   // Update status message when socket events arrive
@@ -95,13 +145,35 @@ export function PipelineProgress({ ideaId }: PipelineProgressProps) {
     }
   }, [message]);
 
-  if (eventType === "done" || eventType === "error") {
+  // A new step opens a new timing entry on the server
+  useEffect(() => {
+    if (jobId && step != null) {
+      refetchTimeline();
+    }
+  }, [jobId, step, refetchTimeline]);
+
+  // Status events mean the job moved in the queue or left it
+  useEffect(() => {
+    if (jobId && eventType === "status") {
+      refetchTimeline();
+    }
+  }, [jobId, eventType, message, refetchTimeline]);
+
+  if (isCancelled || eventType === "done" || eventType === "error" || eventType === "cancelled") {
     return null;
   }
 
-  const currentStep = step ?? parseStepFromDescription(statusMessage) ?? 1;
-  const progressPercent = computeProgress(currentStep, substep, totalSubsteps);
+  // Custom runs and step regenerations only go through the stages of their steps
+  const plannedStages = jobTimeline?.plannedSteps ? getStagesForSteps(jobTimeline.plannedSteps) : ALL_STAGES;
+  // Socket events win; fall back to the progress persisted on the job
+  const currentStep = step ?? jobTimeline?.currentStep ?? plannedStages[0];
+  const currentSubstep = step != null ? substep : jobTimeline?.currentSubstep;
+  const currentTotalSubsteps = step != null ? totalSubsteps : jobTimeline?.totalSubsteps;
+  const progressPercent = computeProgress(currentStep, currentSubstep, currentTotalSubsteps, plannedStages);
+  const stagePosition = Math.max(plannedStages.indexOf(currentStep), 0) + 1;
   const stepName = PIPELINE_STEPS[currentStep - 1]?.name ?? "Processing";
+  const timings = latestTimingByStep(jobTimeline?.stepTimings);
+  const queuePosition = jobTimeline?.status === "queued" ? jobTimeline.queuePosition : null;
 
   return (
     <div className="mb-4 bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-lg p-4">
@@ -117,19 +189,90 @@ export function PipelineProgress({ ideaId }: PipelineProgressProps) {
         <div className="min-w-0 flex-1">
           <div className="flex items-center justify-between">
             <h4 className="text-sm font-semibold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
-              Pipeline In Progress
+              {queuePosition != null ? "Waiting in Queue" : "Pipeline In Progress"}
             </h4>
-            <span className="text-xs text-neutral-500">
-              Step {currentStep}/{PIPELINE_STEPS.length}
-            </span>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-neutral-500">
+                {queuePosition != null ? `Position ${queuePosition}` : `Step ${stagePosition}/${plannedStages.length}`}
+              </span>
+              {jobId && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="ghost" className="h-7 px-2 text-neutral-500 hover:text-red-600" disabled={cancelMutation.isPending}>
+                      {cancelMutation.isPending ? (
+                        <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <XCircle className="mr-1 h-3.5 w-3.5" />
+                      )}
+                      Cancel
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Cancel generation?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The pipeline will stop after its current step. Documents that are already complete will be kept.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Keep Running</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => cancelMutation.mutate()} className="bg-red-600 hover:bg-red-700">
+                        Cancel Generation
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
           </div>
           <p className="text-sm text-neutral-600 truncate">
-            {stepName} — {statusMessage}
+            {queuePosition != null
+              ? `${queuePosition === 1 ? "Next in line" : `${queuePosition - 1} ahead of you`} — generation starts automatically when a slot frees up`
+              : `${stepName} — ${statusMessage}`}
           </p>
         </div>
       </div>
       <Progress value={progressPercent} className="h-2" />
-      <p className="text-xs text-neutral-400 mt-1 text-right">{progressPercent}%</p>
+      <div className="flex items-center justify-between mt-1">
+        <button
+          onClick={() => setShowLog(!showLog)}
+          className="flex items-center text-xs text-neutral-500 hover:text-neutral-700"
+        >
+          {showLog ? <ChevronUp className="mr-1 h-3 w-3" /> : <ChevronDown className="mr-1 h-3 w-3" />}
+          {showLog ? "Hide steps" : "Show steps"}
+        </button>
+        <p className="text-xs text-neutral-400">{progressPercent}%</p>
+      </div>
+      {showLog && (
+        <ol className="mt-3 space-y-1 border-t border-amber-200 pt-3">
+          {plannedStages.map((stageStep) => {
+            const stage = PIPELINE_STEPS[stageStep - 1];
+            const timing = timings.get(stageStep);
+            const isCurrent = stageStep === currentStep;
+            const isDone = !!timing?.finishedAt || stageStep < currentStep;
+            return (
+              <li key={stage.name} className="flex items-center justify-between text-xs">
+                <span className={`flex items-center gap-2 ${isCurrent ? "font-medium text-neutral-800" : "text-neutral-500"}`}>
+                  {isCurrent ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" />
+                  ) : isDone ? (
+                    <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+                  ) : (
+                    <Circle className="h-3.5 w-3.5 text-neutral-300" />
+                  )}
+                  {stage.name}
+                  {isCurrent && currentSubstep != null && currentTotalSubsteps != null && (
+                    <span className="text-neutral-400">({currentSubstep}/{currentTotalSubsteps})</span>
+                  )}
+                </span>
+                {timing && (
+                  <span className="text-neutral-400">{formatDuration(timing.startedAt, timing.finishedAt)}</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
     </div>
   );
 }
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CommentAnchor, CommentThread, CommentWithAuthor, IdeaWithAccess } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useCommentCounts, useCommentThreads } from "@/hooks/use-comments";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { CheckCircle2, Loader2, MessageSquare, Pencil, RotateCcw, Trash2 } from "lucide-react";
+
+interface SectionCommentsProps {
+  ideaId: string;
+  anchor: CommentAnchor;
+  title: string;
+}
+
+/** Render a comment body with @mentions highlighted. */
+function CommentBody({ body }: { body: string }) {
+  const parts = body.split(/(@[\w.-]+)/g);
+  return (
+    <p className="text-sm text-neutral-700 whitespace-pre-wrap break-words">
+      {parts.map((part, index) =>
+        part.startsWith("@")
+          ? <span key={index} className="font-medium text-primary">{part}</span>
+          : part
+      )}
+    </p>
+  );
+}
+
+interface CommentItemProps {
+  comment: CommentWithAuthor;
+  isOwn: boolean;
+  canDelete: boolean;
+  onEdit: (body: string) => Promise<void>;
+  onDelete: () => void;
+}
+
+function CommentItem({ comment, isOwn, canDelete, onEdit, onDelete }: CommentItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.body);
+
+  const saveEdit = async () => {
+    await onEdit(draft.trim());
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="group space-y-1">
+      <div className="flex items-center gap-2 text-xs text-neutral-500">
+        <span className="font-semibold text-neutral-900">{comment.username}</span>
+        <span>{format(new Date(comment.createdAt), "MMM d, h:mm a")}</span>
+        <div className="ml-auto flex opacity-0 group-hover:opacity-100 transition-opacity">
+          {isOwn && !isEditing && (
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => { setDraft(comment.body); setIsEditing(true); }}>
+              <Pencil className="h-3 w-3" />
+            </Button>
+          )}
+          {canDelete && (
+            <Button variant="ghost" size="icon" className="h-6 w-6 text-red-500 hover:text-red-600" onClick={onDelete}>
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      {isEditing ? (
+        <div className="space-y-2">
+          <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={3} className="resize-none text-sm" />
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" onClick={() => setIsEditing(false)}>Cancel</Button>
+            <Button size="sm" onClick={saveEdit} disabled={!draft.trim()}>Save</Button>
+          </div>
+        </div>
+      ) : (
+        <CommentBody body={comment.body} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Comment count badge for a document section or canvas box that opens the
+ * section's discussion threads in a side panel.
+ */
+export function SectionComments({ ideaId, anchor, title }: SectionCommentsProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [newComment, setNewComment] = useState("");
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const { countFor } = useCommentCounts(ideaId);
+  const { threads, isLoading, addComment, isPosting, editComment, setResolved, deleteComment } =
+    useCommentThreads(ideaId, anchor, open);
+
+  // Already cached by the idea page; used to decide which moderation actions to offer
+  const { data: idea } = useQuery<IdeaWithAccess>({
+    queryKey: [`/api/ideas/${ideaId}`],
+    enabled: open,
+  });
+  const isOwner = idea?.accessRole === "owner";
+  const canResolveAny = idea?.accessRole === "owner" || idea?.accessRole === "editor";
+
+  const { total, unresolved } = countFor(anchor);
+
+  const postComment = async () => {
+    await addComment({ body: newComment.trim() });
+    setNewComment("");
+  };
+
+  const postReply = async (thread: CommentThread) => {
+    await addComment({ body: (replyDrafts[thread.id] || "").trim(), parentId: thread.id });
+    setReplyDrafts(drafts => ({ ...drafts, [thread.id]: "" }));
+  };
+
+  const itemProps = (comment: CommentWithAuthor) => ({
+    comment,
+    isOwn: comment.userId === user?.id,
+    canDelete: comment.userId === user?.id || isOwner,
+    onEdit: async (body: string) => { await editComment({ commentId: comment.id, body }); },
+    onDelete: () => deleteComment(comment.id),
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 px-1.5 gap-1 ${unresolved > 0 ? "text-primary" : "text-neutral-400 hover:text-neutral-600"}`}
+          title={total > 0 ? `${unresolved} open of ${total} comments` : "Add a comment"}
+        >
+          <MessageSquare className="h-4 w-4" />
+          {total > 0 && <span className="text-xs font-medium">{unresolved > 0 ? unresolved : total}</span>}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Comments: {title}</SheetTitle>
+          <SheetDescription>
+            Discuss this section with your team. Use @username to mention someone.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-2 py-4 border-b border-neutral-200">
+          <Textarea
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            placeholder="Start a new thread..."
+            rows={3}
+            className="resize-none"
+          />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={postComment} disabled={!newComment.trim() || isPosting}>
+              {isPosting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Comment
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 py-4">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : threads.length === 0 ? (
+            <p className="text-sm text-neutral-500 text-center py-8">No comments on this section yet.</p>
+          ) : (
+            threads.map(thread => {
+              const canResolve = canResolveAny || thread.userId === user?.id;
+              return (
+                <div
+                  key={thread.id}
+                  className={`rounded-lg border border-neutral-200 p-3 space-y-3 ${thread.resolvedAt ? "bg-neutral-50 opacity-75" : "bg-white"}`}
+                >
+                  {thread.resolvedAt && (
+                    <Badge variant="secondary" className="gap-1">
+                      <CheckCircle2 className="h-3 w-3" />
+                      Resolved
+                    </Badge>
+                  )}
+                  <CommentItem {...itemProps(thread)} />
+
+                  {thread.replies.length > 0 && (
+                    <div className="pl-4 border-l-2 border-neutral-100 space-y-3">
+                      {thread.replies.map(reply => (
+                        <CommentItem key={reply.id} {...itemProps(reply)} />
+                      ))}
+                    </div>
+                  )}
+
+                  {!thread.resolvedAt && (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={replyDrafts[thread.id] || ""}
+                        onChange={(e) => setReplyDrafts(drafts => ({ ...drafts, [thread.id]: e.target.value }))}
+                        placeholder="Reply..."
+                        rows={2}
+                        className="resize-none text-sm"
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex justify-end gap-2">
+                    {canResolve && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setResolved({ commentId: thread.id, resolved: !thread.resolvedAt })}
+                      >
+                        {thread.resolvedAt ? (
+                          <><RotateCcw className="mr-1 h-3 w-3" /> Reopen</>
+                        ) : (
+                          <><CheckCircle2 className="mr-1 h-3 w-3" /> Resolve</>
+                        )}
+                      </Button>
+                    )}
+                    {!thread.resolvedAt && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => postReply(thread)}
+                        disabled={!(replyDrafts[thread.id] || "").trim() || isPosting}
+                      >
+                        Reply
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,108 @@
+import { formatDistanceToNow, format } from "date-fns";
+import { useSessions } from "@/hooks/use-sessions";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+/** Turn a user agent string into something like "Chrome on macOS". */
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !platform) return userAgent.slice(0, 60);
+  return [browser || "Unknown browser", platform].filter(Boolean).join(" on ");
+}
+
+/** The signed-in user's sessions, each of which can be signed out remotely. */
+export function SessionList() {
+  const { sessions, isLoading, revokeSession, revokingId, revokeOtherSessions, isRevokingOthers } = useSessions();
+  const hasOthers = sessions.some(session => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Monitor className="h-5 w-5 mr-2 text-primary" />
+          Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices and browsers signed in to your account. Sign out any you don't recognise.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ul className="divide-y divide-neutral-200">
+            {sessions.map(session => {
+              const isMobile = !!session.userAgent && /Mobile|Android|iPhone/.test(session.userAgent);
+              const DeviceIcon = isMobile ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="flex items-start justify-between gap-4 py-3">
+                  <div className="flex items-start gap-3">
+                    <DeviceIcon className="h-5 w-5 mt-0.5 text-neutral-400" />
+                    <div className="space-y-0.5">
+                      <div className="flex items-center gap-2 text-sm font-medium text-neutral-900">
+                        {describeUserAgent(session.userAgent)}
+                        {session.current && (
+                          <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">This device</Badge>
+                        )}
+                        {session.impersonated && <Badge variant="secondary">Superadmin</Badge>}
+                      </div>
+                      <p className="text-xs text-neutral-500">
+                        {session.ipAddress || "Unknown IP"}
+                        {session.lastSeenAt && <> · Active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}</>}
+                      </p>
+                      {session.createdAt && (
+                        <p className="text-xs text-neutral-400">
+                          Signed in {format(new Date(session.createdAt), "MMM d, yyyy h:mm a")}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeSession(session.id)}
+                      disabled={revokingId === session.id}
+                    >
+                      {revokingId === session.id
+                        ? <Loader2 className="h-4 w-4 animate-spin" />
+                        : "Sign Out"}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {hasOthers && (
+          <Button variant="outline" onClick={() => revokeOtherSessions()} disabled={isRevokingOthers}>
+            {isRevokingOthers ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+            Sign Out All Other Sessions
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
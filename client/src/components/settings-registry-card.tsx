@@ -0,0 +1,104 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useSettings } from "@/hooks/use-settings";
+import type { SettingDefinition, SettingScope } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Save } from "lucide-react";
+
+interface SettingControlProps {
+  definition: SettingDefinition;
+  value: unknown;
+  isSaving: boolean;
+  onSave: (value: boolean | string) => void;
+}
+
+function SettingControl({ definition, value, isSaving, onSave }: SettingControlProps) {
+  const [draft, setDraft] = useState(String(value ?? ""));
+  const id = `setting-${definition.key}`;
+
+  useEffect(() => {
+    setDraft(String(value ?? ""));
+  }, [value]);
+
+  if (definition.type === "boolean") {
+    return (
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor={id}>{definition.label}</Label>
+          <p className="text-sm text-neutral-500">{definition.description}</p>
+        </div>
+        <Switch
+          id={id}
+          checked={value === true}
+          onCheckedChange={onSave}
+          disabled={isSaving}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>{definition.label}</Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          placeholder={definition.placeholder}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <Button onClick={() => onSave(draft.trim())} disabled={isSaving || draft.trim() === String(value ?? "")}>
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          <span className="ml-2">Save</span>
+        </Button>
+      </div>
+      <p className="text-sm text-neutral-500">{definition.description}</p>
+    </div>
+  );
+}
+
+interface SettingsRegistryCardProps {
+  scope: SettingScope;
+  title: string;
+  description: string;
+  icon?: ReactNode;
+}
+
+/** A card with a control for each registered setting of `scope` the user may change. */
+export function SettingsRegistryCard({ scope, title, description, icon }: SettingsRegistryCardProps) {
+  const { definitions, values, isLoading, updateSetting, savingKey } = useSettings(scope);
+
+  if (definitions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          {icon}
+          {title}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          definitions.map(definition => (
+            <SettingControl
+              key={definition.key}
+              definition={definition}
+              value={values[definition.key] ?? definition.defaultValue}
+              isSaving={savingKey === definition.key}
+              onSave={(value) => updateSetting({ key: definition.key, value })}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
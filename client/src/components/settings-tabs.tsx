@@ -1,7 +1,9 @@
-import { useState } from "react";
+import React, { useState } from "react";
 
 interface SettingsTabsProps {
   children: React.ReactNode;
+  // Shows the superadmin-only Users tab
+  isSuperadmin?: boolean;
 }
 
 interface TabContentProps {
@@ -10,7 +12,7 @@ interface TabContentProps {
   children: React.ReactNode;
 }
 
-export function SettingsTabs({ children }: SettingsTabsProps) {
+export function SettingsTabs({ children, isSuperadmin = false }: SettingsTabsProps) {
   const [activeTab, setActiveTab] = useState("email");
   
   return (
@@ -38,6 +40,15 @@ export function SettingsTabs({ children }: SettingsTabsProps) {
           >
             Notifications
           </TabButton>
+          {isSuperadmin && (
+            <TabButton
+              id="users"
+              activeTab={activeTab}
+              onClick={() => setActiveTab("users")}
+            >
+              Users
+            </TabButton>
+          )}
         </div>
       </div>
       
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Document, ShareLinkSummary } from "@shared/schema";
+import { useShareLinks } from "@/hooks/use-share-links";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Link2, Loader2, Lock, Share2, Trash2 } from "lucide-react";
+
+interface ShareDialogProps {
+  ideaId: string;
+}
+
+const WHOLE_IDEA = "all";
+
+const EXPIRY_OPTIONS: { value: string; label: string; days: number | null }[] = [
+  { value: "never", label: "Never", days: null },
+  { value: "1", label: "1 day", days: 1 },
+  { value: "7", label: "7 days", days: 7 },
+  { value: "30", label: "30 days", days: 30 },
+];
+
+function formatDocumentType(type: string) {
+  return type.replace(/([A-Z])/g, " $1").trim();
+}
+
+function linkStatus(link: ShareLinkSummary): { label: string; variant: "default" | "secondary" | "destructive" | "outline" } {
+  if (link.revokedAt) return { label: "Revoked", variant: "destructive" };
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now()) return { label: "Expired", variant: "secondary" };
+  return { label: "Active", variant: "outline" };
+}
+
+export function ShareDialog({ ideaId }: ShareDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [scope, setScope] = useState(WHOLE_IDEA);
+  const [expiry, setExpiry] = useState("never");
+  const [password, setPassword] = useState("");
+  const { links, isLoading, createLink, isCreating, revokeLink, isRevoking } = useShareLinks(ideaId, open);
+
+  const { data: documents } = useQuery<Document[]>({
+    queryKey: [`/api/ideas/${ideaId}/documents`],
+    enabled: open,
+  });
+  const shareableDocuments = (documents || []).filter(doc => doc.content || doc.contentSections);
+  const documentTypeById = new Map(shareableDocuments.map(doc => [doc.id, doc.documentType]));
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied", description: "The share link is on your clipboard." });
+    } catch {
+      toast({ title: "Copy failed", description: url, variant: "destructive" });
+    }
+  };
+
+  const handleCreate = async () => {
+    const days = EXPIRY_OPTIONS.find(option => option.value === expiry)?.days ?? null;
+    const link = await createLink({
+      documentId: scope === WHOLE_IDEA ? null : scope,
+      expiresAt: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null,
+      password: password || null,
+    });
+    setPassword("");
+    copyLink(link.url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Share2 className="mr-2 h-4 w-4" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Share Read-Only Link</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view the selected documents without an account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label>What to share</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WHOLE_IDEA}>All documents</SelectItem>
+                {shareableDocuments.map(doc => (
+                  <SelectItem key={doc.id} value={doc.id}>{formatDocumentType(doc.documentType)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="share-password">Password (optional)</Label>
+            <Input
+              id="share-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="At least 4 characters"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleCreate} disabled={isCreating || (password.length > 0 && password.length < 4)}>
+            {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+            Create Link
+          </Button>
+        </div>
+
+        <div className="border-t border-neutral-200 pt-4">
+          <h4 className="text-sm font-semibold text-neutral-700 mb-2">Existing links</h4>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-neutral-500 py-4 text-center">No share links yet.</p>
+          ) : (
+            <ul className="space-y-2 max-h-72 overflow-y-auto">
+              {links.map(link => {
+                const status = linkStatus(link);
+                const isActive = status.label === "Active";
+                return (
+                  <li key={link.id} className="flex items-center justify-between gap-3 rounded-md border border-neutral-200 px-3 py-2">
+                    <div className="min-w-0 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-neutral-800">
+                          {link.documentId ? formatDocumentType(documentTypeById.get(link.documentId) || "Document") : "All documents"}
+                        </span>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                        {link.hasPassword && <Lock className="h-3.5 w-3.5 text-neutral-400" />}
+                      </div>
+                      <div className="text-xs text-neutral-500">
+                        Created {formatDate(link.createdAt)}
+                        {link.expiresAt && ` · Expires ${formatDate(link.expiresAt)}`}
+                        {` · ${link.viewCount} view${link.viewCount === 1 ? "" : "s"}`}
+                      </div>
+                    </div>
+                    {isActive && (
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => copyLink(link.url)} title="Copy link">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-red-600 hover:text-red-700"
+                          onClick={() => revokeLink(link.id)}
+                          disabled={isRevoking}
+                          title="Revoke link"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
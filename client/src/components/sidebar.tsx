@@ -1,7 +1,10 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useWorkspaces } from "@/hooks/use-workspaces";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { 
@@ -12,7 +15,12 @@ import {
   Settings, 
   Hammer, 
   Flame, 
-  Sparkles
+  Sparkles,
+  Check,
+  ChevronsUpDown,
+  User,
+  Users,
+  Loader2
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -23,6 +31,102 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
+function WorkspaceSwitcher() {
+  const { workspaces, currentWorkspace, setCurrentWorkspaceId, createWorkspace, isCreating } = useWorkspaces();
+  const [, navigate] = useLocation();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const selectWorkspace = (workspaceId: string | null) => {
+    setCurrentWorkspaceId(workspaceId);
+    navigate("/");
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createWorkspace(name.trim());
+      setName("");
+      setIsCreateOpen(false);
+      navigate("/");
+    } catch {
+      // Error toast is shown by the hook
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="flex items-center w-full px-3 py-2 text-sm font-medium rounded-md border border-neutral-200 text-neutral-700 hover:bg-neutral-100">
+            {currentWorkspace ? <Users className="mr-2 h-4 w-4 text-primary-500" /> : <User className="mr-2 h-4 w-4 text-neutral-500" />}
+            <span className="flex-1 truncate text-left">{currentWorkspace ? currentWorkspace.name : "Personal"}</span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 text-neutral-400" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-56" align="start">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => selectWorkspace(null)}>
+            <User className="mr-2 h-4 w-4" />
+            <span className="flex-1">Personal</span>
+            {!currentWorkspace && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+          {workspaces.map(workspace => (
+            <DropdownMenuItem key={workspace.id} onClick={() => selectWorkspace(workspace.id)}>
+              <Users className="mr-2 h-4 w-4" />
+              <span className="flex-1 truncate">{workspace.name}</span>
+              <span className="ml-2 text-xs text-neutral-400 capitalize">{workspace.role}</span>
+              {currentWorkspace?.id === workspace.id && <Check className="ml-2 h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          {currentWorkspace && (
+            <DropdownMenuItem onClick={() => navigate("/workspace")}>
+              <Settings className="mr-2 h-4 w-4" />
+              Manage workspace
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setIsCreateOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>Create Workspace</DialogTitle>
+              <DialogDescription>
+                Ideas created in a workspace are shared with everyone you invite to it.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="py-4">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Workspace name"
+                maxLength={100}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim() || isCreating}>
+                {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
 export function Sidebar() {
   const [location] = useLocation();
   const { user, logoutMutation } = useAuth();
@@ -61,6 +165,10 @@ export function Sidebar() {
             </div>
           </div>
           
+          <div className="px-2 pt-4">
+            <WorkspaceSwitcher />
+          </div>
+
           <nav className="flex-1 px-2 py-4 space-y-1">
             <Link href="/" className={`flex items-center px-2 py-2 text-sm font-medium rounded-md group
                 ${isActive('/') 
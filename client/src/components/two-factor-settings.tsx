@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useTwoFactor } from "@/hooks/use-two-factor";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CheckCircle, Copy, Download, KeyRound, Loader2, ShieldCheck, Smartphone } from "lucide-react";
+
+type PendingAction = "disable" | "regenerate" | null;
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Recovery codes copied" });
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "anvil-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-neutral-600">
+        Keep these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app.
+        They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border border-neutral-200 bg-neutral-50 p-4 font-mono text-sm">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={copy}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" onClick={download}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+        <Button size="sm" onClick={onDone}>
+          <CheckCircle className="mr-2 h-4 w-4" />
+          I've saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/** Account card for turning TOTP two-factor authentication on and managing it. */
+export function TwoFactorSettings() {
+  const {
+    status,
+    isLoading,
+    startSetup,
+    setup,
+    isStartingSetup,
+    enable,
+    isEnabling,
+    disable,
+    isDisabling,
+    regenerateRecoveryCodes,
+    isRegenerating,
+  } = useTwoFactor();
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pending, setPending] = useState<PendingAction>(null);
+  const [confirmCode, setConfirmCode] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const beginEnrolment = async () => {
+    await startSetup();
+    setCode("");
+    setIsEnrolling(true);
+  };
+
+  const finishEnrolment = async () => {
+    const result = await enable(code.trim());
+    setIsEnrolling(false);
+    setRecoveryCodes(result.recoveryCodes);
+  };
+
+  const closeDialog = () => {
+    setPending(null);
+    setConfirmCode("");
+    setConfirmPassword("");
+  };
+
+  const confirmPending = async () => {
+    if (pending === "disable") {
+      await disable({ code: confirmCode.trim(), currentPassword: confirmPassword });
+    } else if (pending === "regenerate") {
+      const result = await regenerateRecoveryCodes(confirmCode.trim());
+      setRecoveryCodes(result.recoveryCodes);
+    }
+    closeDialog();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Two-Factor Authentication
+          {status?.enabled && (
+            <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">On</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app as well as your password when you sign in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : isEnrolling && setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-neutral-600">
+              Scan this QR code with Google Authenticator, 1Password, Authy or a similar app, then enter the six digit code it shows.
+            </p>
+            <div className="flex flex-col items-center gap-2 sm:flex-row sm:items-start sm:gap-6">
+              <img src={setup.qrCodeDataUrl} alt="Two-factor authentication QR code" className="h-44 w-44 rounded border border-neutral-200" />
+              <div className="space-y-1 text-sm">
+                <p className="text-neutral-600">Can't scan it? Enter this key instead:</p>
+                <code className="block break-all rounded bg-neutral-100 px-2 py-1 font-mono text-xs">{setup.secret}</code>
+              </div>
+            </div>
+            <div className="grid gap-2 max-w-xs">
+              <Label htmlFor="totp-enrol-code">Authentication code</Label>
+              <Input
+                id="totp-enrol-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={finishEnrolment} disabled={isEnabling || code.trim().length < 6}>
+                {isEnabling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Verify and Turn On
+              </Button>
+              <Button variant="ghost" onClick={() => setIsEnrolling(false)}>Cancel</Button>
+            </div>
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <div className="text-sm text-neutral-600 space-y-1">
+              {status.enabledAt && <p>Turned on {format(new Date(status.enabledAt), "MMM d, yyyy")}.</p>}
+              <p className={status.recoveryCodesRemaining <= 2 ? "text-amber-700" : undefined}>
+                {status.recoveryCodesRemaining} unused recovery {status.recoveryCodesRemaining === 1 ? "code" : "codes"} left.
+              </p>
+              {status.required && <p>Your role requires two-factor authentication, so it can't be turned off.</p>}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setPending("regenerate")}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={() => setPending("disable")}>
+                  Turn Off
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {status.required && (
+              <p className="text-sm text-amber-700">
+                Your role requires two-factor authentication. Set it up to keep using your account.
+              </p>
+            )}
+            <Button onClick={beginEnrolment} disabled={isStartingSetup}>
+              {isStartingSetup ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Smartphone className="mr-2 h-4 w-4" />}
+              Set Up Authenticator App
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>
+              {pending === "disable" ? "Turn off two-factor authentication?" : "Generate new recovery codes?"}
+            </DialogTitle>
+            <DialogDescription>
+              {pending === "disable"
+                ? "Signing in will only need your password. Confirm with your password and a code from your app."
+                : "Your existing recovery codes will stop working. Confirm with a code from your app."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {pending === "disable" && (
+              <div className="grid gap-2">
+                <Label htmlFor="totp-confirm-password">Current password</Label>
+                <Input
+                  id="totp-confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="totp-confirm-code">Authentication or recovery code</Label>
+              <Input
+                id="totp-confirm-code"
+                autoComplete="one-time-code"
+                value={confirmCode}
+                onChange={(e) => setConfirmCode(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+            <Button
+              onClick={confirmPending}
+              disabled={isDisabling || isRegenerating || confirmCode.trim().length < 6 || (pending === "disable" && !confirmPassword)}
+              className={pending === "disable" ? "bg-red-600 hover:bg-red-700" : undefined}
+            >
+              {(isDisabling || isRegenerating) && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pending === "disable" ? "Turn Off" : "Generate Codes"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,181 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AdminUserPage, UserRole } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export const ADMIN_USERS_PAGE_SIZE = 25;
+
+export interface AdminUserQuery {
+    search: string;
+    role: UserRole | "all";
+    status: "active" | "disabled" | "all";
+    offset: number;
+}
+
+/** The superadmin user console: paged search plus the account actions. */
+export function useAdminUsers(query: AdminUserQuery, enabled = true) {
+    const { toast } = useToast();
+    const usersKey = "/api/admin/users";
+
+    const params = new URLSearchParams({ limit: String(ADMIN_USERS_PAGE_SIZE), offset: String(query.offset) });
+    if (query.search.trim()) params.set("search", query.search.trim());
+    if (query.role !== "all") params.set("role", query.role);
+    if (query.status !== "all") params.set("status", query.status);
+
+    const { data: page, isLoading } = useQuery<AdminUserPage>({
+        queryKey: [`${usersKey}?${params.toString()}`],
+        enabled,
+        staleTime: 0,
+    });
+
+    // Every filtered page starts with the same prefix
+    const refresh = () => {
+        queryClient.invalidateQueries({
+            predicate: (q) => typeof q.queryKey[0] === "string" && q.queryKey[0].startsWith(usersKey),
+        });
+    };
+
+    const onError = (fallback: string) => (error: Error) => {
+        toast({
+            title: "Error",
+            description: error.message || fallback,
+            variant: "destructive",
+        });
+    };
+
+    const disableMutation = useMutation({
+        mutationFn: async ({ userId, disabled }: { userId: string; disabled: boolean }) => {
+            await apiRequest("POST", `${usersKey}/${userId}/${disabled ? "disable" : "enable"}`);
+        },
+        onSuccess: (_data, { disabled }) => {
+            refresh();
+            toast({ title: disabled ? "Account disabled" : "Account enabled" });
+        },
+        onError: onError("Failed to update account"),
+    });
+
+    const roleMutation = useMutation({
+        mutationFn: async ({ userId, role }: { userId: string; role: UserRole }) => {
+            await apiRequest("PATCH", `${usersKey}/${userId}/role`, { role });
+        },
+        onSuccess: () => {
+            refresh();
+            toast({ title: "Role updated" });
+        },
+        onError: onError("Failed to change role"),
+    });
+
+    const resetMutation = useMutation({
+        mutationFn: async (userId: string) => {
+            const res = await apiRequest("POST", `${usersKey}/${userId}/force-password-reset`);
+            return res.json() as Promise<{ message: string }>;
+        },
+        onSuccess: (data) => {
+            toast({ title: "Password reset forced", description: data.message });
+        },
+        onError: onError("Failed to force a password reset"),
+    });
+
+    const unlockMutation = useMutation({
+        mutationFn: async (userId: string) => {
+            const res = await apiRequest("POST", `${usersKey}/${userId}/unlock`);
+            return res.json() as Promise<{ message: string }>;
+        },
+        onSuccess: (data) => {
+            refresh();
+            toast({ title: "Account unlocked", description: data.message });
+        },
+        onError: onError("Failed to unlock account"),
+    });
+
+    const revokeSessionsMutation = useMutation({
+        mutationFn: async (userId: string) => {
+            const res = await apiRequest("POST", `${usersKey}/${userId}/revoke-sessions`);
+            return res.json() as Promise<{ message: string }>;
+        },
+        onSuccess: (data) => {
+            toast({ title: "Sessions revoked", description: data.message });
+        },
+        onError: onError("Failed to revoke sessions"),
+    });
+
+    const resetTwoFactorMutation = useMutation({
+        mutationFn: async (userId: string) => {
+            const res = await apiRequest("POST", `${usersKey}/${userId}/reset-2fa`);
+            return res.json() as Promise<{ message: string }>;
+        },
+        onSuccess: (data) => {
+            refresh();
+            toast({ title: "Two-factor authentication reset", description: data.message });
+        },
+        onError: onError("Failed to reset two-factor authentication"),
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: async (userId: string) => {
+            await apiRequest("DELETE", `${usersKey}/${userId}`);
+        },
+        onSuccess: () => {
+            refresh();
+            toast({ title: "User deleted" });
+        },
+        onError: onError("Failed to delete user"),
+    });
+
+    const impersonateMutation = useMutation({
+        mutationFn: async (userId: string) => {
+            await apiRequest("POST", `${usersKey}/${userId}/impersonate`);
+        },
+        onSuccess: () => {
+            // Reload so every cached query is fetched again as the impersonated user
+            window.location.assign("/");
+        },
+        onError: onError("Failed to impersonate user"),
+    });
+
+    return {
+        users: page?.users || [],
+        total: page?.total || 0,
+        isLoading,
+        setDisabled: disableMutation.mutate,
+        changeRole: roleMutation.mutate,
+        forcePasswordReset: resetMutation.mutate,
+        resetTwoFactor: resetTwoFactorMutation.mutate,
+        revokeSessions: revokeSessionsMutation.mutate,
+        unlock: unlockMutation.mutate,
+        deleteUser: deleteMutation.mutate,
+        impersonate: impersonateMutation.mutate,
+        isImpersonating: impersonateMutation.isPending,
+    };
+}
+
+/** Who the current session is impersonating on behalf of, if anyone. */
+export function useImpersonation(enabled = true) {
+    const { toast } = useToast();
+    const { data } = useQuery<{ impersonator: { id: string; username: string } | null }>({
+        queryKey: ["/api/admin/impersonation"],
+        enabled,
+    });
+
+    const stopMutation = useMutation({
+        mutationFn: async () => {
+            await apiRequest("POST", "/api/admin/impersonation/stop");
+        },
+        onSuccess: () => {
+            window.location.assign("/settings");
+        },
+        onError: (error: Error) => {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to return to your account",
+                variant: "destructive",
+            });
+        },
+    });
+
+    return {
+        impersonator: data?.impersonator ?? null,
+        stopImpersonating: stopMutation.mutate,
+        isStopping: stopMutation.isPending,
+    };
+}
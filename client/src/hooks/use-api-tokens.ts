@@ -0,0 +1,54 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ApiTokenSummary, CreateApiToken, CreatedApiToken } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+const API_TOKENS_KEY = "/api/user/api-tokens";
+
+/** The signed-in user's personal API tokens, with ways to create and revoke them. */
+export function useApiTokens() {
+    const { toast } = useToast();
+
+    const { data: tokens, isLoading } = useQuery<ApiTokenSummary[]>({
+        queryKey: [API_TOKENS_KEY],
+    });
+
+    const onError = (fallback: string) => (error: Error) => {
+        toast({
+            title: "Error",
+            description: error.message || fallback,
+            variant: "destructive",
+        });
+    };
+
+    const createMutation = useMutation({
+        mutationFn: async (input: CreateApiToken) => {
+            const res = await apiRequest("POST", API_TOKENS_KEY, input);
+            return res.json() as Promise<CreatedApiToken>;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: [API_TOKENS_KEY] });
+        },
+        onError: onError("Failed to create API token"),
+    });
+
+    const revokeMutation = useMutation({
+        mutationFn: async (tokenId: string) => {
+            await apiRequest("DELETE", `${API_TOKENS_KEY}/${tokenId}`);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: [API_TOKENS_KEY] });
+            toast({ title: "API token revoked" });
+        },
+        onError: onError("Failed to revoke API token"),
+    });
+
+    return {
+        tokens: tokens || [],
+        isLoading,
+        createToken: createMutation.mutateAsync,
+        isCreating: createMutation.isPending,
+        revokeToken: revokeMutation.mutate,
+        revokingId: revokeMutation.isPending ? revokeMutation.variables : undefined,
+    };
+}
@@ -0,0 +1,59 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { AuditLogPage } from "@shared/schema";
+
+export interface AuditLogQuery {
+    actor: string;
+    action: string;
+    targetType: string;
+    targetId: string;
+    // yyyy-mm-dd from a date input; empty for no bound
+    from: string;
+    to: string;
+}
+
+const AUDIT_LOGS_KEY = "/api/admin/audit-logs";
+
+function toSearchParams(query: AuditLogQuery) {
+    const params = new URLSearchParams();
+    (["actor", "action", "targetType", "targetId"] as const).forEach(field => {
+        if (query[field].trim()) params.set(field, query[field].trim());
+    });
+    if (query.from) params.set("from", new Date(`${query.from}T00:00:00`).toISOString());
+    if (query.to) params.set("to", new Date(`${query.to}T23:59:59.999`).toISOString());
+    return params;
+}
+
+/** URL that downloads every log matching `query` in the given format. */
+export function auditLogExportUrl(query: AuditLogQuery, format: "csv" | "ndjson") {
+    const params = toSearchParams(query);
+    params.set("format", format);
+    return `${AUDIT_LOGS_KEY}?${params.toString()}`;
+}
+
+/** Audit log for the superadmin viewer, newest first, loaded a page at a time. */
+export function useAuditLogs(query: AuditLogQuery, enabled = true) {
+    const params = toSearchParams(query);
+
+    const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+        queryKey: [AUDIT_LOGS_KEY, params.toString()],
+        queryFn: async ({ pageParam }) => {
+            const pageParams = new URLSearchParams(params);
+            if (pageParam) pageParams.set("cursor", pageParam);
+            const res = await apiRequest("GET", `${AUDIT_LOGS_KEY}?${pageParams.toString()}`);
+            return res.json() as Promise<AuditLogPage>;
+        },
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+        enabled,
+        staleTime: 0,
+    });
+
+    return {
+        logs: data?.pages.flatMap(page => page.logs) || [],
+        isLoading,
+        loadMore: fetchNextPage,
+        hasMore: !!hasNextPage,
+        isLoadingMore: isFetchingNextPage,
+    };
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { subscribe } from "@/lib/socket";
+import { activeJobStatuses, type BatchStartResult, type JobBatchWithJobs, type JobStatus, type PipelineStep } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+const BATCHES_KEY = "/api/batches";
+
+export interface StartBatchInput {
+    ideaIds: string[];
+    // Step to regenerate for every idea, or null for the full pipeline
+    step: PipelineStep | null;
+}
+
+export interface BatchStartResponse {
+    message: string;
+    batch: JobBatchWithJobs;
+    results: BatchStartResult[];
+}
+
+// Live position of one job in the batch, from its socket channel
+export interface BatchJobProgress {
+    step: number | null;
+    substep: number | null;
+    totalSubsteps: number | null;
+    message: string | null;
+}
+
+export function isActiveBatchJob(status: string | null) {
+    return activeJobStatuses.includes(status as JobStatus);
+}
+
+export function useBatches() {
+    const { toast } = useToast();
+
+    const { data: batches, isLoading } = useQuery<JobBatchWithJobs[]>({
+        queryKey: [BATCHES_KEY],
+        staleTime: 0,
+    });
+
+    const startMutation = useMutation({
+        mutationFn: async (input: StartBatchInput) => {
+            const res = await apiRequest("POST", BATCHES_KEY, input);
+            return res.json() as Promise<BatchStartResponse>;
+        },
+        onSuccess: (data) => {
+            queryClient.setQueryData<JobBatchWithJobs[]>([BATCHES_KEY], (previous) =>
+                [data.batch, ...(previous ?? []).filter(batch => batch.id !== data.batch.id)]);
+            queryClient.invalidateQueries({ queryKey: ["/api/ideas"] });
+
+            const skipped = data.results.filter(result => result.error);
+            toast({
+                title: data.batch.jobs.length > 0 ? "Batch started" : "Nothing started",
+                description: skipped.length > 0
+                    ? `${data.message}. ${skipped.length} skipped: ${skipped[0].error}${skipped.length > 1 ? " (and others)" : ""}`
+                    : data.message,
+                variant: data.batch.jobs.length > 0 ? "default" : "destructive",
+            });
+        },
+        onError: (error: Error) => {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to start batch",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const cancelMutation = useMutation({
+        mutationFn: async (batchId: string) => {
+            const res = await apiRequest("POST", `${BATCHES_KEY}/${batchId}/cancel`);
+            return res.json() as Promise<JobBatchWithJobs>;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: [BATCHES_KEY] });
+            queryClient.invalidateQueries({ queryKey: ["/api/ideas"] });
+            toast({
+                title: "Batch cancelled",
+                description: "Documents completed so far have been kept.",
+            });
+        },
+        onError: (error: Error) => {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to cancel batch",
+                variant: "destructive",
+            });
+        },
+    });
+
+    return {
+        latestBatch: batches?.[0] ?? null,
+        isLoading,
+        startBatch: startMutation.mutateAsync,
+        isStarting: startMutation.isPending,
+        cancelBatch: cancelMutation.mutate,
+        isCancelling: cancelMutation.isPending,
+    };
+}
+
+/**
+ * Follow every unfinished job of a batch over its socket channel. Progress
+ * updates stay local; status changes refetch the batch so counts stay right.
+ */
+export function useBatchProgress(batch: JobBatchWithJobs | null) {
+    const [progress, setProgress] = useState<Record<string, BatchJobProgress>>({});
+    const activeJobIds = (batch?.jobs ?? [])
+        .filter(job => isActiveBatchJob(job.status))
+        .map(job => job.id);
+    const subscriptionKey = activeJobIds.join(",");
+
+    useEffect(() => {
+        if (!subscriptionKey) return;
+
+        const unsubscribers = subscriptionKey.split(",").map(jobId =>
+            subscribe(`job:${jobId}`, (event) => {
+                if (event.data.step != null) {
+                    setProgress(current => {
+                        const previous = current[jobId];
+                        const sameStep = previous?.step === event.data.step;
+                        return {
+                            ...current,
+                            [jobId]: {
+                                step: event.data.step!,
+                                substep: event.data.substep ?? (sameStep ? previous.substep : null),
+                                totalSubsteps: event.data.totalSubsteps ?? (sameStep ? previous.totalSubsteps : null),
+                                message: event.data.message ?? previous?.message ?? null,
+                            },
+                        };
+                    });
+                }
+
+                if (event.type === "status") {
+                    queryClient.invalidateQueries({ queryKey: [BATCHES_KEY] });
+                } else if (event.type === "done" || event.type === "error" || event.type === "cancelled") {
+                    queryClient.invalidateQueries({ queryKey: [BATCHES_KEY] });
+                    queryClient.invalidateQueries({ queryKey: ["/api/ideas"] });
+                }
+            }));
+
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [subscriptionKey]);
+
+    return progress;
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CommentAnchor, CommentCounts, CommentThread, commentAnchorKey } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+/** Comment totals for every section of an idea, shared by all section badges. */
+export function useCommentCounts(ideaId: string) {
+    const { data: counts } = useQuery<CommentCounts>({
+        queryKey: [`/api/ideas/${ideaId}/comments/counts`],
+        enabled: !!ideaId,
+        staleTime: 30000,
+    });
+
+    const countFor = (anchor: CommentAnchor) => counts?.[commentAnchorKey(anchor)] ?? { total: 0, unresolved: 0 };
+
+    return { counts: counts || {}, countFor };
+}
+
+export function useCommentThreads(ideaId: string, anchor: CommentAnchor, enabled = true) {
+    const { toast } = useToast();
+    const commentsKey = `/api/ideas/${ideaId}/comments`;
+    const params = new URLSearchParams(anchor.canvasSection
+        ? { canvasSection: anchor.canvasSection }
+        : { documentId: anchor.documentId!, sectionKey: anchor.sectionKey! });
+    const threadsKey = `${commentsKey}?${params.toString()}`;
+
+    const { data: threads, isLoading } = useQuery<CommentThread[]>({
+        queryKey: [threadsKey],
+        enabled: !!ideaId && enabled,
+        staleTime: 0,
+    });
+
+    const refresh = () => {
+        queryClient.invalidateQueries({ queryKey: [threadsKey] });
+        queryClient.invalidateQueries({ queryKey: [`${commentsKey}/counts`] });
+    };
+
+    const onError = (fallback: string) => (error: Error) => {
+        toast({
+            title: "Error",
+            description: error.message || fallback,
+            variant: "destructive",
+        });
+    };
+
+    const addMutation = useMutation({
+        mutationFn: async ({ body, parentId }: { body: string; parentId?: string }) => {
+            const res = await apiRequest("POST", commentsKey, parentId ? { body, parentId } : { ...anchor, body });
+            return res.json();
+        },
+        onSuccess: refresh,
+        onError: onError("Failed to post comment"),
+    });
+
+    const editMutation = useMutation({
+        mutationFn: async ({ commentId, body }: { commentId: string; body: string }) => {
+            await apiRequest("PATCH", `${commentsKey}/${commentId}`, { body });
+        },
+        onSuccess: refresh,
+        onError: onError("Failed to update comment"),
+    });
+
+    const resolveMutation = useMutation({
+        mutationFn: async ({ commentId, resolved }: { commentId: string; resolved: boolean }) => {
+            await apiRequest("POST", `${commentsKey}/${commentId}/${resolved ? "resolve" : "unresolve"}`);
+        },
+        onSuccess: refresh,
+        onError: onError("Failed to update thread"),
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: async (commentId: string) => {
+            await apiRequest("DELETE", `${commentsKey}/${commentId}`);
+        },
+        onSuccess: refresh,
+        onError: onError("Failed to delete comment"),
+    });
+
+    return {
+        threads: threads || [],
+        isLoading,
+        addComment: addMutation.mutateAsync,
+        isPosting: addMutation.isPending,
+        editComment: editMutation.mutateAsync,
+        setResolved: resolveMutation.mutate,
+        deleteComment: deleteMutation.mutate,
+    };
+}
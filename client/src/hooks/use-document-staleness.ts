@@ -0,0 +1,59 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Document, DocumentType, PipelineStep, StaleDocument, findStaleDocuments, getDocumentStep, pipelineSteps } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Which of an idea's documents were generated from upstream documents that
+ * have since been edited or regenerated, plus the action that rebuilds them.
+ */
+export function useDocumentStaleness(ideaId: string) {
+    const { toast } = useToast();
+    const documentsKey = `/api/ideas/${ideaId}/documents`;
+
+    const { data: documents } = useQuery<Document[]>({
+        queryKey: [documentsKey],
+        enabled: !!ideaId,
+        staleTime: 0,
+    });
+
+    const staleDocuments: StaleDocument[] = documents ? findStaleDocuments(documents) : [];
+    const isStale = (documentType: DocumentType) =>
+        staleDocuments.some(doc => doc.documentType === documentType);
+
+    // The earliest changed step; regenerating everything after it covers every stale document
+    const changedSteps = new Set(
+        staleDocuments.flatMap(doc => doc.changedUpstream.map(type => getDocumentStep(type)))
+    );
+    const changedStep: PipelineStep | undefined = pipelineSteps.find(step => changedSteps.has(step));
+
+    const regenerateMutation = useMutation({
+        mutationFn: async ({ step, notes }: { step: PipelineStep; notes?: string }) => {
+            const res = await apiRequest("POST", `/api/ideas/${ideaId}/regenerate-downstream/${step}`, notes ? { notes } : {});
+            return res.json();
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}`] });
+            queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}/jobs`] });
+            toast({
+                title: "Regenerating downstream documents",
+                description: "Documents built from the changed content will be regenerated in order.",
+            });
+        },
+        onError: (error: Error) => {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to start regeneration",
+                variant: "destructive",
+            });
+        },
+    });
+
+    return {
+        staleDocuments,
+        isStale,
+        changedStep,
+        regenerateDownstream: regenerateMutation.mutate,
+        isRegenerating: regenerateMutation.isPending,
+    };
+}
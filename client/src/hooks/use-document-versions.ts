@@ -0,0 +1,45 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Document, DocumentVersion } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export function useDocumentVersions(ideaId: string, documentId: string | null | undefined) {
+    const { toast } = useToast();
+    const versionsKey = `/api/ideas/${ideaId}/documents/${documentId}/versions`;
+
+    const { data: versions, isLoading } = useQuery<DocumentVersion[]>({
+        queryKey: [versionsKey],
+        enabled: !!ideaId && !!documentId,
+        staleTime: 0,
+    });
+
+    const restoreMutation = useMutation({
+        mutationFn: async (versionId: string) => {
+            const res = await apiRequest("POST", `${versionsKey}/${versionId}/restore`);
+            return res.json() as Promise<Document>;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: [versionsKey] });
+            queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}/canvas`] });
+            queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}/documents`] });
+            toast({
+                title: "Version restored",
+                description: "The selected version is now the current document.",
+            });
+        },
+        onError: (error: Error) => {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to restore version",
+                variant: "destructive",
+            });
+        },
+    });
+
+    return {
+        versions: versions || [],
+        isLoading,
+        restoreVersion: restoreMutation.mutate,
+        isRestoring: restoreMutation.isPending,
+    };
+}
@@ -53,7 +53,7 @@ export function useDocument(ideaId: string, documentType: DocumentType) {
             if (response.ok) {
                 const job = await response.json();
                 if (job) {
-                    const isPending = job.status === 'pending' || job.status === 'processing' || job.status === 'starting';
+                    const isPending = job.status === 'queued' || job.status === 'pending' || job.status === 'processing' || job.status === 'starting';
                     setIsGenerating(isPending);
 
                     // Check timeout (2 minutes)
@@ -101,33 +101,28 @@ export function useDocument(ideaId: string, documentType: DocumentType) {
             setIsTimedOut(false);
 
             let url = "";
-            let body: Record<string, any> = {};
 
             switch (documentType) {
                 case "LeanCanvas":
                     url = `/api/ideas/${ideaId}/generate`;
-                    body = { notes: instructions };
                     break;
                 case "ProjectRequirements":
+                case "FunctionalRequirements":
                     url = `/api/ideas/${ideaId}/generate-functional-requirements`;
-                    body = { instructions: instructions || "Be Brief as possible" };
                     break;
                 case "BusinessRequirements":
                     url = `/api/ideas/${ideaId}/generate-business-requirements`;
-                    body = { instructions: instructions || "Provide detailed business requirements." };
-                    break;
-                case "FunctionalRequirements":
-                    url = `/api/ideas/${ideaId}/generate-functional-requirements`;
-                    body = instructions ? { instructions } : {};
                     break;
                 case "Workflows":
                     url = `/api/ideas/${ideaId}/workflows`;
-                    body = {};
                     break;
                 default:
                     throw new Error(`Generation not implemented for ${documentType}`);
             }
 
+            // Guidance notes are stored on the job and forwarded to anvil-api
+            const body = instructions.trim() ? { notes: instructions.trim() } : {};
+
             let response = await fetch(url, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
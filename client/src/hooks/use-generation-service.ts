@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import type { GenerationServiceStatus } from "@shared/schema";
+
+const STATUS_KEY = "/api/generation/status";
+
+/**
+ * Whether the generation service (anvil-api) is accepting requests. While it
+ * is down the status is checked more often, so the UI recovers on its own.
+ */
+export function useGenerationService() {
+    const { data } = useQuery<GenerationServiceStatus>({
+        queryKey: [STATUS_KEY],
+        refetchInterval: (query) => (query.state.data?.available === false ? 15_000 : 60_000),
+        refetchOnWindowFocus: true,
+    });
+
+    return {
+        // Assume it's up until the server says otherwise
+        isAvailable: data?.available ?? true,
+        isConfigured: data?.configured ?? true,
+        retryAt: data?.retryAt ? new Date(data.retryAt) : null,
+    };
+}
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { ExportFormat } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+    pdf: "PDF (.pdf)",
+    docx: "Word (.docx)",
+    md: "Markdown (.md)",
+    zip: "All formats (.zip)",
+};
+
+function filenameFromDisposition(header: string | null, fallback: string) {
+    const match = header?.match(/filename="?([^";]+)"?/);
+    return match ? match[1] : fallback;
+}
+
+export function useIdeaExport(ideaId: string) {
+    const { toast } = useToast();
+    const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+
+    const exportIdea = async (format: ExportFormat) => {
+        setExportingFormat(format);
+        try {
+            const response = await fetch(`/api/ideas/${ideaId}/export?format=${format}`, {
+                credentials: "include",
+            });
+
+            if (!response.ok) {
+                const body = await response.json().catch(() => null);
+                throw new Error(body?.message || `Export failed (${response.status})`);
+            }
+
+            const blob = await response.blob();
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = filenameFromDisposition(response.headers.get("Content-Disposition"), `idea-documents.${format}`);
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (error: any) {
+            toast({
+                title: "Export failed",
+                description: error.message || "Failed to export documents",
+                variant: "destructive",
+            });
+        } finally {
+            setExportingFormat(null);
+        }
+    };
+
+    return {
+        exportIdea,
+        exportingFormat,
+        isExporting: exportingFormat !== null,
+    };
+}
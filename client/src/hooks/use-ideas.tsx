@@ -1,24 +1,34 @@
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Idea, InsertIdea } from "@shared/schema";
+import { Idea, IdeaWithAccess, InsertIdea, PipelineStep, pipelineStepLabels } from "@shared/schema";
 import { useToast } from "./use-toast";
 import { useLocation } from "wouter";
 import { useEffect } from "react";
 import { useAuth } from "./use-auth";
+import { useWorkspaces } from "./use-workspaces";
 
 export function useIdeas() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { currentWorkspaceId } = useWorkspaces();
 
+  // Keyed under "/api/ideas" so existing invalidations refresh every workspace's list
   const { data: ideas, isLoading } = useQuery<Idea[]>({
-    queryKey: ["/api/ideas"],
+    queryKey: ["/api/ideas", { workspaceId: currentWorkspaceId }],
+    queryFn: async () => {
+      const url = currentWorkspaceId
+        ? `/api/ideas?workspaceId=${encodeURIComponent(currentWorkspaceId)}`
+        : "/api/ideas";
+      const res = await apiRequest("GET", url);
+      return res.json();
+    },
     enabled: !!user,
     staleTime: 0,
   });
 
   const createIdeaMutation = useMutation({
     mutationFn: async (newIdea: InsertIdea) => {
-      const res = await apiRequest("POST", "/api/ideas", newIdea);
+      const res = await apiRequest("POST", "/api/ideas", { ...newIdea, workspaceId: currentWorkspaceId });
       return res.json();
     },
     onSuccess: () => {
@@ -85,16 +95,18 @@ export function useIdeas() {
   });
 
   const regenerateStepMutation = useMutation({
-    mutationFn: async ({ ideaId, step }: { ideaId: string; step: string }) => {
-      let res = await apiRequest("POST", `/api/ideas/${ideaId}/regenerate/${step}`, {});
+    mutationFn: async ({ ideaId, step, notes }: { ideaId: string; step: string; notes?: string }) => {
+      const body = notes?.trim() ? { notes: notes.trim() } : {};
+      let res = await apiRequest("POST", `/api/ideas/${ideaId}/regenerate/${step}`, body);
       if (res.status === 409) {
-        res = await apiRequest("POST", `/api/ideas/${ideaId}/regenerate/${step}?force=true`, {});
+        res = await apiRequest("POST", `/api/ideas/${ideaId}/regenerate/${step}?force=true`, body);
       }
       return res.json();
     },
     onSuccess: (_, { ideaId, step }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/ideas"] });
       queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}/jobs`] });
       toast({
         title: "Regeneration started",
         description: `Regenerating ${step.replace(/_/g, " ")}. You'll be notified when it's ready.`,
@@ -109,6 +121,32 @@ export function useIdeas() {
     },
   });
 
+  // Run a chosen set of steps; the server adds any prerequisites that are missing
+  const runStepsMutation = useMutation({
+    mutationFn: async ({ ideaId, steps }: { ideaId: string; steps: PipelineStep[] }) => {
+      const res = await apiRequest("POST", `/api/ideas/${ideaId}/generate`, { steps });
+      return res.json() as Promise<{ jobId: string; steps: PipelineStep[]; addedSteps: PipelineStep[] }>;
+    },
+    onSuccess: ({ steps, addedSteps }, { ideaId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ideas"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}/jobs`] });
+      toast({
+        title: "Forging started",
+        description: addedSteps.length > 0
+          ? `Running ${steps.length} steps, including ${addedSteps.map(step => pipelineStepLabels[step]).join(", ")} which the chosen steps depend on.`
+          : `Running ${steps.map(step => pipelineStepLabels[step]).join(", ")}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start forging",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateIdeaMutation = useMutation({
     mutationFn: async ({ ideaId, updates }: { ideaId: string, updates: Partial<Idea> }) => {
       const res = await apiRequest("PATCH", `/api/ideas/${ideaId}`, updates);
@@ -140,6 +178,8 @@ export function useIdeas() {
     isUpdating: updateIdeaMutation.isPending,
     generateCanvas: generateCanvasMutation.mutate,
     isGenerating: generateCanvasMutation.isPending,
+    runSteps: runStepsMutation.mutateAsync,
+    isRunningSteps: runStepsMutation.isPending,
     regenerateStep: regenerateStepMutation.mutate,
     isRegeneratingStep: regenerateStepMutation.isPending,
     deleteIdea: deleteIdeaMutation.mutate,
@@ -155,7 +195,7 @@ export function useIdea(id: string) {
     data: idea,
     isLoading,
     error
-  } = useQuery<Idea>({
+  } = useQuery<IdeaWithAccess>({
     queryKey: [`/api/ideas/${id}`],
     enabled: !!id,
     retry: (failureCount, error: any) => {
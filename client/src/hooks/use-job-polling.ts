@@ -29,7 +29,7 @@ interface UseJobPollingResult {
     refetch: () => Promise<void>;
 }
 
-const DEFAULT_STOP_STATUSES = ["Done", "Completed", "complete", "completed", "Error", "Failed", "error", "failed"];
+const DEFAULT_STOP_STATUSES = ["Done", "Completed", "complete", "completed", "Error", "Failed", "error", "failed", "cancelled"];
 
 /**
  * Hook to poll a job's status and description from /api/jobs/:id
@@ -5,6 +5,7 @@ interface UseJobSocketOptions {
   jobId: string | null | undefined;
   onDone?: () => void;
   onError?: (message: string) => void;
+  onCancelled?: () => void;
 }
 
 interface UseJobSocketResult {
@@ -17,7 +18,7 @@ interface UseJobSocketResult {
   isSubscribed: boolean;
 }
 
-export function useJobSocket({ jobId, onDone, onError }: UseJobSocketOptions): UseJobSocketResult {
+export function useJobSocket({ jobId, onDone, onError, onCancelled }: UseJobSocketOptions): UseJobSocketResult {
   const [message, setMessage] = useState<string | null>(null);
   const [eventType, setEventType] = useState<JobEvent["type"] | null>(null);
   const [progress, setProgress] = useState<number | null>(null);
@@ -30,6 +31,8 @@ export function useJobSocket({ jobId, onDone, onError }: UseJobSocketOptions): U
   onDoneRef.current = onDone;
   const onErrorRef = useRef(onError);
   onErrorRef.current = onError;
+  const onCancelledRef = useRef(onCancelled);
+  onCancelledRef.current = onCancelled;
   const lastStepRef = useRef<number | null>(null);
 
   useEffect(() => {
@@ -73,6 +76,8 @@ export function useJobSocket({ jobId, onDone, onError }: UseJobSocketOptions): U
         onDoneRef.current?.();
       } else if (event.type === "error") {
         onErrorRef.current?.(event.data.message ?? "Unknown error");
+      } else if (event.type === "cancelled") {
+        onCancelledRef.current?.();
       }
     });
 
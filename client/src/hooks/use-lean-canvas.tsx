@@ -86,7 +86,7 @@ export function useLeanCanvas(ideaId: string) {
       if (response.ok) {
         const job = await response.json();
         if (job) {
-          const isPending = job.status === 'pending' || job.status === 'processing' || job.status === 'starting';
+          const isPending = job.status === 'queued' || job.status === 'pending' || job.status === 'processing' || job.status === 'starting';
 
           if (!isPending) {
             // Job is done (completed, failed, etc.) — stop generating
@@ -159,6 +159,7 @@ export function useLeanCanvas(ideaId: string) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}/canvas`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/ideas/${ideaId}/documents`] });
       toast({
         title: "Section updated",
         description: "The canvas section has been updated successfully.",
@@ -0,0 +1,59 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { UserSessionInfo } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+const SESSIONS_KEY = "/api/user/sessions";
+
+/** Where the signed-in user is signed in, with ways to end those sessions. */
+export function useSessions() {
+    const { toast } = useToast();
+
+    const { data: sessions, isLoading } = useQuery<UserSessionInfo[]>({
+        queryKey: [SESSIONS_KEY],
+        staleTime: 0,
+    });
+
+    const onError = (fallback: string) => (error: Error) => {
+        toast({
+            title: "Error",
+            description: error.message || fallback,
+            variant: "destructive",
+        });
+    };
+
+    const revokeMutation = useMutation({
+        mutationFn: async (sessionId: string) => {
+            await apiRequest("DELETE", `${SESSIONS_KEY}/${sessionId}`);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: [SESSIONS_KEY] });
+            toast({ title: "Session signed out" });
+        },
+        onError: onError("Failed to sign out session"),
+    });
+
+    const revokeOthersMutation = useMutation({
+        mutationFn: async () => {
+            const res = await apiRequest("DELETE", `${SESSIONS_KEY}/others`);
+            return res.json() as Promise<{ revoked: number }>;
+        },
+        onSuccess: (data) => {
+            queryClient.invalidateQueries({ queryKey: [SESSIONS_KEY] });
+            toast({
+                title: "Other sessions signed out",
+                description: `${data.revoked} ${data.revoked === 1 ? "session was" : "sessions were"} ended.`,
+            });
+        },
+        onError: onError("Failed to sign out other sessions"),
+    });
+
+    return {
+        sessions: sessions || [],
+        isLoading,
+        revokeSession: revokeMutation.mutate,
+        revokingId: revokeMutation.isPending ? revokeMutation.variables : undefined,
+        revokeOtherSessions: revokeOthersMutation.mutate,
+        isRevokingOthers: revokeOthersMutation.isPending,
+    };
+}
@@ -0,0 +1,61 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+    settingDefinitions,
+    hasUserRole,
+    type SettingScope,
+    type SettingValue,
+    type SettingValues,
+} from "@shared/schema";
+
+const SETTINGS_KEYS: Record<SettingScope, string> = {
+    global: "/api/settings",
+    user: "/api/user/preferences",
+};
+
+/**
+ * The registered settings of one scope that the signed-in user may change,
+ * with their current values and a way to save each one.
+ */
+export function useSettings(scope: SettingScope) {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const settingsKey = SETTINGS_KEYS[scope];
+
+    const definitions = settingDefinitions.filter(definition =>
+        definition.scope === scope && !!user && hasUserRole(user.role, definition.requiredRole)
+    );
+
+    const { data: values, isLoading } = useQuery<SettingValues>({
+        queryKey: [settingsKey],
+        enabled: definitions.length > 0,
+    });
+
+    const updateMutation = useMutation({
+        mutationFn: async ({ key, value }: { key: string; value: SettingValue }) => {
+            const res = await apiRequest("PUT", `${settingsKey}/${key}`, { value });
+            return res.json() as Promise<{ key: string; value: SettingValue }>;
+        },
+        onSuccess: (data) => {
+            queryClient.setQueryData<SettingValues>([settingsKey], current => ({ ...current, [data.key]: data.value }));
+            toast({ title: scope === "global" ? "Setting saved" : "Preference saved" });
+        },
+        onError: (error: Error) => {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to save setting",
+                variant: "destructive",
+            });
+        },
+    });
+
+    return {
+        definitions,
+        values: values || {},
+        isLoading,
+        updateSetting: updateMutation.mutate,
+        savingKey: updateMutation.isPending ? updateMutation.variables?.key : undefined,
+    };
+}
@@ -0,0 +1,67 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ShareLinkSummary } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+export interface CreateShareLinkInput {
+    documentId?: string | null;
+    expiresAt?: string | null;
+    password?: string | null;
+}
+
+export function useShareLinks(ideaId: string, enabled = true) {
+    const { toast } = useToast();
+    const sharesKey = `/api/ideas/${ideaId}/shares`;
+
+    const { data: links, isLoading } = useQuery<ShareLinkSummary[]>({
+        queryKey: [sharesKey],
+        enabled: !!ideaId && enabled,
+        staleTime: 0,
+    });
+
+    const createMutation = useMutation({
+        mutationFn: async (input: CreateShareLinkInput) => {
+            const res = await apiRequest("POST", sharesKey, input);
+            return res.json() as Promise<ShareLinkSummary>;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: [sharesKey] });
+        },
+        onError: (error: Error) => {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to create share link",
+                variant: "destructive",
+            });
+        },
+    });
+
+    const revokeMutation = useMutation({
+        mutationFn: async (shareId: string) => {
+            await apiRequest("DELETE", `${sharesKey}/${shareId}`);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: [sharesKey] });
+            toast({
+                title: "Link revoked",
+                description: "The share link no longer works.",
+            });
+        },
+        onError: (error: Error) => {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to revoke share link",
+                variant: "destructive",
+            });
+        },
+    });
+
+    return {
+        links: links || [],
+        isLoading,
+        createLink: createMutation.mutateAsync,
+        isCreating: createMutation.isPending,
+        revokeLink: revokeMutation.mutate,
+        isRevoking: revokeMutation.isPending,
+    };
+}
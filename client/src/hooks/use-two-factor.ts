@@ -0,0 +1,126 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+const STATUS_KEY = "/api/user/2fa";
+
+/** The signed-in user's two-factor authentication: enrolment, recovery codes and turning it off. */
+export function useTwoFactor() {
+    const { toast } = useToast();
+
+    const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+        queryKey: [STATUS_KEY],
+        staleTime: 0,
+    });
+
+    const refresh = () => {
+        queryClient.invalidateQueries({ queryKey: [STATUS_KEY] });
+        // Completing enrolment lifts the enrolment-only restriction on the session
+        queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    };
+
+    const onError = (fallback: string) => (error: Error) => {
+        toast({
+            title: "Error",
+            description: error.message || fallback,
+            variant: "destructive",
+        });
+    };
+
+    const setupMutation = useMutation({
+        mutationFn: async () => {
+            const res = await apiRequest("POST", `${STATUS_KEY}/setup`);
+            return res.json() as Promise<TwoFactorSetup>;
+        },
+        onError: onError("Failed to start two-factor setup"),
+    });
+
+    const enableMutation = useMutation({
+        mutationFn: async (code: string) => {
+            const res = await apiRequest("POST", `${STATUS_KEY}/enable`, { code });
+            return res.json() as Promise<{ recoveryCodes: string[] }>;
+        },
+        onSuccess: () => {
+            refresh();
+            toast({ title: "Two-factor authentication enabled" });
+        },
+        onError: onError("Failed to enable two-factor authentication"),
+    });
+
+    const disableMutation = useMutation({
+        mutationFn: async ({ code, currentPassword }: { code: string; currentPassword: string }) => {
+            await apiRequest("POST", `${STATUS_KEY}/disable`, { code, currentPassword });
+        },
+        onSuccess: () => {
+            refresh();
+            toast({ title: "Two-factor authentication disabled" });
+        },
+        onError: onError("Failed to disable two-factor authentication"),
+    });
+
+    const recoveryCodesMutation = useMutation({
+        mutationFn: async (code: string) => {
+            const res = await apiRequest("POST", `${STATUS_KEY}/recovery-codes`, { code });
+            return res.json() as Promise<{ recoveryCodes: string[] }>;
+        },
+        onSuccess: () => {
+            refresh();
+            toast({ title: "New recovery codes generated" });
+        },
+        onError: onError("Failed to generate recovery codes"),
+    });
+
+    return {
+        status,
+        isLoading,
+        startSetup: setupMutation.mutateAsync,
+        setup: setupMutation.data,
+        isStartingSetup: setupMutation.isPending,
+        enable: enableMutation.mutateAsync,
+        isEnabling: enableMutation.isPending,
+        disable: disableMutation.mutateAsync,
+        isDisabling: disableMutation.isPending,
+        regenerateRecoveryCodes: recoveryCodesMutation.mutateAsync,
+        isRegenerating: recoveryCodesMutation.isPending,
+    };
+}
+
+/** Whether superadmins must use two-factor authentication, for the admin settings tab. */
+export function useTwoFactorPolicy(enabled = true) {
+    const { toast } = useToast();
+    const policyKey = "/api/admin/two-factor";
+
+    const { data: policy } = useQuery<{ requireForSuperadmins: boolean }>({
+        queryKey: [policyKey],
+        enabled,
+    });
+
+    const updateMutation = useMutation({
+        mutationFn: async (requireForSuperadmins: boolean) => {
+            const res = await apiRequest("PUT", policyKey, { requireForSuperadmins });
+            return res.json() as Promise<{ requireForSuperadmins: boolean }>;
+        },
+        onSuccess: (data) => {
+            queryClient.setQueryData([policyKey], data);
+            toast({
+                title: data.requireForSuperadmins
+                    ? "Two-factor authentication is now required for superadmins"
+                    : "Two-factor authentication is now optional for superadmins",
+            });
+        },
+        onError: (error: Error) => {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to update the two-factor policy",
+                variant: "destructive",
+            });
+        },
+    });
+
+    return {
+        requireForSuperadmins: policy?.requireForSuperadmins ?? false,
+        setRequireForSuperadmins: updateMutation.mutate,
+        isSaving: updateMutation.isPending,
+    };
+}
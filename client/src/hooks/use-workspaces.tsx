@@ -0,0 +1,102 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { WorkspaceWithRole } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "./use-auth";
+import { useToast } from "./use-toast";
+
+// Remembers which workspace the sidebar switcher last selected
+const CURRENT_WORKSPACE_KEY = "current-workspace-id";
+
+type WorkspaceContextType = {
+  workspaces: WorkspaceWithRole[];
+  isLoading: boolean;
+  // null means the user's personal ideas
+  currentWorkspaceId: string | null;
+  currentWorkspace: WorkspaceWithRole | null;
+  setCurrentWorkspaceId: (workspaceId: string | null) => void;
+  createWorkspace: (name: string) => Promise<WorkspaceWithRole>;
+  isCreating: boolean;
+};
+
+export const WorkspaceContext = createContext<WorkspaceContextType | null>(null);
+
+function readStoredWorkspaceId(): string | null {
+  if (typeof window === "undefined" || !window.localStorage) return null;
+  return localStorage.getItem(CURRENT_WORKSPACE_KEY);
+}
+
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [currentWorkspaceId, setWorkspaceIdState] = useState<string | null>(readStoredWorkspaceId);
+
+  const { data: workspaces, isLoading } = useQuery<WorkspaceWithRole[]>({
+    queryKey: ["/api/workspaces"],
+    enabled: !!user,
+  });
+
+  const setCurrentWorkspaceId = useCallback((workspaceId: string | null) => {
+    setWorkspaceIdState(workspaceId);
+    if (workspaceId) {
+      localStorage.setItem(CURRENT_WORKSPACE_KEY, workspaceId);
+    } else {
+      localStorage.removeItem(CURRENT_WORKSPACE_KEY);
+    }
+  }, []);
+
+  // Fall back to personal ideas if the stored workspace is gone (left, removed or deleted)
+  useEffect(() => {
+    if (workspaces && currentWorkspaceId && !workspaces.some(w => w.id === currentWorkspaceId)) {
+      setCurrentWorkspaceId(null);
+    }
+  }, [workspaces, currentWorkspaceId, setCurrentWorkspaceId]);
+
+  const createWorkspaceMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/workspaces", { name });
+      return (await res.json()) as WorkspaceWithRole;
+    },
+    onSuccess: (workspace) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      setCurrentWorkspaceId(workspace.id);
+      toast({
+        title: "Workspace created",
+        description: `Switched to ${workspace.name}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create workspace",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const currentWorkspace = workspaces?.find(w => w.id === currentWorkspaceId) ?? null;
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces: workspaces || [],
+        isLoading,
+        currentWorkspaceId: currentWorkspace ? currentWorkspace.id : null,
+        currentWorkspace,
+        setCurrentWorkspaceId,
+        createWorkspace: createWorkspaceMutation.mutateAsync,
+        isCreating: createWorkspaceMutation.isPending,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
+
+export function useWorkspaces() {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error("useWorkspaces must be used within a WorkspaceProvider");
+  }
+  return context;
+}
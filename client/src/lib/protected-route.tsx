@@ -1,6 +1,7 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import TwoFactorEnrolment from "@/pages/two-factor-enrolment";
 
 export function ProtectedRoute({
   path,
@@ -29,5 +30,9 @@ export function ProtectedRoute({
     );
   }
 
+  if (user.twoFactorEnrolmentRequired) {
+    return <Route path={path} component={TwoFactorEnrolment} />;
+  }
+
   return <Route path={path} component={Component} />;
 }
@@ -1,7 +1,7 @@
 import { io, Socket } from "socket.io-client";
 
 export interface JobEvent {
-  type: "status" | "progress" | "log" | "done" | "error";
+  type: "status" | "progress" | "log" | "done" | "error" | "cancelled";
   channel: string;
   timestamp: string;
   data: {
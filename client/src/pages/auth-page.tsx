@@ -1,3 +1,5 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -6,8 +8,12 @@ import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Hammer, Sparkles } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Hammer, Sparkles, ArrowLeft, MailCheck, ShieldCheck } from "lucide-react";
+import { RegistrationSettings } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
 import { Redirect } from "wouter";
+import { PENDING_INVITE_KEY } from "./workspace-invite";
 
 const loginSchema = z.object({
   username: z.string().min(3, {
@@ -18,8 +24,39 @@ const loginSchema = z.object({
   }),
 });
 
+const registerSchema = z.object({
+  username: z.string().min(3, {
+    message: "Username must be at least 3 characters.",
+  }),
+  email: z.string().email({
+    message: "Enter a valid email address.",
+  }),
+  password: z.string().min(6, {
+    message: "Password must be at least 6 characters.",
+  }),
+});
+
+const forgotSchema = z.object({
+  email: z.string().email({
+    message: "Enter a valid email address.",
+  }),
+});
+
+type AuthView = "login" | "register" | "forgot" | "twoFactor";
+
 export default function AuthPage() {
-  const { user, loginMutation } = useAuth();
+  const { user, loginMutation, verifyTwoFactorMutation, registerMutation } = useAuth();
+  const [view, setView] = useState<AuthView>("login");
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+
+  // Public sign-up is only offered when a superadmin has opened it
+  const { data: registration } = useQuery<Pick<RegistrationSettings, "mode" | "allowedDomains">>({
+    queryKey: ["/api/registration"],
+  });
+  const pendingInvite = sessionStorage.getItem(PENDING_INVITE_KEY);
+  const canRegister = registration?.mode === "open"
+    || registration?.mode === "domain"
+    || (registration?.mode === "invite_only" && !!pendingInvite);
 
   const loginForm = useForm<z.infer<typeof loginSchema>>({
     resolver: zodResolver(loginSchema),
@@ -29,12 +66,60 @@ export default function AuthPage() {
     },
   });
 
+  const registerForm = useForm<z.infer<typeof registerSchema>>({
+    resolver: zodResolver(registerSchema),
+    defaultValues: {
+      username: "",
+      email: "",
+      password: "",
+    },
+  });
+
+  const forgotForm = useForm<z.infer<typeof forgotSchema>>({
+    resolver: zodResolver(forgotSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const forgotMutation = useMutation({
+    mutationFn: async (values: z.infer<typeof forgotSchema>) => {
+      await apiRequest("POST", "/api/forgot-password", values);
+    },
+  });
+
   const onLoginSubmit = (values: z.infer<typeof loginSchema>) => {
-    loginMutation.mutate(values);
+    loginMutation.mutate(values, {
+      onSuccess: (result) => {
+        if ("twoFactorRequired" in result) {
+          setTwoFactorCode("");
+          setView("twoFactor");
+        }
+      },
+    });
+  };
+
+  const onTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    verifyTwoFactorMutation.mutate(twoFactorCode.trim());
+  };
+
+  const onRegisterSubmit = (values: z.infer<typeof registerSchema>) => {
+    registerMutation.mutate({ ...values, inviteToken: pendingInvite || undefined });
+  };
+
+  const onForgotSubmit = (values: z.infer<typeof forgotSchema>) => {
+    forgotMutation.mutate(values);
+  };
+
+  const showView = (next: AuthView) => {
+    forgotMutation.reset();
+    setView(next);
   };
 
   if (user) {
-    return <Redirect to="/" />;
+    // Send people who arrived through a workspace invitation back to it
+    return <Redirect to={pendingInvite ? `/invite/${pendingInvite}` : "/"} />;
   }
 
   return (
@@ -57,39 +142,194 @@ export default function AuthPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Form {...loginForm}>
-              <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                <FormField
-                  control={loginForm.control}
-                  name="username"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Username</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Enter your username" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
+            {view === "login" && (
+              <Form {...loginForm}>
+                <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+                  <FormField
+                    control={loginForm.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter your username" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={loginForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <div className="flex items-center justify-between">
+                          <FormLabel>Password</FormLabel>
+                          <button
+                            type="button"
+                            className="text-xs text-primary hover:underline"
+                            onClick={() => showView("forgot")}
+                          >
+                            Forgot password?
+                          </button>
+                        </div>
+                        <FormControl>
+                          <Input type="password" placeholder="Enter your password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90" disabled={loginMutation.isPending}>
+                    {loginMutation.isPending ? "Logging in..." : "Login"}
+                  </Button>
+                  {canRegister && (
+                    <p className="text-sm text-center text-neutral-600">
+                      New here?{" "}
+                      <button type="button" className="text-primary hover:underline" onClick={() => showView("register")}>
+                        Create an account
+                      </button>
+                    </p>
                   )}
-                />
-                <FormField
-                  control={loginForm.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Password</FormLabel>
-                      <FormControl>
-                        <Input type="password" placeholder="Enter your password" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <Button type="submit" className="w-full bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90" disabled={loginMutation.isPending}>
-                  {loginMutation.isPending ? "Logging in..." : "Login"}
+                </form>
+              </Form>
+            )}
+
+            {view === "register" && (
+              <Form {...registerForm}>
+                <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
+                  <FormField
+                    control={registerForm.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Choose a username" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={registerForm.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" placeholder="you@example.com" {...field} />
+                        </FormControl>
+                        {registration?.mode === "domain" && registration.allowedDomains.length > 0 && (
+                          <p className="text-xs text-neutral-500">
+                            Sign-up is open to {registration.allowedDomains.map(domain => `@${domain}`).join(", ")} addresses.
+                          </p>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={registerForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="At least 6 characters" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90" disabled={registerMutation.isPending}>
+                    {registerMutation.isPending ? "Creating account..." : "Create Account"}
+                  </Button>
+                  <p className="text-sm text-center text-neutral-600">
+                    Already have an account?{" "}
+                    <button type="button" className="text-primary hover:underline" onClick={() => showView("login")}>
+                      Sign in
+                    </button>
+                  </p>
+                </form>
+              </Form>
+            )}
+
+            {view === "twoFactor" && (
+              <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+                <div className="flex flex-col items-center gap-2 text-center">
+                  <ShieldCheck className="h-10 w-10 text-primary" />
+                  <p className="text-sm text-neutral-600">
+                    Enter the six digit code from your authenticator app, or one of your recovery codes.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-code">Authentication code</Label>
+                  <Input
+                    id="two-factor-code"
+                    autoFocus
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90"
+                  disabled={verifyTwoFactorMutation.isPending || twoFactorCode.trim().length < 6}
+                >
+                  {verifyTwoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                </Button>
+                <Button type="button" variant="ghost" className="w-full" onClick={() => showView("login")}>
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back to Sign In
                 </Button>
               </form>
-            </Form>
+            )}
+
+            {view === "forgot" && (
+              forgotMutation.isSuccess ? (
+                <div className="flex flex-col items-center gap-3 text-center">
+                  <MailCheck className="h-10 w-10 text-primary" />
+                  <p className="text-sm text-neutral-600">
+                    If an account uses that address, we've sent it a link to reset the password. The link expires in 1 hour.
+                  </p>
+                  <Button variant="outline" onClick={() => showView("login")}>Back to Sign In</Button>
+                </div>
+              ) : (
+                <Form {...forgotForm}>
+                  <form onSubmit={forgotForm.handleSubmit(onForgotSubmit)} className="space-y-4">
+                    <p className="text-sm text-neutral-600">
+                      Enter the email address on your account and we'll send you a link to choose a new password.
+                    </p>
+                    <FormField
+                      control={forgotForm.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input type="email" placeholder="you@example.com" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {forgotMutation.error && (
+                      <p className="text-sm text-red-600">{forgotMutation.error.message}</p>
+                    )}
+                    <Button type="submit" className="w-full" disabled={forgotMutation.isPending}>
+                      {forgotMutation.isPending ? "Sending..." : "Send Reset Link"}
+                    </Button>
+                    <Button type="button" variant="ghost" className="w-full" onClick={() => showView("login")}>
+                      <ArrowLeft className="mr-2 h-4 w-4" />
+                      Back to Sign In
+                    </Button>
+                  </form>
+                </Form>
+              )
+            )}
           </CardContent>
         </Card>
       </div>
@@ -1,24 +1,31 @@
 import { useState, useEffect, useCallback } from "react";
 import { useIdeas } from "@/hooks/use-ideas";
+import { useWorkspaces } from "@/hooks/use-workspaces";
 import { useAuth } from "@/hooks/use-auth";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { IdeaStatus, ideaStatuses } from "@shared/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import { IdeaStatus, ideaStatuses, pipelineSteps, pipelineStepLabels, type PipelineStep, BATCH_MAX_IDEAS } from "@shared/schema";
 import { Sidebar } from "@/components/sidebar";
 import { Header } from "@/components/header";
 import { IdeaCard } from "@/components/idea-card";
 import { NewIdeaModal } from "@/components/new-idea-modal";
-import { SearchIcon, Hammer, Sparkles, CheckCircle } from "lucide-react";
+import { BatchProgress } from "@/components/batch-progress";
+import { SearchIcon, Hammer, Sparkles, CheckCircle, RefreshCw } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
 import { useToast } from "@/hooks/use-toast";
 import { useSafeNavigation } from "@/hooks/use-safe-navigation";
+import { useBatches } from "@/hooks/use-batches";
+import { useGenerationService } from "@/hooks/use-generation-service";
 
 export default function Dashboard() {
   const { user } = useAuth();
   const { ideas, isLoading, generateCanvas } = useIdeas();
+  const { currentWorkspace } = useWorkspaces();
+  const canCreateIdeas = currentWorkspace?.role !== "viewer";
   // We only use the local ideas hook - not the Supabase ideas - to avoid any cross-user data leakage
   const { toast } = useToast();
   const { location } = useSafeNavigation();
@@ -26,6 +33,10 @@ export default function Dashboard() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<IdeaStatus | "All">("All");
   const [sortOrder, setSortOrder] = useState<string>("newest");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [batchStep, setBatchStep] = useState<PipelineStep | "">("");
+  const { startBatch, isStarting } = useBatches();
+  const { isAvailable: isGenerationAvailable } = useGenerationService();
   
   // Check for verification success from URL params
   useEffect(() => {
@@ -98,6 +109,33 @@ export default function Dashboard() {
       return 0;
     });
 
+  // Batch actions only apply to selected ideas that are still shown
+  const selectedIdeas = filteredIdeas.filter(idea => selectedIds.has(idea.id));
+  const allSelected = filteredIdeas.length > 0 && selectedIdeas.length === filteredIdeas.length;
+  const canStartBatch = selectedIdeas.length > 0 && selectedIdeas.length <= BATCH_MAX_IDEAS
+    && !isStarting && isGenerationAvailable;
+
+  const handleSelectChange = (ideaId: string, selected: boolean) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (selected) {
+        next.add(ideaId);
+      } else {
+        next.delete(ideaId);
+      }
+      return next;
+    });
+  };
+
+  const handleStartBatch = async (step: PipelineStep | null) => {
+    try {
+      await startBatch({ ideaIds: selectedIdeas.map(idea => idea.id), step });
+      setSelectedIds(new Set());
+    } catch {
+      // useBatches already reported the error
+    }
+  };
+
   // Handle new idea button click
   const handleNewIdea = () => {
     setShowNewIdeaModal(true);
@@ -129,13 +167,21 @@ export default function Dashboard() {
             {/* Dashboard Header */}
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8">
               <div>
-                <h1 className="text-2xl font-bold bg-gradient-to-r from-primary-500 to-amber-500 bg-clip-text text-transparent">Your Idea Forge</h1>
-                <p className="mt-1 text-sm text-neutral-500">Craft and refine your business ideas in the anvil</p>
+                <h1 className="text-2xl font-bold bg-gradient-to-r from-primary-500 to-amber-500 bg-clip-text text-transparent">
+                  {currentWorkspace ? `${currentWorkspace.name} Forge` : "Your Idea Forge"}
+                </h1>
+                <p className="mt-1 text-sm text-neutral-500">
+                  {currentWorkspace
+                    ? `Ideas shared with the ${currentWorkspace.memberCount} member${currentWorkspace.memberCount === 1 ? "" : "s"} of this workspace`
+                    : "Craft and refine your business ideas in the anvil"}
+                </p>
               </div>
               <div className="mt-4 sm:mt-0">
                 <Button 
                   onClick={handleNewIdea}
                   className="inline-flex items-center"
+                  disabled={!canCreateIdeas}
+                  title={canCreateIdeas ? undefined : "Viewers cannot add ideas to this workspace"}
                 >
                   <Hammer className="-ml-1 mr-2 h-5 w-5" />
                   Forge New Idea
@@ -192,6 +238,56 @@ export default function Dashboard() {
               </div>
             </div>
 
+            {/* Batch actions */}
+            {canCreateIdeas && filteredIdeas.length > 0 && (
+              <div className="mb-6 px-4 py-3 bg-white rounded-lg shadow-sm border border-neutral-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div className="flex items-center gap-3 text-sm text-neutral-600">
+                  <Checkbox
+                    checked={allSelected ? true : selectedIdeas.length > 0 ? "indeterminate" : false}
+                    onCheckedChange={(checked) => setSelectedIds(checked === true ? new Set(filteredIdeas.map(idea => idea.id)) : new Set())}
+                    aria-label="Select all shown ideas"
+                  />
+                  <span>
+                    {selectedIdeas.length === 0
+                      ? "Select ideas to forge them together"
+                      : selectedIdeas.length > BATCH_MAX_IDEAS
+                        ? `${selectedIdeas.length} selected — a batch can hold at most ${BATCH_MAX_IDEAS} ideas`
+                        : `${selectedIdeas.length} selected`}
+                  </span>
+                </div>
+                <div
+                  className="flex flex-wrap items-center gap-2"
+                  title={isGenerationAvailable ? undefined : "The generation service is temporarily unavailable"}
+                >
+                  <Button size="sm" onClick={() => handleStartBatch(null)} disabled={!canStartBatch}>
+                    <Hammer className="mr-1.5 h-4 w-4" />
+                    Forge selected
+                  </Button>
+                  <Select value={batchStep} onValueChange={(value) => setBatchStep(value as PipelineStep)}>
+                    <SelectTrigger className="w-[210px] h-9">
+                      <SelectValue placeholder="Choose a step..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pipelineSteps.map((step) => (
+                        <SelectItem key={step} value={step}>{pipelineStepLabels[step]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => batchStep && handleStartBatch(batchStep)}
+                    disabled={!canStartBatch || !batchStep}
+                  >
+                    <RefreshCw className="mr-1.5 h-4 w-4" />
+                    Regenerate for selected
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <BatchProgress />
+
             {/* Ideas Grid */}
             {isLoading ? (
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -218,6 +314,8 @@ export default function Dashboard() {
                     key={idea.id} 
                     idea={idea}
                     onGenerate={() => generateCanvas(idea.id)} 
+                    selected={selectedIds.has(idea.id)}
+                    onSelectChange={canCreateIdeas ? (selected) => handleSelectChange(idea.id, selected) : undefined}
                   />
                 ))}
               </div>
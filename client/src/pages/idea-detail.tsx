@@ -2,13 +2,20 @@ import { useParams, useLocation } from "wouter";
 import { useIdea, useIdeas } from "@/hooks/use-ideas";
 import { Sidebar } from "@/components/sidebar";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Hammer, Info } from "lucide-react";
+import { AlertTriangle, ArrowLeft, Eye, Hammer, Info, Loader2, RefreshCw } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useState, useEffect } from "react";
 import { queryClient } from "@/lib/queryClient";
 
 import { PipelineProgress } from "@/components/pipeline-progress";
+import { GenerationServiceBanner } from "@/components/generation-service-banner";
+import { IdeaExportMenu } from "@/components/idea-export-menu";
+import { ShareDialog } from "@/components/share-dialog";
+import { CustomRunDialog } from "@/components/custom-run-dialog";
+import { JobHistory } from "@/components/job-history";
+import { useDocumentStaleness } from "@/hooks/use-document-staleness";
+import { useGenerationService } from "@/hooks/use-generation-service";
 import { LeanCanvasTab } from "@/components/idea-detail-tabs/lean-canvas-tab";
 import { IdeaDocumentTab } from "@/components/idea-detail-tabs/idea-document-tab";
 import { IdeaDetailsTab } from "@/components/idea-detail-tabs/idea-details-tab";
@@ -16,11 +23,25 @@ import { WorkflowsTab } from "@/components/idea-detail-tabs/workflows-tab";
 import { WorkflowSpecTab } from "@/components/idea-detail-tabs/workflow-spec-tab";
 import { UltimateWebsiteTab } from "@/components/idea-detail-tabs/ultimate-website-tab";
 
+/** Marks a document tab whose upstream documents changed after it was generated. */
+function StaleBadge() {
+  return (
+    <span
+      className="ml-1.5 inline-flex items-center rounded-full bg-amber-100 px-1.5 py-0.5 text-[10px] font-medium text-amber-800"
+      title="Upstream documents changed since this was generated"
+    >
+      stale
+    </span>
+  );
+}
+
 export default function IdeaDetail() {
   const { id } = useParams<{ id: string }>();
   const [, navigate] = useLocation();
   const { idea, isLoading: isLoadingIdea } = useIdea(id);
   const { generateCanvas, isGenerating } = useIdeas();
+  const { staleDocuments, isStale, changedStep, regenerateDownstream, isRegenerating } = useDocumentStaleness(id);
+  const { isAvailable: isGenerationAvailable } = useGenerationService();
 
   // URL-based tab state management
   const getTabFromUrl = () => {
@@ -111,6 +132,9 @@ export default function IdeaDetail() {
     );
   }
 
+  // Workspace viewers get a read-only page
+  const canEdit = idea.accessRole !== "viewer";
+
   return (
     <div className="flex h-screen overflow-hidden">
       <Sidebar />
@@ -130,42 +154,110 @@ export default function IdeaDetail() {
                     ${idea.status === 'Draft' ? 'bg-neutral-100 text-neutral-800' : ''}`}>
                     {idea.status}
                   </span>
-                  {idea.status === 'Draft' && (
+                  {idea.accessRole === 'viewer' && (
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
+                      <Eye className="mr-1 h-3 w-3" />
+                      View only
+                    </span>
+                  )}
+                  {idea.status === 'Draft' && canEdit && (
                     <Button
                       size="sm"
                       onClick={() => generateCanvas(id)}
-                      disabled={isGenerating}
+                      disabled={isGenerating || !isGenerationAvailable}
                       className="bg-gradient-to-r from-amber-500 to-amber-700 hover:from-amber-600 hover:to-amber-800"
                     >
                       <Hammer className="mr-2 h-4 w-4" />
                       Start Forging
                     </Button>
                   )}
+                  {idea.status === 'Draft' && canEdit && (
+                    <CustomRunDialog ideaId={id} disabled={isGenerating || !isGenerationAvailable} />
+                  )}
                 </div>
                 <h1 className="text-2xl font-bold text-neutral-900">
                   {idea.title || idea.companyName || idea.description.split(' ').slice(0, 5).join(' ') + '...'}
                 </h1>
               </div>
+              {idea.status !== 'Draft' && (
+                <div className="ml-4 mt-1 flex items-center gap-2">
+                  {canEdit && (
+                    <CustomRunDialog
+                      ideaId={id}
+                      disabled={idea.status === "Generating" || idea.status === "Processing" || !isGenerationAvailable}
+                    />
+                  )}
+                  {canEdit && <ShareDialog ideaId={id} />}
+                  <JobHistory ideaId={id} />
+                  <IdeaExportMenu ideaId={id} />
+                </div>
+              )}
             </div>
 
+            {canEdit && <GenerationServiceBanner />}
+
             {(idea.status === "Generating" || idea.status === "Processing") && (
               <PipelineProgress ideaId={id} />
             )}
 
+            {staleDocuments.length > 0 && changedStep && idea.status !== "Generating" && (
+              <div className="mb-4 flex items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3">
+                <AlertTriangle className="h-5 w-5 shrink-0 text-amber-600" />
+                <p className="flex-1 text-sm text-amber-900">
+                  {staleDocuments.length} document{staleDocuments.length === 1 ? " was" : "s were"} generated
+                  from content that has since changed.
+                </p>
+                {canEdit && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => regenerateDownstream({ step: changedStep })}
+                    disabled={isRegenerating || !isGenerationAvailable}
+                  >
+                    {isRegenerating
+                      ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      : <RefreshCw className="mr-2 h-4 w-4" />}
+                    Regenerate downstream
+                  </Button>
+                )}
+              </div>
+            )}
+
             <div className="flex flex-col lg:flex-row lg:space-x-6">
               <div className="w-full">
                 <div className="border-b border-neutral-200">
                   <Tabs value={activeTab} onValueChange={setActiveTab}>
                     <TabsList className="w-auto flex flex-wrap">
                       <TabsTrigger value="canvas" className="text-sm">Lean Canvas</TabsTrigger>
-                      <TabsTrigger value="requirements" className="text-sm">Project Requirements</TabsTrigger>
-                      <TabsTrigger value="business" className="text-sm">Business Requirements</TabsTrigger>
-                      <TabsTrigger value="functional" className="text-sm">Functional Requirements</TabsTrigger>
-                      <TabsTrigger value="workflows" className="text-sm">Workflows</TabsTrigger>
-                      <TabsTrigger value="frontend" className="text-sm">Front End Spec</TabsTrigger>
-                      <TabsTrigger value="backend" className="text-sm">Back End Spec</TabsTrigger>
+                      <TabsTrigger value="requirements" className="text-sm">
+                        Project Requirements
+                        {isStale("ProjectRequirements") && <StaleBadge />}
+                      </TabsTrigger>
+                      <TabsTrigger value="business" className="text-sm">
+                        Business Requirements
+                        {isStale("BusinessRequirements") && <StaleBadge />}
+                      </TabsTrigger>
+                      <TabsTrigger value="functional" className="text-sm">
+                        Functional Requirements
+                        {isStale("FunctionalRequirements") && <StaleBadge />}
+                      </TabsTrigger>
+                      <TabsTrigger value="workflows" className="text-sm">
+                        Workflows
+                        {isStale("Workflows") && <StaleBadge />}
+                      </TabsTrigger>
+                      <TabsTrigger value="frontend" className="text-sm">
+                        Front End Spec
+                        {isStale("FrontEndSpecification") && <StaleBadge />}
+                      </TabsTrigger>
+                      <TabsTrigger value="backend" className="text-sm">
+                        Back End Spec
+                        {isStale("BackEndSpecification") && <StaleBadge />}
+                      </TabsTrigger>
                       <TabsTrigger value="swagger" className="text-sm">Swagger</TabsTrigger>
-                      <TabsTrigger value="estimate" className="text-sm">Estimate</TabsTrigger>
+                      <TabsTrigger value="estimate" className="text-sm">
+                        Estimate
+                        {isStale("Estimate") && <StaleBadge />}
+                      </TabsTrigger>
                       <TabsTrigger value="ultimate-website" className="text-sm">Ultimate Website</TabsTrigger>
                       <TabsTrigger value="details" className="text-sm">
                         <div className="flex items-center">
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle, KeyRound, Loader2 } from "lucide-react";
+
+/** Pull the JSON message out of an apiRequest error ("400: {...}") */
+function errorMessage(error: Error) {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+export default function ResetPassword() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/reset-password", { token, password });
+    },
+  });
+
+  const mismatch = confirmation.length > 0 && password !== confirmation;
+  const canSubmit = password.length >= 6 && password === confirmation && !resetMutation.isPending;
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-neutral-50">
+      <Card className="w-[440px] shadow-lg">
+        {resetMutation.isSuccess ? (
+          <>
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl font-bold">Password Reset</CardTitle>
+              <CardDescription>Your password has been changed. You can now sign in with it.</CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col items-center gap-4">
+              <CheckCircle className="h-12 w-12 text-green-500" />
+              <Button onClick={() => navigate("/auth")}>Go to Sign In</Button>
+            </CardContent>
+          </>
+        ) : (
+          <>
+            <CardHeader className="text-center">
+              <div className="flex justify-center mb-2">
+                <KeyRound className="h-10 w-10 text-primary" />
+              </div>
+              <CardTitle className="text-xl font-bold">Choose a New Password</CardTitle>
+              <CardDescription>Reset links expire an hour after they are sent.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  resetMutation.mutate();
+                }}
+              >
+                <div className="grid gap-2">
+                  <Label htmlFor="new-password">New password</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    placeholder="At least 6 characters"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="confirm-password">Confirm password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                  />
+                  {mismatch && <p className="text-sm text-red-600">Passwords don't match.</p>}
+                </div>
+                {resetMutation.error && (
+                  <p className="text-sm text-red-600 text-center">{errorMessage(resetMutation.error)}</p>
+                )}
+                <Button type="submit" className="w-full" disabled={!canSubmit}>
+                  {resetMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Reset Password
+                </Button>
+              </form>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
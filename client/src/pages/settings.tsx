@@ -8,10 +8,19 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { Send, Settings as SettingsIcon, Mail, AlertCircle, CheckCircle, Save, User, RefreshCw, X, Info as InfoIcon, UserPlus, Shield } from "lucide-react";
+import { Send, Settings as SettingsIcon, Mail, AlertCircle, CheckCircle, Save, User, RefreshCw, X, Info as InfoIcon, UserPlus, Shield, ShieldCheck, DoorOpen, Bell } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RegistrationMode } from "@shared/schema";
+import { AdminUserConsole } from "@/components/admin-user-console";
+import { AuditLogViewer } from "@/components/audit-log-viewer";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { SessionList } from "@/components/session-list";
+import { ApiTokenSettings } from "@/components/api-token-settings";
+import { SettingsRegistryCard } from "@/components/settings-registry-card";
+import { useTwoFactorPolicy } from "@/hooks/use-two-factor";
+import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -29,9 +38,6 @@ export default function Settings() {
   const [notificationUsername, setNotificationUsername] = useState("");
   const [notificationIdeaTitle, setNotificationIdeaTitle] = useState("");
   const [isSendingNotificationEmail, setIsSendingNotificationEmail] = useState(false);
-  const [emailFromAddress, setEmailFromAddress] = useState("");
-  const [isLoadingConfig, setIsLoadingConfig] = useState(false);
-  const [isSavingConfig, setIsSavingConfig] = useState(false);
   const [isEmailVerified, setIsEmailVerified] = useState<boolean | null>(null);
   const [isResendingVerification, setIsResendingVerification] = useState(false);
 
@@ -42,41 +48,57 @@ export default function Settings() {
   const [newRole, setNewRole] = useState<"user" | "superadmin">("user");
   const [isCreatingUser, setIsCreatingUser] = useState(false);
 
+  // Account: Change email state
+  const [changeEmailAddress, setChangeEmailAddress] = useState("");
+  const [changeEmailPassword, setChangeEmailPassword] = useState("");
+  const [isChangingEmail, setIsChangingEmail] = useState(false);
+
+  // Admin: Registration state
+  const [registrationMode, setRegistrationMode] = useState<RegistrationMode>("disabled");
+  const [registrationDomains, setRegistrationDomains] = useState("");
+  const [isSavingRegistration, setIsSavingRegistration] = useState(false);
+
   const isSuperadmin = user?.role === "superadmin";
+  const { requireForSuperadmins, setRequireForSuperadmins, isSaving: isSavingTwoFactorPolicy } = useTwoFactorPolicy(isSuperadmin);
+
+  // Confirmation links for an email change land back here with the outcome
+  useEffect(() => {
+    const emailChanged = new URLSearchParams(window.location.search).get("emailChanged");
+    if (emailChanged === null) return;
+
+    setCurrentTab("account");
+    if (emailChanged === "true") {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Email Updated",
+        description: "Your account now uses your new email address.",
+      });
+    } else {
+      toast({
+        title: "Email Change Failed",
+        description: "The confirmation link is invalid, has expired, or the address is already in use.",
+        variant: "destructive",
+      });
+    }
+    window.history.replaceState(null, "", window.location.pathname);
+  }, [toast]);
+
+  useEffect(() => {
+    if (!isSuperadmin) return;
+    apiRequest("GET", "/api/admin/registration")
+      .then(response => response.json())
+      .then(data => {
+        setRegistrationMode(data.mode);
+        setRegistrationDomains(data.allowedDomains.join(", "));
+      })
+      .catch(error => console.error("Failed to load registration settings:", error));
+  }, [isSuperadmin]);
 
-  // Load email configuration when component mounts
+  // Load the email verification status when the component mounts
   useEffect(() => {
     // Use a mounted flag to prevent state updates after component unmounts
     let mounted = true;
     
-    const loadEmailConfig = async () => {
-      if (!mounted) return;
-      setIsLoadingConfig(true);
-      
-      try {
-        const response = await apiRequest("GET", "/api/email/config");
-        if (!mounted) return;
-        
-        const data = await response.json();
-        if (mounted && data.fromAddress) {
-          setEmailFromAddress(data.fromAddress);
-        }
-      } catch (error) {
-        if (!mounted) return;
-        
-        console.error("Failed to load email configuration:", error);
-        toast({
-          title: "Configuration Error",
-          description: "Failed to load email configuration",
-          variant: "destructive"
-        });
-      } finally {
-        if (mounted) {
-          setIsLoadingConfig(false);
-        }
-      }
-    };
-
     const checkEmailVerificationStatus = async () => {
       if (!user || !mounted) return;
       
@@ -98,7 +120,6 @@ export default function Settings() {
       }
     };
 
-    loadEmailConfig();
     checkEmailVerificationStatus();
     
     // Return cleanup function to prevent state updates after unmount
@@ -107,44 +128,6 @@ export default function Settings() {
     };
   }, [toast, user]);
 
-  const handleSaveEmailConfig = async () => {
-    if (!emailFromAddress) {
-      toast({
-        title: "Missing Information",
-        description: "Please enter a valid 'From' email address",
-        variant: "destructive"
-      });
-      return;
-    }
-
-    setIsSavingConfig(true);
-    
-    try {
-      const response = await apiRequest("POST", "/api/email/config", { 
-        fromAddress: emailFromAddress
-      });
-      const data = await response.json();
-      
-      if (data.success) {
-        toast({
-          title: "Configuration Saved",
-          description: "Email configuration updated successfully",
-          variant: "default"
-        });
-      } else {
-        throw new Error(data.message || "Failed to save email configuration");
-      }
-    } catch (error) {
-      toast({
-        title: "Configuration Error",
-        description: error instanceof Error ? error.message : "An unknown error occurred",
-        variant: "destructive"
-      });
-    } finally {
-      setIsSavingConfig(false);
-    }
-  };
-
   const handleSendTestEmail = async () => {
     if (!testEmailAddress) {
       toast({
@@ -296,6 +279,68 @@ export default function Settings() {
     }
   };
 
+  const handleChangeEmail = async () => {
+    if (!changeEmailAddress || !changeEmailPassword) {
+      toast({
+        title: "Missing Information",
+        description: "Enter the new address and your current password.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsChangingEmail(true);
+
+    try {
+      const response = await apiRequest("POST", "/api/user/email", {
+        newEmail: changeEmailAddress,
+        currentPassword: changeEmailPassword,
+      });
+      const data = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+
+      toast({
+        title: "Confirm Your New Email",
+        description: data.message,
+      });
+
+      setChangeEmailAddress("");
+      setChangeEmailPassword("");
+    } catch (error) {
+      toast({
+        title: "Failed to Change Email",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChangingEmail(false);
+    }
+  };
+
+  const handleSaveRegistration = async () => {
+    setIsSavingRegistration(true);
+
+    try {
+      await apiRequest("PUT", "/api/admin/registration", {
+        mode: registrationMode,
+        allowedDomains: registrationDomains.split(",").map(domain => domain.trim()).filter(Boolean),
+      });
+
+      toast({
+        title: "Registration Updated",
+        description: "Sign-up settings have been saved.",
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to Save Registration Settings",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingRegistration(false);
+    }
+  };
+
   const handleCreateUser = async () => {
     if (!newUsername || !newEmail || !newPassword) {
       toast({
@@ -399,66 +444,36 @@ export default function Settings() {
                     Admin
                   </button>
                 )}
+                {isSuperadmin && (
+                  <button
+                    className={`py-2 px-4 font-medium text-sm border-b-2 ${
+                      currentTab === "users"
+                        ? "border-primary text-primary"
+                        : "border-transparent text-neutral-500 hover:text-neutral-900"
+                    }`}
+                    onClick={() => setCurrentTab("users")}
+                  >
+                    Users
+                  </button>
+                )}
+                {isSuperadmin && (
+                  <button
+                    className={`py-2 px-4 font-medium text-sm border-b-2 ${
+                      currentTab === "audit"
+                        ? "border-primary text-primary"
+                        : "border-transparent text-neutral-500 hover:text-neutral-900"
+                    }`}
+                    onClick={() => setCurrentTab("audit")}
+                  >
+                    Audit Log
+                  </button>
+                )}
               </div>
             </div>
             
             {/* Email Tab Content */}
             {currentTab === "email" && (
               <div className="space-y-6">
-                <Card className="mb-6">
-                  <CardHeader>
-                    <CardTitle className="flex items-center">
-                      <Mail className="h-5 w-5 mr-2 text-primary" />
-                      Email Configuration
-                    </CardTitle>
-                    <CardDescription>
-                      Configure email service settings
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div>
-                      <h3 className="text-lg font-medium mb-4">Email Service Settings</h3>
-                      <div className="grid gap-4">
-                        <div className="grid gap-2">
-                          <Label htmlFor="email-from">From Address</Label>
-                          <Input
-                            id="email-from"
-                            placeholder="Anvil of Ideas <no-reply@anvilofideas.com>"
-                            value={emailFromAddress}
-                            onChange={(e) => setEmailFromAddress(e.target.value)}
-                            disabled={isLoadingConfig}
-                          />
-                          <p className="text-sm text-neutral-500">
-                            Format: "Display Name &lt;email@example.com&gt;" or just "email@example.com"
-                          </p>
-                        </div>
-                        <Button 
-                          onClick={handleSaveEmailConfig}
-                          disabled={isSavingConfig || !emailFromAddress || isLoadingConfig}
-                        >
-                          {isSavingConfig ? (
-                            <span className="flex items-center">
-                              <span className="mr-2">Saving</span>
-                              <AlertCircle className="h-4 w-4 animate-spin" />
-                            </span>
-                          ) : (
-                            <span className="flex items-center">
-                              <Save className="h-4 w-4 mr-2" />
-                              Save Configuration
-                            </span>
-                          )}
-                        </Button>
-                      </div>
-                    </div>
-                  </CardContent>
-                  <CardFooter className="bg-neutral-50 border-t px-6 py-4">
-                    <div className="flex items-center text-sm text-neutral-500">
-                      <CheckCircle className="h-4 w-4 mr-2 text-green-500" />
-                      Email configuration is stored in the database
-                    </div>
-                  </CardFooter>
-                </Card>
-                
                 <Card>
                   <CardHeader>
                     <CardTitle className="flex items-center">
@@ -648,28 +663,104 @@ export default function Settings() {
                     </div>
                   </CardFooter>
                 </Card>
-              </div>
-            )}
-            
-            {/* Notifications Tab Content */}
-            {currentTab === "notifications" && (
-              <div className="space-y-6">
+
                 <Card>
                   <CardHeader>
-                    <CardTitle>Notification Preferences</CardTitle>
+                    <CardTitle className="flex items-center">
+                      <Mail className="h-5 w-5 mr-2 text-primary" />
+                      Change Email Address
+                    </CardTitle>
                     <CardDescription>
-                      Manage how and when you receive notifications
+                      We'll send a confirmation link to the new address. Your account keeps its current address until you follow it.
                     </CardDescription>
                   </CardHeader>
-                  <CardContent>
-                    <p className="text-neutral-500">Notification preferences will be implemented in a future update.</p>
+                  <CardContent className="space-y-4">
+                    {user?.pendingEmail && (
+                      <p className="text-sm text-amber-700">
+                        Waiting for confirmation of <span className="font-medium">{user.pendingEmail}</span>.
+                      </p>
+                    )}
+                    <div className="grid gap-2">
+                      <Label htmlFor="change-email">New email address</Label>
+                      <Input
+                        id="change-email"
+                        type="email"
+                        placeholder="you@example.com"
+                        value={changeEmailAddress}
+                        onChange={(e) => setChangeEmailAddress(e.target.value)}
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="change-email-password">Current password</Label>
+                      <Input
+                        id="change-email-password"
+                        type="password"
+                        value={changeEmailPassword}
+                        onChange={(e) => setChangeEmailPassword(e.target.value)}
+                      />
+                    </div>
+                    <Button
+                      onClick={handleChangeEmail}
+                      disabled={isChangingEmail || !changeEmailAddress || !changeEmailPassword}
+                    >
+                      {isChangingEmail ? (
+                        <span className="flex items-center">
+                          <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                          Sending...
+                        </span>
+                      ) : (
+                        <span className="flex items-center">
+                          <Send className="h-4 w-4 mr-2" />
+                          Send Confirmation Link
+                        </span>
+                      )}
+                    </Button>
                   </CardContent>
                 </Card>
+
+                <TwoFactorSettings />
+
+                <SessionList />
+
+                <ApiTokenSettings />
+              </div>
+            )}
+            
+            {/* Notifications Tab Content */}
+            {currentTab === "notifications" && (
+              <div className="space-y-6">
+                <SettingsRegistryCard
+                  scope="user"
+                  title="Notification Preferences"
+                  description="Choose which emails you receive about activity on your ideas."
+                  icon={<Bell className="h-5 w-5 mr-2 text-primary" />}
+                />
+              </div>
+            )}
+            {/* Users Tab Content */}
+            {currentTab === "users" && isSuperadmin && (
+              <div className="space-y-6">
+                <AdminUserConsole />
+              </div>
+            )}
+
+            {/* Audit Log Tab Content */}
+            {currentTab === "audit" && isSuperadmin && (
+              <div className="space-y-6">
+                <AuditLogViewer />
               </div>
             )}
+
             {/* Admin Tab Content */}
             {currentTab === "admin" && isSuperadmin && (
               <div className="space-y-6">
+                <SettingsRegistryCard
+                  scope="global"
+                  title="Application Settings"
+                  description="Settings that apply to everyone. Changes are recorded in the audit log."
+                  icon={<SettingsIcon className="h-5 w-5 mr-2 text-primary" />}
+                />
+
                 <Card>
                   <CardHeader>
                     <CardTitle className="flex items-center">
@@ -748,6 +839,91 @@ export default function Settings() {
                     </div>
                   </CardFooter>
                 </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <DoorOpen className="h-5 w-5 mr-2 text-primary" />
+                      Registration
+                    </CardTitle>
+                    <CardDescription>
+                      Choose who can create their own account from the sign-in page.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="registration-mode">Sign-up</Label>
+                      <Select value={registrationMode} onValueChange={(v) => setRegistrationMode(v as RegistrationMode)}>
+                        <SelectTrigger id="registration-mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="disabled">Disabled — superadmins create accounts</SelectItem>
+                          <SelectItem value="open">Open to anyone</SelectItem>
+                          <SelectItem value="invite_only">Invite only — workspace invitees</SelectItem>
+                          <SelectItem value="domain">Allowed email domains</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {registrationMode === "domain" && (
+                      <div className="grid gap-2">
+                        <Label htmlFor="registration-domains">Allowed domains</Label>
+                        <Input
+                          id="registration-domains"
+                          placeholder="example.com, example.org"
+                          value={registrationDomains}
+                          onChange={(e) => setRegistrationDomains(e.target.value)}
+                        />
+                      </div>
+                    )}
+                    <Button onClick={handleSaveRegistration} disabled={isSavingRegistration}>
+                      {isSavingRegistration ? (
+                        <span className="flex items-center">
+                          <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                          Saving...
+                        </span>
+                      ) : (
+                        <span className="flex items-center">
+                          <Save className="h-4 w-4 mr-2" />
+                          Save Registration Settings
+                        </span>
+                      )}
+                    </Button>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <ShieldCheck className="h-5 w-5 mr-2 text-primary" />
+                      Two-Factor Authentication
+                    </CardTitle>
+                    <CardDescription>
+                      Require superadmins to sign in with an authenticator app code as well as their password.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <div className="flex items-center justify-between gap-4">
+                      <Label htmlFor="require-superadmin-2fa">Require two-factor authentication for superadmins</Label>
+                      <Switch
+                        id="require-superadmin-2fa"
+                        checked={requireForSuperadmins}
+                        onCheckedChange={setRequireForSuperadmins}
+                        disabled={isSavingTwoFactorPolicy || (!requireForSuperadmins && !user?.totpEnabledAt)}
+                      />
+                    </div>
+                    {!requireForSuperadmins && !user?.totpEnabledAt && (
+                      <p className="text-sm text-neutral-500">
+                        Turn on two-factor authentication for your own account on the Account tab first.
+                      </p>
+                    )}
+                    {requireForSuperadmins && (
+                      <p className="text-sm text-neutral-500">
+                        Superadmins without it can only set it up until they do.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
               </div>
             )}
           </div>
@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "wouter";
+import ReactMarkdown from "react-markdown";
+import { SharedIdeaContent } from "@shared/schema";
+import { MermaidDiagram, parseDiagrams } from "@/components/mermaid-diagram";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { GitBranch, Hammer, Loader2, Lock, XCircle } from "lucide-react";
+
+type ShareState =
+  | { status: "loading" }
+  | { status: "password"; error?: string }
+  | { status: "error"; message: string }
+  | { status: "ready"; content: SharedIdeaContent };
+
+function formatTitle(key: string) {
+  return key.replace(/([A-Z])/g, " $1").replace(/^./, s => s.toUpperCase()).trim();
+}
+
+export default function SharedIdea() {
+  const { token } = useParams<{ token: string }>();
+  const [state, setState] = useState<ShareState>({ status: "loading" });
+  const [password, setPassword] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [diagramIndex, setDiagramIndex] = useState<number | null>(null);
+
+  const handleResponse = useCallback(async (response: Response) => {
+    const body = await response.json().catch(() => null);
+    if (response.ok) {
+      setState({ status: "ready", content: body });
+    } else if (response.status === 401 && body?.requiresPassword) {
+      setState(prev => ({ status: "password", error: prev.status === "password" ? body.message : undefined }));
+    } else {
+      setState({ status: "error", message: body?.message || "This link is not available" });
+    }
+  }, []);
+
+  useEffect(() => {
+    fetch(`/api/public/shares/${token}`)
+      .then(handleResponse)
+      .catch(() => setState({ status: "error", message: "Failed to load shared documents" }));
+  }, [token, handleResponse]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    try {
+      const response = await fetch(`/api/public/shares/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      await handleResponse(response);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  if (state.status === "loading") {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-neutral-50">
+        <Loader2 className="h-10 w-10 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (state.status === "password" || state.status === "error") {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-neutral-50">
+        <Card className="w-[420px] shadow-lg">
+          <CardHeader className="text-center">
+            <CardTitle className="text-xl font-bold">
+              {state.status === "password" ? "Password Required" : "Link Unavailable"}
+            </CardTitle>
+            <CardDescription>
+              {state.status === "password"
+                ? "Enter the password you were given to view these documents."
+                : state.message}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col items-center">
+            {state.status === "password" ? (
+              <form onSubmit={handleUnlock} className="w-full space-y-3">
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password"
+                  autoFocus
+                />
+                {state.error && <p className="text-sm text-red-600">{state.error}</p>}
+                <Button type="submit" className="w-full" disabled={!password || isUnlocking}>
+                  {isUnlocking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Lock className="mr-2 h-4 w-4" />}
+                  View Documents
+                </Button>
+              </form>
+            ) : (
+              <XCircle className="h-12 w-12 text-red-500" />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { content } = state;
+  const diagrams = content.mermaidCode ? parseDiagrams(content.mermaidCode) : [];
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <header className="bg-white border-b border-neutral-200">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 py-6">
+          <div className="flex items-center text-sm font-semibold text-primary mb-3">
+            <Hammer className="mr-2 h-4 w-4" />
+            Anvil of Ideas
+          </div>
+          <h1 className="text-3xl font-bold text-neutral-900">{content.title}</h1>
+          <p className="mt-1 text-neutral-600">
+            {[content.companyName, content.founderName].filter(Boolean).join(" · ")}
+          </p>
+          <p className="mt-2 text-xs text-neutral-400">
+            Read-only shared copy{content.expiresAt && ` · available until ${new Date(content.expiresAt).toLocaleDateString()}`}
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 py-8 space-y-8">
+        {content.documents.length === 0 && (
+          <p className="text-center text-neutral-500 py-12">No documents have been generated yet.</p>
+        )}
+
+        {content.documents.map(doc => {
+          const sections = doc.documentType === "LeanCanvas"
+            ? Object.entries((doc.contentSections as Record<string, string | null>) || {}).filter(([, value]) => value)
+            : [];
+          return (
+            <Card key={doc.id} className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-xl">{formatTitle(doc.documentType)}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {sections.length > 0 ? (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {sections.map(([key, value]) => (
+                      <div key={key} className="rounded-md border border-neutral-200 p-4">
+                        <h4 className="font-semibold text-neutral-900 text-sm mb-2">{formatTitle(key)}</h4>
+                        <div className="text-sm text-neutral-700 prose prose-sm max-w-none">
+                          <ReactMarkdown>{value || ""}</ReactMarkdown>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="prose max-w-none prose-headings:font-semibold prose-h1:text-xl prose-h2:text-lg prose-h3:text-md prose-p:text-neutral-700">
+                    <ReactMarkdown>{doc.content || ""}</ReactMarkdown>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        {diagrams.length > 0 && (
+          <Card className="shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-xl">Workflow Diagrams</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-2">
+              {diagrams.map((diagram, index) => (
+                <Button key={index} variant="outline" size="sm" onClick={() => setDiagramIndex(index)}>
+                  <GitBranch className="mr-2 h-4 w-4" />
+                  {diagram.label ? `Step ${index + 1}: ${diagram.label}` : "Workflow Diagram"}
+                </Button>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      {diagramIndex !== null && diagrams[diagramIndex] && (
+        <MermaidDiagram
+          code={diagrams[diagramIndex].code}
+          open={true}
+          onOpenChange={(open) => { if (!open) setDiagramIndex(null); }}
+          title={diagrams[diagramIndex].label ? `Step ${diagramIndex + 1}: ${diagrams[diagramIndex].label}` : "Workflow Diagram"}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { useAuth } from "@/hooks/use-auth";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { Button } from "@/components/ui/button";
+import { LogOut, ShieldAlert } from "lucide-react";
+
+/**
+ * Shown in place of every signed-in page while a superadmin still has to set up
+ * two-factor authentication; the server refuses their other requests until then.
+ */
+export default function TwoFactorEnrolment() {
+  const { user, logoutMutation } = useAuth();
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-neutral-50 px-4">
+      <div className="w-full max-w-xl space-y-4">
+        <div className="flex items-start gap-3">
+          <ShieldAlert className="h-8 w-8 text-primary shrink-0" />
+          <div>
+            <h1 className="text-xl font-semibold text-neutral-900">Set up two-factor authentication</h1>
+            <p className="text-sm text-neutral-600">
+              Superadmin accounts must use an authenticator app. Finish setting it up to continue as {user?.username}.
+            </p>
+          </div>
+        </div>
+        <TwoFactorSettings />
+        <div className="flex justify-end">
+          <Button variant="ghost" onClick={() => logoutMutation.mutate()} disabled={logoutMutation.isPending}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign Out
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Workspace } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, Users, XCircle } from "lucide-react";
+
+// The auth page sends users back here after signing in
+export const PENDING_INVITE_KEY = "pending-workspace-invite";
+
+interface InvitationDetails {
+  workspaceName: string | null;
+  invitedBy: string | null;
+  email: string;
+  role: string;
+  expiresAt: string;
+}
+
+type InviteState =
+  | { status: "loading" }
+  | { status: "error"; message: string }
+  | { status: "ready"; invitation: InvitationDetails };
+
+/** Pull the JSON message out of an apiRequest error ("403: {...}") */
+function errorMessage(error: Error) {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+export default function WorkspaceInvite() {
+  const { token } = useParams<{ token: string }>();
+  const { user, isLoading: isLoadingUser } = useAuth();
+  const { setCurrentWorkspaceId } = useWorkspaces();
+  const [, navigate] = useLocation();
+  const [state, setState] = useState<InviteState>({ status: "loading" });
+
+  useEffect(() => {
+    fetch(`/api/workspace-invitations/${token}`)
+      .then(async (response) => {
+        const body = await response.json().catch(() => null);
+        if (response.ok) {
+          setState({ status: "ready", invitation: body });
+        } else {
+          setState({ status: "error", message: body?.message || "This invitation is not available" });
+        }
+      })
+      .catch(() => setState({ status: "error", message: "Failed to load the invitation" }));
+  }, [token]);
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/workspace-invitations/${token}/accept`);
+      return (await res.json()) as Workspace;
+    },
+    onSuccess: (workspace) => {
+      sessionStorage.removeItem(PENDING_INVITE_KEY);
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      setCurrentWorkspaceId(workspace.id);
+      navigate("/");
+    },
+  });
+
+  const rememberInvite = () => {
+    sessionStorage.setItem(PENDING_INVITE_KEY, token);
+  };
+
+  if (state.status === "loading" || isLoadingUser) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-neutral-50">
+        <Loader2 className="h-10 w-10 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-neutral-50">
+      <Card className="w-[440px] shadow-lg">
+        {state.status === "error" ? (
+          <>
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl font-bold">Invitation Unavailable</CardTitle>
+              <CardDescription>{state.message}</CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col items-center gap-4">
+              <XCircle className="h-12 w-12 text-red-500" />
+              <Button variant="outline" onClick={() => navigate("/")}>Go to Dashboard</Button>
+            </CardContent>
+          </>
+        ) : (
+          <>
+            <CardHeader className="text-center">
+              <div className="flex justify-center mb-2">
+                <Users className="h-10 w-10 text-primary" />
+              </div>
+              <CardTitle className="text-xl font-bold">
+                Join {state.invitation.workspaceName || "a workspace"}
+              </CardTitle>
+              <CardDescription>
+                {state.invitation.invitedBy || "A teammate"} invited {state.invitation.email} to join
+                as <span className="font-medium capitalize">{state.invitation.role}</span>.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col items-center gap-3">
+              {user ? (
+                <>
+                  <Button
+                    className="w-full"
+                    onClick={() => acceptMutation.mutate()}
+                    disabled={acceptMutation.isPending}
+                  >
+                    {acceptMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Accept Invitation
+                  </Button>
+                  {acceptMutation.error && (
+                    <p className="text-sm text-red-600 text-center">{errorMessage(acceptMutation.error)}</p>
+                  )}
+                  <p className="text-xs text-neutral-500">Signed in as {user.username}</p>
+                </>
+              ) : (
+                <>
+                  <Button asChild className="w-full" onClick={rememberInvite}>
+                    <Link href="/auth">Sign in to Accept</Link>
+                  </Button>
+                  <p className="text-xs text-neutral-500 text-center">
+                    Use the account registered with {state.invitation.email}.
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { WorkspaceInvitation, WorkspaceMemberWithUser, WorkspaceRole } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import { Sidebar } from "@/components/sidebar";
+import { Header } from "@/components/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Loader2, LogOut, Mail, Save, Trash2, UserPlus, Users, X } from "lucide-react";
+
+type PendingInvitation = Omit<WorkspaceInvitation, "token">;
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: "Manages members and settings",
+  editor: "Creates, edits and forges ideas",
+  viewer: "Read-only access",
+};
+
+export default function WorkspaceSettings() {
+  const { user } = useAuth();
+  const { currentWorkspace, setCurrentWorkspaceId } = useWorkspaces();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [name, setName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<"editor" | "viewer">("editor");
+
+  const workspaceId = currentWorkspace?.id;
+  const isOwner = currentWorkspace?.role === "owner";
+
+  useEffect(() => {
+    setName(currentWorkspace?.name ?? "");
+  }, [currentWorkspace?.name]);
+
+  const { data: members, isLoading: isLoadingMembers } = useQuery<WorkspaceMemberWithUser[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/members`],
+    enabled: !!workspaceId,
+  });
+
+  const { data: invitations } = useQuery<PendingInvitation[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/invitations`],
+    enabled: !!workspaceId && isOwner,
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", `/api/workspaces/${workspaceId}`, { name: name.trim() });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      toast({ title: "Workspace renamed" });
+    },
+    onError: onError("Failed to rename workspace"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/workspaces/${workspaceId}/invitations`, {
+        email: inviteEmail.trim(),
+        role: inviteRole,
+      });
+      return res.json();
+    },
+    onSuccess: (invitation: PendingInvitation & { emailSent: boolean }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/invitations`] });
+      setInviteEmail("");
+      toast({
+        title: invitation.emailSent ? "Invitation sent" : "Invitation created",
+        description: invitation.emailSent
+          ? `${invitation.email} will receive an email with a link to join.`
+          : "The invitation email could not be sent. Check the email configuration.",
+        variant: invitation.emailSent ? "default" : "destructive",
+      });
+    },
+    onError: onError("Failed to send invitation"),
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      await apiRequest("DELETE", `/api/workspaces/${workspaceId}/invitations/${invitationId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/invitations`] });
+    },
+    onError: onError("Failed to revoke invitation"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: WorkspaceRole }) => {
+      await apiRequest("PATCH", `/api/workspaces/${workspaceId}/members/${userId}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/members`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+    },
+    onError: onError("Failed to change role"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/workspaces/${workspaceId}/members/${userId}`);
+      return userId;
+    },
+    onSuccess: (userId) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/members`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      if (userId === user?.id) {
+        setCurrentWorkspaceId(null);
+        toast({ title: "You left the workspace" });
+        navigate("/");
+      }
+    },
+    onError: onError("Failed to remove member"),
+  });
+
+  const deleteWorkspaceMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/workspaces/${workspaceId}`);
+    },
+    onSuccess: () => {
+      setCurrentWorkspaceId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      toast({ title: "Workspace deleted" });
+      navigate("/");
+    },
+    onError: onError("Failed to delete workspace"),
+  });
+
+  return (
+    <div className="flex min-h-screen">
+      <div className="hidden md:block md:w-64 md:flex-shrink-0">
+        <Sidebar />
+      </div>
+
+      <div className="flex flex-col flex-1">
+        <Header />
+
+        <main className="flex-1 overflow-y-auto bg-neutral-50 px-6 py-8">
+          <div className="max-w-5xl mx-auto">
+            <div className="flex items-center mb-6">
+              <Users className="h-6 w-6 mr-2 text-primary" />
+              <h1 className="text-2xl font-semibold text-neutral-900">
+                {currentWorkspace ? currentWorkspace.name : "Workspace"}
+              </h1>
+              {currentWorkspace && (
+                <Badge variant="outline" className="ml-3 capitalize">{currentWorkspace.role}</Badge>
+              )}
+            </div>
+
+            {!currentWorkspace ? (
+              <Card>
+                <CardContent className="py-10 text-center text-neutral-500">
+                  You are viewing your personal ideas. Select or create a workspace from the sidebar to manage its members.
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-6">
+                {isOwner && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>General</CardTitle>
+                      <CardDescription>Rename the workspace for all of its members</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="flex gap-2 max-w-md">
+                        <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+                        <Button
+                          onClick={() => renameMutation.mutate()}
+                          disabled={!name.trim() || name.trim() === currentWorkspace.name || renameMutation.isPending}
+                        >
+                          {renameMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                          Save
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Members</CardTitle>
+                    <CardDescription>Everyone here can see the workspace's ideas and documents</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {isLoadingMembers ? (
+                      <div className="flex justify-center py-6">
+                        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                      </div>
+                    ) : (
+                      <ul className="divide-y divide-neutral-200">
+                        {(members || []).map(member => {
+                          const isSelf = member.userId === user?.id;
+                          return (
+                            <li key={member.id} className="flex items-center justify-between gap-3 py-3">
+                              <div className="min-w-0">
+                                <p className="text-sm font-medium text-neutral-800">
+                                  {member.username}{isSelf && <span className="text-neutral-400"> (you)</span>}
+                                </p>
+                                <p className="text-xs text-neutral-500">{member.email}</p>
+                              </div>
+                              <div className="flex items-center gap-2 flex-shrink-0">
+                                {isOwner ? (
+                                  <Select
+                                    value={member.role}
+                                    onValueChange={(role) => updateRoleMutation.mutate({ userId: member.userId, role: role as WorkspaceRole })}
+                                    disabled={updateRoleMutation.isPending}
+                                  >
+                                    <SelectTrigger className="w-32 h-8">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {(Object.keys(ROLE_DESCRIPTIONS) as WorkspaceRole[]).map(role => (
+                                        <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                ) : (
+                                  <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+                                )}
+                                {isOwner && !isSelf && (
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    className="h-8 w-8 text-red-600 hover:text-red-700"
+                                    onClick={() => removeMemberMutation.mutate(member.userId)}
+                                    disabled={removeMemberMutation.isPending}
+                                    title="Remove member"
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {isOwner && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center">
+                        <UserPlus className="h-5 w-5 mr-2 text-primary" />
+                        Invite Members
+                      </CardTitle>
+                      <CardDescription>Invitations are sent by email and expire after 7 days</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <form
+                        className="flex flex-col sm:flex-row gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          inviteMutation.mutate();
+                        }}
+                      >
+                        <div className="flex-1">
+                          <Label htmlFor="invite-email" className="sr-only">Email</Label>
+                          <Input
+                            id="invite-email"
+                            type="email"
+                            value={inviteEmail}
+                            onChange={(e) => setInviteEmail(e.target.value)}
+                            placeholder="teammate@example.com"
+                          />
+                        </div>
+                        <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as "editor" | "viewer")}>
+                          <SelectTrigger className="sm:w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="editor">Editor</SelectItem>
+                            <SelectItem value="viewer">Viewer</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Button type="submit" disabled={!inviteEmail.trim() || inviteMutation.isPending}>
+                          {inviteMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+                          Send Invite
+                        </Button>
+                      </form>
+                      <p className="text-xs text-neutral-500">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+
+                      {invitations && invitations.length > 0 && (
+                        <div className="border-t border-neutral-200 pt-4">
+                          <h4 className="text-sm font-semibold text-neutral-700 mb-2">Pending invitations</h4>
+                          <ul className="space-y-2">
+                            {invitations.map(invitation => {
+                              const isExpired = new Date(invitation.expiresAt).getTime() <= Date.now();
+                              return (
+                                <li key={invitation.id} className="flex items-center justify-between gap-3 rounded-md border border-neutral-200 px-3 py-2">
+                                  <div className="min-w-0 text-sm">
+                                    <div className="flex items-center gap-2">
+                                      <span className="font-medium text-neutral-800 truncate">{invitation.email}</span>
+                                      <Badge variant="outline" className="capitalize">{invitation.role}</Badge>
+                                      {isExpired && <Badge variant="secondary">Expired</Badge>}
+                                    </div>
+                                    <div className="text-xs text-neutral-500">
+                                      Sent {formatDate(invitation.createdAt)} · Expires {formatDate(invitation.expiresAt)}
+                                    </div>
+                                  </div>
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    className="h-8 w-8 text-red-600 hover:text-red-700"
+                                    onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                                    disabled={revokeInvitationMutation.isPending}
+                                    title="Revoke invitation"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                <Card className="border-red-200">
+                  <CardHeader>
+                    <CardTitle className="text-red-700">{isOwner ? "Delete Workspace" : "Leave Workspace"}</CardTitle>
+                    <CardDescription>
+                      {isOwner
+                        ? "Only empty workspaces can be deleted. Delete its ideas first."
+                        : "You will lose access to this workspace's ideas until you are invited again."}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="destructive">
+                          {isOwner ? <Trash2 className="mr-2 h-4 w-4" /> : <LogOut className="mr-2 h-4 w-4" />}
+                          {isOwner ? "Delete Workspace" : "Leave Workspace"}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>{isOwner ? "Delete" : "Leave"} {currentWorkspace.name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {isOwner
+                              ? "All members will lose access and pending invitations will be revoked. This cannot be undone."
+                              : "You will no longer see this workspace's ideas."}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            className="bg-red-600 hover:bg-red-700"
+                            onClick={() => isOwner ? deleteWorkspaceMutation.mutate() : removeMemberMutation.mutate(user!.id)}
+                          >
+                            {isOwner ? "Delete" : "Leave"}
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
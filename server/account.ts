@@ -0,0 +1,323 @@
+/**
+ * Self-service account flows: public sign-up (gated by the registration mode
+ * a superadmin picks), forgotten-password resets, and changing the email
+ * address on an account. The new address is only switched in once it has
+ * been confirmed through an emailed link.
+ */
+import { Express, Request } from "express";
+import rateLimit from "express-rate-limit";
+import { storage } from "./storage";
+import { isAuthenticated, hashPassword, comparePasswords, toSessionUser } from "./auth";
+import { emailService } from "./email";
+import { revokeUserSessions } from "./sessions";
+import {
+  generateVerificationToken,
+  generateTokenExpiry,
+  hashToken,
+  isTokenExpired,
+  buildVerificationUrl,
+  buildPasswordResetUrl,
+  buildEmailChangeUrl,
+} from "./utils/auth-utils";
+import {
+  registrationModes,
+  registerUserSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  emailChangeSchema,
+  REGISTRATION_MODE_SETTING,
+  REGISTRATION_DOMAINS_SETTING,
+  type RegistrationMode,
+  type RegistrationSettings,
+  type User,
+} from "@shared/schema";
+
+const PASSWORD_RESET_EXPIRY_HOURS = 1;
+const EMAIL_CHANGE_EXPIRY_HOURS = 24;
+
+const registerLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: "Too many requests, please try again later" },
+});
+
+const passwordResetLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: "Too many requests, please try again later" },
+});
+
+const emailChangeLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: "Too many requests, please try again later" },
+});
+
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+export function baseUrlFor(req: Request) {
+  return process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+/** Email `user` a single-use link to choose a new password. */
+export async function issuePasswordReset(user: User & { email: string }, baseUrl: string): Promise<void> {
+  const token = generateVerificationToken();
+  await storage.setPasswordResetToken(user.id, hashToken(token), generateTokenExpiry(PASSWORD_RESET_EXPIRY_HOURS));
+  await emailService.sendPasswordResetEmail(user.email, user.username, buildPasswordResetUrl(baseUrl, token));
+}
+
+/** Current registration settings; sign-up stays disabled until a superadmin opens it. */
+export async function getRegistrationSettings(): Promise<RegistrationSettings> {
+  const mode = await storage.getSetting(REGISTRATION_MODE_SETTING);
+  const domains = await storage.getSetting(REGISTRATION_DOMAINS_SETTING);
+  return {
+    mode: registrationModes.includes(mode as RegistrationMode) ? (mode as RegistrationMode) : "disabled",
+    allowedDomains: domains ? domains.split(",").map(d => d.trim()).filter(Boolean) : [],
+  };
+}
+
+export async function saveRegistrationSettings(settings: RegistrationSettings): Promise<void> {
+  await storage.setSetting(REGISTRATION_MODE_SETTING, settings.mode);
+  await storage.setSetting(REGISTRATION_DOMAINS_SETTING, settings.allowedDomains.join(","));
+}
+
+/**
+ * Why `email` may not sign up under the current settings, or null if it may.
+ * Invite-only sign-ups must carry a pending workspace invitation for the same address.
+ */
+async function registrationBlockedReason(email: string, inviteToken: string | undefined): Promise<string | null> {
+  const { mode, allowedDomains } = await getRegistrationSettings();
+  switch (mode) {
+    case "open":
+      return null;
+    case "domain": {
+      const domain = email.split("@")[1];
+      return allowedDomains.includes(domain) ? null : "Sign-up is not available for this email domain";
+    }
+    case "invite_only": {
+      const invitation = inviteToken ? await storage.getWorkspaceInvitationByToken(inviteToken) : undefined;
+      if (!invitation || invitation.acceptedAt || invitation.expiresAt.getTime() <= Date.now()) {
+        return "Sign-up requires a valid invitation";
+      }
+      return invitation.email === email ? null : `This invitation was sent to ${invitation.email}`;
+    }
+    default:
+      return "Public registration is disabled";
+  }
+}
+
+export function setupAccountRoutes(app: Express) {
+  // Lets the sign-in page decide whether to offer a sign-up form
+  app.get("/api/registration", async (_req, res, next) => {
+    try {
+      const { mode, allowedDomains } = await getRegistrationSettings();
+      return res.status(200).json({ mode, allowedDomains: mode === "domain" ? allowedDomains : [] });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.post("/api/register", registerLimiter, async (req, res, next) => {
+    try {
+      const parsed = registerUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      const { username, password, inviteToken } = parsed.data;
+      const email = parsed.data.email.toLowerCase();
+
+      const blockedReason = await registrationBlockedReason(email, inviteToken);
+      if (blockedReason) {
+        return res.status(403).json({ message: blockedReason });
+      }
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "Email already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        email,
+        password: await hashPassword(password),
+        role: "user",
+      });
+
+      await storage.createAuditLog({
+        actorId: user.id,
+        action: "auth.register",
+        targetType: "user",
+        targetId: user.id,
+        details: { username, email, viaInvitation: !!inviteToken },
+        ipAddress: clientIp(req),
+      });
+
+      const token = generateVerificationToken();
+      await storage.setVerificationToken(user.id, token, generateTokenExpiry(24));
+      await emailService.sendVerificationEmail(email, username, buildVerificationUrl(baseUrlFor(req), user.id, token));
+
+      req.login(user, async (err) => {
+        if (err) return next(err);
+        try {
+          return res.status(201).json(await toSessionUser(user));
+        } catch (error: any) {
+          next(error);
+        }
+      });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  // Always answers the same way so the endpoint can't be used to probe for accounts
+  app.post("/api/forgot-password", passwordResetLimiter, async (req, res, next) => {
+    try {
+      const parsed = forgotPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      const { email } = parsed.data;
+
+      const user = await storage.getUserByEmail(email.toLowerCase()) ?? await storage.getUserByEmail(email);
+      if (user?.email) {
+        await issuePasswordReset({ ...user, email: user.email }, baseUrlFor(req));
+        await storage.createAuditLog({
+          actorId: null,
+          action: "auth.password_reset_request",
+          targetType: "user",
+          targetId: user.id,
+          details: null,
+          ipAddress: clientIp(req),
+        });
+      }
+
+      return res.status(200).json({ message: "If an account uses that address, a reset link is on its way" });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.post("/api/reset-password", passwordResetLimiter, async (req, res, next) => {
+    try {
+      const parsed = resetPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      const { token, password } = parsed.data;
+
+      const user = await storage.getUserByPasswordResetToken(hashToken(token));
+      if (!user || isTokenExpired(user.passwordResetTokenExpiry)) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      await storage.resetPassword(user.id, await hashPassword(password));
+      // Proving control of the inbox is enough to lift a lockout
+      await storage.resetLoginFailures(user.id);
+      // Whoever knew the old password may still be signed in somewhere
+      const revokedSessions = await revokeUserSessions(user.id);
+      await storage.createAuditLog({
+        actorId: user.id,
+        action: "auth.password_reset",
+        targetType: "user",
+        targetId: user.id,
+        details: { revokedSessions },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ message: "Your password has been reset. You can now sign in." });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  // Start switching the signed-in user's address; nothing changes until the new one is confirmed
+  app.post("/api/user/email", isAuthenticated, emailChangeLimiter, async (req, res, next) => {
+    try {
+      const parsed = emailChangeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      const newEmail = parsed.data.newEmail.toLowerCase();
+      const user = req.user!;
+
+      if (!(await comparePasswords(parsed.data.currentPassword, user.password))) {
+        return res.status(403).json({ message: "Current password is incorrect" });
+      }
+      if (newEmail === user.email?.toLowerCase()) {
+        return res.status(400).json({ message: "That is already your email address" });
+      }
+      if (await storage.getUserByEmail(newEmail)) {
+        return res.status(409).json({ message: "Email already exists" });
+      }
+
+      const token = generateVerificationToken();
+      await storage.setEmailChangeRequest(user.id, newEmail, hashToken(token), generateTokenExpiry(EMAIL_CHANGE_EXPIRY_HOURS));
+      await emailService.sendEmailChangeVerificationEmail(newEmail, user.username, buildEmailChangeUrl(baseUrlFor(req), user.id, token));
+      if (user.email) {
+        await emailService.sendEmailChangeNoticeEmail(user.email, user.username, newEmail);
+      }
+
+      await storage.createAuditLog({
+        actorId: user.id,
+        action: "account.email_change_request",
+        targetType: "user",
+        targetId: user.id,
+        details: { from: user.email, to: newEmail },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ message: `We sent a confirmation link to ${newEmail}`, pendingEmail: newEmail });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.get("/confirm-email-change/:userId/:token", emailChangeLimiter, async (req, res, next) => {
+    try {
+      const { userId, token } = req.params;
+      const user = await storage.getUser(userId);
+
+      // Someone else may have claimed the address while the link sat in the inbox
+      const claimed = user?.pendingEmail ? await storage.getUserByEmail(user.pendingEmail) : undefined;
+      const updated = user && !claimed ? await storage.confirmEmailChange(userId, hashToken(token)) : undefined;
+      if (!updated) {
+        return res.redirect("/settings?emailChanged=false");
+      }
+
+      await storage.createAuditLog({
+        actorId: userId,
+        action: "account.email_change",
+        targetType: "user",
+        targetId: userId,
+        details: { from: user!.email, to: updated.email },
+        ipAddress: clientIp(req),
+      });
+
+      return res.redirect("/settings?emailChanged=true");
+    } catch (error: any) {
+      next(error);
+    }
+  });
+}
@@ -1,11 +1,30 @@
-import { Router } from "express";
+import { Router, type Request, type Response, type NextFunction } from "express";
 import rateLimit from "express-rate-limit";
 import { z } from "zod";
-import { timingSafeEqual } from "crypto";
-import { hashPassword } from "./auth";
+import { randomBytes, timingSafeEqual } from "crypto";
+import {
+  hashPassword,
+  isAuthenticated,
+  needsTwoFactorEnrolment,
+  isTwoFactorRequiredForSuperadmins,
+  setTwoFactorRequiredForSuperadmins,
+} from "./auth";
 import { storage } from "./storage";
 import { db } from "./db";
-import { users } from "@shared/schema";
+import {
+  users,
+  registrationSettingsSchema,
+  adminUserFiltersSchema,
+  adminUpdateRoleSchema,
+  auditLogQuerySchema,
+  twoFactorPolicySchema,
+  type User,
+  type AuditLogCursor,
+  type AuditLogFilters,
+  type AuditLogWithActor,
+} from "@shared/schema";
+import { getRegistrationSettings, saveRegistrationSettings, issuePasswordReset, baseUrlFor } from "./account";
+import { revokeUserSessions } from "./sessions";
 import type { Express } from "express";
 
 const adminLimiter = rateLimit({
@@ -13,6 +32,17 @@ const adminLimiter = rateLimit({
   max: 20,
   standardHeaders: true,
   legacyHeaders: false,
+  // Listing and searching from the console is covered by adminReadLimiter
+  skip: (req) => req.method === "GET",
+  message: { message: "Too many requests, please try again later" },
+});
+
+const adminReadLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 300,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (req) => req.method !== "GET",
   message: { message: "Too many requests, please try again later" },
 });
 
@@ -30,10 +60,84 @@ function safeEqual(a: string, b: string): boolean {
   return timingSafeEqual(bufA, bufB);
 }
 
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+function withoutPassword(user: User) {
+  const { password: _, totpSecret: __, totpLastUsedStep: ___, totpRecoveryCodes: ____, ...rest } = user;
+  return rest;
+}
+
+/**
+ * Load the user a console action targets. Responds and returns undefined if
+ * they don't exist, or if the action would lock the acting superadmin out.
+ */
+async function loadTargetUser(req: Request, res: Response, { allowSelf = false } = {}): Promise<User | undefined> {
+  const target = await storage.getUser(req.params.id);
+  if (!target) {
+    res.status(404).json({ message: "User not found" });
+    return undefined;
+  }
+  if (!allowSelf && target.id === req.user!.id) {
+    res.status(400).json({ message: "You can't do this to your own account" });
+    return undefined;
+  }
+  return target;
+}
+
+const AUDIT_EXPORT_BATCH_SIZE = 500;
+const AUDIT_EXPORT_MAX_ROWS = 100_000;
+
+function encodeAuditCursor(log: AuditLogWithActor): string {
+  return Buffer.from(JSON.stringify({ t: log.createdAt.toISOString(), id: log.id })).toString("base64url");
+}
+
+// The id columns are uuid, so anything else would fail in the database rather than match nothing
+const uuidSchema = z.string().uuid();
+
+function decodeAuditCursor(cursor: string): AuditLogCursor | null {
+  try {
+    const { t, id } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const createdAt = new Date(t);
+    if (!uuidSchema.safeParse(id).success || Number.isNaN(createdAt.getTime())) return null;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+const AUDIT_CSV_COLUMNS = ["createdAt", "actor", "actorId", "action", "targetType", "targetId", "ipAddress", "details"] as const;
+
+function csvCell(value: unknown): string {
+  if (value == null) return "";
+  let text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Keep spreadsheet apps from evaluating user-supplied text as a formula
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function auditCsvRow(log: AuditLogWithActor): string {
+  const values = [log.createdAt, log.actorUsername, log.actorId, log.action, log.targetType, log.targetId, log.ipAddress, log.details];
+  return values.map(csvCell).join(",");
+}
+
+// Session-only guard for console routes; the API key can only create users
+// Builds on isAuthenticated, so superadmins who still owe two-factor enrolment are turned away too
+function requireSuperadmin(req: Request, res: Response, next: NextFunction) {
+  isAuthenticated(req, res, () => {
+    if (req.user?.role !== "superadmin") {
+      return res.status(403).json({ message: "Forbidden: superadmin role required" });
+    }
+    next();
+  });
+}
+
 export function setupAdminRoutes(app: Express) {
   const router = Router();
 
   router.use(adminLimiter);
+  router.use(adminReadLimiter);
 
   router.post("/users", async (req, res, next) => {
     try {
@@ -45,6 +149,12 @@ export function setupAdminRoutes(app: Express) {
       const adminApiKey = process.env.ADMIN_API_KEY;
 
       if (req.isAuthenticated() && req.user?.role === "superadmin") {
+        if (await needsTwoFactorEnrolment(req.user)) {
+          return res.status(403).json({
+            message: "Set up two-factor authentication to continue",
+            twoFactorEnrolmentRequired: true,
+          });
+        }
         actorId = req.user.id;
       } else if (req.isAuthenticated() && req.user?.role !== "superadmin") {
         return res.status(403).json({ message: "Forbidden: superadmin role required" });
@@ -121,5 +231,449 @@ export function setupAdminRoutes(app: Express) {
     }
   });
 
+  router.get("/users", requireSuperadmin, async (req, res, next) => {
+    try {
+      const parsed = adminUserFiltersSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      return res.status(200).json(await storage.listUsers(parsed.data));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post("/users/:id/disable", requireSuperadmin, async (req, res, next) => {
+    try {
+      const target = await loadTargetUser(req, res);
+      if (!target) return;
+
+      const updated = await storage.setUserDisabled(target.id, true);
+      // Requests from their sessions already fail, but open sockets would linger
+      await revokeUserSessions(target.id);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "admin.disable_user",
+        targetType: "user",
+        targetId: target.id,
+        details: { username: target.username },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json(withoutPassword(updated!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post("/users/:id/enable", requireSuperadmin, async (req, res, next) => {
+    try {
+      const target = await loadTargetUser(req, res);
+      if (!target) return;
+
+      const updated = await storage.setUserDisabled(target.id, false);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "admin.enable_user",
+        targetType: "user",
+        targetId: target.id,
+        details: { username: target.username },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json(withoutPassword(updated!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.patch("/users/:id/role", requireSuperadmin, async (req, res, next) => {
+    try {
+      const parsed = adminUpdateRoleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+
+      const target = await loadTargetUser(req, res);
+      if (!target) return;
+      if (target.role === parsed.data.role) {
+        return res.status(200).json(withoutPassword(target));
+      }
+
+      const updated = await storage.setUserRole(target.id, parsed.data.role);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "admin.change_role",
+        targetType: "user",
+        targetId: target.id,
+        details: { username: target.username, from: target.role, to: parsed.data.role },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json(withoutPassword(updated!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Scramble the password so the account can only be reached again through the emailed reset link
+  router.post("/users/:id/force-password-reset", requireSuperadmin, async (req, res, next) => {
+    try {
+      const target = await loadTargetUser(req, res);
+      if (!target) return;
+      if (!target.email) {
+        return res.status(400).json({ message: "This user has no email address to send a reset link to" });
+      }
+
+      await storage.resetPassword(target.id, await hashPassword(randomBytes(32).toString("hex")));
+      await issuePasswordReset({ ...target, email: target.email }, baseUrlFor(req));
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "admin.force_password_reset",
+        targetType: "user",
+        targetId: target.id,
+        details: { username: target.username, email: target.email },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ message: `A reset link was sent to ${target.email}` });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.delete("/users/:id", requireSuperadmin, async (req, res, next) => {
+    try {
+      const target = await loadTargetUser(req, res);
+      if (!target) return;
+
+      await revokeUserSessions(target.id);
+      await storage.deleteUser(target.id);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "admin.delete_user",
+        targetType: "user",
+        targetId: target.id,
+        details: { username: target.username, email: target.email, role: target.role },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ message: `User "${target.username}" deleted` });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post("/users/:id/unlock", requireSuperadmin, async (req, res, next) => {
+    try {
+      const target = await loadTargetUser(req, res);
+      if (!target) return;
+
+      await storage.resetLoginFailures(target.id);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "admin.unlock_user",
+        targetType: "user",
+        targetId: target.id,
+        details: { username: target.username, failedAttempts: target.failedLoginCount, lockedUntil: target.lockedUntil },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ message: `${target.username} can sign in again` });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post("/users/:id/revoke-sessions", requireSuperadmin, async (req, res, next) => {
+    try {
+      const target = await loadTargetUser(req, res);
+      if (!target) return;
+
+      const revoked = await revokeUserSessions(target.id);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "admin.revoke_sessions",
+        targetType: "user",
+        targetId: target.id,
+        details: { username: target.username, revoked },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ message: `Signed ${target.username} out of ${revoked} ${revoked === 1 ? "session" : "sessions"}` });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // For users who lost their authenticator and recovery codes; they can enrol again after signing in
+  router.post("/users/:id/reset-2fa", requireSuperadmin, async (req, res, next) => {
+    try {
+      const target = await loadTargetUser(req, res);
+      if (!target) return;
+      if (!target.totpEnabledAt) {
+        return res.status(400).json({ message: "This user doesn't have two-factor authentication enabled" });
+      }
+
+      await storage.disableTwoFactor(target.id);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "admin.reset_2fa",
+        targetType: "user",
+        targetId: target.id,
+        details: { username: target.username },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ message: `Two-factor authentication was reset for ${target.username}` });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Sign the superadmin in as another user, remembering who to switch back to
+  router.post("/users/:id/impersonate", requireSuperadmin, async (req, res, next) => {
+    try {
+      const target = await loadTargetUser(req, res);
+      if (!target) return;
+      if (target.role === "superadmin") {
+        return res.status(403).json({ message: "Superadmins can't be impersonated" });
+      }
+      if (target.disabledAt) {
+        return res.status(400).json({ message: "Enable this account before impersonating it" });
+      }
+
+      const impersonatorId = req.user!.id;
+      await storage.createAuditLog({
+        actorId: impersonatorId,
+        action: "admin.impersonate_start",
+        targetType: "user",
+        targetId: target.id,
+        details: { username: target.username },
+        ipAddress: clientIp(req),
+      });
+
+      req.login(target, { session: true, keepSessionInfo: true }, (err) => {
+        if (err) return next(err);
+        req.session.impersonatorId = impersonatorId;
+        return res.status(200).json(withoutPassword(target));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Read by the impersonation banner, so it answers for any signed-in session
+  router.get("/impersonation", async (req, res, next) => {
+    try {
+      const impersonatorId = req.isAuthenticated() ? req.session.impersonatorId : undefined;
+      const impersonator = impersonatorId ? await storage.getUser(impersonatorId) : undefined;
+      return res.status(200).json({
+        impersonator: impersonator ? { id: impersonator.id, username: impersonator.username } : null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post("/impersonation/stop", async (req, res, next) => {
+    try {
+      const impersonatorId = req.session.impersonatorId;
+      if (!req.isAuthenticated() || !impersonatorId) {
+        return res.status(400).json({ message: "You are not impersonating anyone" });
+      }
+
+      const impersonatedId = req.user!.id;
+      const admin = await storage.getUser(impersonatorId);
+      if (!admin || admin.role !== "superadmin" || admin.disabledAt) {
+        // The original account lost its access meanwhile; end the session instead
+        return req.logout((err) => {
+          if (err) return next(err);
+          res.status(401).json({ message: "Unauthorized" });
+        });
+      }
+
+      req.login(admin, { session: true, keepSessionInfo: true }, async (err) => {
+        if (err) return next(err);
+        delete req.session.impersonatorId;
+        try {
+          await storage.createAuditLog({
+            actorId: admin.id,
+            action: "admin.impersonate_stop",
+            targetType: "user",
+            targetId: impersonatedId,
+            details: null,
+            ipAddress: clientIp(req),
+          });
+          return res.status(200).json(withoutPassword(admin));
+        } catch (error) {
+          next(error);
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Newest first. JSON responses page with `cursor`; csv and ndjson stream every matching row
+  router.get("/audit-logs", requireSuperadmin, async (req, res, next) => {
+    try {
+      const parsed = auditLogQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      const { actor, action, targetType, targetId, from, to, cursor, limit, format } = parsed.data;
+
+      const filters: AuditLogFilters = { action, targetType, targetId, from, to };
+      if (actor) {
+        // Accept a username; a user id also works for deleted accounts
+        const actorUser = await storage.getUserByUsername(actor);
+        if (!actorUser && !uuidSchema.safeParse(actor).success) {
+          return res.status(400).json({ message: "No user with that username or id" });
+        }
+        filters.actorId = actorUser?.id ?? actor;
+      }
+
+      if (format === "json") {
+        const position = cursor ? decodeAuditCursor(cursor) : null;
+        if (cursor && !position) {
+          return res.status(400).json({ message: "Invalid cursor" });
+        }
+        // Fetch one extra row to learn whether another page exists
+        const rows = await storage.getAuditLogs(filters, position, limit + 1);
+        const logs = rows.slice(0, limit);
+        return res.status(200).json({
+          logs,
+          nextCursor: rows.length > limit ? encodeAuditCursor(logs[logs.length - 1]) : null,
+        });
+      }
+
+      const stamp = new Date().toISOString().slice(0, 10);
+      res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-logs-${stamp}.${format}"`);
+      if (format === "csv") {
+        res.write(AUDIT_CSV_COLUMNS.join(",") + "\n");
+      }
+
+      let position: AuditLogCursor | null = null;
+      let written = 0;
+      while (written < AUDIT_EXPORT_MAX_ROWS) {
+        const batch = await storage.getAuditLogs(filters, position, AUDIT_EXPORT_BATCH_SIZE);
+        for (const log of batch) {
+          res.write((format === "csv" ? auditCsvRow(log) : JSON.stringify(log)) + "\n");
+        }
+        written += batch.length;
+        if (batch.length < AUDIT_EXPORT_BATCH_SIZE) break;
+        const last = batch[batch.length - 1];
+        position = { createdAt: last.createdAt, id: last.id };
+      }
+
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "admin.export_audit_logs",
+        targetType: "audit_log",
+        targetId: format,
+        details: { filters: { actor, action, targetType, targetId, from, to }, rows: written },
+        ipAddress: clientIp(req),
+      });
+      return res.end();
+    } catch (error) {
+      // Once streaming has started the status can't change; cut the download short instead
+      if (res.headersSent) {
+        console.error("[admin] audit log export failed:", error);
+        return res.end();
+      }
+      next(error);
+    }
+  });
+
+  router.get("/registration", requireSuperadmin, async (_req, res, next) => {
+    try {
+      return res.status(200).json(await getRegistrationSettings());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.put("/registration", requireSuperadmin, async (req, res, next) => {
+    try {
+      const parsed = registrationSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      if (parsed.data.mode === "domain" && parsed.data.allowedDomains.length === 0) {
+        return res.status(400).json({ message: "Add at least one allowed domain" });
+      }
+
+      const previous = await getRegistrationSettings();
+      await saveRegistrationSettings(parsed.data);
+
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "admin.update_registration",
+        targetType: "setting",
+        targetId: "registration",
+        details: { from: previous, to: parsed.data },
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+      });
+
+      return res.status(200).json(parsed.data);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get("/two-factor", requireSuperadmin, async (_req, res, next) => {
+    try {
+      return res.status(200).json({ requireForSuperadmins: await isTwoFactorRequiredForSuperadmins() });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.put("/two-factor", requireSuperadmin, async (req, res, next) => {
+    try {
+      const parsed = twoFactorPolicySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      // Otherwise the superadmin making the change would be locked into enrolment mid-request
+      if (parsed.data.requireForSuperadmins && !req.user!.totpEnabledAt) {
+        return res.status(400).json({ message: "Enable two-factor authentication on your own account first" });
+      }
+
+      const previous = await isTwoFactorRequiredForSuperadmins();
+      await setTwoFactorRequiredForSuperadmins(parsed.data.requireForSuperadmins);
+
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "admin.update_two_factor_policy",
+        targetType: "setting",
+        targetId: "two_factor",
+        details: { from: { requireForSuperadmins: previous }, to: parsed.data },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json(parsed.data);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.use("/api/admin", router);
 }
@@ -1,7 +1,13 @@
 /**
  * Client for communicating with the anvil-api (FastAPI) service.
- * Authenticates via JWT and triggers document generation.
+ * Authenticates via JWT, triggers document generation and cancels running jobs.
+ *
+ * Every call goes through a circuit breaker and retries transient failures
+ * (network errors, 408/425/429 and 5xx) with exponential backoff and full
+ * jitter. Generation requests carry our job id, so anvil-api can recognise a
+ * retried request it already accepted.
  */
+import type { GenerationServiceStatus } from "@shared/schema";
 
 const ANVIL_API_URL = process.env.ANVIL_API_URL;
 const ANVIL_API_USERNAME = process.env.ANVIL_API_USERNAME;
@@ -9,13 +15,121 @@ const ANVIL_API_PASSWORD = process.env.ANVIL_API_PASSWORD;
 const ANVIL_CALLBACK_URL = process.env.ANVIL_CALLBACK_URL;
 const ANVIL_WEBHOOK_SECRET = process.env.ANVIL_WEBHOOK_SECRET;
 
+const MAX_ATTEMPTS = Number(process.env.ANVIL_API_MAX_ATTEMPTS) || 4;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+// Consecutive failed calls (each after its retries) that open the breaker
+const BREAKER_FAILURE_THRESHOLD = Number(process.env.ANVIL_API_BREAKER_THRESHOLD) || 3;
+const BREAKER_COOLDOWN_MS = Number(process.env.ANVIL_API_BREAKER_COOLDOWN_MS) || 30 * 1000;
+
 let cachedToken: string | null = null;
 let tokenExpiresAt = 0;
 
+type BreakerState = "closed" | "open" | "half_open";
+
+const breaker = {
+  state: "closed" as BreakerState,
+  consecutiveFailures: 0,
+  openUntil: 0,
+  // While half open, a single call probes whether anvil-api is back
+  probeInFlight: false,
+};
+
+/** Thrown without calling anvil-api while the circuit breaker is open. */
+export class AnvilApiUnavailableError extends Error {
+  status = 503;
+
+  constructor(public retryAt: Date) {
+    super("Generation service unavailable — please try again in a few moments");
+  }
+}
+
+class AnvilApiResponseError extends Error {
+  constructor(message: string, public responseStatus: number) {
+    super(message);
+  }
+}
+
 function isConfigured(): boolean {
   return !!(ANVIL_API_URL && ANVIL_API_USERNAME && ANVIL_API_PASSWORD);
 }
 
+function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Full-jitter backoff before retry `attempt` (1-based), honouring Retry-After when anvil-api sends one. */
+function backoffDelay(attempt: number, response?: Response): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  const delay = Math.random() * ceiling;
+  const retryAfterSeconds = Number(response?.headers.get("retry-after"));
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) {
+    return Math.min(RETRY_MAX_DELAY_MS, Math.max(delay, retryAfterSeconds * 1000));
+  }
+  return delay;
+}
+
+function breakerIsOpen(): boolean {
+  return breaker.state === "open" && Date.now() < breaker.openUntil;
+}
+
+export function getAnvilApiStatus(): GenerationServiceStatus {
+  const open = breakerIsOpen();
+  return {
+    configured: isConfigured(),
+    available: isConfigured() && !open,
+    retryAt: open ? new Date(breaker.openUntil).toISOString() : null,
+  };
+}
+
+/**
+ * Fail fast while the circuit breaker is open, so callers can refuse work
+ * before creating anything that anvil-api would have to pick up.
+ *
+ * @throws AnvilApiUnavailableError
+ */
+export function assertAnvilApiAvailable(): void {
+  if (breakerIsOpen()) {
+    throw new AnvilApiUnavailableError(new Date(breaker.openUntil));
+  }
+}
+
+function acquireBreaker() {
+  assertAnvilApiAvailable();
+  if (breaker.state === "open") {
+    breaker.state = "half_open";
+  }
+  if (breaker.state === "half_open") {
+    if (breaker.probeInFlight) {
+      throw new AnvilApiUnavailableError(new Date(Date.now() + BREAKER_COOLDOWN_MS));
+    }
+    breaker.probeInFlight = true;
+  }
+}
+
+function recordSuccess() {
+  if (breaker.state !== "closed") {
+    console.log("[anvil-api] Service responding again — circuit closed");
+  }
+  breaker.state = "closed";
+  breaker.consecutiveFailures = 0;
+  breaker.probeInFlight = false;
+}
+
+function recordFailure() {
+  breaker.consecutiveFailures++;
+  breaker.probeInFlight = false;
+  if (breaker.state === "half_open" || breaker.consecutiveFailures >= BREAKER_FAILURE_THRESHOLD) {
+    breaker.state = "open";
+    breaker.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+    console.error(`[anvil-api] ${breaker.consecutiveFailures} consecutive failures — circuit open for ${BREAKER_COOLDOWN_MS / 1000}s`);
+  }
+}
+
 async function getToken(): Promise<string> {
   // Reuse token if it has more than 5 minutes left
   if (cachedToken && Date.now() < tokenExpiresAt - 5 * 60 * 1000) {
@@ -33,7 +147,7 @@ async function getToken(): Promise<string> {
 
   if (!response.ok) {
     const text = await response.text();
-    throw new Error(`anvil-api auth failed (${response.status}): ${text}`);
+    throw new AnvilApiResponseError(`anvil-api auth failed (${response.status}): ${text}`, response.status);
   }
 
   const data = await response.json();
@@ -43,16 +157,91 @@ async function getToken(): Promise<string> {
   return cachedToken!;
 }
 
+function invalidateToken() {
+  cachedToken = null;
+  tokenExpiresAt = 0;
+}
+
+async function sendWithRetries(path: string, init: RequestInit): Promise<Response> {
+  // A half-open breaker gets one attempt to prove anvil-api is back
+  const maxAttempts = breaker.state === "half_open" ? 1 : MAX_ATTEMPTS;
+  let reauthenticated = false;
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | undefined;
+    let error: unknown;
+    try {
+      const headers = new Headers(init.headers);
+      headers.set("Authorization", `Bearer ${await getToken()}`);
+      response = await fetch(`${ANVIL_API_URL}${path}`, { ...init, headers });
+    } catch (err) {
+      error = err;
+    }
+
+    // The token was revoked or the credentials rotated: sign in again, once
+    if (response?.status === 401 && !reauthenticated) {
+      console.warn(`[anvil-api] ${path} returned 401 — discarding cached token and signing in again`);
+      invalidateToken();
+      reauthenticated = true;
+      attempt--;
+      continue;
+    }
+
+    const transient = response
+      ? isTransientStatus(response.status)
+      : !(error instanceof AnvilApiResponseError) || isTransientStatus(error.responseStatus);
+    if (!transient || attempt >= maxAttempts) {
+      if (error) throw error;
+      return response!;
+    }
+
+    const delay = backoffDelay(attempt, response);
+    const reason = response ? `status ${response.status}` : (error as Error)?.message || error;
+    console.warn(`[anvil-api] ${path} attempt ${attempt}/${maxAttempts} failed (${reason}) — retrying in ${Math.round(delay)}ms`);
+    await sleep(delay);
+  }
+}
+
+/**
+ * Send an authenticated request to anvil-api through the circuit breaker.
+ * Resolves with the final response whatever its status; rejects when
+ * anvil-api could not be reached or signed in to.
+ *
+ * @throws AnvilApiUnavailableError while the circuit breaker is open
+ */
+async function anvilRequest(path: string, init: RequestInit): Promise<Response> {
+  acquireBreaker();
+  try {
+    const response = await sendWithRetries(path, init);
+    if (isTransientStatus(response.status)) {
+      recordFailure();
+    } else {
+      recordSuccess();
+    }
+    return response;
+  } catch (error) {
+    // A rejected sign-in still means anvil-api is up
+    if (error instanceof AnvilApiResponseError && !isTransientStatus(error.responseStatus)) {
+      recordSuccess();
+    } else {
+      recordFailure();
+    }
+    throw error;
+  }
+}
+
 /**
  * Trigger the full document generation pipeline (LeanCanvas → PRD → BRD → FRD)
  * for the given idea via the anvil-api.
  *
  * @param ideaId - The idea UUID to generate documents for
  * @param jobId - The job UUID created in anvil-of-ideas for tracking progress
+ * @param guidanceNotes - Optional user instructions for the generated documents
  */
 export async function triggerGeneration(
   ideaId: string,
   jobId: string,
+  guidanceNotes?: string | null,
 ): Promise<{ message: string; idea_id: string }> {
   if (!isConfigured()) {
     throw new Error(
@@ -60,17 +249,14 @@ export async function triggerGeneration(
     );
   }
 
-  const token = await getToken();
-  const response = await fetch(`${ANVIL_API_URL}/jobs/generate/${ideaId}`, {
+  const response = await anvilRequest(`/jobs/generate/${ideaId}`, {
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-    },
+    headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
       job_id: jobId,
       callback_url: ANVIL_CALLBACK_URL || null,
       webhook_secret: ANVIL_WEBHOOK_SECRET || null,
+      guidance_notes: guidanceNotes || null,
     }),
   });
 
@@ -88,11 +274,13 @@ export async function triggerGeneration(
  * @param ideaId - The idea UUID
  * @param jobId - The job UUID for tracking progress
  * @param step - One of: lean_canvas, prd, brd, frd, workflows, specs
+ * @param guidanceNotes - Optional user instructions for the regenerated step
  */
 export async function triggerStepGeneration(
   ideaId: string,
   jobId: string,
   step: string,
+  guidanceNotes?: string | null,
 ): Promise<{ message: string; idea_id: string }> {
   if (!isConfigured()) {
     throw new Error(
@@ -100,17 +288,14 @@ export async function triggerStepGeneration(
     );
   }
 
-  const token = await getToken();
-  const response = await fetch(`${ANVIL_API_URL}/jobs/generate/${ideaId}/step/${step}`, {
+  const response = await anvilRequest(`/jobs/generate/${ideaId}/step/${step}`, {
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-    },
+    headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
       job_id: jobId,
       callback_url: ANVIL_CALLBACK_URL || null,
       webhook_secret: ANVIL_WEBHOOK_SECRET || null,
+      guidance_notes: guidanceNotes || null,
     }),
   });
 
@@ -121,3 +306,28 @@ export async function triggerStepGeneration(
 
   return response.json();
 }
+
+/**
+ * Ask the anvil-api to stop working on a job. The pipeline checks for
+ * cancellation between substeps, so a few more callbacks may still arrive.
+ *
+ * @param jobId - The job UUID passed to anvil-api when generation was triggered
+ */
+export async function cancelGeneration(
+  jobId: string,
+): Promise<{ message: string; job_id: string }> {
+  if (!isConfigured()) {
+    throw new Error(
+      "anvil-api not configured. Set ANVIL_API_URL, ANVIL_API_USERNAME, and ANVIL_API_PASSWORD."
+    );
+  }
+
+  const response = await anvilRequest(`/jobs/${jobId}/cancel`, { method: "POST" });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`anvil-api cancel failed (${response.status}): ${text}`);
+  }
+
+  return response.json();
+}
@@ -0,0 +1,113 @@
+/**
+ * Personal API tokens for the public REST API. The raw token is shown once
+ * when it's created; afterwards only its hash and a short prefix are kept.
+ */
+import { Express, Request } from "express";
+import rateLimit from "express-rate-limit";
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { hashToken } from "./utils/auth-utils";
+import {
+  createApiTokenSchema,
+  type ApiToken,
+  type ApiTokenSummary,
+  type CreatedApiToken,
+} from "@shared/schema";
+
+const TOKEN_PREFIX = "anv_";
+// Enough of the token to tell it apart in a list without making it guessable
+const VISIBLE_PREFIX_LENGTH = TOKEN_PREFIX.length + 8;
+const MAX_TOKENS_PER_USER = 20;
+
+const apiTokenLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (req) => req.method === "GET",
+  message: { message: "Too many requests, please try again later" },
+});
+
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+function toSummary(token: ApiToken): ApiTokenSummary {
+  const { tokenHash: _, ...summary } = token;
+  return summary;
+}
+
+export function setupApiTokenRoutes(app: Express) {
+  app.get("/api/user/api-tokens", isAuthenticated, apiTokenLimiter, async (req, res, next) => {
+    try {
+      const tokens = await storage.getApiTokensByUser(req.user!.id);
+      return res.status(200).json(tokens.map(toSummary));
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/api-tokens", isAuthenticated, apiTokenLimiter, async (req, res, next) => {
+    try {
+      const parsed = createApiTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+
+      const existing = await storage.getApiTokensByUser(req.user!.id);
+      if (existing.length >= MAX_TOKENS_PER_USER) {
+        return res.status(400).json({ message: `You can have at most ${MAX_TOKENS_PER_USER} API tokens. Revoke one you no longer use first.` });
+      }
+
+      const { name, scopes, expiresInDays } = parsed.data;
+      const raw = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+      const created = await storage.createApiToken({
+        userId: req.user!.id,
+        name,
+        tokenHash: hashToken(raw),
+        tokenPrefix: raw.slice(0, VISIBLE_PREFIX_LENGTH),
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "account.api_token_create",
+        targetType: "api_token",
+        targetId: created.id,
+        details: { name, scopes: created.scopes, expiresAt: created.expiresAt },
+        ipAddress: clientIp(req),
+      });
+
+      const response: CreatedApiToken = { ...toSummary(created), token: raw };
+      return res.status(201).json(response);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/user/api-tokens/:id", isAuthenticated, apiTokenLimiter, async (req, res, next) => {
+    try {
+      const deleted = await storage.deleteApiToken(req.params.id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "account.api_token_revoke",
+        targetType: "api_token",
+        targetId: req.params.id,
+        details: null,
+        ipAddress: clientIp(req),
+      });
+      return res.status(200).json({ message: "API token revoked" });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+}
@@ -1,20 +1,63 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type Response, type NextFunction } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { User as SelectUser, SessionUser, SUPERADMIN_TWO_FACTOR_SETTING, type ApiToken, type ApiTokenScope } from "@shared/schema";
 import { emailService } from "./email";
-import { generateVerificationToken, generateTokenExpiry, buildVerificationUrl } from "./utils/auth-utils";
+import { generateVerificationToken, generateTokenExpiry, buildVerificationUrl, hashToken } from "./utils/auth-utils";
+import {
+  loginIpLimiter,
+  loginUsernameLimiter,
+  progressiveDelay,
+  isLocked,
+  recentFailureCount,
+  unknownUserFailureCount,
+  recordUnknownUserFailure,
+  recordLockedAttempt,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from "./login-protection";
+import { requestContextMiddleware } from "./request-context";
 
 declare global {
   namespace Express {
     interface User extends SelectUser {}
+    interface Request {
+      // Set when the request authenticated with a personal API token rather than a session
+      apiToken?: ApiToken;
+    }
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Superadmin signed in as another user for support; set while impersonating
+    impersonatorId?: string;
+    // Password checked but the authenticator code not yet; no user is signed in until it is
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+    // Secret shown during enrolment, kept here until the first code from the app confirms it
+    twoFactorSetupSecret?: string;
+    // Shown in the user's session list; epoch milliseconds
+    createdAt?: number;
+    lastSeenAt?: number;
+    ipAddress?: string | null;
+    userAgent?: string | null;
+  }
+}
+
+const PENDING_TWO_FACTOR_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const TWO_FACTOR_POLICY_TTL_MS = 30 * 1000;
+// Writing last-seen on every request would save the session each time
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+const API_TOKEN_TOUCH_INTERVAL_MS = 60 * 1000;
+// POST routes that start a generation job: the full pipeline, per-document aliases and step regeneration
+const GENERATION_ROUTE = /^\/api\/ideas\/[^/]+\/(generate(-[a-z-]+)?|workflows|regenerate(-downstream)?\/[^/]+)$/;
+
+let superadminTwoFactorPolicy: { required: boolean; loadedAt: number } | null = null;
+
 const scryptAsync = promisify(scrypt);
 
 export async function hashPassword(password: string) {
@@ -23,7 +66,17 @@ export async function hashPassword(password: string) {
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+// Unknown usernames are checked against this so they take as long as a real account
+let dummyPasswordHash: Promise<string> | undefined;
+
+function getDummyPasswordHash() {
+  if (!dummyPasswordHash) {
+    dummyPasswordHash = hashPassword(randomBytes(16).toString("hex"));
+  }
+  return dummyPasswordHash;
+}
+
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
@@ -42,19 +95,185 @@ const sessionSettings: session.SessionOptions = {
 
 export const sessionMiddleware = session(sessionSettings);
 
+// Checked on every request, so the setting is cached briefly rather than read each time
+export async function isTwoFactorRequiredForSuperadmins(): Promise<boolean> {
+  if (!superadminTwoFactorPolicy || Date.now() - superadminTwoFactorPolicy.loadedAt > TWO_FACTOR_POLICY_TTL_MS) {
+    const value = await storage.getSetting(SUPERADMIN_TWO_FACTOR_SETTING);
+    superadminTwoFactorPolicy = { required: value === "true", loadedAt: Date.now() };
+  }
+  return superadminTwoFactorPolicy.required;
+}
+
+export async function setTwoFactorRequiredForSuperadmins(required: boolean): Promise<void> {
+  await storage.setSetting(SUPERADMIN_TWO_FACTOR_SETTING, required ? "true" : "false");
+  superadminTwoFactorPolicy = { required, loadedAt: Date.now() };
+}
+
+/** Whether `user`'s role obliges them to have two-factor authentication. */
+export async function isTwoFactorRequired(user: Pick<SelectUser, "role">): Promise<boolean> {
+  return user.role === "superadmin" && await isTwoFactorRequiredForSuperadmins();
+}
+
+/**
+ * Whether `user` is signed in but may only enrol in two-factor authentication
+ * until they do, because their role requires it.
+ */
+export async function needsTwoFactorEnrolment(user: SelectUser): Promise<boolean> {
+  return !user.totpEnabledAt && await isTwoFactorRequired(user);
+}
+
+export async function toSessionUser(user: SelectUser): Promise<SessionUser> {
+  const { password: _, totpSecret: __, totpLastUsedStep: ___, totpRecoveryCodes: ____, ...rest } = user;
+  return { ...rest, twoFactorEnrolmentRequired: await needsTwoFactorEnrolment(user) };
+}
+
+/**
+ * Scope an API token needs for a request, or null for routes tokens can't use.
+ * Tokens reach ideas and their documents, canvas, comments, jobs and batches; account,
+ * workspace, sharing and admin routes stay session-only.
+ */
+function requiredApiTokenScope(method: string, path: string): ApiTokenScope | null {
+  if (method === "POST" && (GENERATION_ROUTE.test(path) || /^\/api\/jobs\/[^/]+\/cancel$/.test(path))) {
+    return "generation:trigger";
+  }
+  if (path === "/api/batches" || path.startsWith("/api/batches/")) {
+    return method === "GET" ? "ideas:read" : "generation:trigger";
+  }
+  const isIdeaRoute = path === "/api/ideas" || path.startsWith("/api/ideas/");
+  // Share links publish an idea to anyone holding the link
+  if (isIdeaRoute && /^\/api\/ideas\/[^/]+\/shares(\/|$)/.test(path)) {
+    return null;
+  }
+  if (method === "GET" && (isIdeaRoute || path.startsWith("/api/jobs/"))) {
+    return "ideas:read";
+  }
+  return isIdeaRoute ? "ideas:write" : null;
+}
+
+/**
+ * Authenticate `req` with a personal API token from its `Authorization: Bearer`
+ * header. Responds and returns false when the token can't be used here.
+ */
+async function authenticateApiToken(req: Request, res: Response, rawToken: string): Promise<boolean> {
+  const token = await storage.getApiTokenByHash(hashToken(rawToken));
+  if (!token || (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now())) {
+    res.status(401).json({ message: "Invalid or expired API token" });
+    return false;
+  }
+  const user = await storage.getUser(token.userId);
+  if (!user || user.disabledAt) {
+    res.status(401).json({ message: "Invalid or expired API token" });
+    return false;
+  }
+
+  const scope = requiredApiTokenScope(req.method, req.originalUrl.split("?")[0]);
+  if (!scope) {
+    res.status(403).json({ message: "This endpoint can't be used with an API token" });
+    return false;
+  }
+  if (!token.scopes.includes(scope)) {
+    res.status(403).json({ message: `This API token is missing the ${scope} scope` });
+    return false;
+  }
+
+  if (!token.lastUsedAt || Date.now() - new Date(token.lastUsedAt).getTime() > API_TOKEN_TOUCH_INTERVAL_MS) {
+    await storage.touchApiToken(token.id);
+  }
+  req.user = user;
+  req.apiToken = token;
+  return true;
+}
+
+function continueIfEnrolled(req: Request, res: Response, next: NextFunction) {
+  needsTwoFactorEnrolment(req.user!).then((needsEnrolment) => {
+    if (needsEnrolment) {
+      return res.status(403).json({
+        message: "Set up two-factor authentication to continue",
+        twoFactorEnrolmentRequired: true,
+      });
+    }
+    next();
+  }, next);
+}
+
+export function isAuthenticated(req: Request, res: Response, next: NextFunction) {
+  const bearer = req.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (bearer) {
+    authenticateApiToken(req, res, bearer).then((ok) => {
+      if (ok) continueIfEnrolled(req, res, next);
+    }, next);
+    return;
+  }
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  continueIfEnrolled(req, res, next);
+}
+
+// For the two-factor enrolment routes, which must stay reachable while enrolment is outstanding
+export function isAuthenticatedForEnrolment(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Unauthorized" });
+}
+
 export function setupAuth(app: Express) {
   app.set("trust proxy", 1);
   app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
+  // Lets audit entries written while impersonating name the superadmin behind them
+  app.use(requestContextMiddleware);
+
+  // Record when and from where each signed-in session was last used
+  app.use((req, _res, next) => {
+    if (req.isAuthenticated()) {
+      const now = Date.now();
+      if (!req.session.createdAt) {
+        req.session.createdAt = now;
+      }
+      if (!req.session.lastSeenAt || now - req.session.lastSeenAt > SESSION_TOUCH_INTERVAL_MS) {
+        req.session.lastSeenAt = now;
+        req.session.ipAddress = req.ip || req.socket.remoteAddress || null;
+        req.session.userAgent = req.get("user-agent") || null;
+      }
+    }
+    next();
+  });
 
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
-      const user = await storage.getUserByUsername(username);
-      if (!user || !(await comparePasswords(password, user.password))) {
-        return done(null, false);
-      } else {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
+      try {
+        // Unknown, locked and wrong-password attempts all get the same delay,
+        // password check and generic response, so none of them reveal the account
+        const user = await storage.getUserByUsername(username);
+        if (!user) {
+          await progressiveDelay(unknownUserFailureCount(username));
+          await comparePasswords(password, await getDummyPasswordHash());
+          await recordUnknownUserFailure(req, username);
+          return done(null, false);
+        }
+
+        await progressiveDelay(recentFailureCount(user));
+        const passwordMatches = await comparePasswords(password, user.password);
+        // A locked account turns away even the right password, so it can't be used to test guesses
+        if (isLocked(user)) {
+          await recordLockedAttempt(req, user);
+          return done(null, false);
+        }
+        if (!passwordMatches) {
+          await recordLoginFailure(req, user);
+          return done(null, false);
+        }
+        if (user.disabledAt) {
+          return done(null, false, { message: "This account has been disabled" });
+        }
+
+        await recordLoginSuccess(req, user, { pendingSecondFactor: !!user.totpEnabledAt });
         return done(null, user);
+      } catch (error) {
+        return done(error);
       }
     }),
   );
@@ -62,15 +281,36 @@ export function setupAuth(app: Express) {
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: string, done) => {
     const user = await storage.getUser(id);
-    done(null, user);
+    // Disabling an account ends its existing sessions too
+    done(null, user && !user.disabledAt ? user : false);
   });
 
-  app.post("/api/register", (_req, res) => {
-    res.status(403).json({ message: "Public registration is disabled" });
-  });
+  // Accounts with two-factor authentication stop after the password check; the
+  // session is only established once POST /api/login/2fa accepts their code
+  app.post("/api/login", loginIpLimiter, loginUsernameLimiter, (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false, info?: { message?: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid username or password" });
+      }
+
+      if (user.totpEnabledAt) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + PENDING_TWO_FACTOR_TTL_MS, attempts: 0 };
+        return req.session.save((saveErr) => {
+          if (saveErr) return next(saveErr);
+          res.status(200).json({ twoFactorRequired: true });
+        });
+      }
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+      req.login(user, async (loginErr) => {
+        if (loginErr) return next(loginErr);
+        try {
+          res.status(200).json(await toSessionUser(user));
+        } catch (error) {
+          next(error);
+        }
+      });
+    })(req, res, next);
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -80,8 +320,12 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res, next) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    try {
+      res.json(await toSessionUser(req.user!));
+    } catch (error) {
+      next(error);
+    }
   });
 }
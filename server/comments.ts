@@ -0,0 +1,385 @@
+/**
+ * Comments: threaded discussion anchored to a section of a generated document
+ * or to a Lean Canvas box. Anyone with access to the idea, viewers included,
+ * can read and post; authors edit and delete their own comments, editors can
+ * resolve any thread and idea owners can remove any comment. @mentions and
+ * replies notify the people involved by email, unless they've opted out.
+ */
+import { Express, NextFunction, Request, Response } from "express";
+import rateLimit from "express-rate-limit";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { emailService, type CommentNotificationReason } from "./email";
+import { getIdeaRole, hasWorkspaceRole } from "./workspaces";
+import { getUserPreference } from "./settings";
+import {
+  canvasSections,
+  commentAnchorKey,
+  COMMENT_ACTIVITY_EMAILS_PREFERENCE,
+  COMMENT_MENTION_EMAILS_PREFERENCE,
+  type Comment,
+  type CommentCounts,
+  type CommentThread,
+  type CommentWithAuthor,
+  type Idea,
+  type User,
+} from "@shared/schema";
+
+// Usernames written as @name in a comment body
+const MENTION_PATTERN = /@([\w.-]+)/g;
+
+const commentLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: "Too many requests, please try again later" },
+});
+
+const commentBodySchema = z.string().trim().min(1).max(5000);
+
+// A new thread names its anchor; a reply inherits the anchor of its parent
+const createCommentSchema = z.object({
+  body: commentBodySchema,
+  parentId: z.string().uuid().nullish(),
+  documentId: z.string().uuid().nullish(),
+  sectionKey: z.string().trim().min(1).max(100).nullish(),
+  canvasSection: z.enum(canvasSections).nullish(),
+}).refine(
+  (data) => data.parentId
+    || (data.canvasSection ? !data.documentId && !data.sectionKey : !!(data.documentId && data.sectionKey)),
+  { message: "Anchor the comment to a document section or a canvas section", path: ["documentId"] },
+);
+
+const updateCommentSchema = z.object({
+  body: commentBodySchema,
+});
+
+const anchorQuerySchema = z.object({
+  documentId: z.string().uuid().optional(),
+  sectionKey: z.string().optional(),
+  canvasSection: z.enum(canvasSections).optional(),
+});
+
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+function buildIdeaUrl(req: Request, ideaId: string) {
+  const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+  return `${baseUrl}/ideas/${ideaId}`;
+}
+
+function ideaTitle(idea: Idea) {
+  return idea.title || idea.companyName || idea.description.split(" ").slice(0, 5).join(" ");
+}
+
+function formatName(key: string) {
+  return key.replace(/([A-Z])/g, " $1").replace(/^./, s => s.toUpperCase()).trim();
+}
+
+/** Group comments into threads, newest thread first, replies oldest first. */
+function toThreads(comments: CommentWithAuthor[]): CommentThread[] {
+  const threads = new Map<string, CommentThread>();
+  for (const comment of comments) {
+    if (!comment.parentId) threads.set(comment.id, { ...comment, replies: [] });
+  }
+  for (const comment of comments) {
+    if (comment.parentId) threads.get(comment.parentId)?.replies.push(comment);
+  }
+  return Array.from(threads.values()).reverse();
+}
+
+/** Users @mentioned in a body who can actually see the idea. */
+async function resolveMentions(body: string, idea: Idea): Promise<User[]> {
+  const usernames = new Set(Array.from(body.matchAll(MENTION_PATTERN), match => match[1].replace(/\.+$/, "")));
+  const mentioned: User[] = [];
+  for (const username of Array.from(usernames)) {
+    const user = await storage.getUserByUsername(username);
+    if (user && (await getIdeaRole(idea, user.id))) {
+      mentioned.push(user);
+    }
+  }
+  return mentioned;
+}
+
+/**
+ * Email everyone a new comment concerns: mentioned users, the rest of the
+ * thread for replies, and the idea's creator for new threads. Failures are
+ * logged and never fail the request.
+ */
+async function notifyCommentRecipients(
+  req: Request,
+  idea: Idea,
+  comment: Comment,
+  thread: CommentWithAuthor[],
+  mentioned: User[],
+) {
+  const recipients = new Map<string, CommentNotificationReason>();
+  mentioned.forEach(user => recipients.set(user.id, "mention"));
+  if (comment.parentId) {
+    thread.forEach(c => { if (!recipients.has(c.userId)) recipients.set(c.userId, "reply"); });
+  } else if (!recipients.has(idea.userId)) {
+    recipients.set(idea.userId, "comment");
+  }
+  recipients.delete(comment.userId);
+  if (recipients.size === 0) return;
+
+  let location = comment.canvasSection ? `Lean Canvas: ${formatName(comment.canvasSection)}` : "";
+  if (comment.documentId) {
+    const document = await storage.getDocumentById(comment.documentId);
+    location = `${formatName(document?.documentType || "Document")}: ${formatName(comment.sectionKey || "")}`;
+  }
+
+  const author = req.user!.username;
+  const url = buildIdeaUrl(req, idea.id);
+  await Promise.all(Array.from(recipients.entries()).map(async ([userId, reason]) => {
+    try {
+      const user = await storage.getUser(userId);
+      if (!user?.email || !(await getIdeaRole(idea, userId))) return;
+      const preference = reason === "mention" ? COMMENT_MENTION_EMAILS_PREFERENCE : COMMENT_ACTIVITY_EMAILS_PREFERENCE;
+      if (!(await getUserPreference(userId, preference))) return;
+      await emailService.sendCommentNotificationEmail(
+        user.email, user.username, author, ideaTitle(idea), location, comment.body, reason, url,
+      );
+    } catch (error) {
+      console.error(`[comments] Failed to notify user ${userId} about comment ${comment.id}:`, error);
+    }
+  }));
+}
+
+export function setupCommentRoutes(app: Express) {
+  app.get("/api/ideas/:id/comments", isAuthenticated, async (req, res, next) => {
+    try {
+      const idea = await storage.getIdeaById(req.params.id, req.user!.id);
+      if (!idea || !(await getIdeaRole(idea, req.user!.id))) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      const parsed = anchorQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      const { documentId, sectionKey, canvasSection } = parsed.data;
+
+      const comments = await storage.getCommentsByIdea(idea.id);
+      const anchored = comments.filter(c =>
+        (!canvasSection || c.canvasSection === canvasSection)
+        && (!documentId || c.documentId === documentId)
+        && (!sectionKey || c.sectionKey === sectionKey));
+      return res.status(200).json(toThreads(anchored));
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.get("/api/ideas/:id/comments/counts", isAuthenticated, async (req, res, next) => {
+    try {
+      const idea = await storage.getIdeaById(req.params.id, req.user!.id);
+      if (!idea || !(await getIdeaRole(idea, req.user!.id))) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      const counts: CommentCounts = {};
+      for (const thread of toThreads(await storage.getCommentsByIdea(idea.id))) {
+        const key = commentAnchorKey(thread);
+        const entry = counts[key] ??= { total: 0, unresolved: 0 };
+        entry.total += 1 + thread.replies.length;
+        if (!thread.resolvedAt) entry.unresolved += 1 + thread.replies.length;
+      }
+      return res.status(200).json(counts);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.post("/api/ideas/:id/comments", isAuthenticated, commentLimiter, async (req, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const idea = await storage.getIdeaById(req.params.id, userId);
+      if (!idea || !(await getIdeaRole(idea, userId))) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      const parsed = createCommentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      const { body, parentId } = parsed.data;
+      let { documentId, sectionKey, canvasSection } = parsed.data;
+
+      let parent: Comment | undefined;
+      if (parentId) {
+        parent = await storage.getCommentById(parentId);
+        if (!parent || parent.ideaId !== idea.id) {
+          return res.status(404).json({ message: "Comment not found" });
+        }
+        if (parent.parentId) {
+          return res.status(400).json({ message: "Replies must be posted to the thread's first comment" });
+        }
+        documentId = parent.documentId;
+        sectionKey = parent.sectionKey;
+        canvasSection = parent.canvasSection as typeof canvasSection;
+      } else if (documentId) {
+        const document = await storage.getDocumentById(documentId);
+        const sections = document?.contentSections as Record<string, unknown> | null | undefined;
+        if (!document || document.ideaId !== idea.id) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+        if (!sections || !(sectionKey! in sections)) {
+          return res.status(400).json({ message: "Unknown document section" });
+        }
+      }
+
+      const mentioned = await resolveMentions(body, idea);
+      const comment = await storage.createComment({
+        ideaId: idea.id,
+        documentId: documentId ?? null,
+        sectionKey: sectionKey ?? null,
+        canvasSection: canvasSection ?? null,
+        parentId: parent?.id ?? null,
+        userId,
+        body,
+        mentions: mentioned.map(user => user.id),
+      });
+
+      await storage.createAuditLog({
+        actorId: userId,
+        action: "comment.create",
+        targetType: "comment",
+        targetId: comment.id,
+        details: { ideaId: idea.id, parentId: comment.parentId, anchor: commentAnchorKey(comment) },
+        ipAddress: clientIp(req),
+      });
+
+      const thread = parent
+        ? (await storage.getCommentsByIdea(idea.id)).filter(c => c.id === parent!.id || c.parentId === parent!.id)
+        : [];
+      await notifyCommentRecipients(req, idea, comment, thread, mentioned);
+
+      const result: CommentWithAuthor = { ...comment, username: req.user!.username };
+      return res.status(201).json(result);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/ideas/:id/comments/:commentId", isAuthenticated, async (req, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const idea = await storage.getIdeaById(req.params.id, userId);
+      if (!idea || !(await getIdeaRole(idea, userId))) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      const comment = await storage.getCommentById(req.params.commentId);
+      if (!comment || comment.ideaId !== idea.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.userId !== userId) {
+        return res.status(403).json({ message: "You can only edit your own comments" });
+      }
+
+      const parsed = updateCommentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+
+      // Edits don't re-notify; mentions are refreshed so the stored list matches the text
+      const mentioned = await resolveMentions(parsed.data.body, idea);
+      const updated = await storage.updateComment(comment.id, {
+        body: parsed.data.body,
+        mentions: mentioned.map(user => user.id),
+      });
+      return res.status(200).json({ ...updated, username: req.user!.username });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  const setResolved = (resolved: boolean) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.id;
+      const idea = await storage.getIdeaById(req.params.id, userId);
+      const role = idea ? await getIdeaRole(idea, userId) : null;
+      if (!idea || !role) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      const comment = await storage.getCommentById(req.params.commentId);
+      if (!comment || comment.ideaId !== idea.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.parentId) {
+        return res.status(400).json({ message: "Only a thread's first comment can be resolved" });
+      }
+      if (comment.userId !== userId && !hasWorkspaceRole(role, "editor")) {
+        return res.status(403).json({ message: "Only the thread's author or an editor can resolve it" });
+      }
+
+      const updated = await storage.updateComment(comment.id, resolved
+        ? { resolvedAt: new Date(), resolvedBy: userId }
+        : { resolvedAt: null, resolvedBy: null });
+
+      await storage.createAuditLog({
+        actorId: userId,
+        action: resolved ? "comment.resolve" : "comment.unresolve",
+        targetType: "comment",
+        targetId: comment.id,
+        details: { ideaId: idea.id },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json(updated);
+    } catch (error: any) {
+      next(error);
+    }
+  };
+
+  app.post("/api/ideas/:id/comments/:commentId/resolve", isAuthenticated, setResolved(true));
+  app.post("/api/ideas/:id/comments/:commentId/unresolve", isAuthenticated, setResolved(false));
+
+  app.delete("/api/ideas/:id/comments/:commentId", isAuthenticated, async (req, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const idea = await storage.getIdeaById(req.params.id, userId);
+      const role = idea ? await getIdeaRole(idea, userId) : null;
+      if (!idea || !role) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      const comment = await storage.getCommentById(req.params.commentId);
+      if (!comment || comment.ideaId !== idea.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.userId !== userId && role !== "owner") {
+        return res.status(403).json({ message: "You can only delete your own comments" });
+      }
+
+      // Deleting a thread's first comment removes its replies too
+      await storage.deleteComment(comment.id);
+      await storage.createAuditLog({
+        actorId: userId,
+        action: "comment.delete",
+        targetType: "comment",
+        targetId: comment.id,
+        details: { ideaId: idea.id, parentId: comment.parentId, authorId: comment.userId },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ message: "Comment deleted" });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+}
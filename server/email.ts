@@ -1,6 +1,7 @@
 import formData from 'form-data';
 import Mailgun from 'mailgun.js';
 import { storage } from './storage';
+import { EMAIL_FROM_ADDRESS_SETTING } from '@shared/schema';
 import dotenv from 'dotenv';
 dotenv.config({ path: process.env.NODE_ENV === 'development' ? '.env.development' : '.env' });
 
@@ -34,10 +35,22 @@ export interface EmailMessage {
   'h:X-Mailgun-Variables'?: string;
 }
 
+// Why someone is being told about a new comment
+export type CommentNotificationReason = 'mention' | 'reply' | 'comment';
+
+// Comment bodies are user-written and end up inside our HTML templates
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 class EmailService {
   private defaultFrom: string;
   private readonly defaultFromEmail = `Anvil of Ideas <no-reply@${domain}>`;
-  private readonly settingKey = 'email_from_address';
+  private readonly settingKey = EMAIL_FROM_ADDRESS_SETTING;
 
   constructor() {
     this.defaultFrom = this.defaultFromEmail;
@@ -65,18 +78,11 @@ class EmailService {
   }
 
   /**
-   * Update the from address in settings
+   * Start sending from an address just saved in settings; empty restores the default
    */
-  async updateFromAddress(fromAddress: string): Promise<boolean> {
-    try {
-      await storage.setSetting(this.settingKey, fromAddress);
-      this.defaultFrom = fromAddress;
-      console.log(`Email 'from' address updated to: ${fromAddress}`);
-      return true;
-    } catch (error) {
-      console.error('Failed to update email from address:', error);
-      return false;
-    }
+  applyFromAddress(fromAddress: string): void {
+    this.defaultFrom = fromAddress || this.defaultFromEmail;
+    console.log(`Email 'from' address updated to: ${this.defaultFrom}`);
   }
 
   /**
@@ -236,6 +242,215 @@ class EmailService {
     return this.sendEmail(message);
   }
 
+  /**
+   * Send an invitation to join a team workspace
+   */
+  async sendWorkspaceInvitationEmail(
+    email: string,
+    inviterName: string,
+    workspaceName: string,
+    role: string,
+    invitationUrl: string,
+  ): Promise<boolean> {
+    const message: EmailMessage = {
+      to: email,
+      subject: `${inviterName} invited you to ${workspaceName} - Anvil of Ideas`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #FF8A00;">You're Invited!</h1>
+          <p>Hello,</p>
+          <p><strong>${inviterName}</strong> has invited you to join the <strong>${workspaceName}</strong> workspace
+             on Anvil of Ideas as ${role === 'editor' ? 'an' : 'a'} <strong>${role}</strong>.</p>
+          <p>Workspace members share ideas and their generated documents with the rest of the team.</p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${invitationUrl}"
+              style="background-color: #FF8A00; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; font-weight: bold;">
+              Accept Invitation
+            </a>
+          </div>
+
+          <p>Link not working? Copy this URL into your browser:</p>
+          <p style="background-color: #f5f5f5; padding: 10px; border-radius: 4px; word-break: break-all; font-size: 12px;">
+            ${invitationUrl}
+          </p>
+
+          <p>This invitation expires in 7 days. You will need to sign in with an account using this email address to accept it.</p>
+          <hr style="border: none; border-top: 1px solid #EEE; margin: 20px 0;" />
+          <p style="font-size: 12px; color: #666;">If you weren't expecting this invitation, you can ignore this email.</p>
+          <p>Thanks,<br>The Anvil of Ideas Team</p>
+        </div>
+      `,
+    };
+
+    return this.sendEmail(message);
+  }
+
+  /**
+   * Notify a user about a new comment they were mentioned in, that replies to
+   * a thread they took part in, or that starts a thread on their idea
+   */
+  async sendCommentNotificationEmail(
+    email: string,
+    username: string,
+    authorName: string,
+    ideaTitle: string,
+    location: string,
+    body: string,
+    reason: CommentNotificationReason,
+    ideaUrl: string,
+  ): Promise<boolean> {
+    const headline = {
+      mention: `${authorName} mentioned you`,
+      reply: `${authorName} replied to a discussion`,
+      comment: `${authorName} commented on your idea`,
+    }[reason];
+    const excerpt = body.length > 500 ? `${body.slice(0, 500)}…` : body;
+
+    const message: EmailMessage = {
+      to: email,
+      subject: `${headline} on "${ideaTitle}" - Anvil of Ideas`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #FF8A00;">New Comment</h1>
+          <p>Hello ${username},</p>
+          <p><strong>${escapeHtml(headline)}</strong> on <strong>${escapeHtml(ideaTitle)}</strong> (${escapeHtml(location)}):</p>
+          <div style="background-color: #FFF7ED; border-left: 4px solid #FF8A00; padding: 15px; margin: 20px 0; white-space: pre-wrap;">${escapeHtml(excerpt)}</div>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${ideaUrl}"
+              style="background-color: #FF8A00; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; font-weight: bold;">
+              View Discussion
+            </a>
+          </div>
+          <p>Thanks,<br>The Anvil of Ideas Team</p>
+        </div>
+      `,
+    };
+
+    return this.sendEmail(message);
+  }
+
+  /**
+   * Send a password reset link to a user who asked for one
+   */
+  async sendPasswordResetEmail(email: string, username: string, resetUrl: string): Promise<boolean> {
+    const message: EmailMessage = {
+      to: email,
+      subject: 'Reset Your Password - Anvil of Ideas',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #FF8A00;">Reset Your Password</h1>
+          <p>Hello ${username},</p>
+          <p>We received a request to reset the password for your <strong>Anvil of Ideas</strong> account.</p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${resetUrl}"
+              style="background-color: #FF8A00; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; font-weight: bold;">
+              Choose a New Password
+            </a>
+          </div>
+
+          <p>Link not working? Copy this URL into your browser:</p>
+          <p style="background-color: #f5f5f5; padding: 10px; border-radius: 4px; word-break: break-all; font-size: 12px;">
+            ${resetUrl}
+          </p>
+
+          <p>This link expires in 1 hour and can only be used once.</p>
+          <hr style="border: none; border-top: 1px solid #EEE; margin: 20px 0;" />
+          <p style="font-size: 12px; color: #666;">If you didn't ask to reset your password, you can ignore this email — your password won't change.</p>
+          <p>Thanks,<br>The Anvil of Ideas Team</p>
+        </div>
+      `,
+    };
+
+    return this.sendEmail(message);
+  }
+
+  /**
+   * Ask a user to confirm the new address they want to switch their account to
+   */
+  async sendEmailChangeVerificationEmail(newEmail: string, username: string, confirmUrl: string): Promise<boolean> {
+    const message: EmailMessage = {
+      to: newEmail,
+      subject: 'Confirm Your New Email Address - Anvil of Ideas',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #FF8A00;">Confirm Your New Email</h1>
+          <p>Hello ${username},</p>
+          <p>You asked to use <strong>${escapeHtml(newEmail)}</strong> for your Anvil of Ideas account. Your account keeps its current address until you confirm this one.</p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${confirmUrl}"
+              style="background-color: #FF8A00; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; font-weight: bold;">
+              Confirm New Email
+            </a>
+          </div>
+
+          <p>Link not working? Copy this URL into your browser:</p>
+          <p style="background-color: #f5f5f5; padding: 10px; border-radius: 4px; word-break: break-all; font-size: 12px;">
+            ${confirmUrl}
+          </p>
+
+          <p>This confirmation link expires in 24 hours.</p>
+          <hr style="border: none; border-top: 1px solid #EEE; margin: 20px 0;" />
+          <p style="font-size: 12px; color: #666;">If you didn't request this change, you can ignore this email.</p>
+          <p>Thanks,<br>The Anvil of Ideas Team</p>
+        </div>
+      `,
+    };
+
+    return this.sendEmail(message);
+  }
+
+  /**
+   * Warn the current address that a change to another address was requested
+   */
+  async sendEmailChangeNoticeEmail(email: string, username: string, newEmail: string): Promise<boolean> {
+    const message: EmailMessage = {
+      to: email,
+      subject: 'Email Change Requested - Anvil of Ideas',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #FF8A00;">Email Change Requested</h1>
+          <p>Hello ${username},</p>
+          <p>Someone signed in to your Anvil of Ideas account asked to change its email address to <strong>${escapeHtml(newEmail)}</strong>.</p>
+          <p>The change only takes effect once the new address is confirmed.</p>
+          <hr style="border: none; border-top: 1px solid #EEE; margin: 20px 0;" />
+          <p style="font-size: 12px; color: #666;">If this wasn't you, reset your password straight away.</p>
+          <p>Thanks,<br>The Anvil of Ideas Team</p>
+        </div>
+      `,
+    };
+
+    return this.sendEmail(message);
+  }
+
+  /**
+   * Tell a user their account was locked after repeated failed sign-ins
+   */
+  async sendAccountLockedEmail(email: string, username: string, lockedUntil: Date, signInUrl: string): Promise<boolean> {
+    const message: EmailMessage = {
+      to: email,
+      subject: 'Your Account Was Locked - Anvil of Ideas',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #FF8A00;">Account Temporarily Locked</h1>
+          <p>Hello ${username},</p>
+          <p>There were several failed attempts to sign in to your <strong>Anvil of Ideas</strong> account, so we've locked it until <strong>${lockedUntil.toUTCString()}</strong>.</p>
+          <p>If these attempts were you, wait until then and try again, or use "Forgot password?" on the sign-in page to choose a new password now:</p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${signInUrl}"
+              style="background-color: #FF8A00; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; font-weight: bold;">
+              Go to Sign In
+            </a>
+          </div>
+          <hr style="border: none; border-top: 1px solid #EEE; margin: 20px 0;" />
+          <p style="font-size: 12px; color: #666;">If this wasn't you, someone may be trying to guess your password. Resetting it, and turning on two-factor authentication, keeps your account safe.</p>
+          <p>Thanks,<br>The Anvil of Ideas Team</p>
+        </div>
+      `,
+    };
+
+    return this.sendEmail(message);
+  }
+
   /**
    * Send a test email to verify configuration
    */
@@ -0,0 +1,445 @@
+/**
+ * Builds a downloadable bundle of everything generated for an idea — the Lean
+ * Canvas, every document and the workflow specs — and renders it as Markdown,
+ * PDF, DOCX or a ZIP containing all three plus one Markdown file per section.
+ */
+import PDFDocument from "pdfkit";
+import JSZip from "jszip";
+import {
+  Document as DocxDocument, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, PageBreak,
+} from "docx";
+import { storage } from "./storage";
+import { fetchProjectWorkflows } from "./supabase";
+import {
+  documentTypes,
+  type DocumentType, type ExportFormat, type Idea, type LeanCanvasContent,
+} from "@shared/schema";
+
+const BRAND_NAME = "Anvil of Ideas";
+const BRAND_COLOR = "#B45309"; // amber-700, matches the app's primary gradient
+
+const DOCUMENT_TITLES: Record<DocumentType, string> = {
+  LeanCanvas: "Lean Canvas",
+  ProjectRequirements: "Project Requirements",
+  BusinessRequirements: "Business Requirements",
+  FunctionalRequirements: "Functional Requirements",
+  Workflows: "Workflows",
+  FrontEndSpecification: "Front End Specification",
+  BackEndSpecification: "Back End Specification",
+  MarketingCollateral: "Marketing Collateral",
+  PitchDeck: "Pitch Deck",
+  Estimate: "Estimate",
+};
+
+const CANVAS_SECTION_TITLES: [keyof LeanCanvasContent, string][] = [
+  ["problem", "Problem"],
+  ["customerSegments", "Customer Segments"],
+  ["uniqueValueProposition", "Unique Value Proposition"],
+  ["solution", "Solution"],
+  ["channels", "Channels"],
+  ["revenueStreams", "Revenue Streams"],
+  ["costStructure", "Cost Structure"],
+  ["keyMetrics", "Key Metrics"],
+  ["unfairAdvantage", "Unfair Advantage"],
+];
+
+// Workflow spec columns, and the document type that supersedes each one when present
+const WORKFLOW_SPEC_FIELDS: { field: string; title: string; documentType?: DocumentType; code?: boolean }[] = [
+  { field: "homepage_spec", title: "Front End Specification", documentType: "FrontEndSpecification" },
+  { field: "backend_spec", title: "Back End Specification", documentType: "BackEndSpecification" },
+  { field: "swagger", title: "API Specification (Swagger)", code: true },
+  { field: "estimate", title: "Estimate", documentType: "Estimate" },
+];
+
+export interface ExportSection {
+  title: string;
+  slug: string;
+  markdown: string;
+}
+
+export interface IdeaExportBundle {
+  idea: Idea;
+  title: string;
+  generatedAt: Date;
+  sections: ExportSection[];
+}
+
+export interface RenderedExport {
+  buffer: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+function slugify(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "idea";
+}
+
+function ideaTitle(idea: Idea) {
+  return idea.title || idea.companyName || idea.description.split(" ").slice(0, 5).join(" ");
+}
+
+function formatSwagger(raw: string) {
+  try {
+    return "```json\n" + JSON.stringify(JSON.parse(raw), null, 2) + "\n```";
+  } catch {
+    return "```\n" + raw + "\n```";
+  }
+}
+
+/**
+ * Collect every generated artefact for an idea, in pipeline order.
+ * Documents that have no content yet are left out.
+ */
+export async function buildIdeaExport(idea: Idea, requestingUserId: string): Promise<IdeaExportBundle> {
+  const sections: ExportSection[] = [];
+  const documents = await storage.getDocumentsByIdeaId(idea.id, requestingUserId);
+  const byType = new Map(documents.map(doc => [doc.documentType, doc]));
+
+  const canvas = byType.get("LeanCanvas");
+  const canvasSections = (canvas?.contentSections as LeanCanvasContent | null) || {};
+  const canvasMarkdown = CANVAS_SECTION_TITLES
+    .filter(([key]) => canvasSections[key])
+    .map(([key, title]) => `## ${title}\n\n${canvasSections[key]}`)
+    .join("\n\n");
+  if (canvasMarkdown || canvas?.content) {
+    sections.push({ title: "Lean Canvas", slug: "lean-canvas", markdown: canvasMarkdown || canvas!.content! });
+  }
+
+  for (const documentType of documentTypes) {
+    if (documentType === "LeanCanvas") continue;
+    const doc = byType.get(documentType);
+    if (!doc?.content) continue;
+    const title = DOCUMENT_TITLES[documentType];
+    sections.push({ title, slug: slugify(title), markdown: doc.content });
+  }
+
+  // Workflow specs live in Supabase; an unavailable workflow service should not block the export
+  let workflow: Record<string, unknown> | null = null;
+  try {
+    workflow = await fetchProjectWorkflows(idea.id, requestingUserId);
+  } catch (error) {
+    console.warn(`[export] Skipping workflow specs for idea ${idea.id}:`, error);
+  }
+
+  for (const spec of WORKFLOW_SPEC_FIELDS) {
+    const value = workflow?.[spec.field];
+    if (typeof value !== "string" || !value.trim()) continue;
+    if (spec.documentType && byType.get(spec.documentType)?.content) continue;
+    sections.push({
+      title: spec.title,
+      slug: slugify(spec.title),
+      markdown: spec.code ? formatSwagger(value) : value,
+    });
+  }
+
+  return { idea, title: ideaTitle(idea), generatedAt: new Date(), sections };
+}
+
+// ==================== MARKDOWN PARSING ====================
+
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "bullet"; text: string; ordered: boolean; marker: string }
+  | { type: "code"; text: string };
+
+interface InlineRun {
+  text: string;
+  bold?: boolean;
+  code?: boolean;
+}
+
+/**
+ * Minimal block-level Markdown parser — just enough structure (headings,
+ * lists, code, paragraphs, tables as text) to lay documents out in PDF/DOCX.
+ */
+function parseMarkdown(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trim().startsWith("```")) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith("```")) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^\s*([-*+]|\d+\.)\s+(.*)$/);
+
+    if (!line.trim() || /^\s*(-{3,}|\*{3,})\s*$/.test(line)) {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2].trim() });
+    } else if (bullet) {
+      flushParagraph();
+      const ordered = /\d/.test(bullet[1]);
+      blocks.push({ type: "bullet", text: bullet[2], ordered, marker: ordered ? bullet[1] : "•" });
+    } else if (line.trim().startsWith("|")) {
+      flushParagraph();
+      // Skip table separator rows like |---|:---:|
+      if (/^\s*\|[\s:|-]+\|\s*$/.test(line)) continue;
+      const cells = line.trim().replace(/^\||\|$/g, "").split("|").map(cell => cell.trim());
+      blocks.push({ type: "paragraph", text: cells.join("  ·  ") });
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flushParagraph();
+
+  return blocks;
+}
+
+/** Split inline Markdown into runs, keeping **bold** and `code` and flattening links. */
+function parseInline(text: string): InlineRun[] {
+  const flattened = text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)");
+
+  const runs: InlineRun[] = [];
+  const pattern = /(\*\*|__)(.+?)\1|`([^`]+)`/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(flattened)) !== null) {
+    if (match.index > last) {
+      runs.push({ text: flattened.slice(last, match.index) });
+    }
+    if (match[2] !== undefined) {
+      runs.push({ text: match[2], bold: true });
+    } else {
+      runs.push({ text: match[3], code: true });
+    }
+    last = match.index + match[0].length;
+  }
+  if (last < flattened.length) {
+    runs.push({ text: flattened.slice(last) });
+  }
+
+  // Single emphasis markers carry no structure worth keeping
+  return runs.map(run => run.code ? run : { ...run, text: run.text.replace(/(^|\s)[*_](\S.*?\S|\S)[*_](?=\s|$|[.,;:!?])/g, "$1$2") });
+}
+
+// ==================== RENDERERS ====================
+
+function coverLines(bundle: IdeaExportBundle) {
+  const { idea } = bundle;
+  return {
+    company: idea.companyName || null,
+    founder: idea.founderName ? `Prepared for ${idea.founderName}` : null,
+    date: bundle.generatedAt.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }),
+  };
+}
+
+function renderMarkdown(bundle: IdeaExportBundle): string {
+  const cover = coverLines(bundle);
+  const header = [
+    `# ${bundle.title}`,
+    "",
+    cover.company ? `**${cover.company}**` : null,
+    cover.founder,
+    cover.date,
+    "",
+    `_Generated by ${BRAND_NAME}_`,
+  ].filter(line => line !== null).join("\n");
+
+  const contents = bundle.sections.map((section, index) => `${index + 1}. ${section.title}`).join("\n");
+  const body = bundle.sections
+    .map(section => `# ${section.title}\n\n${section.markdown.trim()}`)
+    .join("\n\n---\n\n");
+
+  return `${header}\n\n## Contents\n\n${contents}\n\n---\n\n${body}\n`;
+}
+
+function renderPdf(bundle: IdeaExportBundle): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: "LETTER", margin: 72, bufferPages: true, info: { Title: bundle.title, Creator: BRAND_NAME } });
+    const chunks: Buffer[] = [];
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    // Cover page
+    const cover = coverLines(bundle);
+    pdf.rect(0, 0, pdf.page.width, 12).fill(BRAND_COLOR);
+    pdf.moveDown(8);
+    pdf.fillColor(BRAND_COLOR).font("Helvetica-Bold").fontSize(12).text(BRAND_NAME.toUpperCase(), { characterSpacing: 2 });
+    pdf.moveDown(1);
+    pdf.fillColor("#111827").font("Helvetica-Bold").fontSize(28).text(bundle.title);
+    if (cover.company) {
+      pdf.moveDown(0.5).font("Helvetica").fontSize(16).fillColor("#374151").text(cover.company);
+    }
+    if (cover.founder) {
+      pdf.moveDown(0.5).font("Helvetica").fontSize(12).fillColor("#6B7280").text(cover.founder);
+    }
+    pdf.moveDown(0.5).font("Helvetica").fontSize(12).fillColor("#6B7280").text(cover.date);
+
+    const writeRuns = (runs: InlineRun[], options: PDFKit.Mixins.TextOptions = {}) => {
+      if (runs.length === 0) return;
+      runs.forEach((run, index) => {
+        pdf.font(run.code ? "Courier" : run.bold ? "Helvetica-Bold" : "Helvetica")
+          .text(run.text, { ...options, continued: index < runs.length - 1 });
+      });
+    };
+
+    for (const section of bundle.sections) {
+      pdf.addPage();
+      pdf.fillColor(BRAND_COLOR).font("Helvetica-Bold").fontSize(22).text(section.title);
+      pdf.moveTo(pdf.page.margins.left, pdf.y + 4)
+        .lineTo(pdf.page.width - pdf.page.margins.right, pdf.y + 4)
+        .strokeColor(BRAND_COLOR).stroke();
+      pdf.moveDown(1);
+
+      for (const block of parseMarkdown(section.markdown)) {
+        pdf.fillColor("#111827");
+        switch (block.type) {
+          case "heading":
+            pdf.moveDown(0.5).fontSize(Math.max(18 - block.level * 2, 11));
+            writeRuns(parseInline(block.text).map(run => ({ ...run, bold: true })));
+            pdf.moveDown(0.3);
+            break;
+          case "bullet":
+            pdf.fontSize(10.5);
+            writeRuns([{ text: `${block.marker} ` }, ...parseInline(block.text)], { indent: 14 });
+            break;
+          case "code":
+            pdf.moveDown(0.3).font("Courier").fontSize(8.5).fillColor("#374151").text(block.text);
+            pdf.moveDown(0.5);
+            break;
+          case "paragraph":
+            pdf.fontSize(10.5);
+            writeRuns(parseInline(block.text), { align: "left" });
+            pdf.moveDown(0.5);
+            break;
+        }
+      }
+    }
+
+    // Footer on every page but the cover
+    const range = pdf.bufferedPageRange();
+    for (let i = range.start + 1; i < range.start + range.count; i++) {
+      pdf.switchToPage(i);
+      const bottom = pdf.page.height - pdf.page.margins.bottom + 24;
+      // Writing inside the bottom margin would otherwise start a new page
+      pdf.page.margins.bottom = 0;
+      pdf.font("Helvetica").fontSize(8).fillColor("#9CA3AF")
+        .text(`${bundle.title} — ${BRAND_NAME}`, pdf.page.margins.left, bottom, { lineBreak: false });
+      pdf.text(`${i + 1}`, pdf.page.width - pdf.page.margins.right - 20, bottom, { lineBreak: false });
+    }
+
+    pdf.end();
+  });
+}
+
+function docxRuns(runs: InlineRun[], base: { bold?: boolean; size?: number; color?: string } = {}) {
+  return runs.map(run => new TextRun({
+    text: run.text,
+    bold: base.bold || run.bold,
+    font: run.code ? "Courier New" : undefined,
+    size: base.size,
+    color: base.color,
+  }));
+}
+
+async function renderDocx(bundle: IdeaExportBundle): Promise<Buffer> {
+  const cover = coverLines(bundle);
+  const color = BRAND_COLOR.slice(1);
+  const headingLevels = [HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4, HeadingLevel.HEADING_5];
+
+  const coverPage: Paragraph[] = [
+    new Paragraph({ spacing: { before: 2400 }, children: [new TextRun({ text: BRAND_NAME.toUpperCase(), bold: true, color, size: 24 })] }),
+    new Paragraph({ spacing: { before: 240 }, children: [new TextRun({ text: bundle.title, bold: true, size: 56 })] }),
+    ...(cover.company ? [new Paragraph({ spacing: { before: 240 }, children: [new TextRun({ text: cover.company, size: 32, color: "374151" })] })] : []),
+    ...(cover.founder ? [new Paragraph({ spacing: { before: 120 }, children: [new TextRun({ text: cover.founder, size: 24, color: "6B7280" })] })] : []),
+    new Paragraph({ spacing: { before: 120 }, children: [new TextRun({ text: cover.date, size: 24, color: "6B7280" })] }),
+  ];
+
+  const body: Paragraph[] = [];
+  for (const section of bundle.sections) {
+    body.push(new Paragraph({ children: [new PageBreak()] }));
+    body.push(new Paragraph({
+      heading: HeadingLevel.HEADING_1,
+      children: [new TextRun({ text: section.title, bold: true, color, size: 40 })],
+    }));
+
+    for (const block of parseMarkdown(section.markdown)) {
+      switch (block.type) {
+        case "heading":
+          body.push(new Paragraph({
+            heading: headingLevels[Math.min(block.level, headingLevels.length) - 1],
+            children: docxRuns(parseInline(block.text), { bold: true }),
+          }));
+          break;
+        case "bullet":
+          body.push(new Paragraph({
+            indent: { left: 360, hanging: 240 },
+            children: docxRuns([{ text: `${block.marker} ` }, ...parseInline(block.text)]),
+          }));
+          break;
+        case "code":
+          for (const line of block.text.split("\n")) {
+            body.push(new Paragraph({ children: [new TextRun({ text: line, font: "Courier New", size: 16 })] }));
+          }
+          break;
+        case "paragraph":
+          body.push(new Paragraph({ spacing: { after: 120 }, alignment: AlignmentType.LEFT, children: docxRuns(parseInline(block.text)) }));
+          break;
+      }
+    }
+  }
+
+  const doc = new DocxDocument({
+    creator: BRAND_NAME,
+    title: bundle.title,
+    sections: [{ children: [...coverPage, ...body] }],
+  });
+  return Packer.toBuffer(doc);
+}
+
+async function renderZip(bundle: IdeaExportBundle, baseName: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(`${baseName}.md`, renderMarkdown(bundle));
+  zip.file(`${baseName}.pdf`, await renderPdf(bundle));
+  zip.file(`${baseName}.docx`, await renderDocx(bundle));
+
+  const folder = zip.folder("documents")!;
+  bundle.sections.forEach((section, index) => {
+    const prefix = String(index + 1).padStart(2, "0");
+    folder.file(`${prefix}-${section.slug}.md`, `# ${section.title}\n\n${section.markdown.trim()}\n`);
+  });
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+export async function renderIdeaExport(bundle: IdeaExportBundle, format: ExportFormat): Promise<RenderedExport> {
+  const baseName = `${slugify(bundle.title)}-documents`;
+
+  switch (format) {
+    case "md":
+      return { buffer: Buffer.from(renderMarkdown(bundle), "utf-8"), contentType: "text/markdown; charset=utf-8", filename: `${baseName}.md` };
+    case "pdf":
+      return { buffer: await renderPdf(bundle), contentType: "application/pdf", filename: `${baseName}.pdf` };
+    case "docx":
+      return {
+        buffer: await renderDocx(bundle),
+        contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        filename: `${baseName}.docx`,
+      };
+    case "zip":
+      return { buffer: await renderZip(bundle, baseName), contentType: "application/zip", filename: `${baseName}.zip` };
+  }
+}
@@ -0,0 +1,529 @@
+/**
+ * Owns the lifecycle of generation jobs: starting them (with per-idea locking,
+ * stuck-job detection and the `force` override), queueing them until anvil-api
+ * has room within the global and per-user concurrency limits, validating status
+ * transitions, cancelling them, and reaping jobs that stopped receiving progress
+ * updates. The queue lives in the jobs table, so queued jobs survive a restart.
+ */
+import { storage } from "./storage";
+import { publishJobEvent } from "./socket";
+import {
+  assertAnvilApiAvailable, cancelGeneration, triggerGeneration, triggerStepGeneration, AnvilApiUnavailableError,
+} from "./anvil-api";
+import { log } from "./vite";
+import {
+  activeJobStatuses, getPipelineStageName,
+  type Job, type JobStatus, type JobStepTiming, type PipelineStep, type UpdateJob,
+} from "@shared/schema";
+
+const DEFAULT_STUCK_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes since last progress update
+const DEFAULT_REAPER_INTERVAL_MS = 60 * 1000;
+
+export const JOB_STUCK_TIMEOUT_MS = Number(process.env.JOB_STUCK_TIMEOUT_MS) || DEFAULT_STUCK_TIMEOUT_MS;
+const JOB_REAPER_INTERVAL_MS = Number(process.env.JOB_REAPER_INTERVAL_MS) || DEFAULT_REAPER_INTERVAL_MS;
+
+// Jobs handed to anvil-api at once, across everyone and per user
+const MAX_CONCURRENT_JOBS = Number(process.env.GENERATION_MAX_CONCURRENT_JOBS) || 5;
+const MAX_CONCURRENT_JOBS_PER_USER = Number(process.env.GENERATION_MAX_CONCURRENT_JOBS_PER_USER) || 2;
+
+const ALLOWED_TRANSITIONS: Record<JobStatus, readonly JobStatus[]> = {
+  queued: ["queued", "pending", "failed", "cancelled"],
+  // Back to queued when anvil-api turns out to be unavailable at dispatch
+  pending: ["pending", "queued", "processing", "completed", "failed", "cancelled"],
+  processing: ["processing", "completed", "failed", "cancelled"],
+  completed: [],
+  failed: [],
+  cancelled: [],
+};
+
+// Aliases used by anvil-api and older rows in the jobs table
+const STATUS_ALIASES: Record<string, JobStatus> = {
+  "": "pending",
+  starting: "processing",
+  running: "processing",
+  in_progress: "processing",
+  done: "completed",
+  error: "failed",
+  canceled: "cancelled",
+};
+
+export class JobConflictError extends Error {
+  status = 409;
+
+  constructor(public jobId: string) {
+    super("Generation is already in progress for this idea");
+  }
+}
+
+export class JobTransitionError extends Error {
+  status = 409;
+
+  constructor(public jobId: string, public from: JobStatus, public to: JobStatus) {
+    super(`Job ${jobId} cannot move from '${from}' to '${to}'`);
+  }
+}
+
+/**
+ * Map a free-form status string onto the job lifecycle, or null if it is unknown.
+ */
+export function normalizeJobStatus(status: string | null | undefined): JobStatus | null {
+  const lower = (status || "").trim().toLowerCase();
+  if (lower in STATUS_ALIASES) return STATUS_ALIASES[lower];
+  return (ALLOWED_TRANSITIONS as Record<string, unknown>)[lower] ? (lower as JobStatus) : null;
+}
+
+export function isActiveJob(job: Pick<Job, "status">): boolean {
+  const status = normalizeJobStatus(job.status);
+  return !!status && activeJobStatuses.includes(status);
+}
+
+export function canTransition(from: JobStatus, to: JobStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+// ==================== PER-IDEA LOCKS ====================
+
+const ideaLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Serialize work per idea so two concurrent requests cannot both pass the
+ * "no active job" check and start duplicate pipelines.
+ */
+async function withIdeaLock<T>(ideaId: string, fn: () => Promise<T>): Promise<T> {
+  const previous = ideaLocks.get(ideaId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  const tail = run.catch(() => undefined);
+  ideaLocks.set(ideaId, tail);
+
+  try {
+    return await run;
+  } finally {
+    if (ideaLocks.get(ideaId) === tail) {
+      ideaLocks.delete(ideaId);
+    }
+  }
+}
+
+// ==================== TRANSITIONS ====================
+
+/** Step/substep position reported by anvil-api alongside a status update. */
+export interface JobProgress {
+  step?: number;
+  substep?: number;
+  totalSubsteps?: number;
+}
+
+/**
+ * Work out the progress columns for a job moving to `to`: a new step closes
+ * the previous step's timing and opens its own, and finishing the job closes
+ * whatever step is still open.
+ */
+function buildProgressUpdates(job: Job, to: JobStatus, progress: JobProgress, now: Date): Partial<UpdateJob> {
+  const updates: Partial<UpdateJob> = {};
+  const timings: JobStepTiming[] = [...(job.stepTimings ?? [])];
+  const closeOpenTimings = () => {
+    for (const timing of timings) {
+      if (!timing.finishedAt) timing.finishedAt = now.toISOString();
+    }
+  };
+  let timingsChanged = false;
+
+  if (progress.step != null && progress.step !== job.currentStep) {
+    closeOpenTimings();
+    timings.push({
+      step: progress.step,
+      name: getPipelineStageName(progress.step),
+      startedAt: now.toISOString(),
+      finishedAt: null,
+    });
+    timingsChanged = true;
+
+    updates.currentStep = progress.step;
+    updates.stepName = getPipelineStageName(progress.step);
+    updates.currentSubstep = null;
+    updates.totalSubsteps = null;
+  }
+  if (progress.substep != null) updates.currentSubstep = progress.substep;
+  if (progress.totalSubsteps != null) updates.totalSubsteps = progress.totalSubsteps;
+
+  if (to === "processing" && !job.startedAt) {
+    updates.startedAt = now;
+  }
+  if (!activeJobStatuses.includes(to)) {
+    closeOpenTimings();
+    timingsChanged = true;
+    updates.finishedAt = now;
+  }
+
+  if (timingsChanged) {
+    // Copy entries so the job we read is never mutated in place
+    updates.stepTimings = timings.map(t => ({ ...t }));
+  }
+  return updates;
+}
+
+/** Append an entry to the job's timeline, reflecting its state after an update. */
+async function recordJobEvent(job: Job, message: string | null | undefined) {
+  try {
+    await storage.createJobEvent({
+      jobId: job.id,
+      userId: job.userId,
+      status: job.status || "pending",
+      message: message ?? null,
+      step: job.currentStep,
+      substep: job.currentSubstep,
+      totalSubsteps: job.totalSubsteps,
+      stepName: job.stepName,
+    });
+  } catch (error) {
+    // The timeline is informational; never fail a status update because of it
+    console.error(`[jobs] Failed to record event for job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Move a job to a new status, rejecting transitions the lifecycle does not allow.
+ * Any step/substep progress is persisted on the job and every call is added to
+ * the job's event timeline.
+ */
+export async function transitionJob(
+  jobId: string,
+  to: JobStatus,
+  updates: Omit<Partial<UpdateJob>, "status"> = {},
+  requestingUserId?: string,
+  progress: JobProgress = {},
+): Promise<Job> {
+  const job = await storage.getWorkflowJobById(jobId, requestingUserId);
+  if (!job) {
+    throw Object.assign(new Error("Job not found"), { status: 404 });
+  }
+
+  const from = normalizeJobStatus(job.status) ?? "pending";
+  if (!canTransition(from, to)) {
+    throw new JobTransitionError(jobId, from, to);
+  }
+
+  const now = new Date();
+  const allUpdates: Partial<UpdateJob> = {
+    ...updates,
+    ...buildProgressUpdates(job, to, progress, now),
+    status: to,
+  };
+
+  await storage.updateJob(jobId, allUpdates, requestingUserId);
+  const updated = { ...job, ...allUpdates, updatedAt: now } as Job;
+  await recordJobEvent(updated, updates.description);
+
+  // A finished job frees a slot for the next one in the queue
+  if (!activeJobStatuses.includes(to)) {
+    scheduleDispatch();
+  }
+  return updated;
+}
+
+/**
+ * Fail an active job and put its idea back to Draft. Jobs that already
+ * finished are left alone.
+ */
+export async function failJob(job: Job, description: string): Promise<void> {
+  if (!isActiveJob(job)) return;
+
+  await transitionJob(job.id, "failed", { description });
+  await storage.updateIdeaStatus(job.ideaId, "Draft");
+  publishJobEvent(job.id, "error", { message: description });
+}
+
+/**
+ * Cancel an active job: record the `cancelled` status, put the idea back to
+ * Draft and ask anvil-api to stop. Progress that anvil-api posts afterwards
+ * is ignored by the webhook.
+ */
+export async function cancelJob(job: Job, requestingUserId?: string): Promise<Job> {
+  const cancelled = await withIdeaLock(job.ideaId, async () => {
+    const updated = await transitionJob(job.id, "cancelled", { description: "Cancelled by user" }, requestingUserId);
+    await storage.updateIdeaStatus(job.ideaId, "Draft", requestingUserId);
+    return updated;
+  });
+
+  publishJobEvent(job.id, "cancelled", { message: "Generation cancelled" });
+
+  // A job that never left the queue has nothing to stop in anvil-api. Check the
+  // stored row rather than the caller's copy: the dispatcher may have claimed it since.
+  const stored = await storage.getWorkflowJobById(job.id);
+  if (!stored?.dispatchedAt) {
+    return cancelled;
+  }
+
+  // Best effort: the local status is authoritative, anvil-api just stops wasting work
+  cancelGeneration(job.id).catch((err) => {
+    console.error(`[cancel] anvil-api cancel failed for job ${job.id}:`, err);
+  });
+
+  return cancelled;
+}
+
+// ==================== STARTING JOBS ====================
+
+export interface StartJobOptions {
+  ideaId: string;
+  userId: string;
+  documentType: string;
+  description: string;
+  /** Fail an in-flight job for this idea instead of rejecting the request. */
+  force?: boolean;
+  /** User guidance for anvil-api, kept on the job so the run can be traced back to it. */
+  guidanceNotes?: string | null;
+  /** For step regenerations: the step being run, and the steps to run after it in the same job. */
+  pipelineStep?: PipelineStep;
+  queuedSteps?: PipelineStep[];
+  /** Dispatch order in the queue, see generationPriorityValues. */
+  priority?: number;
+  /** Batch the job belongs to, when started for several ideas at once. */
+  batchId?: string | null;
+  /** Prefix for log lines, e.g. "generate" or "regenerate:prd". */
+  label: string;
+  /** Client address recorded in the audit log entry for the start. */
+  ipAddress?: string | null;
+  /** Runs inside the idea lock after the job row exists, before the idea is marked Generating. */
+  beforeTrigger?: (job: Job) => Promise<void>;
+}
+
+/**
+ * Create a job for an idea and queue it. The dispatcher hands it to anvil-api
+ * as soon as the concurrency limits allow: the full pipeline, or
+ * `pipelineStep` when one is given.
+ *
+ * @throws JobConflictError if another job for the idea is still active and not stuck
+ * @throws AnvilApiUnavailableError while anvil-api's circuit breaker is open
+ */
+export async function startJob(options: StartJobOptions): Promise<Job> {
+  const { ideaId, userId, label } = options;
+  assertAnvilApiAvailable();
+
+  const job = await withIdeaLock(ideaId, async () => {
+    const existingJob = await storage.getLatestWorkflowJob(ideaId, userId);
+    if (existingJob && isActiveJob(existingJob)) {
+      // Waiting in the queue is not being stuck
+      const isQueued = normalizeJobStatus(existingJob.status) === "queued";
+      const jobAge = Date.now() - new Date(existingJob.updatedAt).getTime();
+      if (!isQueued && jobAge > JOB_STUCK_TIMEOUT_MS) {
+        console.warn(`[${label}] Job ${existingJob.id} stuck at '${existingJob.status}' for ${Math.round(jobAge / 60000)}m — marking as failed`);
+        await failJob(existingJob, `Job timed out — no progress update received within ${Math.round(JOB_STUCK_TIMEOUT_MS / 60000)} minutes`);
+      } else if (options.force) {
+        console.warn(`[${label}] Force-overriding job ${existingJob.id} at '${existingJob.status}'`);
+        await failJob(existingJob, "Manually overridden by user — starting new generation");
+      } else {
+        throw new JobConflictError(existingJob.id);
+      }
+    }
+
+    const created = await storage.createJob({
+      userId,
+      ideaId,
+      documentType: options.documentType,
+      description: options.description,
+      guidanceNotes: options.guidanceNotes ?? null,
+      pipelineStep: options.pipelineStep ?? null,
+      queuedSteps: options.queuedSteps ?? null,
+      plannedSteps: options.pipelineStep ? [options.pipelineStep, ...(options.queuedSteps ?? [])] : null,
+      priority: options.priority ?? 0,
+      batchId: options.batchId ?? null,
+      status: "queued",
+    });
+    await recordJobEvent(created, created.description);
+
+    await options.beforeTrigger?.(created);
+    await storage.updateIdeaStatus(ideaId, "Generating", userId);
+    return created;
+  });
+
+  await storage.createAuditLog({
+    actorId: userId,
+    action: "generation.start",
+    targetType: "idea",
+    targetId: ideaId,
+    details: {
+      jobId: job.id,
+      label,
+      pipelineStep: options.pipelineStep ?? null,
+      queuedSteps: options.queuedSteps ?? null,
+      forced: !!options.force,
+      batchId: options.batchId ?? null,
+      hasGuidanceNotes: !!options.guidanceNotes,
+    },
+    ipAddress: options.ipAddress ?? null,
+  });
+
+  scheduleDispatch();
+  return job;
+}
+
+// ==================== GENERATION QUEUE ====================
+
+let dispatchRunning = false;
+let dispatchRequested = false;
+// Last queue position sent to each queued job's subscribers
+const publishedPositions = new Map<string, number>();
+
+/**
+ * Run a dispatch pass soon. Passes never overlap; a request made during a
+ * pass runs another one straight after it.
+ */
+export function scheduleDispatch() {
+  if (dispatchRunning) {
+    dispatchRequested = true;
+    return;
+  }
+  dispatchRunning = true;
+
+  (async () => {
+    do {
+      dispatchRequested = false;
+      await dispatchQueuedJobs();
+    } while (dispatchRequested);
+  })()
+    .catch(error => console.error("[queue] Dispatch failed:", error))
+    .finally(() => { dispatchRunning = false; });
+}
+
+/** Hand a claimed job to anvil-api. Runs fire-and-forget; anvil-api reports progress through the internal webhook. */
+function dispatchJob(job: Job) {
+  // A cancel can land between the claim and the trigger; don't start a run nobody will collect
+  const trigger = storage.getWorkflowJobById(job.id).then((current) => {
+    if (normalizeJobStatus(current?.status) !== "pending") return;
+    return job.pipelineStep
+      ? triggerStepGeneration(job.ideaId, job.id, job.pipelineStep, job.guidanceNotes)
+      : triggerGeneration(job.ideaId, job.id, job.guidanceNotes);
+  });
+
+  trigger.catch(async (err) => {
+    try {
+      if (err instanceof AnvilApiUnavailableError) {
+        // The breaker opened after the job was claimed; keep its place for when anvil-api is back
+        await transitionJob(job.id, "queued", { description: "Generation service unavailable — waiting in the queue", dispatchedAt: null });
+        return;
+      }
+      console.error(`[queue] anvil-api trigger failed for job ${job.id} (idea ${job.ideaId}):`, err);
+      await failJob(job, `anvil-api trigger failed: ${err.message || err}`);
+    } catch (cleanupErr) {
+      console.error(`[queue] failed to clean up after trigger failure for job ${job.id}:`, cleanupErr);
+    }
+  });
+}
+
+/**
+ * Dispatch queued jobs, highest priority then oldest first, while the global
+ * limit has room. A job whose owner is at their own limit waits without
+ * holding up other users' jobs behind it.
+ */
+async function dispatchQueuedJobs() {
+  const queued = await storage.getQueuedJobs();
+  if (queued.length === 0) {
+    publishedPositions.clear();
+    return;
+  }
+
+  const waiting: Job[] = [];
+  let available = true;
+  try {
+    assertAnvilApiAvailable();
+  } catch {
+    available = false;
+  }
+
+  if (available) {
+    const dispatched = await storage.getDispatchedJobs();
+    let total = dispatched.length;
+    const perUser = new Map<string, number>();
+    for (const job of dispatched) {
+      perUser.set(job.userId, (perUser.get(job.userId) ?? 0) + 1);
+    }
+
+    for (const job of queued) {
+      const userCount = perUser.get(job.userId) ?? 0;
+      if (total >= MAX_CONCURRENT_JOBS || userCount >= MAX_CONCURRENT_JOBS_PER_USER) {
+        waiting.push(job);
+        continue;
+      }
+
+      const claimed = await storage.claimQueuedJob(job.id);
+      if (!claimed) continue; // cancelled or claimed since we read the queue
+      total++;
+      perUser.set(job.userId, userCount + 1);
+
+      await recordJobEvent(claimed, "Sent to the generation service");
+      publishJobEvent(claimed.id, "status", { message: "Starting generation" });
+      log(`Dispatched job ${claimed.id} for idea ${claimed.ideaId} (${total}/${MAX_CONCURRENT_JOBS} running)`, "queue");
+      dispatchJob(claimed);
+    }
+  } else {
+    waiting.push(...queued);
+  }
+
+  // Tell the jobs still waiting where they now stand
+  const stillQueued = new Set(waiting.map(job => job.id));
+  Array.from(publishedPositions.keys()).forEach(jobId => {
+    if (!stillQueued.has(jobId)) publishedPositions.delete(jobId);
+  });
+  waiting.forEach((job, index) => {
+    const position = index + 1;
+    if (publishedPositions.get(job.id) === position) return;
+    publishedPositions.set(job.id, position);
+    publishJobEvent(job.id, "status", { message: `Waiting in the generation queue — position ${position}` });
+  });
+}
+
+/** 1-based position of a queued job in dispatch order, or null once it has left the queue. */
+export async function getQueuePosition(job: Job): Promise<number | null> {
+  if (normalizeJobStatus(job.status) !== "queued") return null;
+  const queued = await storage.getQueuedJobs();
+  const index = queued.findIndex(queuedJob => queuedJob.id === job.id);
+  return index === -1 ? null : index + 1;
+}
+
+// ==================== STUCK JOB REAPER ====================
+
+let reaperTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Fail every active job that has not received a progress update within the
+ * stuck timeout. Returns the number of jobs reaped.
+ */
+export async function reapStaleJobs(): Promise<number> {
+  const cutoff = new Date(Date.now() - JOB_STUCK_TIMEOUT_MS);
+  const staleJobs = await storage.getStaleActiveJobs(cutoff);
+
+  for (const job of staleJobs) {
+    try {
+      await failJob(job, `Job timed out — no progress update received within ${Math.round(JOB_STUCK_TIMEOUT_MS / 60000)} minutes`);
+      log(`Reaped stale job ${job.id} for idea ${job.ideaId}`, "jobs");
+    } catch (error) {
+      console.error(`[reaper] Failed to reap job ${job.id}:`, error);
+    }
+  }
+
+  return staleJobs.length;
+}
+
+/**
+ * Start the periodic sweep that reaps stuck jobs and retries dispatching the
+ * queue, e.g. once anvil-api's circuit breaker closes. Jobs queued before a
+ * restart are picked up by the first pass.
+ */
+export function startJobReaper(intervalMs: number = JOB_REAPER_INTERVAL_MS) {
+  if (reaperTimer) return;
+
+  scheduleDispatch();
+  reaperTimer = setInterval(() => {
+    reapStaleJobs().catch(error => console.error("[reaper] Sweep failed:", error));
+    scheduleDispatch();
+  }, intervalMs);
+  reaperTimer.unref();
+}
+
+export function stopJobReaper() {
+  if (reaperTimer) {
+    clearInterval(reaperTimer);
+    reaperTimer = null;
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Brute-force protection for password sign-in: per-IP and per-username rate
+ * limits, a growing delay after each wrong password, and a temporary lockout
+ * once failures pile up. Every attempt lands in the audit log.
+ */
+import type { Request } from "express";
+import rateLimit from "express-rate-limit";
+import { storage } from "./storage";
+import { emailService } from "./email";
+import type { User } from "@shared/schema";
+
+// Lock after this many consecutive failures, and again after each further batch
+const LOCKOUT_THRESHOLD = 5;
+const BASE_LOCKOUT_MS = 15 * 60 * 1000; // 15 minutes
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000; // 24 hours
+// Failures older than this no longer count toward the delay or the next lockout
+const FAILURE_WINDOW_MS = MAX_LOCKOUT_MS;
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 8000;
+const MAX_TRACKED_UNKNOWN_USERNAMES = 10000;
+
+// Unknown usernames get the same growing delay as real accounts, so response
+// times don't reveal which usernames exist
+const unknownUserFailures = new Map<string, { count: number; lastFailedAt: number }>();
+
+export const loginIpLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+  message: { message: "Too many sign-in attempts, please try again later" },
+});
+
+// Spreading guesses for one account across many addresses still hits this limit
+export const loginUsernameLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+  keyGenerator: (req) => `login:${String(req.body?.username ?? "").trim().toLowerCase()}`,
+  message: { message: "Too many sign-in attempts for this account, please try again later" },
+});
+
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Delay before checking a password, doubling with each recent failure. */
+export async function progressiveDelay(failedLoginCount: number): Promise<void> {
+  if (failedLoginCount <= 0) return;
+  await sleep(Math.min(BASE_DELAY_MS * 2 ** (failedLoginCount - 1), MAX_DELAY_MS));
+}
+
+function failureWindowStart(): Date {
+  return new Date(Date.now() - FAILURE_WINDOW_MS);
+}
+
+/** Failures for `user` that still count, i.e. the last one is inside the failure window. */
+export function recentFailureCount(user: User): number {
+  if (!user.lastFailedLoginAt || new Date(user.lastFailedLoginAt) < failureWindowStart()) return 0;
+  return user.failedLoginCount;
+}
+
+function unknownUserKey(username: string) {
+  return username.trim().toLowerCase();
+}
+
+/** Recent failures for a username that doesn't belong to any account. */
+export function unknownUserFailureCount(username: string): number {
+  const entry = unknownUserFailures.get(unknownUserKey(username));
+  if (!entry || entry.lastFailedAt < failureWindowStart().getTime()) return 0;
+  return entry.count;
+}
+
+export function isLocked(user: User): boolean {
+  return !!user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now();
+}
+
+// Each further batch of failures doubles the lockout
+function lockoutDuration(failedLoginCount: number): number {
+  const lockouts = Math.floor(failedLoginCount / LOCKOUT_THRESHOLD);
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (lockouts - 1), MAX_LOCKOUT_MS);
+}
+
+/** Log a failed attempt for a username that doesn't belong to any account. */
+export async function recordUnknownUserFailure(req: Request, username: string): Promise<void> {
+  const key = unknownUserKey(username);
+  const count = unknownUserFailureCount(username) + 1;
+  unknownUserFailures.delete(key);
+  unknownUserFailures.set(key, { count, lastFailedAt: Date.now() });
+  // Map order is insertion order, so the first entries are the stalest
+  while (unknownUserFailures.size > MAX_TRACKED_UNKNOWN_USERNAMES) {
+    unknownUserFailures.delete(unknownUserFailures.keys().next().value!);
+  }
+
+  await storage.createAuditLog({
+    actorId: null,
+    action: "auth.login_failed",
+    targetType: "username",
+    targetId: username,
+    details: { reason: "unknown_user" },
+    ipAddress: clientIp(req),
+  });
+}
+
+/** Log an attempt turned away because the account is locked; it doesn't extend the lock. */
+export async function recordLockedAttempt(req: Request, user: User): Promise<void> {
+  await storage.createAuditLog({
+    actorId: null,
+    action: "auth.login_failed",
+    targetType: "user",
+    targetId: user.id,
+    details: { reason: "locked", lockedUntil: user.lockedUntil },
+    ipAddress: clientIp(req),
+  });
+}
+
+/**
+ * Count a wrong password or second-factor code against `user`, locking the
+ * account and emailing them when the failures reach the next threshold.
+ * Returns the updated user.
+ */
+export async function recordLoginFailure(
+  req: Request,
+  user: User,
+  reason: "invalid_password" | "invalid_second_factor" = "invalid_password",
+): Promise<User> {
+  const updated = await storage.recordFailedLogin(user.id, failureWindowStart()) ?? user;
+  await storage.createAuditLog({
+    actorId: null,
+    action: "auth.login_failed",
+    targetType: "user",
+    targetId: user.id,
+    details: { reason, failedAttempts: updated.failedLoginCount },
+    ipAddress: clientIp(req),
+  });
+
+  if (updated.failedLoginCount % LOCKOUT_THRESHOLD !== 0) {
+    return updated;
+  }
+
+  const lockedUntil = new Date(Date.now() + lockoutDuration(updated.failedLoginCount));
+  await storage.lockUser(user.id, lockedUntil);
+  await storage.createAuditLog({
+    actorId: null,
+    action: "auth.account_locked",
+    targetType: "user",
+    targetId: user.id,
+    details: { failedAttempts: updated.failedLoginCount, lockedUntil },
+    ipAddress: clientIp(req),
+  });
+
+  if (user.email) {
+    const signInUrl = `${process.env.APP_URL || `${req.protocol}://${req.get("host")}`}/auth`;
+    // The lock stands whether or not the notice goes out
+    emailService.sendAccountLockedEmail(user.email, user.username, lockedUntil, signInUrl)
+      .catch(error => console.error("Failed to send account locked email:", error));
+  }
+
+  return { ...updated, lockedUntil };
+}
+
+/** Clear the failure count and any lock once sign-in has fully succeeded. */
+export async function clearLoginFailures(user: User): Promise<void> {
+  if (user.failedLoginCount > 0 || user.lockedUntil) {
+    await storage.resetLoginFailures(user.id);
+  }
+}
+
+/**
+ * Log a correct password. With a second factor still to check, the failure
+ * count stays until POST /api/login/2fa accepts the code.
+ */
+export async function recordLoginSuccess(req: Request, user: User, { pendingSecondFactor = false } = {}): Promise<void> {
+  if (!pendingSecondFactor) {
+    await clearLoginFailures(user);
+  }
+  await storage.createAuditLog({
+    actorId: user.id,
+    action: pendingSecondFactor ? "auth.login_password_ok" : "auth.login",
+    targetType: "user",
+    targetId: user.id,
+    details: null,
+    ipAddress: clientIp(req),
+  });
+}
@@ -0,0 +1,111 @@
+/**
+ * Canned documents written by the mock anvil-api. The content is fixed apart
+ * from the idea's title and description, which are woven in so documents for
+ * different ideas are easy to tell apart.
+ */
+import type { DocumentType, Idea, LeanCanvasContent } from "@shared/schema";
+
+export interface CannedDocument {
+  content: string;
+  contentSections: LeanCanvasContent | null;
+}
+
+function ideaName(idea: Pick<Idea, "title" | "description">): string {
+  return idea.title.trim() || idea.description.trim().split("\n")[0].slice(0, 60) || "Untitled idea";
+}
+
+function leanCanvas(name: string, description: string): CannedDocument {
+  const sections: LeanCanvasContent = {
+    problem: `- Teams behind ${name} lose hours to manual hand-offs\n- Existing tools don't fit the workflow\n- Decisions are made without shared data`,
+    customerSegments: "- Small and mid-sized product teams\n- Early adopters: founders running a first pilot",
+    uniqueValueProposition: `${name}: ${description.slice(0, 140)}`,
+    solution: "- Guided onboarding that imports existing data\n- Automated reminders and status tracking\n- A single dashboard for every stakeholder",
+    channels: "- Content marketing and SEO\n- Founder communities\n- Integration marketplaces",
+    revenueStreams: "- Monthly subscription per workspace\n- Paid onboarding for larger teams",
+    costStructure: "- Hosting and third-party APIs\n- Two engineers and one designer\n- Customer support",
+    keyMetrics: "- Weekly active workspaces\n- Trial to paid conversion\n- Monthly churn",
+    unfairAdvantage: "- Domain expertise of the founding team\n- Early design partners feeding the roadmap",
+  };
+  const content = [
+    `# Lean Canvas: ${name}`,
+    "",
+    ...Object.entries(sections).flatMap(([section, text]) => [`## ${section}`, "", text, ""]),
+  ].join("\n");
+  return { content, contentSections: sections };
+}
+
+function markdown(title: string, name: string, description: string, sections: [string, string][]): CannedDocument {
+  const content = [
+    `# ${title}: ${name}`,
+    "",
+    `> ${description.slice(0, 280)}`,
+    "",
+    ...sections.flatMap(([heading, body]) => [`## ${heading}`, "", body, ""]),
+  ].join("\n");
+  return { content, contentSections: null };
+}
+
+const workflowDiagram = [
+  "```mermaid",
+  "flowchart TD",
+  "    A[User signs up] --> B{Invited to a workspace?}",
+  "    B -- Yes --> C[Join workspace]",
+  "    B -- No --> D[Create workspace]",
+  "    C --> E[Complete onboarding]",
+  "    D --> E",
+  "    E --> F[Dashboard]",
+  "```",
+].join("\n");
+
+/** The document the mock writes for `documentType` when generating `idea`. */
+export function buildCannedDocument(documentType: DocumentType, idea: Pick<Idea, "title" | "description">): CannedDocument {
+  const name = ideaName(idea);
+  const description = idea.description.trim();
+
+  switch (documentType) {
+    case "LeanCanvas":
+      return leanCanvas(name, description);
+    case "ProjectRequirements":
+      return markdown("Project Requirements", name, description, [
+        ["Goals", "1. Launch a usable first version within one quarter\n2. Validate demand with ten paying teams"],
+        ["Scope", "- Account and workspace management\n- Core workflow tracking\n- Notifications"],
+        ["Out of Scope", "- Native mobile apps\n- On-premise deployment"],
+        ["Milestones", "| Milestone | Target |\n|---|---|\n| Prototype | Week 4 |\n| Beta | Week 8 |\n| Launch | Week 12 |"],
+      ]);
+    case "BusinessRequirements":
+      return markdown("Business Requirements", name, description, [
+        ["Business Objectives", "- Reach 100 active workspaces in the first six months\n- Keep monthly churn below 3%"],
+        ["Stakeholders", "- Founders\n- Design partners\n- Support team"],
+        ["Success Criteria", "- Net promoter score above 40\n- Payback period under twelve months"],
+      ]);
+    case "FunctionalRequirements":
+      return markdown("Functional Requirements", name, description, [
+        ["FR-1 Accounts", "Users can register, sign in and reset their password."],
+        ["FR-2 Workspaces", "Users can create a workspace and invite teammates by email."],
+        ["FR-3 Tracking", "Members can create, assign and complete workflow items."],
+        ["FR-4 Notifications", "Members are emailed when an item assigned to them changes."],
+      ]);
+    case "Workflows":
+      return markdown("Workflows", name, description, [
+        ["Onboarding", workflowDiagram],
+        ["Item Lifecycle", "Created → Assigned → In Progress → Done"],
+      ]);
+    case "FrontEndSpecification":
+      return markdown("Front-End Specification", name, description, [
+        ["Stack", "React, TypeScript, Tailwind CSS"],
+        ["Pages", "- Sign in / Register\n- Dashboard\n- Workspace settings\n- Item detail"],
+      ]);
+    case "BackEndSpecification":
+      return markdown("Back-End Specification", name, description, [
+        ["Stack", "Node.js, Express, PostgreSQL"],
+        ["Endpoints", "- `POST /api/workspaces`\n- `GET /api/items`\n- `PATCH /api/items/:id`"],
+      ]);
+    case "Estimate":
+      return markdown("Estimate", name, description, [
+        ["Effort", "| Area | Days |\n|---|---|\n| Front end | 25 |\n| Back end | 20 |\n| QA and launch | 10 |\n| **Total** | **55** |"],
+        ["Assumptions", "- One full-stack team of three\n- Design system reused from existing components"],
+      ]);
+    default:
+      return markdown(documentType, name, description, [["Summary", "Generated by the mock anvil-api."]]);
+  }
+}
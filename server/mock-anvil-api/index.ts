@@ -0,0 +1,27 @@
+/**
+ * Run the mock anvil-api on its own:
+ *
+ *   npm run mock:anvil-api
+ *
+ * Point anvil-of-ideas at it with ANVIL_API_URL=http://localhost:8008, any
+ * ANVIL_API_USERNAME/ANVIL_API_PASSWORD and ANVIL_CALLBACK_URL set to the app's
+ * origin (default http://localhost:5000). Both processes need the same
+ * DATABASE_URL and ANVIL_WEBHOOK_SECRET.
+ */
+import { createMockAnvilApi } from "./server";
+import { scenarioFromEnv } from "./scenarios";
+
+const port = Number(process.env.MOCK_ANVIL_PORT) || 8008;
+const scenario = scenarioFromEnv();
+
+const { app } = createMockAnvilApi({
+  username: process.env.ANVIL_API_USERNAME,
+  password: process.env.ANVIL_API_PASSWORD,
+  callbackUrl: process.env.ANVIL_CALLBACK_URL || "http://localhost:5000",
+  webhookSecret: process.env.ANVIL_WEBHOOK_SECRET,
+  scenario,
+});
+
+app.listen(port, "0.0.0.0", () => {
+  console.log(`[mock-anvil-api] listening on port ${port} (scenario: ${scenario.name})`);
+});
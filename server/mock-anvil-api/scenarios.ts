@@ -0,0 +1,46 @@
+/**
+ * How the mock anvil-api behaves for the next generation request. Set the
+ * starting scenario with MOCK_ANVIL_* environment variables and change it at
+ * runtime with PUT /mock/scenario.
+ */
+import { z } from "zod";
+import { pipelineStages } from "@shared/schema";
+
+export const mockScenarioNames = [
+  // Replay every stage and finish with "completed"
+  "success",
+  // Report "failed" halfway through `stage`
+  "failure",
+  // Stop sending callbacks halfway through `stage`, as a hung worker would
+  "timeout",
+  // Pause for `slowStepDelayMs` before `stage` starts, then carry on
+  "slow_step",
+  // Reject the generation request itself with a 503
+  "trigger_error",
+] as const;
+export type MockScenarioName = typeof mockScenarioNames[number];
+
+export const mockScenarioSchema = z.object({
+  name: z.enum(mockScenarioNames),
+  // Pipeline stage (1-based, see pipelineStages) the scenario acts on; defaults to the first stage a run reaches
+  stage: z.number().int().min(1).max(pipelineStages.length).nullable().default(null),
+  // Pause between substep callbacks
+  substepDelayMs: z.number().int().min(0).max(60_000).default(100),
+  slowStepDelayMs: z.number().int().min(0).max(60 * 60 * 1000).default(30_000),
+});
+export type MockScenario = z.infer<typeof mockScenarioSchema>;
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  return value ? Number(value) : undefined;
+}
+
+/** The scenario described by MOCK_ANVIL_SCENARIO and friends; throws on bad values. */
+export function scenarioFromEnv(): MockScenario {
+  return mockScenarioSchema.parse({
+    name: process.env.MOCK_ANVIL_SCENARIO || "success",
+    stage: envNumber("MOCK_ANVIL_SCENARIO_STAGE") ?? null,
+    substepDelayMs: envNumber("MOCK_ANVIL_SUBSTEP_DELAY_MS"),
+    slowStepDelayMs: envNumber("MOCK_ANVIL_SLOW_STEP_DELAY_MS"),
+  });
+}
@@ -0,0 +1,353 @@
+/**
+ * A stand-in for the anvil-api service, for local development and integration
+ * tests. It implements the endpoints server/anvil-api.ts calls, writes canned
+ * documents straight into the `documents` table and replays step/substep
+ * progress to `<callback_url>/api/internal/jobs/:id/progress`, signed the way
+ * server/webhook-auth.ts expects. `callback_url` is the anvil-of-ideas origin.
+ */
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
+import { randomBytes, randomUUID } from "crypto";
+import { z } from "zod";
+import { storage } from "../storage";
+import { signWebhookPayload } from "../utils/webhook-signature";
+import {
+  pipelineStages,
+  pipelineStepStages,
+  pipelineSteps,
+  stepDocumentTypes,
+  type DocumentType,
+  type Idea,
+  type JobProgressPayload,
+  type PipelineStep,
+} from "@shared/schema";
+import { buildCannedDocument } from "./fixtures";
+import { mockScenarioSchema, scenarioFromEnv, type MockScenario } from "./scenarios";
+
+// Documents written when a stage finishes
+const STAGE_DOCUMENTS: Record<number, DocumentType[]> = {
+  1: ["LeanCanvas"],
+  2: ["ProjectRequirements"],
+  3: ["BusinessRequirements"],
+  4: ["FunctionalRequirements"],
+  8: ["Workflows"],
+  9: ["FrontEndSpecification", "BackEndSpecification"],
+  10: ["Estimate"],
+};
+
+const CALLBACK_ATTEMPTS = 3;
+
+const generationRequestSchema = z.object({
+  job_id: z.string().uuid(),
+  callback_url: z.string().url().nullable().optional(),
+  webhook_secret: z.string().nullable().optional(),
+  guidance_notes: z.string().nullable().optional(),
+});
+
+export interface MockAnvilApiOptions {
+  // Credentials /login/access-token accepts; any are accepted when unset
+  username?: string;
+  password?: string;
+  // Used when a generation request carries no callback_url / webhook_secret
+  callbackUrl: string;
+  webhookSecret?: string | null;
+  scenario?: MockScenario;
+}
+
+export interface MockRun {
+  jobId: string;
+  ideaId: string;
+  // The single step requested, or null for the full pipeline
+  step: PipelineStep | null;
+  scenario: MockScenario;
+  status: "running" | "completed" | "failed" | "stalled" | "cancelled";
+  stage: number | null;
+  substep: number | null;
+  startedAt: Date;
+}
+
+interface Replay {
+  run: MockRun;
+  idea: Idea;
+  stages: number[];
+  progressUrl: string;
+  webhookSecret: string | null;
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Stages still to run for a full pipeline; steps whose documents are all complete are skipped. */
+async function pendingPipelineStages(ideaId: string): Promise<number[]> {
+  const docs = await storage.getDocumentsByIdeaId(ideaId);
+  const completed = new Set(docs.filter(doc => doc.status === "completed").map(doc => doc.documentType));
+  return pipelineSteps
+    .filter(step => !stepDocumentTypes[step].every(type => completed.has(type)))
+    .flatMap(step => pipelineStepStages[step]);
+}
+
+async function writeDocument(run: MockRun, idea: Idea, documentType: DocumentType) {
+  const { content, contentSections } = buildCannedDocument(documentType, idea);
+  const existing = await storage.getDocumentByType(idea.id, documentType);
+  if (existing) {
+    await storage.updateDocument(existing.id, { content, contentSections, status: "generating" });
+    return existing.id;
+  }
+  const created = await storage.createDocument({
+    userId: idea.userId,
+    ideaId: idea.id,
+    jobId: run.jobId,
+    documentType,
+    content,
+    contentSections,
+  });
+  return created.id;
+}
+
+/**
+ * POST one progress callback, retrying failed deliveries under the same
+ * delivery id. Returns false once anvil-of-ideas reports the job is finished.
+ */
+async function sendProgress(replay: Replay, payload: JobProgressPayload): Promise<boolean> {
+  const body = JSON.stringify(payload);
+  const deliveryId = randomUUID();
+
+  for (let attempt = 1; attempt <= CALLBACK_ATTEMPTS; attempt++) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "x-anvil-delivery": deliveryId,
+      "x-anvil-timestamp": String(timestamp),
+    };
+    if (replay.webhookSecret) {
+      const { pathname, search } = new URL(replay.progressUrl);
+      headers["x-anvil-signature"] = signWebhookPayload(
+        replay.webhookSecret,
+        { timestamp, deliveryId, method: "POST", path: pathname + search },
+        body,
+      );
+    }
+
+    try {
+      const response = await fetch(replay.progressUrl, { method: "POST", headers, body });
+      if (response.status === 409) return false;
+      if (response.ok) return true;
+      const text = await response.text();
+      console.warn(`[mock-anvil-api] Callback for job ${replay.run.jobId} rejected (${response.status}): ${text}`);
+      if (response.status < 500) return true;
+    } catch (error: any) {
+      console.warn(`[mock-anvil-api] Callback for job ${replay.run.jobId} failed: ${error.message || error}`);
+    }
+    await sleep(500 * attempt);
+  }
+  return true;
+}
+
+async function replayStages(replay: Replay) {
+  const { run, idea, stages } = replay;
+  const { scenario } = run;
+  const targetStage = scenario.stage ?? stages[0];
+
+  for (const stage of stages) {
+    const { name, substeps } = pipelineStages[stage - 1];
+    run.stage = stage;
+
+    if (scenario.name === "slow_step" && stage === targetStage) {
+      console.log(`[mock-anvil-api] Job ${run.jobId}: holding ${name} for ${scenario.slowStepDelayMs}ms`);
+      await sleep(scenario.slowStepDelayMs);
+    }
+
+    for (let substep = 1; substep <= substeps; substep++) {
+      if (run.status === "cancelled") return;
+      run.substep = substep;
+
+      if (stage === targetStage && substep === Math.ceil(substeps / 2)) {
+        if (scenario.name === "failure") {
+          run.status = "failed";
+          await sendProgress(replay, {
+            status: "failed",
+            description: `${name} failed: simulated error from the mock anvil-api`,
+            step: stage,
+            substep,
+            totalSubsteps: substeps,
+          });
+          return;
+        }
+        if (scenario.name === "timeout") {
+          run.status = "stalled";
+          console.log(`[mock-anvil-api] Job ${run.jobId}: stalled in ${name} at substep ${substep}/${substeps}`);
+          return;
+        }
+      }
+
+      const delivered = await sendProgress(replay, {
+        status: "processing",
+        description: `${name}: substep ${substep} of ${substeps}`,
+        step: stage,
+        substep,
+        totalSubsteps: substeps,
+      });
+      // anvil-of-ideas already finished the job, e.g. the reaper timed it out
+      if (!delivered) {
+        run.status = "cancelled";
+        return;
+      }
+      await sleep(scenario.substepDelayMs);
+    }
+
+    for (const documentType of STAGE_DOCUMENTS[stage] ?? []) {
+      if (run.status === "cancelled") return;
+      const documentId = await writeDocument(run, idea, documentType);
+      await sendProgress(replay, {
+        status: "processing",
+        description: `${documentType} generated`,
+        step: stage,
+        substep: substeps,
+        totalSubsteps: substeps,
+        completedDocumentType: documentType,
+        documentId,
+      });
+    }
+  }
+
+  if (run.status === "cancelled") return;
+  run.status = "completed";
+  await sendProgress(replay, { status: "completed", description: "Generation complete" });
+}
+
+/**
+ * Build the mock anvil-api app. The returned handles let tests inspect runs
+ * and switch scenarios without going through HTTP.
+ */
+export function createMockAnvilApi(options: MockAnvilApiOptions) {
+  const app: Express = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  const tokens = new Set<string>();
+  const runs = new Map<string, MockRun>();
+  let scenario = options.scenario ?? scenarioFromEnv();
+
+  const requireToken = (req: Request, res: Response, next: NextFunction) => {
+    const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    if (!token || !tokens.has(token)) {
+      return res.status(401).json({ detail: "Could not validate credentials" });
+    }
+    next();
+  };
+
+  const startRun = async (req: Request, res: Response, step: PipelineStep | null) => {
+    const parsed = generationRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(422).json({ detail: parsed.error.flatten().fieldErrors });
+    }
+    if (scenario.name === "trigger_error") {
+      return res.status(503).json({ detail: "Simulated outage: the mock anvil-api is rejecting generation requests" });
+    }
+
+    const idea = await storage.getIdeaById(req.params.ideaId);
+    if (!idea) {
+      return res.status(404).json({ detail: "Idea not found" });
+    }
+
+    const { job_id: jobId, callback_url, webhook_secret } = parsed.data;
+    const run: MockRun = {
+      jobId,
+      ideaId: idea.id,
+      step,
+      scenario,
+      status: "running",
+      stage: null,
+      substep: null,
+      startedAt: new Date(),
+    };
+    runs.set(jobId, run);
+
+    const origin = (callback_url || options.callbackUrl).replace(/\/+$/, "");
+    const replay: Replay = {
+      run,
+      idea,
+      stages: step ? pipelineStepStages[step] : await pendingPipelineStages(idea.id),
+      progressUrl: `${origin}/api/internal/jobs/${jobId}/progress`,
+      webhookSecret: webhook_secret || options.webhookSecret || null,
+    };
+
+    console.log(`[mock-anvil-api] Job ${jobId}: ${step ?? "full pipeline"} for idea ${idea.id} (scenario: ${scenario.name})`);
+    replayStages(replay).catch(error => {
+      run.status = "failed";
+      console.error(`[mock-anvil-api] Job ${jobId} crashed:`, error);
+    });
+
+    return res.status(200).json({ message: "Generation started", idea_id: idea.id });
+  };
+
+  app.post("/login/access-token", (req, res) => {
+    const { username, password } = req.body ?? {};
+    const expected = options.username === undefined
+      || (username === options.username && password === options.password);
+    if (!username || !password || !expected) {
+      return res.status(400).json({ detail: "Incorrect email or password" });
+    }
+    const token = randomBytes(24).toString("hex");
+    tokens.add(token);
+    return res.status(200).json({ access_token: token, token_type: "bearer" });
+  });
+
+  app.post("/jobs/generate/:ideaId", requireToken, (req, res, next) => {
+    startRun(req, res, null).catch(next);
+  });
+
+  app.post("/jobs/generate/:ideaId/step/:step", requireToken, (req, res, next) => {
+    const step = req.params.step as PipelineStep;
+    if (!pipelineSteps.includes(step)) {
+      return res.status(422).json({ detail: `Unknown step: ${req.params.step}` });
+    }
+    startRun(req, res, step).catch(next);
+  });
+
+  app.post("/jobs/:jobId/cancel", requireToken, (req, res) => {
+    const run = runs.get(req.params.jobId);
+    if (!run) {
+      return res.status(404).json({ detail: "Job not found" });
+    }
+    if (run.status === "running") run.status = "cancelled";
+    return res.status(200).json({ message: "Cancellation requested", job_id: run.jobId });
+  });
+
+  // ---- Control endpoints for tests and local development ----
+
+  app.get("/mock/scenario", (_req, res) => {
+    res.status(200).json(scenario);
+  });
+
+  app.put("/mock/scenario", (req, res) => {
+    const parsed = mockScenarioSchema.safeParse({ ...scenario, ...req.body });
+    if (!parsed.success) {
+      return res.status(400).json({ detail: parsed.error.flatten().fieldErrors });
+    }
+    scenario = parsed.data;
+    return res.status(200).json(scenario);
+  });
+
+  // Forget every issued token, as a credential rotation would
+  app.post("/mock/revoke-tokens", (_req, res) => {
+    tokens.clear();
+    res.status(200).json({ ok: true });
+  });
+
+  app.get("/mock/runs", (_req, res) => {
+    res.status(200).json(Array.from(runs.values()).reverse());
+  });
+
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    console.error("[mock-anvil-api] Request failed:", err);
+    res.status(500).json({ detail: err.message || "Internal Server Error" });
+  });
+
+  return {
+    app,
+    runs,
+    getScenario: () => scenario,
+    setScenario: (next: MockScenario) => { scenario = next; },
+  };
+}
@@ -0,0 +1,476 @@
+/**
+ * OpenAPI description of the public REST API: the idea, document, canvas,
+ * generation, job and batch routes that personal API tokens can call.
+ */
+import { Express } from "express";
+import {
+  apiTokenScopes,
+  documentStatuses,
+  documentTypes,
+  generationPriorities,
+  BATCH_MAX_IDEAS,
+  ideaStatuses,
+  jobStatuses,
+  pipelineSteps,
+  GUIDANCE_NOTES_MAX_LENGTH,
+  type ApiTokenScope,
+} from "@shared/schema";
+
+const scopeDescriptions: Record<ApiTokenScope, string> = {
+  "ideas:read": "Read ideas, documents, the Lean Canvas, versions and jobs",
+  "ideas:write": "Create, update and delete ideas, documents and the Lean Canvas",
+  "generation:trigger": "Start and cancel document generation",
+};
+
+const canvasSections = [
+  "problem", "customerSegments", "uniqueValueProposition", "solution",
+  "channels", "revenueStreams", "costStructure", "keyMetrics", "unfairAdvantage",
+];
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (type: string, extra: Record<string, unknown> = {}) => ({ type: [type, "null"], ...extra });
+const json = (schema: unknown) => ({ "application/json": { schema } });
+const idParam = (name: string, description: string) => ({
+  name, in: "path", required: true, description, schema: { type: "string", format: "uuid" },
+});
+
+const ideaId = idParam("id", "Idea id");
+const notFound = { description: "Not found, or not visible to the token's user", content: json(ref("Error")) };
+
+function operation(
+  scope: ApiTokenScope,
+  summary: string,
+  responses: Record<string, unknown>,
+  extra: Record<string, unknown> = {},
+) {
+  return {
+    summary,
+    security: [{ bearerAuth: [scope] }],
+    ...extra,
+    responses: {
+      ...responses,
+      "401": { description: "Missing, invalid or expired token", content: json(ref("Error")) },
+      "403": { description: "The token lacks the required scope, or the user can't do this", content: json(ref("Error")) },
+    },
+  };
+}
+
+function generationOperation(summary: string, parameters: unknown[], requestSchema = "GenerationRequest") {
+  return operation("generation:trigger", summary, {
+    "200": { description: "Generation queued; the job starts once the queue has room for it", content: json(ref("GenerationStarted")) },
+    "404": notFound,
+    "409": { description: "A generation job is already queued or running for this idea", content: json(ref("JobConflict")) },
+    "503": { description: "The generation service is unavailable", content: json(ref("Error")) },
+  }, {
+    parameters,
+    requestBody: { required: false, content: json(ref(requestSchema)) },
+  });
+}
+
+const stepParam = { name: "step", in: "path", required: true, schema: { type: "string", enum: pipelineSteps } };
+
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "Anvil of Ideas API",
+    version: "1.0.0",
+    description: "Authenticate with a personal API token from Settings → Account, sent as "
+      + "`Authorization: Bearer <token>`. Each operation lists the scope it needs.",
+  },
+  servers: [{ url: "/" }],
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: "http",
+        scheme: "bearer",
+        description: `Personal API token. Scopes: ${apiTokenScopes.map(scope => `\`${scope}\` (${scopeDescriptions[scope]})`).join(", ")}.`,
+      },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        properties: { message: { type: "string" }, errors: { type: "object" } },
+        required: ["message"],
+      },
+      Idea: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          userId: { type: "string", format: "uuid" },
+          workspaceId: nullable("string", { format: "uuid" }),
+          title: { type: "string" },
+          description: { type: "string" },
+          founderName: nullable("string"),
+          founderEmail: nullable("string"),
+          companyStage: nullable("string"),
+          websiteUrl: nullable("string"),
+          companyName: nullable("string"),
+          status: { type: "string", enum: ideaStatuses },
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      IdeaInput: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          description: { type: "string" },
+          workspaceId: nullable("string", { format: "uuid", description: "Workspace to add the idea to; omit for a personal idea" }),
+          founderName: nullable("string"),
+          founderEmail: nullable("string"),
+          companyStage: nullable("string"),
+          websiteUrl: nullable("string"),
+          companyName: nullable("string"),
+        },
+      },
+      Document: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          ideaId: { type: "string", format: "uuid" },
+          jobId: nullable("string", { format: "uuid" }),
+          documentType: { type: "string", enum: documentTypes },
+          content: nullable("string", { description: "Markdown" }),
+          contentSections: { description: "Structured sections, where the document type has them" },
+          status: { type: "string", enum: documentStatuses },
+          revision: { type: "integer" },
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" },
+          generatedAt: nullable("string", { format: "date-time" }),
+        },
+      },
+      DocumentInput: {
+        type: "object",
+        properties: {
+          documentType: { type: "string", enum: documentTypes },
+          content: nullable("string"),
+          contentSections: { type: ["object", "null"] },
+        },
+        required: ["documentType"],
+      },
+      DocumentVersion: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          documentId: { type: "string", format: "uuid" },
+          documentType: { type: "string", enum: documentTypes },
+          versionNumber: { type: "integer" },
+          content: nullable("string"),
+          contentSections: {},
+          changedBy: nullable("string", { format: "uuid" }),
+          changeReason: { type: "string" },
+          createdAt: { type: "string", format: "date-time" },
+        },
+      },
+      Canvas: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          ideaId: { type: "string", format: "uuid" },
+          ...Object.fromEntries(canvasSections.map(section => [section, nullable("string")])),
+          content: nullable("string"),
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      CanvasInput: {
+        type: "object",
+        description: "Only the sections present are changed",
+        properties: Object.fromEntries(canvasSections.map(section => [section, nullable("string")])),
+      },
+      GenerationRequest: {
+        type: "object",
+        properties: {
+          notes: nullable("string", {
+            maxLength: GUIDANCE_NOTES_MAX_LENGTH,
+            description: "Guidance for the generator, e.g. \"focus on B2B healthcare buyers\"",
+          }),
+          priority: {
+            type: "string",
+            enum: generationPriorities,
+            default: "normal",
+            description: "Order in the generation queue; \"high\" requires a superadmin account",
+          },
+        },
+      },
+      PipelineRunRequest: {
+        allOf: [
+          ref("GenerationRequest"),
+          {
+            type: "object",
+            properties: {
+              steps: {
+                type: ["array", "null"],
+                items: { type: "string", enum: pipelineSteps },
+                minItems: 1,
+                description: "Run only these steps; earlier steps without complete documents are added automatically",
+              },
+            },
+          },
+        ],
+      },
+      GenerationStarted: {
+        type: "object",
+        properties: {
+          message: { type: "string" },
+          jobId: { type: "string", format: "uuid" },
+          steps: { type: "array", items: { type: "string", enum: pipelineSteps }, description: "Steps the job runs, when steps were requested" },
+          addedSteps: { type: "array", items: { type: "string", enum: pipelineSteps }, description: "Prerequisites added to the requested steps" },
+        },
+      },
+      JobConflict: {
+        type: "object",
+        properties: { message: { type: "string" }, jobId: { type: "string", format: "uuid" } },
+      },
+      Job: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          ideaId: { type: "string", format: "uuid" },
+          status: { type: "string", enum: jobStatuses },
+          documentType: nullable("string"),
+          description: nullable("string"),
+          currentStep: nullable("integer"),
+          currentSubstep: nullable("integer"),
+          totalSubsteps: nullable("integer"),
+          stepName: nullable("string"),
+          guidanceNotes: nullable("string"),
+          pipelineStep: nullable("string", { enum: [...pipelineSteps, null] }),
+          queuedSteps: { type: ["array", "null"], items: { type: "string", enum: pipelineSteps } },
+          plannedSteps: { type: ["array", "null"], items: { type: "string", enum: pipelineSteps }, description: "Every step the job runs; null for the full pipeline" },
+          priority: { type: "integer" },
+          dispatchedAt: nullable("string", { format: "date-time" }),
+          batchId: nullable("string", { format: "uuid" }),
+          startedAt: nullable("string", { format: "date-time" }),
+          finishedAt: nullable("string", { format: "date-time" }),
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      JobWithTimeline: {
+        allOf: [
+          ref("Job"),
+          {
+            type: "object",
+            properties: {
+              queuePosition: nullable("integer", { description: "1-based position in the generation queue while the job is queued" }),
+              events: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    status: { type: "string" },
+                    message: nullable("string"),
+                    step: nullable("integer"),
+                    substep: nullable("integer"),
+                    totalSubsteps: nullable("integer"),
+                    createdAt: { type: "string", format: "date-time" },
+                  },
+                },
+              },
+            },
+          },
+        ],
+      },
+      BatchRequest: {
+        allOf: [
+          ref("GenerationRequest"),
+          {
+            type: "object",
+            required: ["ideaIds"],
+            properties: {
+              ideaIds: {
+                type: "array",
+                items: { type: "string", format: "uuid" },
+                minItems: 1,
+                maxItems: BATCH_MAX_IDEAS,
+              },
+              step: nullable("string", {
+                enum: [...pipelineSteps, null],
+                description: "Step to regenerate for every idea; omit to run the full pipeline",
+              }),
+            },
+          },
+        ],
+      },
+      Batch: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          pipelineStep: nullable("string", { enum: [...pipelineSteps, null] }),
+          createdAt: { type: "string", format: "date-time" },
+          jobs: {
+            type: "array",
+            items: { allOf: [ref("Job"), { type: "object", properties: { ideaTitle: { type: "string" } } }] },
+          },
+        },
+      },
+      BatchStarted: {
+        type: "object",
+        properties: {
+          message: { type: "string" },
+          batch: ref("Batch"),
+          results: {
+            type: "array",
+            description: "One entry per idea; ideas that could not start have a null jobId and an error",
+            items: {
+              type: "object",
+              properties: {
+                ideaId: { type: "string", format: "uuid" },
+                jobId: nullable("string", { format: "uuid" }),
+                error: nullable("string"),
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  paths: {
+    "/api/ideas": {
+      get: operation("ideas:read", "List your personal ideas, or a workspace's ideas", {
+        "200": { description: "Ideas", content: json({ type: "array", items: ref("Idea") }) },
+        "404": notFound,
+      }, {
+        parameters: [{ name: "workspaceId", in: "query", required: false, schema: { type: "string", format: "uuid" } }],
+      }),
+      post: operation("ideas:write", "Create an idea", {
+        "201": { description: "The new idea", content: json(ref("Idea")) },
+      }, {
+        requestBody: { required: true, content: json(ref("IdeaInput")) },
+      }),
+    },
+    "/api/ideas/{id}": {
+      get: operation("ideas:read", "Get an idea", {
+        "200": { description: "The idea, with your access role", content: json(ref("Idea")) },
+        "404": notFound,
+      }, { parameters: [ideaId] }),
+      patch: operation("ideas:write", "Update an idea", {
+        "200": { description: "The updated idea", content: json(ref("Idea")) },
+        "404": notFound,
+      }, {
+        parameters: [ideaId],
+        requestBody: { required: true, content: json(ref("IdeaInput")) },
+      }),
+      delete: operation("ideas:write", "Delete an idea and everything generated for it", {
+        "200": { description: "Deleted", content: json(ref("Error")) },
+        "404": notFound,
+      }, { parameters: [ideaId] }),
+    },
+    "/api/ideas/{id}/documents": {
+      get: operation("ideas:read", "List an idea's documents", {
+        "200": { description: "Documents", content: json({ type: "array", items: ref("Document") }) },
+        "404": notFound,
+      }, { parameters: [ideaId] }),
+      post: operation("ideas:write", "Create a document, or replace the idea's document of that type", {
+        "200": { description: "The updated document", content: json(ref("Document")) },
+        "201": { description: "The new document", content: json(ref("Document")) },
+        "404": notFound,
+      }, {
+        parameters: [ideaId],
+        requestBody: { required: true, content: json(ref("DocumentInput")) },
+      }),
+    },
+    "/api/ideas/{id}/documents/{type}": {
+      get: operation("ideas:read", "Get an idea's document of one type", {
+        "200": { description: "The document, or null if it hasn't been generated", content: json({ oneOf: [ref("Document"), { type: "null" }] }) },
+        "404": notFound,
+      }, {
+        parameters: [ideaId, { name: "type", in: "path", required: true, schema: { type: "string", enum: documentTypes } }],
+      }),
+    },
+    "/api/ideas/{id}/documents/{documentId}/versions": {
+      get: operation("ideas:read", "List a document's earlier versions", {
+        "200": { description: "Versions, newest first", content: json({ type: "array", items: ref("DocumentVersion") }) },
+        "404": notFound,
+      }, { parameters: [ideaId, idParam("documentId", "Document id")] }),
+    },
+    "/api/ideas/{id}/documents/{documentId}/versions/{versionId}": {
+      get: operation("ideas:read", "Get one earlier version of a document", {
+        "200": { description: "The version", content: json(ref("DocumentVersion")) },
+        "404": notFound,
+      }, { parameters: [ideaId, idParam("documentId", "Document id"), idParam("versionId", "Version id")] }),
+    },
+    "/api/ideas/{id}/documents/{documentId}/versions/{versionId}/restore": {
+      post: operation("ideas:write", "Restore an earlier version of a document", {
+        "200": { description: "The restored document", content: json(ref("Document")) },
+        "404": notFound,
+      }, { parameters: [ideaId, idParam("documentId", "Document id"), idParam("versionId", "Version id")] }),
+    },
+    "/api/ideas/{id}/canvas": {
+      get: operation("ideas:read", "Get an idea's Lean Canvas", {
+        "200": { description: "The canvas, or null if it hasn't been generated", content: json({ oneOf: [ref("Canvas"), { type: "null" }] }) },
+        "404": notFound,
+      }, { parameters: [ideaId] }),
+      patch: operation("ideas:write", "Update sections of an idea's Lean Canvas", {
+        "200": { description: "The updated canvas", content: json(ref("Canvas")) },
+        "404": notFound,
+      }, {
+        parameters: [ideaId],
+        requestBody: { required: true, content: json(ref("CanvasInput")) },
+      }),
+    },
+    "/api/ideas/{id}/generate": {
+      post: generationOperation(
+        "Run the full generation pipeline, skipping documents that are already done, or only the given steps",
+        [ideaId],
+        "PipelineRunRequest",
+      ),
+    },
+    "/api/ideas/{id}/regenerate/{step}": {
+      post: generationOperation("Regenerate the documents of one pipeline step", [ideaId, stepParam]),
+    },
+    "/api/ideas/{id}/regenerate-downstream/{step}": {
+      post: generationOperation("Regenerate one pipeline step and every step after it", [ideaId, stepParam]),
+    },
+    "/api/ideas/{id}/jobs": {
+      get: operation("ideas:read", "List an idea's recent generation jobs", {
+        "200": { description: "Up to 50 jobs, newest first", content: json({ type: "array", items: ref("Job") }) },
+        "404": notFound,
+      }, { parameters: [ideaId] }),
+    },
+    "/api/jobs/{id}": {
+      get: operation("ideas:read", "Get a job with its progress timeline", {
+        "200": { description: "The job", content: json(ref("JobWithTimeline")) },
+        "404": notFound,
+      }, { parameters: [idParam("id", "Job id")] }),
+    },
+    "/api/jobs/{id}/cancel": {
+      post: operation("generation:trigger", "Cancel a pending or running job", {
+        "200": { description: "The cancelled job", content: json(ref("Job")) },
+        "404": notFound,
+        "409": { description: "The job has already finished", content: json(ref("Error")) },
+      }, { parameters: [idParam("id", "Job id")] }),
+    },
+    "/api/batches": {
+      get: operation("ideas:read", "List your most recent batches with their jobs", {
+        "200": { description: "Up to 5 batches, newest first", content: json({ type: "array", items: ref("Batch") }) },
+      }),
+      post: operation("generation:trigger", "Start generation for several ideas, one job per idea", {
+        "200": { description: "The batch, and which ideas started", content: json(ref("BatchStarted")) },
+        "400": { description: "Invalid request body", content: json(ref("Error")) },
+        "503": { description: "The generation service is unavailable", content: json(ref("Error")) },
+      }, {
+        requestBody: { required: true, content: json(ref("BatchRequest")) },
+      }),
+    },
+    "/api/batches/{id}": {
+      get: operation("ideas:read", "Get a batch with its jobs", {
+        "200": { description: "The batch", content: json(ref("Batch")) },
+        "404": notFound,
+      }, { parameters: [idParam("id", "Batch id")] }),
+    },
+    "/api/batches/{id}/cancel": {
+      post: operation("generation:trigger", "Cancel every unfinished job in a batch", {
+        "200": { description: "The batch after cancelling", content: json(ref("Batch")) },
+        "404": notFound,
+      }, { parameters: [idParam("id", "Batch id")] }),
+    },
+  },
+};
+
+export function setupOpenApiRoutes(app: Express) {
+  app.get("/api/openapi.json", (_req, res) => {
+    res.status(200).json(openApiDocument);
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * Per-request state for code that never sees `req`, such as audit logging in
+ * storage. Anything awaited from a route handler runs inside its request's context.
+ */
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+import type { InsertAuditLog } from "@shared/schema";
+
+interface RequestContext {
+  // Superadmin signed in as another user through impersonation
+  impersonatorId?: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Must run after the session is loaded
+export function requestContextMiddleware(req: Request, _res: Response, next: NextFunction) {
+  requestContext.run({ impersonatorId: req.session?.impersonatorId }, next);
+}
+
+/** Tag an audit entry written while impersonating with the superadmin behind it. */
+export function withImpersonator(log: InsertAuditLog): InsertAuditLog {
+  const impersonatorId = requestContext.getStore()?.impersonatorId;
+  if (!impersonatorId || impersonatorId === log.actorId) return log;
+  return { ...log, details: { ...(log.details as Record<string, unknown> | null), impersonatorId } };
+}
@@ -1,35 +1,148 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, sessionMiddleware } from "./auth";
+import { setupAuth, sessionMiddleware, isAuthenticated } from "./auth";
 import { setupSocketIO, publishJobEvent } from "./socket";
 import { z } from "zod";
-import { type InsertJob, type UpdateJob, type LeanCanvasContent } from "@shared/schema";
-import { insertIdeaSchema, insertDocumentSchema, DocumentType } from "@shared/schema";
+import { type InsertJob, type UpdateJob, type Job, type LeanCanvasContent, type Document, type DocumentChangeReason, type InsertDocumentVersion, type UpdateDocument, type JobWithTimeline, type IdeaWithAccess, type JobBatch, type JobBatchWithJobs, type BatchStartResult } from "@shared/schema";
+import { insertIdeaSchema, insertDocumentSchema, jobProgressPayloadSchema, generationRequestSchema, batchGenerationSchema, pipelineRunSchema, resolvePipelineSelection, DocumentType, exportFormats, type ExportFormat, pipelineSteps, stepDocumentTypes, type PipelineStep, getDownstreamSteps, getUpstreamDocumentTypes, type SourceRevisions, generationPriorityValues, type GenerationPriority, hasUserRole } from "@shared/schema";
 import { fetchProjectWorkflows, fetchProjectEstimate } from "./supabase";
 import { emailService } from "./email";
 import { generateVerificationToken, generateTokenExpiry, buildVerificationUrl } from "./utils/auth-utils";
-import { triggerGeneration, triggerStepGeneration } from "./anvil-api";
+import { triggerStepGeneration, getAnvilApiStatus, assertAnvilApiAvailable } from "./anvil-api";
 import { setupAdminRoutes } from "./admin";
+import { setupAccountRoutes } from "./account";
+import { setupShareRoutes } from "./share";
+import { setupCommentRoutes } from "./comments";
+import { setupTwoFactorRoutes } from "./two-factor";
+import { setupSessionRoutes } from "./sessions";
+import { setupApiTokenRoutes } from "./api-tokens";
+import { setupOpenApiRoutes } from "./openapi";
+import { setupSettingsRoutes } from "./settings";
+import { setupWorkspaceRoutes, getWorkspaceRole, getIdeaRole, hasWorkspaceRole, canEditIdea, canDeleteIdea, getJobRole } from "./workspaces";
+import { verifyAnvilWebhook } from "./webhook-auth";
+import { buildIdeaExport, renderIdeaExport } from "./export";
+import { startJob, transitionJob, cancelJob, failJob, isActiveJob, normalizeJobStatus, startJobReaper, getQueuePosition, JobConflictError } from "./job-orchestrator";
+
+/**
+ * Store the current content of a document as a version before it gets overwritten.
+ * Documents that have never received content (still generating) are skipped.
+ */
+async function snapshotDocument(
+  document: Document,
+  changeReason: DocumentChangeReason,
+  options: { changedBy?: string | null; jobId?: string | null; requestingUserId?: string } = {},
+) {
+  if (!document.content && !document.contentSections) return;
+
+  await storage.createDocumentVersion({
+    documentId: document.id,
+    ideaId: document.ideaId,
+    userId: document.userId,
+    documentType: document.documentType,
+    content: document.content,
+    contentSections: document.contentSections as InsertDocumentVersion["contentSections"],
+    changedBy: options.changedBy ?? null,
+    changeReason,
+    jobId: options.jobId ?? null,
+  }, options.requestingUserId);
+}
+
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
 
-function isAuthenticated(req: Request, res: Response, next: NextFunction) {
-  if (req.isAuthenticated()) {
-    return next();
+/** Keep the outgoing revision of every document a pipeline step is about to overwrite. */
+async function snapshotStepDocuments(ideaId: string, step: PipelineStep, jobId: string, userId: string) {
+  for (const documentType of stepDocumentTypes[step]) {
+    const existingDoc = await storage.getDocumentByType(ideaId, documentType);
+    if (existingDoc) {
+      await snapshotDocument(existingDoc, "regeneration", { changedBy: userId, jobId });
+    }
   }
-  res.status(401).json({ message: "Unauthorized" });
+}
+
+/**
+ * Record that anvil-api (re)generated a document: bump its revision and keep
+ * the revisions of the upstream documents it was built from, so later edits
+ * upstream show it as stale. Documents `jobId` already recorded are left alone.
+ */
+async function recordGeneratedDocument(document: Document, jobId: string) {
+  if (document.generatedByJobId === jobId) return;
+  const docs = await storage.getDocumentsByIdeaId(document.ideaId);
+  const revisions = new Map(docs.map(doc => [doc.documentType, doc.revision]));
+  const sourceRevisions: SourceRevisions = {};
+  for (const upstream of getUpstreamDocumentTypes(document.documentType)) {
+    const revision = revisions.get(upstream);
+    if (revision != null) sourceRevisions[upstream] = revision;
+  }
+  await storage.markDocumentGenerated(document.id, sourceRevisions, jobId);
+}
+
+// Documents in the order the pipeline produces them; unknown types sort last
+const pipelineDocumentTypes: string[] = pipelineSteps.flatMap(step => stepDocumentTypes[step]);
+
+function pipelinePosition(documentType: string): number {
+  const index = pipelineDocumentTypes.indexOf(documentType);
+  return index === -1 ? pipelineDocumentTypes.length : index;
+}
+
+/** Generation requests may pass ?force=true (or { force: true }) to override an in-flight job. */
+function isForced(req: Request) {
+  return req.query.force === "true" || req.body?.force === true;
+}
+
+/** Queue priority for a generation request; "high" is reserved for superadmins. */
+function jobPriority(req: Request, priority: GenerationPriority): number {
+  if (priority === "high" && !hasUserRole(req.user!.role, "superadmin")) {
+    throw Object.assign(new Error("Only superadmins can queue high-priority generation"), { status: 403 });
+  }
+  return generationPriorityValues[priority];
+}
+
+async function withBatchJobs(batch: JobBatch): Promise<JobBatchWithJobs> {
+  return { ...batch, jobs: await storage.getBatchJobs(batch.id) };
+}
+
+function sendJobConflict(res: Response, error: JobConflictError) {
+  return res.status(409).json({
+    message: error.message,
+    jobId: error.jobId,
+  });
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
   setupAuth(app);
+  setupAccountRoutes(app);
+  setupTwoFactorRoutes(app);
+  setupSessionRoutes(app);
+  setupApiTokenRoutes(app);
   setupAdminRoutes(app);
+  setupShareRoutes(app);
+  setupWorkspaceRoutes(app);
+  setupCommentRoutes(app);
+  setupSettingsRoutes(app);
+  setupOpenApiRoutes(app);
+  startJobReaper();
 
   // ==================== IDEAS ROUTES ====================
 
+  // Personal ideas by default; ?workspaceId= lists a workspace's shared ideas
   app.get("/api/ideas", isAuthenticated, async (req, res, next) => {
     try {
       const userId = req.user!.id;
+      const workspaceId = req.query.workspaceId as string | undefined;
+
+      if (workspaceId) {
+        if (!(await getWorkspaceRole(workspaceId, userId))) {
+          return res.status(404).json({ message: "Workspace not found" });
+        }
+        const workspaceIdeas = await storage.getIdeasByWorkspace(workspaceId, userId);
+        return res.json(workspaceIdeas);
+      }
+
       const ideas = await storage.getIdeasByUser(userId);
-      const verifiedIdeas = ideas.filter(idea => idea.userId === userId);
+      const verifiedIdeas = ideas.filter(idea => idea.userId === userId && !idea.workspaceId);
       res.json(verifiedIdeas);
     } catch (error: any) {
       next(error);
@@ -40,6 +153,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validatedIdeaData = insertIdeaSchema.parse(req.body);
 
+      if (validatedIdeaData.workspaceId) {
+        const role = await getWorkspaceRole(validatedIdeaData.workspaceId, req.user!.id);
+        if (!role) {
+          return res.status(404).json({ message: "Workspace not found" });
+        }
+        if (!hasWorkspaceRole(role, "editor")) {
+          return res.status(403).json({ message: "Viewers cannot add ideas to this workspace" });
+        }
+      }
+
       if (process.env.NODE_ENV === "production") {
         const ideas = await storage.getIdeasByUser(req.user!.id);
         if (ideas.length >= 5) {
@@ -63,12 +186,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const ideaId = req.params.id;
       const userId = req.user!.id;
       const idea = await storage.getIdeaById(ideaId, userId);
+      const accessRole = idea ? await getIdeaRole(idea, userId) : null;
 
-      if (!idea) {
+      if (!idea || !accessRole) {
         return res.status(404).json({ message: "Idea not found" });
       }
 
-      res.json(idea);
+      const ideaWithAccess: IdeaWithAccess = { ...idea, accessRole };
+      res.json(ideaWithAccess);
     } catch (error: any) {
       next(error);
     }
@@ -83,7 +208,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Idea not found" });
       }
 
-      if (idea.userId !== req.user!.id) {
+      if (!(await canEditIdea(idea, req.user!.id))) {
         return res.status(403).json({ message: "Forbidden" });
       }
 
@@ -117,11 +242,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Idea not found" });
       }
 
-      if (idea.userId !== req.user!.id) {
+      if (!(await canDeleteIdea(idea, req.user!.id))) {
         return res.status(403).json({ message: "Forbidden" });
       }
 
       await storage.deleteIdea(ideaId, req.user!.id);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "idea.delete",
+        targetType: "idea",
+        targetId: ideaId,
+        details: { title: idea.title, workspaceId: idea.workspaceId },
+        ipAddress: clientIp(req),
+      });
       res.status(200).json({ message: "Idea deleted" });
     } catch (error: any) {
       next(error);
@@ -144,6 +277,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!idea) {
         return res.status(404).json({ message: "Idea not found or access denied" });
       }
+      if (!(await canEditIdea(idea, req.user!.id))) {
+        return res.status(403).json({ message: "You have view-only access to this idea" });
+      }
 
       const existingDocument = await storage.getDocumentByType(ideaId, documentType, req.user!.id);
 
@@ -152,6 +288,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const docStatus = hasContent ? "completed" : "generating";
 
       if (existingDocument) {
+        if (hasContent) {
+          await snapshotDocument(existingDocument, "manual_edit", {
+            changedBy: req.user!.id,
+            requestingUserId: req.user!.id,
+          });
+        }
         await storage.updateDocument(existingDocument.id, {
           content: content || existingDocument.content,
           contentSections: contentSections || existingDocument.contentSections,
@@ -226,6 +368,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!idea) {
         return res.status(404).json({ message: "Idea not found or access denied" });
       }
+      if (!(await canEditIdea(idea, req.user!.id))) {
+        return res.status(403).json({ message: "You have view-only access to this idea" });
+      }
 
       const document = await storage.getDocumentById(documentId, req.user!.id);
       if (!document) {
@@ -236,6 +381,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if ('content' in req.body) updates.content = req.body.content;
       if ('contentSections' in req.body) updates.contentSections = req.body.contentSections;
 
+      if (Object.keys(updates).length > 0) {
+        await snapshotDocument(document, "manual_edit", {
+          changedBy: req.user!.id,
+          requestingUserId: req.user!.id,
+        });
+      }
+
       await storage.updateDocument(documentId, updates, req.user!.id);
       const updatedDocument = await storage.getDocumentById(documentId, req.user!.id);
       return res.status(200).json(updatedDocument);
@@ -252,8 +404,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!idea) {
         return res.status(404).json({ message: "Idea not found or access denied" });
       }
+      if (!(await canEditIdea(idea, req.user!.id))) {
+        return res.status(403).json({ message: "You have view-only access to this idea" });
+      }
 
+      const document = await storage.getDocumentById(documentId, req.user!.id);
       await storage.deleteDocument(documentId, req.user!.id);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "document.delete",
+        targetType: "document",
+        targetId: documentId,
+        details: { ideaId, documentType: document?.documentType ?? null },
+        ipAddress: clientIp(req),
+      });
       return res.status(200).json({ message: "Document deleted" });
     } catch (error: any) {
       next(error);
@@ -270,10 +434,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!idea) {
         return res.status(404).json({ message: "Idea not found or access denied" });
       }
+      if (!(await canEditIdea(idea, req.user!.id))) {
+        return res.status(403).json({ message: "You have view-only access to this idea" });
+      }
 
       const document = await storage.getDocumentByType(ideaId, documentType, req.user!.id);
       if (document) {
         await storage.deleteDocument(document.id, req.user!.id);
+        await storage.createAuditLog({
+          actorId: req.user!.id,
+          action: "document.delete",
+          targetType: "document",
+          targetId: document.id,
+          details: { ideaId, documentType },
+          ipAddress: clientIp(req),
+        });
       }
 
       return res.status(200).json({ message: "Document deleted" });
@@ -282,6 +457,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ==================== DOCUMENT VERSION ROUTES ====================
+
+  // List previous revisions of a document (newest first)
+  app.get("/api/ideas/:id/documents/:documentId/versions", isAuthenticated, async (req, res, next) => {
+    try {
+      const { id: ideaId, documentId } = req.params;
+      const idea = await storage.getIdeaById(ideaId, req.user!.id);
+      if (!idea) {
+        return res.status(404).json({ message: "Idea not found or access denied" });
+      }
+
+      const document = await storage.getDocumentById(documentId, req.user!.id);
+      if (!document || document.ideaId !== ideaId) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const versions = await storage.getDocumentVersions(documentId, req.user!.id);
+      return res.status(200).json(versions);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.get("/api/ideas/:id/documents/:documentId/versions/:versionId", isAuthenticated, async (req, res, next) => {
+    try {
+      const { id: ideaId, documentId, versionId } = req.params;
+      const idea = await storage.getIdeaById(ideaId, req.user!.id);
+      if (!idea) {
+        return res.status(404).json({ message: "Idea not found or access denied" });
+      }
+
+      const version = await storage.getDocumentVersionById(versionId, req.user!.id);
+      if (!version || version.documentId !== documentId || version.ideaId !== ideaId) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      return res.status(200).json(version);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  // Restore a previous revision. The current content is itself kept as a new version.
+  app.post("/api/ideas/:id/documents/:documentId/versions/:versionId/restore", isAuthenticated, async (req, res, next) => {
+    try {
+      const { id: ideaId, documentId, versionId } = req.params;
+      const idea = await storage.getIdeaById(ideaId, req.user!.id);
+      if (!idea) {
+        return res.status(404).json({ message: "Idea not found or access denied" });
+      }
+      if (!(await canEditIdea(idea, req.user!.id))) {
+        return res.status(403).json({ message: "You have view-only access to this idea" });
+      }
+
+      const document = await storage.getDocumentById(documentId, req.user!.id);
+      if (!document || document.ideaId !== ideaId) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const version = await storage.getDocumentVersionById(versionId, req.user!.id);
+      if (!version || version.documentId !== documentId) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      await snapshotDocument(document, "restore", {
+        changedBy: req.user!.id,
+        requestingUserId: req.user!.id,
+      });
+      await storage.updateDocument(documentId, {
+        content: version.content,
+        contentSections: version.contentSections as UpdateDocument["contentSections"],
+        status: "completed",
+      }, req.user!.id);
+
+      const restored = await storage.getDocumentById(documentId, req.user!.id);
+      return res.status(200).json(restored);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
   // ==================== CANVAS ROUTES ====================
 
   // Get lean canvas (from unified documents table)
@@ -330,6 +586,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!idea) {
         return res.status(404).json({ message: "Idea not found or access denied" });
       }
+      if (!(await canEditIdea(idea, req.user!.id))) {
+        return res.status(403).json({ message: "You have view-only access to this idea" });
+      }
 
       const canvasFields: (keyof LeanCanvasContent)[] = [
         'problem', 'customerSegments', 'uniqueValueProposition', 'solution',
@@ -347,6 +606,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const existingDoc = await storage.getDocumentByType(ideaId, "LeanCanvas", req.user!.id);
 
       if (existingDoc) {
+        await snapshotDocument(existingDoc, "manual_edit", {
+          changedBy: req.user!.id,
+          requestingUserId: req.user!.id,
+        });
         const currentSections = (existingDoc.contentSections as LeanCanvasContent) || {};
         const mergedSections = { ...currentSections, ...sectionUpdates };
         await storage.updateDocument(existingDoc.id, {
@@ -394,9 +657,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ==================== EXPORT ROUTES ====================
+
+  app.get("/api/ideas/:id/export", isAuthenticated, async (req, res, next) => {
+    try {
+      const ideaId = req.params.id;
+      const format = (req.query.format as string | undefined) || "pdf";
+
+      if (!(exportFormats as readonly string[]).includes(format)) {
+        return res.status(400).json({ message: `Invalid format: ${format}. Must be one of: ${exportFormats.join(", ")}` });
+      }
+
+      const idea = await storage.getIdeaById(ideaId, req.user!.id);
+      if (!idea) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      const bundle = await buildIdeaExport(idea, req.user!.id);
+      if (bundle.sections.length === 0) {
+        return res.status(409).json({ message: "This idea has no generated documents to export yet" });
+      }
+
+      const file = await renderIdeaExport(bundle, format as ExportFormat);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.setHeader("Content-Length", file.buffer.length);
+      return res.status(200).send(file.buffer);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
   // ==================== GENERATION ROUTES (STUBBED) ====================
 
-  // Generate canvas - triggers full pipeline via anvil-api
+  // Generate canvas - triggers full pipeline via anvil-api, or only the steps
+  // passed in `steps` plus whatever they depend on
   app.post("/api/ideas/:id/generate", isAuthenticated, async (req, res, next) => {
     try {
       const ideaId = req.params.id;
@@ -407,66 +702,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Idea not found" });
       }
 
-      // Guard: check if there's already a pending/processing job for this idea
-      const existingJob = await storage.getLatestWorkflowJob(ideaId, userId);
-      if (existingJob) {
-        const jobStatus = (existingJob.status || "").toLowerCase();
-        if (jobStatus === "pending" || jobStatus === "processing" || jobStatus === "starting") {
-          // Check if the anvil-api is actually still working on this job.
-          // If no progress update in 5 minutes, it's stuck (e.g. container restart).
-          const jobAge = Date.now() - new Date(existingJob.updatedAt).getTime();
-          const STUCK_THRESHOLD_MS = 5 * 60 * 1000; // 5 minutes since last progress update
-          if (jobAge > STUCK_THRESHOLD_MS) {
-            console.warn(`[generate] Job ${existingJob.id} stuck at '${jobStatus}' for ${Math.round(jobAge / 60000)}m — marking as failed`);
-            await storage.updateJob(existingJob.id, {
-              status: "failed",
-              description: "Job timed out — no progress update received within 5 minutes",
-            });
-            await storage.updateIdeaStatus(ideaId, "Draft", userId);
-          } else {
-            // Allow the user to force-override by passing ?force=true
-            const force = req.query.force === "true" || req.body?.force === true;
-            if (force) {
-              console.warn(`[generate] Force-overriding stuck job ${existingJob.id} at '${jobStatus}'`);
-              await storage.updateJob(existingJob.id, {
-                status: "failed",
-                description: "Manually overridden by user — starting new generation",
-              });
-              await storage.updateIdeaStatus(ideaId, "Draft", userId);
-            } else {
-              return res.status(409).json({
-                message: "Generation is already in progress for this idea",
-                jobId: existingJob.id,
-              });
-            }
-          }
-        }
+      if (!(await canEditIdea(idea, userId))) {
+        return res.status(403).json({ message: "You have view-only access to this idea" });
       }
 
-      // Create a job to track the generation
-      const job = await storage.createJob({
-        userId,
-        ideaId,
-        documentType: "LeanCanvas",
-        description: "Full document generation pipeline started",
-        status: "pending",
-      });
+      const parsedBody = pipelineRunSchema.safeParse(req.body ?? {});
+      if (!parsedBody.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsedBody.error.flatten().fieldErrors,
+        });
+      }
+      const guidanceNotes = parsedBody.data.notes;
 
-      // Update idea status
-      await storage.updateIdeaStatus(ideaId, "Generating", userId);
+      if (parsedBody.data.steps) {
+        const completedTypes = (await storage.getDocumentsByIdeaId(ideaId, userId))
+          .filter(doc => doc.status === "completed")
+          .map(doc => doc.documentType);
+        const { steps, addedSteps } = resolvePipelineSelection(parsedBody.data.steps, completedTypes);
+        const [firstStep, ...queuedSteps] = steps;
 
-      // Fire-and-forget: trigger anvil-api generation pipeline
-      triggerGeneration(ideaId, job.id).catch(async (err) => {
-        console.error(`[generate] anvil-api trigger failed for idea ${ideaId}:`, err);
-        try {
-          await storage.updateJob(job.id, {
-            status: "failed",
-            description: `anvil-api trigger failed: ${err.message || err}`,
-          });
-          await storage.updateIdeaStatus(ideaId, "Draft", userId);
-        } catch (cleanupErr) {
-          console.error(`[generate] failed to clean up after trigger failure:`, cleanupErr);
-        }
+        const job = await startJob({
+          ideaId,
+          userId,
+          documentType: "LeanCanvas",
+          description: `Custom run of ${steps.join(", ")} queued`,
+          guidanceNotes,
+          priority: jobPriority(req, parsedBody.data.priority),
+          force: isForced(req),
+          ipAddress: clientIp(req),
+          label: "generate:custom",
+          pipelineStep: firstStep,
+          queuedSteps,
+          beforeTrigger: (job) => snapshotStepDocuments(ideaId, firstStep, job.id, userId),
+        });
+
+        return res.status(200).json({
+          message: `Generating ${steps.length} step${steps.length === 1 ? "" : "s"}`,
+          jobId: job.id,
+          steps,
+          addedSteps,
+        });
+      }
+
+      const job = await startJob({
+        ideaId,
+        userId,
+        documentType: "LeanCanvas",
+        description: "Full document generation pipeline queued",
+        guidanceNotes,
+        priority: jobPriority(req, parsedBody.data.priority),
+        force: isForced(req),
+        ipAddress: clientIp(req),
+        label: "generate",
       });
 
       return res.status(200).json({
@@ -474,6 +762,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         jobId: job.id,
       });
     } catch (error: any) {
+      if (error instanceof JobConflictError) {
+        return sendJobConflict(res, error);
+      }
       next(error);
     }
   });
@@ -496,52 +787,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Idea not found" });
         }
 
-        // Check for stuck jobs (same logic as the main generate endpoint)
-        const existingJob = await storage.getLatestWorkflowJob(ideaId, userId);
-        if (existingJob) {
-          const jobStatus = (existingJob.status || "").toLowerCase();
-          if (jobStatus === "pending" || jobStatus === "processing" || jobStatus === "starting") {
-            const jobAge = Date.now() - new Date(existingJob.updatedAt).getTime();
-            const STUCK_THRESHOLD_MS = 5 * 60 * 1000;
-            const force = req.query.force === "true" || req.body?.force === true;
-            if (jobAge > STUCK_THRESHOLD_MS || force) {
-              console.warn(`[generate:${docType}] Clearing stuck job ${existingJob.id} (age=${Math.round(jobAge / 60000)}m, force=${force})`);
-              await storage.updateJob(existingJob.id, {
-                status: "failed",
-                description: force
-                  ? "Manually overridden by user — starting new generation"
-                  : "Job timed out — marked as failed automatically",
-              });
-            } else {
-              return res.status(409).json({
-                message: "Generation is already in progress for this idea",
-                jobId: existingJob.id,
-              });
-            }
-          }
+        if (!(await canEditIdea(idea, userId))) {
+          return res.status(403).json({ message: "You have view-only access to this idea" });
         }
 
-        const job = await storage.createJob({
-          userId,
+        const parsedBody = generationRequestSchema.safeParse(req.body ?? {});
+        if (!parsedBody.success) {
+          return res.status(400).json({
+            message: "Validation error",
+            errors: parsedBody.error.flatten().fieldErrors,
+          });
+        }
+        const guidanceNotes = parsedBody.data.notes;
+
+        const job = await startJob({
           ideaId,
+          userId,
           documentType: docType,
           description: `${docType} generation requested — running full pipeline (completed steps will be skipped)`,
-          status: "pending",
-        });
-
-        await storage.updateIdeaStatus(ideaId, "Generating", userId);
-
-        triggerGeneration(ideaId, job.id).catch(async (err) => {
-          console.error(`[generate:${docType}] anvil-api trigger failed for idea ${ideaId}:`, err);
-          try {
-            await storage.updateJob(job.id, {
-              status: "failed",
-              description: `anvil-api trigger failed: ${err.message || err}`,
-            });
-            await storage.updateIdeaStatus(ideaId, "Draft", userId);
-          } catch (cleanupErr) {
-            console.error(`[generate:${docType}] failed to clean up after trigger failure:`, cleanupErr);
-          }
+          guidanceNotes,
+          priority: jobPriority(req, parsedBody.data.priority),
+          force: isForced(req),
+          ipAddress: clientIp(req),
+          label: `generate:${docType}`,
         });
 
         return res.status(200).json({
@@ -549,6 +817,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           jobId: job.id,
         });
       } catch (error: any) {
+        if (error instanceof JobConflictError) {
+          return sendJobConflict(res, error);
+        }
         next(error);
       }
     });
@@ -556,12 +827,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // ==================== PER-STEP REGENERATION ====================
 
-  const VALID_STEPS = ["lean_canvas", "prd", "brd", "frd", "workflows", "specs"];
+  const VALID_STEPS: readonly string[] = pipelineSteps;
 
   app.post("/api/ideas/:id/regenerate/:step", isAuthenticated, async (req, res, next) => {
     try {
       const ideaId = req.params.id;
-      const step = req.params.step;
+      const step = req.params.step as PipelineStep;
       const userId = req.user!.id;
 
       if (!VALID_STEPS.includes(step)) {
@@ -572,65 +843,225 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!idea) {
         return res.status(404).json({ message: "Idea not found" });
       }
+      if (!(await canEditIdea(idea, userId))) {
+        return res.status(403).json({ message: "You have view-only access to this idea" });
+      }
 
-      // Guard: check if there's already a pending/processing job for this idea
-      const existingJob = await storage.getLatestWorkflowJob(ideaId, userId);
-      if (existingJob) {
-        const jobStatus = (existingJob.status || "").toLowerCase();
-        if (jobStatus === "pending" || jobStatus === "processing" || jobStatus === "starting") {
-          const jobAge = Date.now() - new Date(existingJob.updatedAt).getTime();
-          const STUCK_THRESHOLD_MS = 5 * 60 * 1000;
-          const force = req.query.force === "true" || req.body?.force === true;
-          if (jobAge > STUCK_THRESHOLD_MS || force) {
-            console.warn(`[regenerate:${step}] Clearing stuck job ${existingJob.id} (age=${Math.round(jobAge / 60000)}m, force=${force})`);
-            await storage.updateJob(existingJob.id, {
-              status: "failed",
-              description: force
-                ? "Manually overridden by user — starting step regeneration"
-                : "Job timed out — marked as failed automatically",
-            });
-          } else {
-            return res.status(409).json({
-              message: "Generation is already in progress for this idea",
-              jobId: existingJob.id,
-            });
-          }
-        }
+      const parsedBody = generationRequestSchema.safeParse(req.body ?? {});
+      if (!parsedBody.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsedBody.error.flatten().fieldErrors,
+        });
       }
+      const guidanceNotes = parsedBody.data.notes;
 
-      const job = await storage.createJob({
+      const job = await startJob({
+        ideaId,
         userId,
+        documentType: "LeanCanvas",
+        description: `Step '${step}' regeneration queued`,
+        guidanceNotes,
+        priority: jobPriority(req, parsedBody.data.priority),
+        force: isForced(req),
+        ipAddress: clientIp(req),
+        label: `regenerate:${step}`,
+        pipelineStep: step,
+        beforeTrigger: (job) => snapshotStepDocuments(ideaId, step, job.id, userId),
+      });
+
+      return res.status(200).json({
+        message: `Step '${step}' regeneration started`,
+        jobId: job.id,
+      });
+    } catch (error: any) {
+      if (error instanceof JobConflictError) {
+        return sendJobConflict(res, error);
+      }
+      next(error);
+    }
+  });
+
+  // Regenerate every step after `step` that has documents, one after another
+  // in a single job, once `step`'s output has changed
+  app.post("/api/ideas/:id/regenerate-downstream/:step", isAuthenticated, async (req, res, next) => {
+    try {
+      const ideaId = req.params.id;
+      const step = req.params.step as PipelineStep;
+      const userId = req.user!.id;
+
+      if (!VALID_STEPS.includes(step)) {
+        return res.status(400).json({ message: `Invalid step: ${step}. Must be one of: ${VALID_STEPS.join(", ")}` });
+      }
+
+      const idea = await storage.getIdeaById(ideaId, userId);
+      if (!idea) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+      if (!(await canEditIdea(idea, userId))) {
+        return res.status(403).json({ message: "You have view-only access to this idea" });
+      }
+
+      const parsedBody = generationRequestSchema.safeParse(req.body ?? {});
+      if (!parsedBody.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsedBody.error.flatten().fieldErrors,
+        });
+      }
+      const guidanceNotes = parsedBody.data.notes;
+
+      const existingTypes = new Set((await storage.getDocumentsByIdeaId(ideaId, userId)).map(doc => doc.documentType));
+      const steps = getDownstreamSteps(step)
+        .filter(downstream => stepDocumentTypes[downstream].some(type => existingTypes.has(type)));
+      if (steps.length === 0) {
+        return res.status(400).json({ message: `Nothing after '${step}' has been generated yet` });
+      }
+      const [firstStep, ...queuedSteps] = steps;
+
+      const job = await startJob({
         ideaId,
+        userId,
         documentType: "LeanCanvas",
-        description: `Step '${step}' regeneration started`,
-        status: "pending",
+        description: `Regenerating ${steps.join(", ")} after changes to '${step}'`,
+        guidanceNotes,
+        priority: jobPriority(req, parsedBody.data.priority),
+        force: isForced(req),
+        ipAddress: clientIp(req),
+        label: `regenerate-downstream:${step}`,
+        pipelineStep: firstStep,
+        queuedSteps,
+        beforeTrigger: (job) => snapshotStepDocuments(ideaId, firstStep, job.id, userId),
       });
 
-      await storage.updateIdeaStatus(ideaId, "Generating", userId);
+      return res.status(200).json({
+        message: `Regenerating ${steps.length} downstream step${steps.length === 1 ? "" : "s"}`,
+        jobId: job.id,
+        steps,
+      });
+    } catch (error: any) {
+      if (error instanceof JobConflictError) {
+        return sendJobConflict(res, error);
+      }
+      next(error);
+    }
+  });
 
-      // Fire-and-forget: trigger step-specific generation
-      triggerStepGeneration(ideaId, job.id, step).catch(async (err) => {
-        console.error(`[regenerate:${step}] anvil-api trigger failed for idea ${ideaId}:`, err);
+  // ==================== BATCH GENERATION ====================
+
+  // Start the full pipeline, or regenerate one step, for several ideas at once.
+  // Each idea gets its own job; ideas that can't start are reported and skipped.
+  app.post("/api/batches", isAuthenticated, async (req, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const parsedBody = batchGenerationSchema.safeParse(req.body ?? {});
+      if (!parsedBody.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsedBody.error.flatten().fieldErrors,
+        });
+      }
+      const { ideaIds, step, notes: guidanceNotes } = parsedBody.data;
+      const priority = jobPriority(req, parsedBody.data.priority);
+      // Refuse the whole batch up front rather than reporting every idea as failed
+      assertAnvilApiAvailable();
+
+      const batch = await storage.createJobBatch({ userId, pipelineStep: step });
+      const results: BatchStartResult[] = [];
+      for (const ideaId of ideaIds) {
         try {
-          await storage.updateJob(job.id, {
-            status: "failed",
-            description: `anvil-api trigger failed: ${err.message || err}`,
+          const idea = await storage.getIdeaById(ideaId, userId);
+          if (!idea) {
+            results.push({ ideaId, jobId: null, error: "Idea not found" });
+            continue;
+          }
+          if (!(await canEditIdea(idea, userId))) {
+            results.push({ ideaId, jobId: null, error: "You have view-only access to this idea" });
+            continue;
+          }
+
+          const job = await startJob({
+            ideaId,
+            userId,
+            documentType: "LeanCanvas",
+            description: step
+              ? `Step '${step}' regeneration queued (batch)`
+              : "Full document generation pipeline queued (batch)",
+            guidanceNotes,
+            priority,
+            batchId: batch.id,
+            ipAddress: clientIp(req),
+            label: step ? `batch:regenerate:${step}` : "batch:generate",
+            ...(step && {
+              pipelineStep: step,
+              beforeTrigger: (job: Job) => snapshotStepDocuments(ideaId, step, job.id, userId),
+            }),
           });
-          await storage.updateIdeaStatus(ideaId, "Draft", userId);
-        } catch (cleanupErr) {
-          console.error(`[regenerate:${step}] failed to clean up after trigger failure:`, cleanupErr);
+          results.push({ ideaId, jobId: job.id, error: null });
+        } catch (error: any) {
+          if (!(error instanceof JobConflictError)) {
+            console.error(`[batch] Could not start job for idea ${ideaId}:`, error);
+          }
+          results.push({ ideaId, jobId: null, error: error.message || "Could not start generation" });
         }
-      });
+      }
 
+      const started = results.filter(result => result.jobId).length;
       return res.status(200).json({
-        message: `Step '${step}' regeneration started`,
-        jobId: job.id,
+        message: `Started ${started} of ${ideaIds.length} idea${ideaIds.length === 1 ? "" : "s"}`,
+        batch: await withBatchJobs(batch),
+        results,
       });
     } catch (error: any) {
       next(error);
     }
   });
 
+  // The user's most recent batches, newest first
+  app.get("/api/batches", isAuthenticated, async (req, res, next) => {
+    try {
+      const batches = await storage.getJobBatchesByUser(req.user!.id, 5);
+      return res.status(200).json(await Promise.all(batches.map(withBatchJobs)));
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.get("/api/batches/:id", isAuthenticated, async (req, res, next) => {
+    try {
+      const batch = await storage.getJobBatch(req.params.id);
+      if (!batch || batch.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      return res.status(200).json(await withBatchJobs(batch));
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  // Cancel every job in the batch that hasn't finished yet
+  app.post("/api/batches/:id/cancel", isAuthenticated, async (req, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const batch = await storage.getJobBatch(req.params.id);
+      if (!batch || batch.userId !== userId) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      for (const job of await storage.getBatchJobs(batch.id)) {
+        if (!isActiveJob(job)) continue;
+        try {
+          await cancelJob(job, userId);
+        } catch (error) {
+          console.error(`[batch] Could not cancel job ${job.id}:`, error);
+        }
+      }
+      return res.status(200).json(await withBatchJobs(batch));
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
   // ==================== ULTIMATE WEBSITE GENERATION ====================
 
   const ULTIMATE_WEBSITE_GENERATOR_URL = process.env.ULTIMATE_WEBSITE_GENERATOR_URL || "http://localhost:8008";
@@ -645,6 +1076,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Idea not found" });
       }
 
+      if (!(await canEditIdea(idea, userId))) {
+        return res.status(403).json({ message: "You have view-only access to this idea" });
+      }
+
       const { businessName, industry, targetAudience, businessDescription } = req.body;
 
       // Call the ultimate website generator FastAPI app directly
@@ -680,86 +1115,132 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // ==================== INTERNAL WEBHOOK (anvil-api callbacks) ====================
 
-  const ANVIL_WEBHOOK_SECRET = process.env.ANVIL_WEBHOOK_SECRET;
-
-  app.post("/api/internal/jobs/:id/progress", async (req, res, next) => {
+  app.post("/api/internal/jobs/:id/progress", verifyAnvilWebhook, async (req, res, next) => {
     try {
-      // Validate shared secret
-      if (!ANVIL_WEBHOOK_SECRET) {
-        return res.status(503).json({ message: "Webhook not configured" });
+      const jobId = req.params.id;
+      const parsed = jobProgressPayloadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
       }
-      const secret = req.headers["x-webhook-secret"];
-      if (secret !== ANVIL_WEBHOOK_SECRET) {
-        return res.status(401).json({ message: "Invalid webhook secret" });
+      const { status, description, step, substep, totalSubsteps, completedDocumentType, documentId } = parsed.data;
+
+      const nextStatus = normalizeJobStatus(status);
+      if (!nextStatus) {
+        return res.status(400).json({ message: `Unknown job status: ${status}` });
       }
 
-      const jobId = req.params.id;
-      const { status, description, step, substep, totalSubsteps } = req.body;
+      const existingJob = await storage.getWorkflowJobById(jobId);
+      if (!existingJob) {
+        return res.status(404).json({ message: "Job not found" });
+      }
 
-      if (!status) {
-        return res.status(400).json({ message: "status is required" });
+      // The user cancelled this job; anvil-api may still be winding down.
+      // Acknowledge so it does not retry, but leave the job untouched.
+      if (normalizeJobStatus(existingJob.status) === "cancelled") {
+        console.log(`[webhook] Ignoring progress for cancelled job ${jobId}: status=${status}`);
+        return res.status(200).json({ ok: true, ignored: true });
       }
 
-      const job = await storage.getWorkflowJobById(jobId);
-      if (!job) {
-        return res.status(404).json({ message: "Job not found" });
+      // Resolve the document anvil-api reports as finished before touching the job,
+      // so a bad reference is rejected without recording partial progress
+      let completedDocument: Document | undefined;
+      if (documentId) {
+        completedDocument = await storage.getDocumentById(documentId);
+        if (!completedDocument || completedDocument.ideaId !== existingJob.ideaId) {
+          return res.status(400).json({ message: `Document ${documentId} does not belong to this job's idea` });
+        }
+        if (completedDocumentType && completedDocument.documentType !== completedDocumentType) {
+          return res.status(400).json({
+            message: `Document ${documentId} is a ${completedDocument.documentType}, not a ${completedDocumentType}`,
+          });
+        }
+      } else if (completedDocumentType) {
+        completedDocument = await storage.getDocumentByType(existingJob.ideaId, completedDocumentType);
+        if (!completedDocument) {
+          console.warn(`[webhook] Job ${jobId} reported ${completedDocumentType} complete, but idea ${existingJob.ideaId} has no such document`);
+        }
       }
 
-      // Update job in database (no RLS — internal call)
-      const updates: Partial<UpdateJob> = { status, description };
-      await storage.updateJob(jobId, updates);
-
-      // Map description keywords to document types for status updates
-      // Descriptions from anvil-api: "Lean Canvas complete. Starting PRD (2/10)", etc.
-      const DOC_COMPLETE_PATTERNS: Record<string, string> = {
-        "lean canvas complete": "LeanCanvas",
-        "prd complete": "ProjectRequirements",
-        "brd complete": "BusinessRequirements",
-        "frd complete": "FunctionalRequirements",
-      };
-
-      // Check if any document was marked complete in this progress update
-      if (description && job.ideaId) {
-        const lowerDesc = description.toLowerCase();
-        for (const [pattern, docType] of Object.entries(DOC_COMPLETE_PATTERNS)) {
-          if (lowerDesc.includes(pattern)) {
-            const doc = await storage.getDocumentByType(job.ideaId, docType);
-            if (doc && doc.status !== "completed") {
-              await storage.updateDocument(doc.id, { status: "completed" });
-              console.log(`[webhook] Marked ${docType} document as completed for idea ${job.ideaId}`);
-            }
-            break;
+      console.log(`[webhook] Received progress: step=${step} substep=${substep}/${totalSubsteps} status=${status}`);
+
+      // A step regeneration with more steps queued moves on to the next one
+      // instead of finishing
+      const finishedStep = existingJob.pipelineStep as PipelineStep | null;
+      const [queuedStep, ...remainingSteps] = existingJob.queuedSteps ?? [];
+      const advancing = nextStatus === "completed" && !!queuedStep;
+
+      // Update job in database (no RLS — internal call). Late updates for
+      // jobs that already finished are rejected with a 409.
+      const job = await transitionJob(
+        jobId,
+        advancing ? "processing" : nextStatus,
+        advancing
+          ? { description: `Step '${finishedStep}' finished — regenerating '${queuedStep}'`, pipelineStep: queuedStep, queuedSteps: remainingSteps }
+          : { description },
+        undefined,
+        { step, substep, totalSubsteps },
+      );
+
+      if (completedDocument) {
+        if (completedDocument.status !== "completed") {
+          await storage.updateDocument(completedDocument.id, { status: "completed" });
+          console.log(`[webhook] Marked ${completedDocument.documentType} document as completed for idea ${job.ideaId}`);
+        }
+        await recordGeneratedDocument(completedDocument, job.id);
+      }
+
+      // Everything a finished step wrote is now current with its upstream documents
+      if (nextStatus === "completed" && finishedStep) {
+        for (const documentType of stepDocumentTypes[finishedStep]) {
+          const doc = await storage.getDocumentByType(job.ideaId, documentType);
+          if (doc) {
+            await recordGeneratedDocument(doc, job.id);
           }
         }
       }
 
+      if (advancing) {
+        await snapshotStepDocuments(job.ideaId, queuedStep, job.id, job.userId);
+        publishJobEvent(jobId, "progress", { message: job.description ?? undefined });
+        triggerStepGeneration(job.ideaId, job.id, queuedStep, job.guidanceNotes).catch(async (err) => {
+          console.error(`[webhook] anvil-api trigger failed for queued step '${queuedStep}' of job ${jobId}:`, err);
+          await failJob(job, `anvil-api trigger failed: ${err.message || err}`).catch(() => undefined);
+        });
+        return res.status(200).json({ ok: true });
+      }
+
       // Publish Socket.IO event based on status
-      const stepNum = typeof step === "number" ? step : undefined;
-      const substepNum = typeof substep === "number" ? substep : undefined;
-      const totalSubstepsNum = typeof totalSubsteps === "number" ? totalSubsteps : undefined;
-      console.log(`[webhook] Received progress: step=${stepNum} substep=${substepNum}/${totalSubstepsNum} status=${status}`);
-      const lowerStatus = status.toLowerCase();
-      if (lowerStatus === "completed" || lowerStatus === "done") {
-        publishJobEvent(jobId, "done", { message: description || "Completed", step: stepNum });
+      if (nextStatus === "completed") {
+        publishJobEvent(jobId, "done", { message: description || "Completed", step });
         // Update idea status
         if (job.ideaId) {
           await storage.updateIdeaStatus(job.ideaId, "Completed");
-          // Mark any remaining documents for this idea as completed
-          const docs = await storage.getDocumentsByIdeaId(job.ideaId);
+          // Mark any remaining documents for this idea as completed, upstream
+          // first so each records the revisions its sources finish the run with
+          const docs = (await storage.getDocumentsByIdeaId(job.ideaId))
+            .sort((a, b) => pipelinePosition(a.documentType) - pipelinePosition(b.documentType));
           for (const doc of docs) {
             if (doc.status !== "completed" && (doc.content || doc.contentSections)) {
               await storage.updateDocument(doc.id, { status: "completed" });
+              await recordGeneratedDocument(doc, job.id);
               console.log(`[webhook] Marked ${doc.documentType} document as completed (job done) for idea ${job.ideaId}`);
             }
           }
         }
-      } else if (lowerStatus === "failed" || lowerStatus === "error") {
-        publishJobEvent(jobId, "error", { message: description || "Generation failed" });
+      } else if (nextStatus === "failed" || nextStatus === "cancelled") {
+        if (nextStatus === "cancelled") {
+          publishJobEvent(jobId, "cancelled", { message: description || "Generation cancelled" });
+        } else {
+          publishJobEvent(jobId, "error", { message: description || "Generation failed" });
+        }
         if (job.ideaId) {
           await storage.updateIdeaStatus(job.ideaId, "Draft");
         }
       } else {
-        publishJobEvent(jobId, "progress", { message: description, step: stepNum, substep: substepNum, totalSubsteps: totalSubstepsNum });
+        publishJobEvent(jobId, "progress", { message: description ?? undefined, step, substep, totalSubsteps });
       }
 
       return res.status(200).json({ ok: true });
@@ -770,6 +1251,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // ==================== JOB ROUTES ====================
 
+  // Whether anvil-api is accepting generation requests, so the UI can say so up front
+  app.get("/api/generation/status", isAuthenticated, (_req, res) => {
+    res.status(200).json(getAnvilApiStatus());
+  });
+
+  // Recent generation runs for an idea, newest first, with the guidance each one was given
+  app.get("/api/ideas/:id/jobs", isAuthenticated, async (req, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const idea = await storage.getIdeaById(req.params.id, userId);
+      if (!idea || !(await getIdeaRole(idea, userId))) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      const jobs = await storage.getJobsByIdea(idea.id, 50, userId);
+      return res.status(200).json(jobs);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
   app.get("/api/jobs/:id", isAuthenticated, async (req, res, next) => {
     try {
       const jobId = req.params.id;
@@ -779,11 +1281,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Job not found" });
       }
 
-      if (job.userId !== req.user!.id) {
+      if (!(await getJobRole(job, req.user!.id))) {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
-      return res.status(200).json(job);
+      const events = await storage.getJobEvents(jobId, req.user!.id);
+      const jobWithTimeline: JobWithTimeline = { ...job, events, queuePosition: await getQueuePosition(job) };
+      return res.status(200).json(jobWithTimeline);
     } catch (error: any) {
       next(error);
     }
@@ -803,15 +1307,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Job not found" });
       }
 
-      if (job.userId !== req.user!.id) {
+      if (!hasWorkspaceRole(await getJobRole(job, req.user!.id), "editor")) {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
       const updates: Partial<UpdateJob> = {};
-      if (status) updates.status = status;
       if (description) updates.description = description;
 
-      await storage.updateJob(jobId, updates, req.user!.id);
+      if (status) {
+        const nextStatus = normalizeJobStatus(status);
+        if (!nextStatus) {
+          return res.status(400).json({ message: `Unknown job status: ${status}` });
+        }
+        await transitionJob(jobId, nextStatus, updates, req.user!.id);
+      } else {
+        await storage.updateJob(jobId, updates, req.user!.id);
+      }
       publishJobEvent(jobId, "status", { message: description || status });
 
       const updatedJob = await storage.getWorkflowJobById(jobId, req.user!.id);
@@ -821,6 +1332,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/jobs/:id/cancel", isAuthenticated, async (req, res, next) => {
+    try {
+      const jobId = req.params.id;
+
+      const job = await storage.getWorkflowJobById(jobId, req.user!.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      if (!hasWorkspaceRole(await getJobRole(job, req.user!.id), "editor")) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!isActiveJob(job)) {
+        return res.status(409).json({ message: `Job is already ${job.status}` });
+      }
+
+      const cancelledJob = await cancelJob(job, req.user!.id);
+      return res.status(200).json(cancelledJob);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
   app.post("/api/jobs/:id/progress", isAuthenticated, async (req, res, next) => {
     try {
       const jobId = req.params.id;
@@ -831,19 +1366,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Job not found" });
       }
 
-      if (job.userId !== req.user!.id) {
+      if (!hasWorkspaceRole(await getJobRole(job, req.user!.id), "editor")) {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
+      const nextStatus = progress?.status ? normalizeJobStatus(progress.status) : null;
+      if (progress?.status && !nextStatus) {
+        return res.status(400).json({ message: `Unknown job status: ${progress.status}` });
+      }
+
       const updates: Partial<UpdateJob> = {};
       if (progress) {
         updates.description = progress.description;
-        updates.status = progress.status;
       }
 
-      await storage.updateJob(jobId, updates, req.user!.id);
+      if (nextStatus) {
+        await transitionJob(jobId, nextStatus, updates, req.user!.id, {
+          step: typeof progress.step === "number" ? progress.step : undefined,
+          substep: typeof progress.substep === "number" ? progress.substep : undefined,
+          totalSubsteps: typeof progress.totalSubsteps === "number" ? progress.totalSubsteps : undefined,
+        });
+      } else {
+        await storage.updateJob(jobId, updates, req.user!.id);
+      }
 
-      const isCompleted = progress?.status?.toLowerCase() === 'completed';
+      const isCompleted = nextStatus === "completed";
       if (isCompleted) {
         publishJobEvent(jobId, "done", { message: progress?.description || "Completed" });
       } else {
@@ -929,31 +1476,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/email/config", isAuthenticated, async (req, res, next) => {
-    try {
-      const fromAddress = await emailService.getFromAddress();
-      return res.status(200).json({ fromAddress });
-    } catch (error: any) {
-      next(error);
-    }
-  });
-
-  app.post("/api/email/config", isAuthenticated, async (req, res, next) => {
-    try {
-      const { fromAddress } = req.body;
-      if (!fromAddress) {
-        return res.status(400).json({ message: "fromAddress is required" });
-      }
-      const success = await emailService.updateFromAddress(fromAddress);
-      if (success) {
-        return res.status(200).json({ message: "Email config updated" });
-      }
-      return res.status(500).json({ message: "Failed to update email config" });
-    } catch (error: any) {
-      next(error);
-    }
-  });
-
   app.post("/api/email/welcome", isAuthenticated, async (req, res, next) => {
     try {
       const { email, username } = req.body;
@@ -984,39 +1506,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ==================== SETTINGS ROUTES ====================
-
-  app.get("/api/settings", isAuthenticated, async (req, res, next) => {
-    try {
-      const settings = await storage.getAllSettings();
-      return res.status(200).json(settings);
-    } catch (error: any) {
-      next(error);
-    }
-  });
-
-  app.get("/api/settings/:key", isAuthenticated, async (req, res, next) => {
-    try {
-      const value = await storage.getSetting(req.params.key);
-      return res.status(200).json({ key: req.params.key, value });
-    } catch (error: any) {
-      next(error);
-    }
-  });
-
-  app.post("/api/settings", isAuthenticated, async (req, res, next) => {
-    try {
-      const { key, value } = req.body;
-      if (!key) {
-        return res.status(400).json({ message: "key is required" });
-      }
-      await storage.setSetting(key, value);
-      return res.status(200).json({ message: "Setting saved" });
-    } catch (error: any) {
-      next(error);
-    }
-  });
-
   // ==================== EMAIL VERIFICATION ROUTES ====================
 
   app.get("/api/verify-email", async (req, res, next) => {
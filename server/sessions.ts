@@ -0,0 +1,119 @@
+/**
+ * Signed-in session management: users can see where they're signed in and end
+ * any of those sessions, which also drops the sockets opened through them.
+ */
+import { Express, Request } from "express";
+import rateLimit from "express-rate-limit";
+import { storage, type StoredSession } from "./storage";
+import { isAuthenticated } from "./auth";
+import { disconnectSessionSockets } from "./socket";
+import { hashToken } from "./utils/auth-utils";
+import type { UserSessionInfo } from "@shared/schema";
+
+const sessionsLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (req) => req.method === "GET",
+  message: { message: "Too many requests, please try again later" },
+});
+
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+// Session ids work as bearer credentials, so the browser only ever sees a digest
+function publicSessionId(sid: string) {
+  return hashToken(sid).slice(0, 32);
+}
+
+function toSessionInfo(stored: StoredSession, currentSid: string): UserSessionInfo {
+  const { data } = stored;
+  return {
+    id: publicSessionId(stored.sid),
+    createdAt: data.createdAt ? new Date(data.createdAt) : null,
+    lastSeenAt: data.lastSeenAt ? new Date(data.lastSeenAt) : null,
+    expiresAt: stored.expiresAt,
+    ipAddress: data.ipAddress ?? null,
+    userAgent: data.userAgent ?? null,
+    current: stored.sid === currentSid,
+    impersonated: !!data.impersonatorId,
+  };
+}
+
+/**
+ * End sessions belonging to `userId` and disconnect their sockets. With
+ * `exceptSid` that session is kept; with `onlyPublicId` only the matching one
+ * is ended. Returns how many sessions were removed.
+ */
+export async function revokeUserSessions(
+  userId: string,
+  { exceptSid, onlyPublicId }: { exceptSid?: string; onlyPublicId?: string } = {},
+): Promise<number> {
+  const sids = (await storage.getUserSessions(userId))
+    .map(s => s.sid)
+    .filter(sid => sid !== exceptSid)
+    .filter(sid => !onlyPublicId || publicSessionId(sid) === onlyPublicId);
+
+  await storage.deleteSessions(sids);
+  disconnectSessionSockets(sids);
+  return sids.length;
+}
+
+export function setupSessionRoutes(app: Express) {
+  app.get("/api/user/sessions", isAuthenticated, sessionsLimiter, async (req, res, next) => {
+    try {
+      const sessions = (await storage.getUserSessions(req.user!.id))
+        .map(s => toSessionInfo(s, req.sessionID))
+        .sort((a, b) => Number(b.current) - Number(a.current)
+          || (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0));
+      return res.status(200).json(sessions);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  // Must be registered before DELETE /api/user/sessions/:id
+  app.delete("/api/user/sessions/others", isAuthenticated, sessionsLimiter, async (req, res, next) => {
+    try {
+      const revoked = await revokeUserSessions(req.user!.id, { exceptSid: req.sessionID });
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "account.sessions_revoke_others",
+        targetType: "user",
+        targetId: req.user!.id,
+        details: { revoked },
+        ipAddress: clientIp(req),
+      });
+      return res.status(200).json({ revoked });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/user/sessions/:id", isAuthenticated, sessionsLimiter, async (req, res, next) => {
+    try {
+      if (req.params.id === publicSessionId(req.sessionID)) {
+        return res.status(400).json({ message: "Sign out to end the session you're using" });
+      }
+
+      const revoked = await revokeUserSessions(req.user!.id, { exceptSid: req.sessionID, onlyPublicId: req.params.id });
+      if (revoked === 0) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "account.session_revoke",
+        targetType: "session",
+        targetId: req.params.id,
+        details: null,
+        ipAddress: clientIp(req),
+      });
+      return res.status(200).json({ revoked });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+}
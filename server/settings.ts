@@ -0,0 +1,172 @@
+/**
+ * Typed application settings. Only keys in settingDefinitions are accepted;
+ * values are checked against the definition's schema, global settings are
+ * limited to their required role and every global change is audited.
+ */
+import { Express, Request, Response } from "express";
+import rateLimit from "express-rate-limit";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { emailService } from "./email";
+import {
+  settingDefinitions,
+  settingUpdateSchema,
+  getSettingDefinition,
+  hasUserRole,
+  EMAIL_FROM_ADDRESS_SETTING,
+  type SettingDefinition,
+  type SettingScope,
+  type SettingValue,
+  type SettingValues,
+} from "@shared/schema";
+
+const settingsLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 60,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (req) => req.method === "GET",
+  message: { message: "Too many requests, please try again later" },
+});
+
+// Work a global setting needs beyond storing it, such as refreshing a cached copy
+const globalSettingAppliers: Record<string, (value: SettingValue) => void> = {
+  [EMAIL_FROM_ADDRESS_SETTING]: (value) => emailService.applyFromAddress(value as string),
+};
+
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+// Values are stored as text: booleans as "true"/"false", strings as they are
+function encodeSettingValue(value: SettingValue): string {
+  return typeof value === "boolean" ? String(value) : value;
+}
+
+function decodeSettingValue(definition: SettingDefinition, stored: string | null | undefined): SettingValue {
+  if (stored === null || stored === undefined) return definition.defaultValue;
+  return definition.type === "boolean" ? stored === "true" : stored;
+}
+
+function decodeAll(scope: SettingScope, stored: Record<string, string>, role: string): SettingValues {
+  const values: SettingValues = {};
+  for (const definition of settingDefinitions) {
+    if (definition.scope === scope && hasUserRole(role, definition.requiredRole)) {
+      values[definition.key] = decodeSettingValue(definition, stored[definition.key]);
+    }
+  }
+  return values;
+}
+
+/** A global setting's value, or its default when it has never been set. */
+export async function getGlobalSetting(key: string): Promise<SettingValue> {
+  const definition = getSettingDefinition("global", key);
+  if (!definition) throw new Error(`Unknown setting: ${key}`);
+  return decodeSettingValue(definition, await storage.getSetting(key));
+}
+
+/** One of `userId`'s preferences, or its default when they haven't chosen. */
+export async function getUserPreference(userId: string, key: string): Promise<SettingValue> {
+  const definition = getSettingDefinition("user", key);
+  if (!definition) throw new Error(`Unknown preference: ${key}`);
+  return decodeSettingValue(definition, (await storage.getUserPreferences(userId))[key]);
+}
+
+/**
+ * Validate a new value for the `scope` setting named in the request. Responds
+ * and returns undefined when the key is unknown, off limits or the value is invalid.
+ */
+function parseSettingUpdate(req: Request, res: Response, scope: SettingScope) {
+  const definition = getSettingDefinition(scope, req.params.key);
+  if (!definition || !hasUserRole(req.user!.role, definition.requiredRole)) {
+    res.status(404).json({ message: "Setting not found" });
+    return undefined;
+  }
+
+  const body = settingUpdateSchema.safeParse(req.body);
+  const parsed = definition.schema.safeParse(body.success ? body.data.value : undefined);
+  if (!parsed.success) {
+    res.status(400).json({
+      message: "Validation error",
+      errors: { value: parsed.error.issues.map(issue => issue.message) },
+    });
+    return undefined;
+  }
+  return { definition, value: parsed.data as SettingValue };
+}
+
+export function setupSettingsRoutes(app: Express) {
+  // Global settings the signed-in user's role may see
+  app.get("/api/settings", isAuthenticated, async (req, res, next) => {
+    try {
+      const stored = await storage.getAllSettings();
+      return res.status(200).json(decodeAll("global", stored, req.user!.role));
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.get("/api/settings/:key", isAuthenticated, async (req, res, next) => {
+    try {
+      const definition = getSettingDefinition("global", req.params.key);
+      if (!definition || !hasUserRole(req.user!.role, definition.requiredRole)) {
+        return res.status(404).json({ message: "Setting not found" });
+      }
+      const value = decodeSettingValue(definition, await storage.getSetting(definition.key));
+      return res.status(200).json({ key: definition.key, value });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.put("/api/settings/:key", isAuthenticated, settingsLimiter, async (req, res, next) => {
+    try {
+      // Global settings affect every user, whatever role a definition names for reading them
+      if (req.user!.role !== "superadmin") {
+        return res.status(403).json({ message: "Forbidden: superadmin role required" });
+      }
+      const update = parseSettingUpdate(req, res, "global");
+      if (!update) return;
+      const { definition, value } = update;
+
+      const previous = decodeSettingValue(definition, await storage.getSetting(definition.key));
+      await storage.setSetting(definition.key, encodeSettingValue(value));
+      globalSettingAppliers[definition.key]?.(value);
+
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "settings.update",
+        targetType: "setting",
+        targetId: definition.key,
+        details: { from: previous, to: value },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ key: definition.key, value });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.get("/api/user/preferences", isAuthenticated, async (req, res, next) => {
+    try {
+      const stored = await storage.getUserPreferences(req.user!.id);
+      return res.status(200).json(decodeAll("user", stored, req.user!.role));
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.put("/api/user/preferences/:key", isAuthenticated, settingsLimiter, async (req, res, next) => {
+    try {
+      const update = parseSettingUpdate(req, res, "user");
+      if (!update) return;
+      const { definition, value } = update;
+
+      await storage.setUserPreference(req.user!.id, definition.key, encodeSettingValue(value));
+      return res.status(200).json({ key: definition.key, value });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,263 @@
+/**
+ * Share links: read-only public access to an idea (or one of its documents)
+ * for people without an account. Idea owners and workspace editors create, list
+ * and revoke links; anyone holding a valid token can view the shared content,
+ * and every view is audited.
+ */
+import { Express, Request, Response } from "express";
+import rateLimit from "express-rate-limit";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAuthenticated, hashPassword, comparePasswords } from "./auth";
+import { fetchProjectWorkflows } from "./supabase";
+import { canEditIdea } from "./workspaces";
+import type { ShareLink, ShareLinkSummary, SharedIdeaContent } from "@shared/schema";
+
+const publicShareLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 60,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: "Too many requests, please try again later" },
+});
+
+const createShareLinkSchema = z.object({
+  documentId: z.string().uuid().nullish(),
+  expiresAt: z.coerce.date().nullish(),
+  password: z.string().min(4).max(128).nullish(),
+});
+
+const unlockShareLinkSchema = z.object({
+  password: z.string().min(1),
+});
+
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+function buildShareUrl(req: Request, token: string) {
+  const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+  return `${baseUrl}/share/${token}`;
+}
+
+function toSummary(req: Request, link: ShareLink): ShareLinkSummary {
+  const { passwordHash, ...rest } = link;
+  return { ...rest, hasPassword: !!passwordHash, url: buildShareUrl(req, link.token) };
+}
+
+/** Why a link can no longer be used, or null if it is live. */
+function unavailableReason(link: ShareLink): string | null {
+  if (link.revokedAt) return "This link has been revoked";
+  if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) return "This link has expired";
+  return null;
+}
+
+async function loadSharedContent(link: ShareLink): Promise<SharedIdeaContent | null> {
+  const idea = await storage.getIdeaById(link.ideaId);
+  if (!idea) return null;
+
+  const allDocuments = await storage.getDocumentsByIdeaId(link.ideaId);
+  const documents = allDocuments
+    .filter(doc => !link.documentId || doc.id === link.documentId)
+    .filter(doc => doc.content || doc.contentSections);
+
+  // Diagrams are only part of whole-idea shares and shares of the Workflows document
+  let mermaidCode: string | null = null;
+  if (!link.documentId || documents.some(doc => doc.documentType === "Workflows")) {
+    try {
+      const workflow = await fetchProjectWorkflows(link.ideaId);
+      mermaidCode = workflow?.mermaid_code || null;
+    } catch (error) {
+      console.warn(`[share] Could not load workflow diagrams for idea ${link.ideaId}:`, error);
+    }
+  }
+
+  return {
+    title: idea.title || idea.companyName || idea.description.split(" ").slice(0, 5).join(" "),
+    companyName: idea.companyName,
+    founderName: idea.founderName,
+    expiresAt: link.expiresAt ? link.expiresAt.toISOString() : null,
+    documents: documents.map(doc => ({
+      id: doc.id,
+      documentType: doc.documentType,
+      content: doc.content,
+      contentSections: doc.contentSections,
+    })),
+    mermaidCode,
+  };
+}
+
+async function serveSharedContent(req: Request, res: Response, link: ShareLink) {
+  const content = await loadSharedContent(link);
+  if (!content) {
+    return res.status(404).json({ message: "Shared content not found" });
+  }
+
+  await storage.recordShareLinkView(link.id);
+  await storage.createAuditLog({
+    actorId: req.user?.id ?? null,
+    action: "share.view",
+    targetType: "share_link",
+    targetId: link.id,
+    details: { ideaId: link.ideaId, documentId: link.documentId },
+    ipAddress: clientIp(req),
+  });
+
+  return res.status(200).json(content);
+}
+
+export function setupShareRoutes(app: Express) {
+  // ==================== OWNER ROUTES ====================
+
+  app.get("/api/ideas/:id/shares", isAuthenticated, async (req, res, next) => {
+    try {
+      const idea = await storage.getIdeaById(req.params.id, req.user!.id);
+      if (!idea || !(await canEditIdea(idea, req.user!.id))) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      const links = await storage.getShareLinksByIdea(idea.id, req.user!.id);
+      return res.status(200).json(links.map(link => toSummary(req, link)));
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.post("/api/ideas/:id/shares", isAuthenticated, async (req, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const idea = await storage.getIdeaById(req.params.id, userId);
+      if (!idea) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+      if (!(await canEditIdea(idea, userId))) {
+        return res.status(403).json({ message: "You have view-only access to this idea" });
+      }
+
+      const parsed = createShareLinkSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      const { documentId, expiresAt, password } = parsed.data;
+
+      if (documentId) {
+        const document = await storage.getDocumentById(documentId, userId);
+        if (!document || document.ideaId !== idea.id) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+      }
+      if (expiresAt && expiresAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "Expiry must be in the future" });
+      }
+
+      const link = await storage.createShareLink({
+        ideaId: idea.id,
+        userId,
+        documentId: documentId ?? null,
+        token: randomBytes(24).toString("base64url"),
+        passwordHash: password ? await hashPassword(password) : null,
+        expiresAt: expiresAt ?? null,
+      }, userId);
+
+      await storage.createAuditLog({
+        actorId: userId,
+        action: "share.create",
+        targetType: "share_link",
+        targetId: link.id,
+        details: { ideaId: idea.id, documentId: link.documentId, expiresAt: link.expiresAt, hasPassword: !!password },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(201).json(toSummary(req, link));
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/ideas/:id/shares/:shareId", isAuthenticated, async (req, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const idea = await storage.getIdeaById(req.params.id, userId);
+      if (!idea) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+      if (!(await canEditIdea(idea, userId))) {
+        return res.status(403).json({ message: "You have view-only access to this idea" });
+      }
+
+      const link = await storage.getShareLinkById(req.params.shareId, userId);
+      if (!link || link.ideaId !== idea.id) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      if (!link.revokedAt) {
+        await storage.revokeShareLink(link.id, userId);
+        await storage.createAuditLog({
+          actorId: userId,
+          action: "share.revoke",
+          targetType: "share_link",
+          targetId: link.id,
+          details: { ideaId: link.ideaId, documentId: link.documentId },
+          ipAddress: clientIp(req),
+        });
+      }
+
+      return res.status(200).json({ message: "Share link revoked" });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  // ==================== PUBLIC ROUTES ====================
+
+  app.get("/api/public/shares/:token", publicShareLimiter, async (req, res, next) => {
+    try {
+      const link = await storage.getShareLinkByToken(req.params.token);
+      if (!link) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      const reason = unavailableReason(link);
+      if (reason) {
+        return res.status(410).json({ message: reason });
+      }
+
+      if (link.passwordHash) {
+        return res.status(401).json({ message: "This link is password protected", requiresPassword: true });
+      }
+
+      return serveSharedContent(req, res, link);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.post("/api/public/shares/:token", publicShareLimiter, async (req, res, next) => {
+    try {
+      const link = await storage.getShareLinkByToken(req.params.token);
+      if (!link) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      const reason = unavailableReason(link);
+      if (reason) {
+        return res.status(410).json({ message: reason });
+      }
+
+      if (link.passwordHash) {
+        const parsed = unlockShareLinkSchema.safeParse(req.body);
+        if (!parsed.success || !(await comparePasswords(parsed.data.password, link.passwordHash))) {
+          return res.status(401).json({ message: "Incorrect password", requiresPassword: true });
+        }
+      }
+
+      return serveSharedContent(req, res, link);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+}
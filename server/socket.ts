@@ -2,10 +2,16 @@ import { Server as HttpServer } from "http";
 import { Server } from "socket.io";
 import type { RequestHandler } from "express";
 import { storage } from "./storage";
+import { needsTwoFactorEnrolment } from "./auth";
+import { getJobRole } from "./workspaces";
 import { log } from "./vite";
 
 let io: Server | null = null;
 
+function sessionRoom(sid: string) {
+  return `session:${sid}`;
+}
+
 export function setupSocketIO(httpServer: HttpServer, sessionMiddleware: RequestHandler) {
   io = new Server(httpServer, {
     path: "/socket.io",
@@ -14,15 +20,32 @@ export function setupSocketIO(httpServer: HttpServer, sessionMiddleware: Request
   // Share express-session so socket connections are authenticated via the same cookie
   io.engine.use(sessionMiddleware);
 
-  io.on("connection", (socket) => {
+  // Only fully signed-in sessions may connect: a session still waiting on its
+  // second factor has no passport user, and superadmins who owe two-factor
+  // enrolment are refused until they complete it
+  io.use(async (socket, next) => {
     const session = (socket.request as any).session;
-    const userId = session?.passport?.user;
+    const userId: string | undefined = session?.passport?.user;
 
-    if (!userId) {
-      log("Socket rejected: unauthenticated", "socket.io");
-      socket.disconnect(true);
-      return;
+    try {
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user || user.disabledAt || await needsTwoFactorEnrolment(user)) {
+        log("Socket rejected: unauthenticated", "socket.io");
+        return next(new Error("Unauthorized"));
+      }
+      next();
+    } catch (err) {
+      log(`Socket handshake error: ${err}`, "socket.io");
+      next(new Error("Unauthorized"));
     }
+  });
+
+  io.on("connection", (socket) => {
+    const session = (socket.request as any).session;
+    const userId: string = session.passport.user;
+
+    // Lets a revoked session's sockets be found and dropped
+    socket.join(sessionRoom(session.id));
 
     log(`Socket connected: user=${userId} sid=${socket.id}`, "socket.io");
 
@@ -37,7 +60,8 @@ export function setupSocketIO(httpServer: HttpServer, sessionMiddleware: Request
       const jobId = match[1];
       try {
         const job = await storage.getWorkflowJobById(jobId);
-        if (!job || job.userId !== userId) {
+        // Anyone who can view the idea, e.g. workspace teammates, may follow its jobs
+        if (!job || !(await getJobRole(job, userId))) {
           socket.emit("error", { message: "Unauthorized channel" });
           return;
         }
@@ -65,7 +89,7 @@ export function setupSocketIO(httpServer: HttpServer, sessionMiddleware: Request
 
 export function publishJobEvent(
   jobId: string,
-  type: "status" | "progress" | "log" | "done" | "error",
+  type: "status" | "progress" | "log" | "done" | "error" | "cancelled",
   data: { message?: string; progress?: number; step?: number; substep?: number; totalSubsteps?: number }
 ) {
   if (!io) return;
@@ -80,3 +104,9 @@ export function publishJobEvent(
 
   io.to(channel).emit("job:event", event);
 }
+
+/** Drop every socket connected through one of the given sessions. */
+export function disconnectSessionSockets(sids: string[]) {
+  if (!io || sids.length === 0) return;
+  io.in(sids.map(sessionRoom)).disconnectSockets(true);
+}
@@ -1,25 +1,74 @@
 import {
-  users, ideas, documents, appSettings, auditLogs,
-  type User, type InsertUser,
+  users, ideas, documents, documentVersions, appSettings, userPreferences, auditLogs,
+  type User, type InsertUser, type UserRole,
+  type AdminUserFilters, type AdminUserPage, type AdminUserSummary,
+  workspaces, workspaceMembers, workspaceInvitations,
+  type Workspace, type WorkspaceRole, type WorkspaceWithRole,
+  type WorkspaceMember, type InsertWorkspaceMember, type WorkspaceMemberWithUser,
+  type WorkspaceInvitation, type InsertWorkspaceInvitation,
   type Idea, type InsertIdea,
   type IdeaStatus, type DocumentType,
   type AppSetting,
   type Document, type InsertDocument, type UpdateDocument,
-  type LeanCanvasContent,
-  jobs, type Job, type InsertJob, type UpdateJob,
-  type AuditLog, type InsertAuditLog
+  type DocumentVersion, type InsertDocumentVersion,
+  type LeanCanvasContent, type SourceRevisions,
+  jobs, type Job, type InsertJob, type UpdateJob, dispatchedJobStatuses,
+  jobEvents, type JobEvent, type InsertJobEvent,
+  jobBatches, type JobBatch, type InsertJobBatch, type BatchJob,
+  shareLinks, type ShareLink, type InsertShareLink,
+  comments, type Comment, type InsertComment, type CommentWithAuthor,
+  apiTokens, type ApiToken, type InsertApiToken, type ApiTokenScope,
+  type AuditLog, type InsertAuditLog, type AuditLogWithActor, type AuditLogFilters, type AuditLogCursor
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, or, asc, desc, max, inArray, lt, gte, lte, sql, isNull, isNotNull, ilike, like, count } from "drizzle-orm";
 import { db, pool } from "./db";
 import { v4 as uuidv4 } from "uuid";
 import { withRLS } from "./db-security";
+import { withImpersonator } from "./request-context";
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
+// Retries when a concurrent snapshot takes the version number first
+const MAX_VERSION_NUMBER_ATTEMPTS = 5;
+
+type CommentUpdate = Partial<Pick<Comment, "body" | "mentions" | "resolvedAt" | "resolvedBy">>;
+
+// A signed-in session as kept by the session store
+export interface StoredSession {
+  sid: string;
+  data: session.SessionData;
+  expiresAt: Date;
+}
+
+/** Escape LIKE wildcards in user input. */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, c => `\\${c}`);
+}
+
+/** Remove an idea and everything hanging off it, inside the caller's transaction. */
+async function deleteIdeaRows(tx: typeof db, id: string): Promise<void> {
+  // Delete share links, comments, version history and related documents first (documents.job_id references jobs.id)
+  await tx.delete(shareLinks).where(eq(shareLinks.ideaId, id));
+  await tx.delete(comments).where(eq(comments.ideaId, id));
+  await tx.delete(documentVersions).where(eq(documentVersions.ideaId, id));
+  await tx.delete(documents).where(eq(documents.ideaId, id));
+  // Then delete related jobs and their event history
+  const ideaJobs = await tx.select({ id: jobs.id }).from(jobs).where(eq(jobs.ideaId, id));
+  if (ideaJobs.length > 0) {
+    await tx.delete(jobEvents).where(inArray(jobEvents.jobId, ideaJobs.map(j => j.id)));
+  }
+  await tx.delete(jobs).where(eq(jobs.ideaId, id));
+  // Delete the idea
+  const deleted = await tx.delete(ideas).where(eq(ideas.id, id)).returning();
+  if (deleted.length === 0) {
+    throw new Error(`No idea found with id ${id} to delete`);
+  }
+}
+
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
@@ -27,11 +76,37 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
 
+  // Superadmin user management
+  listUsers(filters: AdminUserFilters): Promise<AdminUserPage>;
+  setUserDisabled(id: string, disabled: boolean): Promise<User | undefined>;
+  setUserRole(id: string, role: UserRole): Promise<User | undefined>;
+  deleteUser(id: string): Promise<void>;
+
   // Audit log operations
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filters: AuditLogFilters, cursor: AuditLogCursor | null, limit: number): Promise<AuditLogWithActor[]>;
+
+  // Workspace operations
+  createWorkspace(name: string, ownerId: string): Promise<Workspace>;
+  getWorkspaceById(id: string): Promise<Workspace | undefined>;
+  getWorkspacesForUser(userId: string): Promise<WorkspaceWithRole[]>;
+  updateWorkspace(id: string, updates: { name: string }): Promise<void>;
+  deleteWorkspace(id: string): Promise<void>;
+  getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined>;
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]>;
+  addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember>;
+  updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void>;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<void>;
+  createWorkspaceInvitation(invitation: InsertWorkspaceInvitation): Promise<WorkspaceInvitation>;
+  getPendingWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitation[]>;
+  getWorkspaceInvitationById(id: string): Promise<WorkspaceInvitation | undefined>;
+  getWorkspaceInvitationByToken(token: string): Promise<WorkspaceInvitation | undefined>;
+  acceptWorkspaceInvitation(id: string, userId: string): Promise<WorkspaceMember>;
+  deleteWorkspaceInvitation(id: string): Promise<void>;
 
   // Idea operations
   getIdeasByUser(userId: string): Promise<Idea[]>;
+  getIdeasByWorkspace(workspaceId: string, requestingUserId?: string): Promise<Idea[]>;
   getIdeaById(id: string, requestingUserId?: string): Promise<Idea | undefined>;
   createIdea(idea: InsertIdea & { userId: string }): Promise<Idea>;
   updateIdea(id: string, updates: Partial<Idea>, requestingUserId?: string): Promise<void>;
@@ -44,24 +119,94 @@ export interface IStorage {
   getDocumentByType(ideaId: string, documentType: DocumentType | string, requestingUserId?: string): Promise<Document | undefined>;
   createDocument(document: InsertDocument, requestingUserId?: string): Promise<Document>;
   updateDocument(id: string, updates: Partial<UpdateDocument>, requestingUserId?: string): Promise<void>;
+  markDocumentGenerated(id: string, sourceRevisions: SourceRevisions, jobId: string): Promise<void>;
   deleteDocument(id: string, requestingUserId?: string): Promise<void>;
 
+  // Document version history
+  createDocumentVersion(version: InsertDocumentVersion, requestingUserId?: string): Promise<DocumentVersion>;
+  getDocumentVersions(documentId: string, requestingUserId?: string): Promise<DocumentVersion[]>;
+  getDocumentVersionById(id: string, requestingUserId?: string): Promise<DocumentVersion | undefined>;
+
+  // Share link operations
+  createShareLink(link: InsertShareLink, requestingUserId?: string): Promise<ShareLink>;
+  getShareLinksByIdea(ideaId: string, requestingUserId?: string): Promise<ShareLink[]>;
+  getShareLinkById(id: string, requestingUserId?: string): Promise<ShareLink | undefined>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  revokeShareLink(id: string, requestingUserId?: string): Promise<void>;
+  recordShareLinkView(id: string): Promise<void>;
+
+  // Comment operations
+  createComment(comment: InsertComment): Promise<Comment>;
+  getCommentById(id: string): Promise<Comment | undefined>;
+  getCommentsByIdea(ideaId: string): Promise<CommentWithAuthor[]>;
+  updateComment(id: string, updates: CommentUpdate): Promise<Comment | undefined>;
+  deleteComment(id: string): Promise<void>;
+
   // Job operations
   createJob(job: InsertJob): Promise<Job>;
   updateJob(id: string, updates: Partial<UpdateJob>, requestingUserId?: string): Promise<void>;
   getWorkflowJobById(id: string, requestingUserId?: string): Promise<Job | null>;
   getLatestWorkflowJob(ideaId: string, requestingUserId?: string, documentType?: string): Promise<Job | null>;
+  getJobsByIdea(ideaId: string, limit: number, requestingUserId?: string): Promise<Job[]>;
+  getStaleActiveJobs(updatedBefore: Date): Promise<Job[]>;
+  // Generation queue: waiting jobs in dispatch order, jobs handed to anvil-api,
+  // and an atomic queued → pending move that only one dispatcher can win
+  getQueuedJobs(): Promise<Job[]>;
+  getDispatchedJobs(): Promise<Job[]>;
+  claimQueuedJob(id: string): Promise<Job | undefined>;
+  createJobEvent(event: InsertJobEvent): Promise<JobEvent>;
+  getJobEvents(jobId: string, requestingUserId?: string): Promise<JobEvent[]>;
+  // Batches group the jobs started for several ideas at once
+  createJobBatch(batch: InsertJobBatch): Promise<JobBatch>;
+  getJobBatch(id: string): Promise<JobBatch | undefined>;
+  getJobBatchesByUser(userId: string, limit: number): Promise<JobBatch[]>;
+  getBatchJobs(batchId: string): Promise<BatchJob[]>;
 
   // App Settings operations
   getSetting(key: string): Promise<string | null>;
   setSetting(key: string, value: string): Promise<void>;
   getAllSettings(): Promise<Record<string, string>>;
 
+  // Per-user preferences, stored encoded like app settings
+  getUserPreferences(userId: string): Promise<Record<string, string>>;
+  setUserPreference(userId: string, key: string, value: string): Promise<void>;
+
   // Email verification
   setVerificationToken(userId: string, token: string, expiryDate: Date): Promise<void>;
   verifyEmail(userId: string, token: string): Promise<boolean>;
   isEmailVerified(userId: string): Promise<boolean>;
 
+  // Password reset and email change (tokens are passed in already hashed)
+  setPasswordResetToken(userId: string, tokenHash: string, expiryDate: Date): Promise<void>;
+  getUserByPasswordResetToken(tokenHash: string): Promise<User | undefined>;
+  resetPassword(userId: string, hashedPassword: string): Promise<void>;
+  setEmailChangeRequest(userId: string, pendingEmail: string, tokenHash: string, expiryDate: Date): Promise<void>;
+  confirmEmailChange(userId: string, tokenHash: string): Promise<User | undefined>;
+
+  // Two-factor authentication (recovery codes are passed in already hashed)
+  enableTwoFactor(userId: string, secret: string, recoveryCodeHashes: string[]): Promise<void>;
+  disableTwoFactor(userId: string): Promise<void>;
+  replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  recordTotpStep(userId: string, step: number): Promise<boolean>;
+
+  // Login failure tracking and lockout
+  // Failures from before `windowStart` are forgotten and counting starts again at 1
+  recordFailedLogin(userId: string, windowStart: Date): Promise<User | undefined>;
+  lockUser(userId: string, until: Date): Promise<void>;
+  resetLoginFailures(userId: string): Promise<void>;
+
+  // Personal API tokens (looked up by the hash of the raw token)
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokensByUser(userId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  deleteApiToken(id: string, userId: string): Promise<boolean>;
+  touchApiToken(id: string): Promise<void>;
+
+  // Signed-in sessions, read and removed straight from the session store
+  getUserSessions(userId: string): Promise<StoredSession[]>;
+  deleteSessions(sids: string[]): Promise<void>;
+
   // Session store
   sessionStore: any;
 }
@@ -82,6 +227,24 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // connect-pg-simple keeps each session as JSON in its own "session" table
+  async getUserSessions(userId: string): Promise<StoredSession[]> {
+    const result = await db.execute(sql`
+      select sid, sess, expire from session
+      where sess -> 'passport' ->> 'user' = ${userId} and expire > now()`);
+    return (result.rows as { sid: string; sess: session.SessionData; expire: string | Date }[]).map(row => ({
+      sid: row.sid,
+      data: row.sess,
+      expiresAt: new Date(row.expire),
+    }));
+  }
+
+  async deleteSessions(sids: string[]): Promise<void> {
+    if (sids.length === 0) return;
+    // Bind the ids as one text[] parameter; an interpolated array expands to a list
+    await db.execute(sql`delete from session where sid = any(${sql.param(sids)}::text[])`);
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.username, username));
     return user;
@@ -92,11 +255,274 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async listUsers(filters: AdminUserFilters): Promise<AdminUserPage> {
+    const conditions = [];
+    if (filters.search) {
+      const pattern = `%${escapeLike(filters.search)}%`;
+      conditions.push(or(ilike(users.username, pattern), ilike(users.email, pattern)));
+    }
+    if (filters.role) {
+      conditions.push(eq(users.role, filters.role));
+    }
+    if (filters.status) {
+      conditions.push(filters.status === "disabled" ? isNotNull(users.disabledAt) : isNull(users.disabledAt));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db.select({ total: count() }).from(users).where(where);
+    const rows = await db.select({
+      id: users.id,
+      username: users.username,
+      email: users.email,
+      role: users.role,
+      emailVerified: users.emailVerified,
+      pendingEmail: users.pendingEmail,
+      disabledAt: users.disabledAt,
+      totpEnabledAt: users.totpEnabledAt,
+      lockedUntil: users.lockedUntil,
+      ideaCount: sql<number>`(select count(*) from ${ideas} where ${ideas.userId} = ${users.id})::int`,
+    })
+      .from(users)
+      .where(where)
+      .orderBy(users.username)
+      .limit(filters.limit)
+      .offset(filters.offset);
+
+    return { users: rows, total };
+  }
+
+  async setUserDisabled(id: string, disabled: boolean): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ disabledAt: disabled ? new Date() : null })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async setUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const [user] = await db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  /**
+   * Delete a user with their personal ideas and the workspaces they own.
+   * Ideas they created in other people's workspaces pass to the workspace
+   * owner, and anything they authored on surviving ideas is reassigned to
+   * the idea's owner so team history stays intact.
+   */
+  async deleteUser(id: string): Promise<void> {
+    await db.transaction(async (transaction) => {
+      const tx = transaction as unknown as typeof db;
+      const ownedWorkspaceIds = (await tx.select({ id: workspaces.id }).from(workspaces)
+        .where(eq(workspaces.ownerId, id))).map(w => w.id);
+
+      const doomedIdeas = await tx.select({ id: ideas.id }).from(ideas).where(
+        ownedWorkspaceIds.length > 0
+          ? or(and(eq(ideas.userId, id), isNull(ideas.workspaceId)), inArray(ideas.workspaceId, ownedWorkspaceIds))
+          : and(eq(ideas.userId, id), isNull(ideas.workspaceId)),
+      );
+      for (const idea of doomedIdeas) {
+        await deleteIdeaRows(tx, idea.id);
+      }
+
+      await tx.execute(sql`
+        update ${ideas} set user_id = ${workspaces.ownerId}
+        from ${workspaces}
+        where ${ideas.workspaceId} = ${workspaces.id} and ${ideas.userId} = ${id}`);
+      for (const table of [documents, documentVersions, jobs]) {
+        await tx.execute(sql`
+          update ${table} set user_id = ${ideas.userId}
+          from ${ideas}
+          where ${table}.idea_id = ${ideas.id} and ${table}.user_id = ${id}`);
+      }
+      await tx.execute(sql`
+        update ${jobEvents} set user_id = ${jobs.userId}
+        from ${jobs}
+        where ${jobEvents.jobId} = ${jobs.id} and ${jobEvents.userId} = ${id}`);
+
+      await tx.update(comments).set({ resolvedBy: null }).where(eq(comments.resolvedBy, id));
+      const authored = await tx.select({ id: comments.id }).from(comments).where(eq(comments.userId, id));
+      if (authored.length > 0) {
+        const authoredIds = authored.map(c => c.id);
+        await tx.delete(comments).where(inArray(comments.parentId, authoredIds));
+        await tx.delete(comments).where(inArray(comments.id, authoredIds));
+      }
+      await tx.delete(shareLinks).where(eq(shareLinks.userId, id));
+      await tx.delete(apiTokens).where(eq(apiTokens.userId, id));
+      // Jobs outlive their batch (batch_id is set null)
+      await tx.delete(jobBatches).where(eq(jobBatches.userId, id));
+      await tx.delete(userPreferences).where(eq(userPreferences.userId, id));
+      await tx.delete(workspaceInvitations).where(eq(workspaceInvitations.invitedBy, id));
+      await tx.delete(workspaceMembers).where(eq(workspaceMembers.userId, id));
+      if (ownedWorkspaceIds.length > 0) {
+        // Members and invitations cascade
+        await tx.delete(workspaces).where(inArray(workspaces.id, ownedWorkspaceIds));
+      }
+      await tx.delete(users).where(eq(users.id, id));
+    });
+  }
+
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
-    const [entry] = await db.insert(auditLogs).values(log).returning();
+    const [entry] = await db.insert(auditLogs).values(withImpersonator(log)).returning();
     return entry;
   }
 
+  async getAuditLogs(filters: AuditLogFilters, cursor: AuditLogCursor | null, limit: number): Promise<AuditLogWithActor[]> {
+    // Cursors carry JS dates, so compare at millisecond precision
+    const createdAtMs = sql`date_trunc('milliseconds', ${auditLogs.createdAt})`;
+    const conditions = [];
+    if (filters.actorId) conditions.push(eq(auditLogs.actorId, filters.actorId));
+    if (filters.action) {
+      conditions.push(or(eq(auditLogs.action, filters.action), like(auditLogs.action, `${escapeLike(filters.action)}.%`)));
+    }
+    if (filters.targetType) conditions.push(eq(auditLogs.targetType, filters.targetType));
+    if (filters.targetId) conditions.push(eq(auditLogs.targetId, filters.targetId));
+    if (filters.from) conditions.push(gte(auditLogs.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLogs.createdAt, filters.to));
+    if (cursor) {
+      conditions.push(or(
+        sql`${createdAtMs} < ${cursor.createdAt}`,
+        and(sql`${createdAtMs} = ${cursor.createdAt}`, lt(auditLogs.id, cursor.id)),
+      ));
+    }
+
+    const rows = await db.select({ log: auditLogs, actorUsername: users.username })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.actorId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(createdAtMs), desc(auditLogs.id))
+      .limit(limit);
+    return rows.map(({ log, actorUsername }) => ({ ...log, actorUsername }));
+  }
+
+  // Workspace operations. Membership is checked by the routes; these run on
+  // the backend connection because RLS policies themselves depend on it.
+  async createWorkspace(name: string, ownerId: string): Promise<Workspace> {
+    return db.transaction(async (tx) => {
+      const [workspace] = await tx.insert(workspaces).values({ name, ownerId }).returning();
+      await tx.insert(workspaceMembers).values({ workspaceId: workspace.id, userId: ownerId, role: "owner" });
+      return workspace;
+    });
+  }
+
+  async getWorkspaceById(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async getWorkspacesForUser(userId: string): Promise<WorkspaceWithRole[]> {
+    try {
+      const rows = await db.select({ workspace: workspaces, role: workspaceMembers.role })
+        .from(workspaceMembers)
+        .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+        .where(eq(workspaceMembers.userId, userId))
+        .orderBy(workspaces.name);
+      if (rows.length === 0) return [];
+
+      const counts = await db.select({ workspaceId: workspaceMembers.workspaceId, total: count() })
+        .from(workspaceMembers)
+        .where(inArray(workspaceMembers.workspaceId, rows.map(r => r.workspace.id)))
+        .groupBy(workspaceMembers.workspaceId);
+      const countById = new Map(counts.map(c => [c.workspaceId, Number(c.total)]));
+
+      return rows.map(({ workspace, role }) => ({
+        ...workspace,
+        role: role as WorkspaceRole,
+        memberCount: countById.get(workspace.id) ?? 1,
+      }));
+    } catch (error) {
+      console.error(`Error retrieving workspaces for user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  async updateWorkspace(id: string, updates: { name: string }): Promise<void> {
+    await db.update(workspaces)
+      .set({ name: updates.name, updatedAt: new Date() })
+      .where(eq(workspaces.id, id));
+  }
+
+  async deleteWorkspace(id: string): Promise<void> {
+    // Members and invitations cascade
+    await db.delete(workspaces).where(eq(workspaces.id, id));
+  }
+
+  async getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await db.select().from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member;
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]> {
+    const rows = await db.select({ member: workspaceMembers, username: users.username, email: users.email })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(workspaceMembers.createdAt);
+    return rows.map(({ member, username, email }) => ({ ...member, username, email }));
+  }
+
+  async addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const [created] = await db.insert(workspaceMembers).values(member).returning();
+    return created;
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+    await db.update(workspaceMembers)
+      .set({ role })
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+    await db.delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  }
+
+  async createWorkspaceInvitation(invitation: InsertWorkspaceInvitation): Promise<WorkspaceInvitation> {
+    const [created] = await db.insert(workspaceInvitations).values(invitation).returning();
+    return created;
+  }
+
+  async getPendingWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+    return db.select().from(workspaceInvitations)
+      .where(and(eq(workspaceInvitations.workspaceId, workspaceId), isNull(workspaceInvitations.acceptedAt)))
+      .orderBy(desc(workspaceInvitations.createdAt));
+  }
+
+  async getWorkspaceInvitationById(id: string): Promise<WorkspaceInvitation | undefined> {
+    const [invitation] = await db.select().from(workspaceInvitations).where(eq(workspaceInvitations.id, id));
+    return invitation;
+  }
+
+  async getWorkspaceInvitationByToken(token: string): Promise<WorkspaceInvitation | undefined> {
+    const [invitation] = await db.select().from(workspaceInvitations).where(eq(workspaceInvitations.token, token));
+    return invitation;
+  }
+
+  async acceptWorkspaceInvitation(id: string, userId: string): Promise<WorkspaceMember> {
+    return db.transaction(async (tx) => {
+      const [invitation] = await tx.update(workspaceInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(and(eq(workspaceInvitations.id, id), isNull(workspaceInvitations.acceptedAt)))
+        .returning();
+      if (!invitation) {
+        throw new Error(`Invitation ${id} has already been accepted`);
+      }
+      const [member] = await tx.insert(workspaceMembers)
+        .values({ workspaceId: invitation.workspaceId, userId, role: invitation.role })
+        .onConflictDoUpdate({
+          target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+          set: { role: invitation.role },
+        })
+        .returning();
+      return member;
+    });
+  }
+
+  async deleteWorkspaceInvitation(id: string): Promise<void> {
+    await db.delete(workspaceInvitations).where(eq(workspaceInvitations.id, id));
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const userData = {
       ...insertUser,
@@ -120,6 +546,25 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getIdeasByWorkspace(workspaceId: string, requestingUserId?: string): Promise<Idea[]> {
+    try {
+      const execute = async (tx: typeof db) => {
+        return await tx.select()
+          .from(ideas)
+          .where(eq(ideas.workspaceId, workspaceId))
+          .orderBy(desc(ideas.updatedAt));
+      };
+
+      if (requestingUserId) {
+        return withRLS(requestingUserId, execute);
+      }
+      return execute(db);
+    } catch (error) {
+      console.error(`Error retrieving ideas for workspace ${workspaceId}:`, error);
+      return [];
+    }
+  }
+
   async getIdeaById(id: string, requestingUserId?: string): Promise<Idea | undefined> {
     try {
       const execute = async (tx: typeof db) => {
@@ -149,7 +594,7 @@ export class DatabaseStorage implements IStorage {
 
   async updateIdea(id: string, updates: Partial<Idea>, requestingUserId?: string): Promise<void> {
     const execute = async (tx: typeof db) => {
-      const { id: _, userId: __, status: ___, createdAt: ____, updatedAt: _____, ...validUpdates } = updates;
+      const { id: _, userId: __, workspaceId: ___, status: ____, createdAt: _____, updatedAt: ______, ...validUpdates } = updates;
       await tx.update(ideas)
         .set({ ...validUpdates, updatedAt: new Date() })
         .where(eq(ideas.id, id));
@@ -178,17 +623,7 @@ export class DatabaseStorage implements IStorage {
 
   async deleteIdea(id: string, requestingUserId?: string): Promise<void> {
     try {
-      const execute = async (tx: typeof db) => {
-        // Delete related documents first (documents.job_id references jobs.id)
-        await tx.delete(documents).where(eq(documents.ideaId, id));
-        // Then delete related jobs
-        await tx.delete(jobs).where(eq(jobs.ideaId, id));
-        // Delete the idea
-        const deleted = await tx.delete(ideas).where(eq(ideas.id, id)).returning();
-        if (deleted.length === 0) {
-          throw new Error(`No idea found with id ${id} to delete`);
-        }
-      };
+      const execute = (tx: typeof db) => deleteIdeaRows(tx, id);
 
       if (requestingUserId) {
         await withRLS(requestingUserId, execute);
@@ -285,8 +720,13 @@ export class DatabaseStorage implements IStorage {
   async updateDocument(id: string, updates: Partial<UpdateDocument>, requestingUserId?: string): Promise<void> {
     try {
       const execute = async (tx: typeof db) => {
+        const contentChanged = updates.content !== undefined || updates.contentSections !== undefined;
         await tx.update(documents)
-          .set({ ...updates, updatedAt: new Date() })
+          .set({
+            ...updates,
+            ...(contentChanged ? { revision: sql`${documents.revision} + 1` } : {}),
+            updatedAt: new Date(),
+          })
           .where(eq(documents.id, id));
       };
 
@@ -301,6 +741,14 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Called from anvil-api callbacks once new content has been written, so no RLS context
+  async markDocumentGenerated(id: string, sourceRevisions: SourceRevisions, jobId: string): Promise<void> {
+    const now = new Date();
+    await db.update(documents)
+      .set({ revision: sql`${documents.revision} + 1`, sourceRevisions, generatedByJobId: jobId, generatedAt: now, updatedAt: now })
+      .where(eq(documents.id, id));
+  }
+
   async deleteDocument(id: string, requestingUserId?: string): Promise<void> {
     try {
       const execute = async (tx: typeof db) => {
@@ -318,6 +766,193 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Document version history
+  async createDocumentVersion(version: InsertDocumentVersion, requestingUserId?: string): Promise<DocumentVersion> {
+    try {
+      const execute = async (tx: typeof db) => {
+        // Concurrent snapshots of one document can pick the same number; the
+        // unique (document_id, version_number) constraint makes the loser try the next one
+        for (let attempt = 1; attempt <= MAX_VERSION_NUMBER_ATTEMPTS; attempt++) {
+          const [{ latest }] = await tx.select({ latest: max(documentVersions.versionNumber) })
+            .from(documentVersions)
+            .where(eq(documentVersions.documentId, version.documentId));
+          const [created] = await tx.insert(documentVersions)
+            .values({ ...version, versionNumber: (latest ?? 0) + 1 })
+            .onConflictDoNothing({ target: [documentVersions.documentId, documentVersions.versionNumber] })
+            .returning();
+          if (created) return created;
+        }
+        throw new Error(`Could not allocate a version number for document ${version.documentId}`);
+      };
+
+      if (requestingUserId) {
+        return withRLS(requestingUserId, execute);
+      }
+      return execute(db);
+    } catch (error) {
+      console.error("Error creating document version:", error);
+      throw error;
+    }
+  }
+
+  async getDocumentVersions(documentId: string, requestingUserId?: string): Promise<DocumentVersion[]> {
+    try {
+      const execute = async (tx: typeof db) => {
+        return await tx.select().from(documentVersions)
+          .where(eq(documentVersions.documentId, documentId))
+          .orderBy(desc(documentVersions.versionNumber));
+      };
+
+      if (requestingUserId) {
+        return withRLS(requestingUserId, execute);
+      }
+      return execute(db);
+    } catch (error) {
+      console.error("Error fetching document versions:", error);
+      return [];
+    }
+  }
+
+  async getDocumentVersionById(id: string, requestingUserId?: string): Promise<DocumentVersion | undefined> {
+    try {
+      const execute = async (tx: typeof db) => {
+        const [version] = await tx.select().from(documentVersions)
+          .where(eq(documentVersions.id, id));
+        return version;
+      };
+
+      if (requestingUserId) {
+        return withRLS(requestingUserId, execute);
+      }
+      return execute(db);
+    } catch (error) {
+      console.error("Error fetching document version:", error);
+      return undefined;
+    }
+  }
+
+  // Share link operations
+  async createShareLink(link: InsertShareLink, requestingUserId?: string): Promise<ShareLink> {
+    try {
+      const execute = async (tx: typeof db) => {
+        const [created] = await tx.insert(shareLinks).values({
+          ...link,
+          createdAt: new Date(),
+        }).returning();
+        return created;
+      };
+
+      if (requestingUserId) {
+        return withRLS(requestingUserId, execute);
+      }
+      return execute(db);
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      throw error;
+    }
+  }
+
+  async getShareLinksByIdea(ideaId: string, requestingUserId?: string): Promise<ShareLink[]> {
+    try {
+      const execute = async (tx: typeof db) => {
+        return await tx.select().from(shareLinks)
+          .where(eq(shareLinks.ideaId, ideaId))
+          .orderBy(desc(shareLinks.createdAt));
+      };
+
+      if (requestingUserId) {
+        return withRLS(requestingUserId, execute);
+      }
+      return execute(db);
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      return [];
+    }
+  }
+
+  async getShareLinkById(id: string, requestingUserId?: string): Promise<ShareLink | undefined> {
+    try {
+      const execute = async (tx: typeof db) => {
+        const [link] = await tx.select().from(shareLinks).where(eq(shareLinks.id, id));
+        return link;
+      };
+
+      if (requestingUserId) {
+        return withRLS(requestingUserId, execute);
+      }
+      return execute(db);
+    } catch (error) {
+      console.error("Error fetching share link:", error);
+      return undefined;
+    }
+  }
+
+  // Public lookups by token run without RLS — the token itself is the credential
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    return link;
+  }
+
+  async revokeShareLink(id: string, requestingUserId?: string): Promise<void> {
+    try {
+      const execute = async (tx: typeof db) => {
+        await tx.update(shareLinks)
+          .set({ revokedAt: new Date() })
+          .where(eq(shareLinks.id, id));
+      };
+
+      if (requestingUserId) {
+        await withRLS(requestingUserId, execute);
+      } else {
+        await execute(db);
+      }
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      throw error;
+    }
+  }
+
+  async recordShareLinkView(id: string): Promise<void> {
+    await db.update(shareLinks)
+      .set({ viewCount: sql`${shareLinks.viewCount} + 1`, lastViewedAt: new Date() })
+      .where(eq(shareLinks.id, id));
+  }
+
+  // Comment operations. Access is checked against the idea role by the routes.
+  async createComment(comment: InsertComment): Promise<Comment> {
+    const [created] = await db.insert(comments).values(comment).returning();
+    return created;
+  }
+
+  async getCommentById(id: string): Promise<Comment | undefined> {
+    const [comment] = await db.select().from(comments).where(eq(comments.id, id));
+    return comment;
+  }
+
+  async getCommentsByIdea(ideaId: string): Promise<CommentWithAuthor[]> {
+    const rows = await db.select({ comment: comments, username: users.username })
+      .from(comments)
+      .innerJoin(users, eq(comments.userId, users.id))
+      .where(eq(comments.ideaId, ideaId))
+      .orderBy(comments.createdAt);
+    return rows.map(({ comment, username }) => ({ ...comment, username }));
+  }
+
+  async updateComment(id: string, updates: CommentUpdate): Promise<Comment | undefined> {
+    const [updated] = await db.update(comments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(comments.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteComment(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(comments).where(eq(comments.parentId, id));
+      await tx.delete(comments).where(eq(comments.id, id));
+    });
+  }
+
   // Job operations
   async createJob(job: InsertJob): Promise<Job> {
     try {
@@ -401,42 +1036,172 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // App Settings operations
-  async getSetting(key: string): Promise<string | null> {
-    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
-    return setting?.value ?? null;
-  }
+  async getJobsByIdea(ideaId: string, limit: number, requestingUserId?: string): Promise<Job[]> {
+    try {
+      const execute = async (tx: typeof db) => {
+        return await tx.select().from(jobs)
+          .where(eq(jobs.ideaId, ideaId))
+          .orderBy(desc(jobs.createdAt))
+          .limit(limit);
+      };
 
-  async setSetting(key: string, value: string): Promise<void> {
-    const existing = await this.getSetting(key);
-    if (existing === null) {
-      await db.insert(appSettings).values({ key, value });
-    } else {
-      await db.update(appSettings)
-        .set({ value, updatedAt: new Date() })
-        .where(eq(appSettings.key, key));
+      if (requestingUserId) {
+        return withRLS(requestingUserId, execute);
+      }
+      return execute(db);
+    } catch (error) {
+      console.error("Error getting jobs for idea:", error);
+      return [];
     }
   }
 
-  async getAllSettings(): Promise<Record<string, string>> {
-    const settings = await db.select().from(appSettings);
-    const result: Record<string, string> = {};
-    for (const setting of settings) {
-      if (setting.value !== null) {
-        result[setting.key] = setting.value;
-      }
+  async getStaleActiveJobs(updatedBefore: Date): Promise<Job[]> {
+    try {
+      return await db.select().from(jobs)
+        .where(and(
+          inArray(jobs.status, [...dispatchedJobStatuses]),
+          lt(jobs.updatedAt, updatedBefore)
+        ));
+    } catch (error) {
+      console.error("Error getting stale jobs:", error);
+      return [];
     }
-    return result;
   }
 
-  // Email verification methods
-  async setVerificationToken(userId: string, token: string, expiryDate: Date): Promise<void> {
-    await db.update(users)
-      .set({ verificationToken: token, verificationTokenExpiry: expiryDate })
-      .where(eq(users.id, userId));
+  async getQueuedJobs(): Promise<Job[]> {
+    return db.select().from(jobs)
+      .where(eq(jobs.status, "queued"))
+      .orderBy(desc(jobs.priority), asc(jobs.createdAt));
   }
 
-  async verifyEmail(userId: string, token: string): Promise<boolean> {
+  async getDispatchedJobs(): Promise<Job[]> {
+    return db.select().from(jobs)
+      .where(inArray(jobs.status, [...dispatchedJobStatuses]));
+  }
+
+  async claimQueuedJob(id: string): Promise<Job | undefined> {
+    const now = new Date();
+    const [claimed] = await db.update(jobs)
+      .set({ status: "pending", dispatchedAt: now, updatedAt: now })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "queued")))
+      .returning();
+    return claimed;
+  }
+
+  async createJobEvent(event: InsertJobEvent): Promise<JobEvent> {
+    try {
+      // Written from webhooks and background sweeps, so no RLS context
+      const [created] = await db.insert(jobEvents).values({
+        ...event,
+        createdAt: new Date(),
+      }).returning();
+      return created;
+    } catch (error) {
+      console.error("Error adding job event:", error);
+      throw error;
+    }
+  }
+
+  async getJobEvents(jobId: string, requestingUserId?: string): Promise<JobEvent[]> {
+    try {
+      const execute = async (tx: typeof db) => {
+        return await tx.select().from(jobEvents)
+          .where(eq(jobEvents.jobId, jobId))
+          .orderBy(jobEvents.createdAt);
+      };
+
+      if (requestingUserId) {
+        return withRLS(requestingUserId, execute);
+      }
+      return execute(db);
+    } catch (error) {
+      console.error("Error fetching job events:", error);
+      return [];
+    }
+  }
+
+  async createJobBatch(batch: InsertJobBatch): Promise<JobBatch> {
+    const [created] = await db.insert(jobBatches).values(batch).returning();
+    return created;
+  }
+
+  async getJobBatch(id: string): Promise<JobBatch | undefined> {
+    const [batch] = await db.select().from(jobBatches).where(eq(jobBatches.id, id));
+    return batch;
+  }
+
+  async getJobBatchesByUser(userId: string, limit: number): Promise<JobBatch[]> {
+    return db.select().from(jobBatches)
+      .where(eq(jobBatches.userId, userId))
+      .orderBy(desc(jobBatches.createdAt))
+      .limit(limit);
+  }
+
+  async getBatchJobs(batchId: string): Promise<BatchJob[]> {
+    const rows = await db.select({ job: jobs, ideaTitle: ideas.title })
+      .from(jobs)
+      .innerJoin(ideas, eq(jobs.ideaId, ideas.id))
+      .where(eq(jobs.batchId, batchId))
+      .orderBy(jobs.createdAt);
+    return rows.map(({ job, ideaTitle }) => ({ ...job, ideaTitle }));
+  }
+
+  // App Settings operations
+  async getSetting(key: string): Promise<string | null> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting?.value ?? null;
+  }
+
+  async setSetting(key: string, value: string): Promise<void> {
+    const existing = await this.getSetting(key);
+    if (existing === null) {
+      await db.insert(appSettings).values({ key, value });
+    } else {
+      await db.update(appSettings)
+        .set({ value, updatedAt: new Date() })
+        .where(eq(appSettings.key, key));
+    }
+  }
+
+  async getAllSettings(): Promise<Record<string, string>> {
+    const settings = await db.select().from(appSettings);
+    const result: Record<string, string> = {};
+    for (const setting of settings) {
+      if (setting.value !== null) {
+        result[setting.key] = setting.value;
+      }
+    }
+    return result;
+  }
+
+  async getUserPreferences(userId: string): Promise<Record<string, string>> {
+    const rows = await db.select().from(userPreferences).where(eq(userPreferences.userId, userId));
+    const result: Record<string, string> = {};
+    for (const row of rows) {
+      if (row.value !== null) {
+        result[row.key] = row.value;
+      }
+    }
+    return result;
+  }
+
+  async setUserPreference(userId: string, key: string, value: string): Promise<void> {
+    await db.insert(userPreferences)
+      .values({ userId, key, value })
+      .onConflictDoUpdate({
+        target: [userPreferences.userId, userPreferences.key],
+        set: { value, updatedAt: new Date() },
+      });
+  }
+
+  // Email verification methods
+  async setVerificationToken(userId: string, token: string, expiryDate: Date): Promise<void> {
+    await db.update(users)
+      .set({ verificationToken: token, verificationTokenExpiry: expiryDate })
+      .where(eq(users.id, userId));
+  }
+
+  async verifyEmail(userId: string, token: string): Promise<boolean> {
     const [user] = await db.select().from(users).where(eq(users.id, userId));
     if (!user) return false;
     if (user.verificationToken !== token) return false;
@@ -452,30 +1217,186 @@ export class DatabaseStorage implements IStorage {
     const [user] = await db.select().from(users).where(eq(users.id, userId));
     return user?.emailVerified === "true";
   }
+
+  async setPasswordResetToken(userId: string, tokenHash: string, expiryDate: Date): Promise<void> {
+    await db.update(users)
+      .set({ passwordResetToken: tokenHash, passwordResetTokenExpiry: expiryDate })
+      .where(eq(users.id, userId));
+  }
+
+  async getUserByPasswordResetToken(tokenHash: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.passwordResetToken, tokenHash));
+    return user;
+  }
+
+  async resetPassword(userId: string, hashedPassword: string): Promise<void> {
+    await db.update(users)
+      .set({ password: hashedPassword, passwordResetToken: null, passwordResetTokenExpiry: null })
+      .where(eq(users.id, userId));
+  }
+
+  async setEmailChangeRequest(userId: string, pendingEmail: string, tokenHash: string, expiryDate: Date): Promise<void> {
+    await db.update(users)
+      .set({ pendingEmail, emailChangeToken: tokenHash, emailChangeTokenExpiry: expiryDate })
+      .where(eq(users.id, userId));
+  }
+
+  async confirmEmailChange(userId: string, tokenHash: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user || !user.pendingEmail) return undefined;
+    if (user.emailChangeToken !== tokenHash) return undefined;
+    if (!user.emailChangeTokenExpiry || new Date() > new Date(user.emailChangeTokenExpiry)) return undefined;
+
+    // The new address was proven by following the link, so it counts as verified
+    const [updated] = await db.update(users)
+      .set({
+        email: user.pendingEmail,
+        emailVerified: "true",
+        pendingEmail: null,
+        emailChangeToken: null,
+        emailChangeTokenExpiry: null,
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return updated;
+  }
+
+  async enableTwoFactor(userId: string, secret: string, recoveryCodeHashes: string[]): Promise<void> {
+    await db.update(users)
+      .set({ totpSecret: secret, totpEnabledAt: new Date(), totpLastUsedStep: null, totpRecoveryCodes: recoveryCodeHashes })
+      .where(eq(users.id, userId));
+  }
+
+  async disableTwoFactor(userId: string): Promise<void> {
+    await db.update(users)
+      .set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, totpRecoveryCodes: null })
+      .where(eq(users.id, userId));
+  }
+
+  async replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void> {
+    await db.update(users).set({ totpRecoveryCodes: recoveryCodeHashes }).where(eq(users.id, userId));
+  }
+
+  // Removes the code in the same statement that finds it, so two requests can't both spend it
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const consumed = await db.update(users)
+      .set({ totpRecoveryCodes: sql`${users.totpRecoveryCodes} - ${codeHash}::text` })
+      .where(and(eq(users.id, userId), sql`${users.totpRecoveryCodes} @> jsonb_build_array(${codeHash}::text)`))
+      .returning({ id: users.id });
+    return consumed.length > 0;
+  }
+
+  // Only moves forward, so each authenticator code is accepted once
+  async recordTotpStep(userId: string, step: number): Promise<boolean> {
+    const recorded = await db.update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))))
+      .returning({ id: users.id });
+    return recorded.length > 0;
+  }
+
+  async recordFailedLogin(userId: string, windowStart: Date): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({
+        failedLoginCount: sql`case when ${users.lastFailedLoginAt} is null or ${users.lastFailedLoginAt} < ${windowStart}
+          then 1 else ${users.failedLoginCount} + 1 end`,
+        lastFailedLoginAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async lockUser(userId: string, until: Date): Promise<void> {
+    await db.update(users).set({ lockedUntil: until }).where(eq(users.id, userId));
+  }
+
+  async resetLoginFailures(userId: string): Promise<void> {
+    await db.update(users)
+      .set({ failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null })
+      .where(eq(users.id, userId));
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values({
+      ...token,
+      scopes: token.scopes as ApiTokenScope[],
+    }).returning();
+    return created;
+  }
+
+  async getApiTokensByUser(userId: string): Promise<ApiToken[]> {
+    return await db.select().from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async deleteApiToken(id: string, userId: string): Promise<boolean> {
+    const deleted = await db.delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  async touchApiToken(id: string): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private ideas: Map<string, Idea>;
   private documents: Map<string, Document>;
+  private documentVersions: Map<string, DocumentVersion>;
   private jobs: Map<string, Job>;
+  private jobEvents: Map<string, JobEvent>;
+  private shareLinks: Map<string, ShareLink>;
   public sessionStore: any;
 
   constructor() {
     this.users = new Map();
     this.ideas = new Map();
     this.documents = new Map();
+    this.documentVersions = new Map();
     this.jobs = new Map();
+    this.jobEvents = new Map();
+    this.shareLinks = new Map();
     this.sessionStore = new MemoryStore({ checkPeriod: 86400000 });
   }
 
   private auditLogs: Map<string, AuditLog> = new Map();
+  private workspaces: Map<string, Workspace> = new Map();
+  private workspaceMembers: Map<string, WorkspaceMember> = new Map();
+  private workspaceInvitations: Map<string, WorkspaceInvitation> = new Map();
+  private comments: Map<string, Comment> = new Map();
+  private apiTokens: Map<string, ApiToken> = new Map();
+  private jobBatches: Map<string, JobBatch> = new Map();
 
   // User operations
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
 
+  async getUserSessions(userId: string): Promise<StoredSession[]> {
+    const all = await new Promise<Record<string, session.SessionData>>((resolve, reject) => {
+      this.sessionStore.all((err: any, sessions: Record<string, session.SessionData>) => err ? reject(err) : resolve(sessions || {}));
+    });
+    return Object.entries(all)
+      .filter(([, data]) => (data as any).passport?.user === userId)
+      .map(([sid, data]) => ({ sid, data, expiresAt: new Date(data.cookie.expires || Date.now()) }));
+  }
+
+  async deleteSessions(sids: string[]): Promise<void> {
+    await Promise.all(sids.map(sid => new Promise<void>((resolve, reject) => {
+      this.sessionStore.destroy(sid, (err: any) => err ? reject(err) : resolve());
+    })));
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(u => u.username === username);
   }
@@ -484,7 +1405,113 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find(u => u.email === email);
   }
 
-  async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
+  async listUsers(filters: AdminUserFilters): Promise<AdminUserPage> {
+    const search = filters.search?.toLowerCase();
+    const matching = Array.from(this.users.values())
+      .filter(u => !search || u.username.toLowerCase().includes(search) || !!u.email?.toLowerCase().includes(search))
+      .filter(u => !filters.role || u.role === filters.role)
+      .filter(u => !filters.status || (filters.status === "disabled") === !!u.disabledAt)
+      .sort((a, b) => a.username.localeCompare(b.username));
+
+    const ideaList = Array.from(this.ideas.values());
+    const page: AdminUserSummary[] = matching.slice(filters.offset, filters.offset + filters.limit).map(u => ({
+      id: u.id,
+      username: u.username,
+      email: u.email,
+      role: u.role,
+      emailVerified: u.emailVerified,
+      pendingEmail: u.pendingEmail,
+      disabledAt: u.disabledAt,
+      totpEnabledAt: u.totpEnabledAt,
+      lockedUntil: u.lockedUntil,
+      ideaCount: ideaList.filter(i => i.userId === u.id).length,
+    }));
+    return { users: page, total: matching.length };
+  }
+
+  async setUserDisabled(id: string, disabled: boolean): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, disabledAt: disabled ? new Date() : null };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async setUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, role };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    const ownedWorkspaceIds = new Set(
+      Array.from(this.workspaces.values()).filter(w => w.ownerId === id).map(w => w.id)
+    );
+    for (const idea of Array.from(this.ideas.values())) {
+      const personal = idea.userId === id && !idea.workspaceId;
+      if (personal || (idea.workspaceId && ownedWorkspaceIds.has(idea.workspaceId))) {
+        await this.deleteIdea(idea.id);
+      }
+    }
+
+    // Team ideas pass to the workspace owner; authored rows follow the idea's owner
+    Array.from(this.ideas.values()).forEach(idea => {
+      if (idea.userId !== id || !idea.workspaceId) return;
+      const workspace = this.workspaces.get(idea.workspaceId);
+      if (workspace) this.ideas.set(idea.id, { ...idea, userId: workspace.ownerId });
+    });
+    const ownerOf = (ideaId: string) => this.ideas.get(ideaId)?.userId ?? id;
+    Array.from(this.documents.values()).forEach(doc => {
+      if (doc.userId === id) this.documents.set(doc.id, { ...doc, userId: ownerOf(doc.ideaId) });
+    });
+    Array.from(this.documentVersions.values()).forEach(version => {
+      if (version.userId === id) this.documentVersions.set(version.id, { ...version, userId: ownerOf(version.ideaId) });
+    });
+    Array.from(this.jobs.values()).forEach(job => {
+      if (job.userId === id) this.jobs.set(job.id, { ...job, userId: ownerOf(job.ideaId) });
+    });
+    Array.from(this.jobEvents.values()).forEach(event => {
+      if (event.userId === id) this.jobEvents.set(event.id, { ...event, userId: this.jobs.get(event.jobId)?.userId ?? id });
+    });
+
+    const authoredIds = new Set(Array.from(this.comments.values()).filter(c => c.userId === id).map(c => c.id));
+    Array.from(this.comments.entries()).forEach(([commentId, comment]) => {
+      if (authoredIds.has(commentId) || (comment.parentId && authoredIds.has(comment.parentId))) {
+        this.comments.delete(commentId);
+      } else if (comment.resolvedBy === id) {
+        this.comments.set(commentId, { ...comment, resolvedBy: null });
+      }
+    });
+    Array.from(this.shareLinks.entries()).forEach(([linkId, link]) => {
+      if (link.userId === id) this.shareLinks.delete(linkId);
+    });
+    Array.from(this.apiTokens.entries()).forEach(([tokenId, token]) => {
+      if (token.userId === id) this.apiTokens.delete(tokenId);
+    });
+    Array.from(this.jobBatches.entries()).forEach(([batchId, batch]) => {
+      if (batch.userId !== id) return;
+      this.jobBatches.delete(batchId);
+      Array.from(this.jobs.values()).forEach(job => {
+        if (job.batchId === batchId) this.jobs.set(job.id, { ...job, batchId: null });
+      });
+    });
+    this.userPreferences.delete(id);
+    Array.from(this.workspaceInvitations.entries()).forEach(([invitationId, invitation]) => {
+      if (invitation.invitedBy === id) this.workspaceInvitations.delete(invitationId);
+    });
+    Array.from(this.workspaceMembers.entries()).forEach(([memberId, member]) => {
+      if (member.userId === id) this.workspaceMembers.delete(memberId);
+    });
+    for (const workspaceId of Array.from(ownedWorkspaceIds)) {
+      await this.deleteWorkspace(workspaceId);
+    }
+    this.users.delete(id);
+  }
+
+  async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
+    const log = withImpersonator(insertLog);
     const id = uuidv4();
     const entry: AuditLog = {
       id,
@@ -499,6 +1526,155 @@ export class MemStorage implements IStorage {
     this.auditLogs.set(id, entry);
     return entry;
   }
+  async getAuditLogs(filters: AuditLogFilters, cursor: AuditLogCursor | null, limit: number): Promise<AuditLogWithActor[]> {
+    return Array.from(this.auditLogs.values())
+      .filter(log => !filters.actorId || log.actorId === filters.actorId)
+      .filter(log => !filters.action || log.action === filters.action || log.action.startsWith(`${filters.action}.`))
+      .filter(log => !filters.targetType || log.targetType === filters.targetType)
+      .filter(log => !filters.targetId || log.targetId === filters.targetId)
+      .filter(log => !filters.from || log.createdAt >= filters.from)
+      .filter(log => !filters.to || log.createdAt <= filters.to)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id.localeCompare(a.id))
+      .filter(log => !cursor
+        || log.createdAt.getTime() < cursor.createdAt.getTime()
+        || (log.createdAt.getTime() === cursor.createdAt.getTime() && log.id < cursor.id))
+      .slice(0, limit)
+      .map(log => ({ ...log, actorUsername: (log.actorId && this.users.get(log.actorId)?.username) || null }));
+  }
+
+
+  // Workspace operations
+  async createWorkspace(name: string, ownerId: string): Promise<Workspace> {
+    const now = new Date();
+    const workspace: Workspace = { id: uuidv4(), name, ownerId, createdAt: now, updatedAt: now };
+    this.workspaces.set(workspace.id, workspace);
+    await this.addWorkspaceMember({ workspaceId: workspace.id, userId: ownerId, role: "owner" });
+    return workspace;
+  }
+
+  async getWorkspaceById(id: string): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async getWorkspacesForUser(userId: string): Promise<WorkspaceWithRole[]> {
+    const members = Array.from(this.workspaceMembers.values());
+    return members
+      .filter(m => m.userId === userId && this.workspaces.has(m.workspaceId))
+      .map(m => ({
+        ...this.workspaces.get(m.workspaceId)!,
+        role: m.role as WorkspaceRole,
+        memberCount: members.filter(other => other.workspaceId === m.workspaceId).length,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateWorkspace(id: string, updates: { name: string }): Promise<void> {
+    const workspace = this.workspaces.get(id);
+    if (workspace) {
+      this.workspaces.set(id, { ...workspace, name: updates.name, updatedAt: new Date() });
+    }
+  }
+
+  async deleteWorkspace(id: string): Promise<void> {
+    this.workspaces.delete(id);
+    Array.from(this.workspaceMembers.entries()).forEach(([memberId, member]) => {
+      if (member.workspaceId === id) this.workspaceMembers.delete(memberId);
+    });
+    Array.from(this.workspaceInvitations.entries()).forEach(([invitationId, invitation]) => {
+      if (invitation.workspaceId === id) this.workspaceInvitations.delete(invitationId);
+    });
+  }
+
+  async getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    return Array.from(this.workspaceMembers.values())
+      .find(m => m.workspaceId === workspaceId && m.userId === userId);
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]> {
+    return Array.from(this.workspaceMembers.values())
+      .filter(m => m.workspaceId === workspaceId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(m => {
+        const user = this.users.get(m.userId);
+        return { ...m, username: user?.username ?? "", email: user?.email ?? null };
+      });
+  }
+
+  async addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const newMember: WorkspaceMember = {
+      id: uuidv4(),
+      workspaceId: member.workspaceId,
+      userId: member.userId,
+      role: member.role || "viewer",
+      createdAt: new Date(),
+    };
+    this.workspaceMembers.set(newMember.id, newMember);
+    return newMember;
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+    const member = await this.getWorkspaceMember(workspaceId, userId);
+    if (member) {
+      this.workspaceMembers.set(member.id, { ...member, role });
+    }
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+    const member = await this.getWorkspaceMember(workspaceId, userId);
+    if (member) {
+      this.workspaceMembers.delete(member.id);
+    }
+  }
+
+  async createWorkspaceInvitation(invitation: InsertWorkspaceInvitation): Promise<WorkspaceInvitation> {
+    const newInvitation: WorkspaceInvitation = {
+      id: uuidv4(),
+      workspaceId: invitation.workspaceId,
+      email: invitation.email,
+      role: invitation.role || "viewer",
+      token: invitation.token,
+      invitedBy: invitation.invitedBy,
+      expiresAt: invitation.expiresAt,
+      acceptedAt: null,
+      createdAt: new Date(),
+    };
+    this.workspaceInvitations.set(newInvitation.id, newInvitation);
+    return newInvitation;
+  }
+
+  async getPendingWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+    return Array.from(this.workspaceInvitations.values())
+      .filter(i => i.workspaceId === workspaceId && !i.acceptedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getWorkspaceInvitationById(id: string): Promise<WorkspaceInvitation | undefined> {
+    return this.workspaceInvitations.get(id);
+  }
+
+  async getWorkspaceInvitationByToken(token: string): Promise<WorkspaceInvitation | undefined> {
+    return Array.from(this.workspaceInvitations.values()).find(i => i.token === token);
+  }
+
+  async acceptWorkspaceInvitation(id: string, userId: string): Promise<WorkspaceMember> {
+    const invitation = this.workspaceInvitations.get(id);
+    if (!invitation || invitation.acceptedAt) {
+      throw new Error(`Invitation ${id} has already been accepted`);
+    }
+    this.workspaceInvitations.set(id, { ...invitation, acceptedAt: new Date() });
+
+    const existing = await this.getWorkspaceMember(invitation.workspaceId, userId);
+    if (existing) {
+      const updated = { ...existing, role: invitation.role };
+      this.workspaceMembers.set(existing.id, updated);
+      return updated;
+    }
+    return this.addWorkspaceMember({ workspaceId: invitation.workspaceId, userId, role: invitation.role });
+  }
+
+  async deleteWorkspaceInvitation(id: string): Promise<void> {
+    this.workspaceInvitations.delete(id);
+  }
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = uuidv4();
@@ -509,7 +1685,20 @@ export class MemStorage implements IStorage {
       role: insertUser.role || "user",
       emailVerified: "false",
       verificationToken: null,
-      verificationTokenExpiry: null
+      verificationTokenExpiry: null,
+      passwordResetToken: null,
+      passwordResetTokenExpiry: null,
+      pendingEmail: null,
+      emailChangeToken: null,
+      emailChangeTokenExpiry: null,
+      disabledAt: null,
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+      totpRecoveryCodes: null,
+      failedLoginCount: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
     };
     this.users.set(id, user);
     return user;
@@ -520,6 +1709,12 @@ export class MemStorage implements IStorage {
     return Array.from(this.ideas.values()).filter(i => i.userId === userId);
   }
 
+  async getIdeasByWorkspace(workspaceId: string): Promise<Idea[]> {
+    return Array.from(this.ideas.values())
+      .filter(i => i.workspaceId === workspaceId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
   async getIdeaById(id: string): Promise<Idea | undefined> {
     return this.ideas.get(id);
   }
@@ -530,6 +1725,7 @@ export class MemStorage implements IStorage {
     const newIdea: Idea = {
       id,
       userId: idea.userId,
+      workspaceId: idea.workspaceId ?? null,
       title: idea.title || "",
       description: idea.description,
       founderName: idea.founderName || null,
@@ -548,7 +1744,7 @@ export class MemStorage implements IStorage {
   async updateIdea(id: string, updates: Partial<Idea>): Promise<void> {
     const idea = this.ideas.get(id);
     if (idea) {
-      const { id: _, userId: __, status: ___, createdAt: ____, updatedAt: _____, ...validUpdates } = updates;
+      const { id: _, userId: __, workspaceId: ___, status: ____, createdAt: _____, updatedAt: ______, ...validUpdates } = updates;
       this.ideas.set(id, { ...idea, ...validUpdates, updatedAt: new Date() });
     }
   }
@@ -561,13 +1757,26 @@ export class MemStorage implements IStorage {
   }
 
   async deleteIdea(id: string): Promise<void> {
-    // Delete related documents
+    Array.from(this.shareLinks.entries()).forEach(([linkId, link]) => {
+      if (link.ideaId === id) this.shareLinks.delete(linkId);
+    });
+    Array.from(this.comments.entries()).forEach(([commentId, comment]) => {
+      if (comment.ideaId === id) this.comments.delete(commentId);
+    });
+    // Delete related documents and their version history
+    Array.from(this.documentVersions.entries()).forEach(([versionId, version]) => {
+      if (version.ideaId === id) this.documentVersions.delete(versionId);
+    });
     Array.from(this.documents.entries()).forEach(([docId, doc]) => {
       if (doc.ideaId === id) this.documents.delete(docId);
     });
     // Delete related jobs
     Array.from(this.jobs.entries()).forEach(([jobId, job]) => {
-      if (job.ideaId === id) this.jobs.delete(jobId);
+      if (job.ideaId !== id) return;
+      Array.from(this.jobEvents.entries()).forEach(([eventId, event]) => {
+        if (event.jobId === jobId) this.jobEvents.delete(eventId);
+      });
+      this.jobs.delete(jobId);
     });
     this.ideas.delete(id);
   }
@@ -599,6 +1808,9 @@ export class MemStorage implements IStorage {
       content: document.content || null,
       contentSections: document.contentSections || null,
       status: document.status || "generating",
+      revision: 1,
+      sourceRevisions: null,
+      generatedByJobId: null,
       createdAt: now,
       updatedAt: now,
       generatedAt: now,
@@ -610,12 +1822,155 @@ export class MemStorage implements IStorage {
   async updateDocument(id: string, updates: Partial<UpdateDocument>): Promise<void> {
     const doc = this.documents.get(id);
     if (doc) {
-      this.documents.set(id, { ...doc, ...updates, updatedAt: new Date() });
+      const contentChanged = updates.content !== undefined || updates.contentSections !== undefined;
+      const revision = contentChanged ? doc.revision + 1 : doc.revision;
+      this.documents.set(id, { ...doc, ...updates, revision, updatedAt: new Date() });
+    }
+  }
+
+  async markDocumentGenerated(id: string, sourceRevisions: SourceRevisions, jobId: string): Promise<void> {
+    const doc = this.documents.get(id);
+    if (doc) {
+      const now = new Date();
+      this.documents.set(id, { ...doc, revision: doc.revision + 1, sourceRevisions, generatedByJobId: jobId, generatedAt: now, updatedAt: now });
     }
   }
 
   async deleteDocument(id: string): Promise<void> {
     this.documents.delete(id);
+    Array.from(this.documentVersions.entries()).forEach(([versionId, version]) => {
+      if (version.documentId === id) this.documentVersions.delete(versionId);
+    });
+    Array.from(this.shareLinks.entries()).forEach(([linkId, link]) => {
+      if (link.documentId === id) this.shareLinks.delete(linkId);
+    });
+    Array.from(this.comments.entries()).forEach(([commentId, comment]) => {
+      if (comment.documentId === id) this.comments.delete(commentId);
+    });
+  }
+
+  // Document version history
+  async createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion> {
+    const existing = await this.getDocumentVersions(version.documentId);
+    const newVersion: DocumentVersion = {
+      id: uuidv4(),
+      documentId: version.documentId,
+      ideaId: version.ideaId,
+      userId: version.userId,
+      documentType: version.documentType,
+      versionNumber: (existing[0]?.versionNumber ?? 0) + 1,
+      content: version.content || null,
+      contentSections: version.contentSections || null,
+      changedBy: version.changedBy || null,
+      changeReason: version.changeReason,
+      jobId: version.jobId || null,
+      createdAt: new Date(),
+    };
+    this.documentVersions.set(newVersion.id, newVersion);
+    return newVersion;
+  }
+
+  async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+    return Array.from(this.documentVersions.values())
+      .filter(v => v.documentId === documentId)
+      .sort((a, b) => b.versionNumber - a.versionNumber);
+  }
+
+  async getDocumentVersionById(id: string): Promise<DocumentVersion | undefined> {
+    return this.documentVersions.get(id);
+  }
+
+  // Share links
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    const newLink: ShareLink = {
+      id: uuidv4(),
+      ideaId: link.ideaId,
+      userId: link.userId,
+      documentId: link.documentId ?? null,
+      token: link.token,
+      passwordHash: link.passwordHash ?? null,
+      expiresAt: link.expiresAt ?? null,
+      revokedAt: null,
+      viewCount: 0,
+      lastViewedAt: null,
+      createdAt: new Date(),
+    };
+    this.shareLinks.set(newLink.id, newLink);
+    return newLink;
+  }
+
+  async getShareLinksByIdea(ideaId: string): Promise<ShareLink[]> {
+    return Array.from(this.shareLinks.values())
+      .filter(l => l.ideaId === ideaId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getShareLinkById(id: string): Promise<ShareLink | undefined> {
+    return this.shareLinks.get(id);
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    return Array.from(this.shareLinks.values()).find(l => l.token === token);
+  }
+
+  async revokeShareLink(id: string): Promise<void> {
+    const link = this.shareLinks.get(id);
+    if (link) {
+      this.shareLinks.set(id, { ...link, revokedAt: new Date() });
+    }
+  }
+
+  async recordShareLinkView(id: string): Promise<void> {
+    const link = this.shareLinks.get(id);
+    if (link) {
+      this.shareLinks.set(id, { ...link, viewCount: link.viewCount + 1, lastViewedAt: new Date() });
+    }
+  }
+
+  // Comment operations
+  async createComment(comment: InsertComment): Promise<Comment> {
+    const newComment: Comment = {
+      id: uuidv4(),
+      ideaId: comment.ideaId,
+      documentId: comment.documentId || null,
+      sectionKey: comment.sectionKey || null,
+      canvasSection: comment.canvasSection || null,
+      parentId: comment.parentId || null,
+      userId: comment.userId,
+      body: comment.body,
+      mentions: (comment.mentions as string[] | undefined) || [],
+      resolvedAt: null,
+      resolvedBy: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.comments.set(newComment.id, newComment);
+    return newComment;
+  }
+
+  async getCommentById(id: string): Promise<Comment | undefined> {
+    return this.comments.get(id);
+  }
+
+  async getCommentsByIdea(ideaId: string): Promise<CommentWithAuthor[]> {
+    return Array.from(this.comments.values())
+      .filter(c => c.ideaId === ideaId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(c => ({ ...c, username: this.users.get(c.userId)?.username ?? "" }));
+  }
+
+  async updateComment(id: string, updates: CommentUpdate): Promise<Comment | undefined> {
+    const comment = this.comments.get(id);
+    if (!comment) return undefined;
+    const updated = { ...comment, ...updates, updatedAt: new Date() };
+    this.comments.set(id, updated);
+    return updated;
+  }
+
+  async deleteComment(id: string): Promise<void> {
+    Array.from(this.comments.entries()).forEach(([commentId, comment]) => {
+      if (commentId === id || comment.parentId === id) this.comments.delete(commentId);
+    });
   }
 
   // Job operations
@@ -627,6 +1982,20 @@ export class MemStorage implements IStorage {
       documentType: job.documentType || null,
       description: job.description || null,
       status: job.status || "",
+      currentStep: job.currentStep ?? null,
+      currentSubstep: job.currentSubstep ?? null,
+      totalSubsteps: job.totalSubsteps ?? null,
+      stepName: job.stepName ?? null,
+      stepTimings: job.stepTimings ?? null,
+      guidanceNotes: job.guidanceNotes ?? null,
+      pipelineStep: job.pipelineStep ?? null,
+      queuedSteps: job.queuedSteps ?? null,
+      plannedSteps: job.plannedSteps ?? null,
+      priority: job.priority ?? 0,
+      dispatchedAt: job.dispatchedAt ?? null,
+      batchId: job.batchId ?? null,
+      startedAt: job.startedAt ?? null,
+      finishedAt: job.finishedAt ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -652,8 +2021,95 @@ export class MemStorage implements IStorage {
     return matching[0] || null;
   }
 
+  async getJobsByIdea(ideaId: string, limit: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(j => j.ideaId === ideaId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getStaleActiveJobs(updatedBefore: Date): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(j =>
+      (dispatchedJobStatuses as readonly string[]).includes(j.status || "") && j.updatedAt < updatedBefore
+    );
+  }
+
+  async getQueuedJobs(): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(j => j.status === "queued")
+      .sort((a, b) => b.priority - a.priority || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getDispatchedJobs(): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(j =>
+      (dispatchedJobStatuses as readonly string[]).includes(j.status || "")
+    );
+  }
+
+  async claimQueuedJob(id: string): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== "queued") return undefined;
+    const now = new Date();
+    const claimed = { ...job, status: "pending", dispatchedAt: now, updatedAt: now };
+    this.jobs.set(id, claimed);
+    return claimed;
+  }
+
+  async createJobEvent(event: InsertJobEvent): Promise<JobEvent> {
+    const newEvent: JobEvent = {
+      id: uuidv4(),
+      jobId: event.jobId,
+      userId: event.userId,
+      status: event.status,
+      message: event.message ?? null,
+      step: event.step ?? null,
+      substep: event.substep ?? null,
+      totalSubsteps: event.totalSubsteps ?? null,
+      stepName: event.stepName ?? null,
+      createdAt: new Date(),
+    };
+    this.jobEvents.set(newEvent.id, newEvent);
+    return newEvent;
+  }
+
+  async getJobEvents(jobId: string): Promise<JobEvent[]> {
+    return Array.from(this.jobEvents.values())
+      .filter(e => e.jobId === jobId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createJobBatch(batch: InsertJobBatch): Promise<JobBatch> {
+    const created: JobBatch = {
+      id: uuidv4(),
+      userId: batch.userId,
+      pipelineStep: batch.pipelineStep ?? null,
+      createdAt: new Date(),
+    };
+    this.jobBatches.set(created.id, created);
+    return created;
+  }
+
+  async getJobBatch(id: string): Promise<JobBatch | undefined> {
+    return this.jobBatches.get(id);
+  }
+
+  async getJobBatchesByUser(userId: string, limit: number): Promise<JobBatch[]> {
+    return Array.from(this.jobBatches.values())
+      .filter(b => b.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getBatchJobs(batchId: string): Promise<BatchJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(j => j.batchId === batchId && this.ideas.has(j.ideaId))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(job => ({ ...job, ideaTitle: this.ideas.get(job.ideaId)!.title }));
+  }
+
   // App Settings
   private settings: Map<string, string> = new Map();
+  private userPreferences: Map<string, Record<string, string>> = new Map();
 
   async getSetting(key: string): Promise<string | null> {
     return this.settings.get(key) || null;
@@ -669,6 +2125,14 @@ export class MemStorage implements IStorage {
     return result;
   }
 
+  async getUserPreferences(userId: string): Promise<Record<string, string>> {
+    return { ...this.userPreferences.get(userId) };
+  }
+
+  async setUserPreference(userId: string, key: string, value: string): Promise<void> {
+    this.userPreferences.set(userId, { ...this.userPreferences.get(userId), [key]: value });
+  }
+
   // Email verification
   async setVerificationToken(userId: string, token: string, expiryDate: Date): Promise<void> {
     const user = this.users.get(userId);
@@ -690,6 +2154,145 @@ export class MemStorage implements IStorage {
     const user = this.users.get(userId);
     return user?.emailVerified === "true";
   }
+
+  async setPasswordResetToken(userId: string, tokenHash: string, expiryDate: Date): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, passwordResetToken: tokenHash, passwordResetTokenExpiry: expiryDate });
+    }
+  }
+
+  async getUserByPasswordResetToken(tokenHash: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(u => u.passwordResetToken === tokenHash);
+  }
+
+  async resetPassword(userId: string, hashedPassword: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, password: hashedPassword, passwordResetToken: null, passwordResetTokenExpiry: null });
+    }
+  }
+
+  async setEmailChangeRequest(userId: string, pendingEmail: string, tokenHash: string, expiryDate: Date): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, pendingEmail, emailChangeToken: tokenHash, emailChangeTokenExpiry: expiryDate });
+    }
+  }
+
+  async confirmEmailChange(userId: string, tokenHash: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user || !user.pendingEmail) return undefined;
+    if (user.emailChangeToken !== tokenHash) return undefined;
+    if (!user.emailChangeTokenExpiry || new Date() > new Date(user.emailChangeTokenExpiry)) return undefined;
+    const updated: User = {
+      ...user,
+      email: user.pendingEmail,
+      emailVerified: "true",
+      pendingEmail: null,
+      emailChangeToken: null,
+      emailChangeTokenExpiry: null,
+    };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async enableTwoFactor(userId: string, secret: string, recoveryCodeHashes: string[]): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, totpSecret: secret, totpEnabledAt: new Date(), totpLastUsedStep: null, totpRecoveryCodes: recoveryCodeHashes });
+    }
+  }
+
+  async disableTwoFactor(userId: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, totpRecoveryCodes: null });
+    }
+  }
+
+  async replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, totpRecoveryCodes: recoveryCodeHashes });
+    }
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user?.totpRecoveryCodes?.includes(codeHash)) return false;
+    this.users.set(userId, { ...user, totpRecoveryCodes: user.totpRecoveryCodes.filter(h => h !== codeHash) });
+    return true;
+  }
+
+  async recordTotpStep(userId: string, step: number): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user || (user.totpLastUsedStep !== null && user.totpLastUsedStep >= step)) return false;
+    this.users.set(userId, { ...user, totpLastUsedStep: step });
+    return true;
+  }
+
+  async recordFailedLogin(userId: string, windowStart: Date): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    const stale = !user.lastFailedLoginAt || user.lastFailedLoginAt < windowStart;
+    const updated: User = { ...user, failedLoginCount: stale ? 1 : user.failedLoginCount + 1, lastFailedLoginAt: new Date() };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async lockUser(userId: string, until: Date): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, lockedUntil: until });
+    }
+  }
+
+  async resetLoginFailures(userId: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null });
+    }
+  }
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const newToken: ApiToken = {
+      id: uuidv4(),
+      userId: token.userId,
+      name: token.name,
+      tokenHash: token.tokenHash,
+      tokenPrefix: token.tokenPrefix,
+      scopes: token.scopes as ApiTokenScope[],
+      expiresAt: token.expiresAt ?? null,
+      lastUsedAt: null,
+      createdAt: new Date(),
+    };
+    this.apiTokens.set(newToken.id, newToken);
+    return newToken;
+  }
+
+  async getApiTokensByUser(userId: string): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(t => t.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(t => t.tokenHash === tokenHash);
+  }
+
+  async deleteApiToken(id: string, userId: string): Promise<boolean> {
+    const token = this.apiTokens.get(id);
+    if (!token || token.userId !== userId) return false;
+    this.apiTokens.delete(id);
+    return true;
+  }
+
+  async touchApiToken(id: string): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) {
+      this.apiTokens.set(id, { ...token, lastUsedAt: new Date() });
+    }
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,300 @@
+/**
+ * TOTP two-factor authentication: enrolment through an authenticator app QR
+ * code, one-time recovery codes, and the second login step that turns a
+ * pending password check into a signed-in session.
+ */
+import { Express, Request } from "express";
+import rateLimit from "express-rate-limit";
+import { randomBytes } from "crypto";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import {
+  isAuthenticated,
+  isAuthenticatedForEnrolment,
+  isTwoFactorRequired,
+  comparePasswords,
+  toSessionUser,
+} from "./auth";
+import { hashToken } from "./utils/auth-utils";
+import { isLocked, recordLoginFailure, clearLoginFailures } from "./login-protection";
+import { generateTotpSecret, verifyTotp, buildOtpAuthUrl } from "./utils/totp";
+import {
+  twoFactorCodeSchema,
+  twoFactorDisableSchema,
+  type TwoFactorSetup,
+  type TwoFactorStatus,
+  type User,
+} from "@shared/schema";
+
+const TOTP_ISSUER = "Anvil of Ideas";
+const RECOVERY_CODE_COUNT = 10;
+const MAX_PENDING_ATTEMPTS = 5;
+
+const loginVerifyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: "Too many requests, please try again later" },
+});
+
+const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: "Too many requests, please try again later" },
+});
+
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+// Recovery codes are compared without case or separators, so normalise before hashing
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Fresh recovery codes to show the user once, with the hashes to store. */
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(code => hashToken(normalizeRecoveryCode(code))) };
+}
+
+/**
+ * Check a second factor for `user`: an authenticator code, or failing that an
+ * unused recovery code, which is spent. Returns which kind matched, or null.
+ */
+async function verifySecondFactor(user: User, code: string): Promise<"totp" | "recovery_code" | null> {
+  if (!user.totpSecret || !user.totpEnabledAt) return null;
+
+  if (/^\d{6}$/.test(code.replace(/\s/g, ""))) {
+    const step = verifyTotp(user.totpSecret, code);
+    return step !== null && await storage.recordTotpStep(user.id, step) ? "totp" : null;
+  }
+
+  const consumed = await storage.consumeRecoveryCode(user.id, hashToken(normalizeRecoveryCode(code)));
+  return consumed ? "recovery_code" : null;
+}
+
+async function twoFactorStatus(user: User): Promise<TwoFactorStatus> {
+  return {
+    enabled: !!user.totpEnabledAt,
+    enabledAt: user.totpEnabledAt,
+    recoveryCodesRemaining: user.totpRecoveryCodes?.length ?? 0,
+    required: await isTwoFactorRequired(user),
+  };
+}
+
+export function setupTwoFactorRoutes(app: Express) {
+  app.get("/api/user/2fa", isAuthenticatedForEnrolment, async (req, res, next) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) return res.sendStatus(401);
+      return res.status(200).json(await twoFactorStatus(user));
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  // Start enrolment; nothing is saved on the account until /enable confirms a code
+  app.post("/api/user/2fa/setup", isAuthenticatedForEnrolment, twoFactorLimiter, async (req, res, next) => {
+    try {
+      const user = req.user!;
+      if (user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      const otpauthUrl = buildOtpAuthUrl(TOTP_ISSUER, user.email || user.username, secret);
+      req.session.twoFactorSetupSecret = secret;
+
+      const setup: TwoFactorSetup = {
+        secret,
+        otpauthUrl,
+        qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl),
+      };
+      return res.status(200).json(setup);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/enable", isAuthenticatedForEnrolment, twoFactorLimiter, async (req, res, next) => {
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      const user = req.user!;
+      const secret = req.session.twoFactorSetupSecret;
+      if (user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!secret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = verifyTotp(secret, parsed.data.code);
+      if (step === null) {
+        return res.status(400).json({ message: "That code didn't match. Check your authenticator app and try again." });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.enableTwoFactor(user.id, secret, hashes);
+      await storage.recordTotpStep(user.id, step);
+      delete req.session.twoFactorSetupSecret;
+
+      await storage.createAuditLog({
+        actorId: user.id,
+        action: "account.2fa_enable",
+        targetType: "user",
+        targetId: user.id,
+        details: null,
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ recoveryCodes: codes });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/disable", isAuthenticated, twoFactorLimiter, async (req, res, next) => {
+    try {
+      const parsed = twoFactorDisableSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      const user = req.user!;
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (await isTwoFactorRequired(user)) {
+        return res.status(403).json({ message: "Two-factor authentication is required for your role" });
+      }
+      if (!(await comparePasswords(parsed.data.currentPassword, user.password))) {
+        return res.status(403).json({ message: "Current password is incorrect" });
+      }
+      if (!(await verifySecondFactor(user, parsed.data.code))) {
+        return res.status(403).json({ message: "Invalid authentication code" });
+      }
+
+      await storage.disableTwoFactor(user.id);
+      await storage.createAuditLog({
+        actorId: user.id,
+        action: "account.2fa_disable",
+        targetType: "user",
+        targetId: user.id,
+        details: null,
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ message: "Two-factor authentication is now off" });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/recovery-codes", isAuthenticated, twoFactorLimiter, async (req, res, next) => {
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      const user = req.user!;
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await verifySecondFactor(user, parsed.data.code))) {
+        return res.status(403).json({ message: "Invalid authentication code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(user.id, hashes);
+      await storage.createAuditLog({
+        actorId: user.id,
+        action: "account.2fa_recovery_codes_regenerate",
+        targetType: "user",
+        targetId: user.id,
+        details: null,
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ recoveryCodes: codes });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  // Second login step for accounts with two-factor authentication
+  app.post("/api/login/2fa", loginVerifyLimiter, async (req, res, next) => {
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt <= Date.now() || pending.attempts >= MAX_PENDING_ATTEMPTS) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in attempt has expired. Please sign in again." });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      // Failed codes count toward the same lockout as wrong passwords
+      if (!user || user.disabledAt || isLocked(user)) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in attempt has expired. Please sign in again." });
+      }
+
+      const method = await verifySecondFactor(user, parsed.data.code);
+      if (!method) {
+        pending.attempts += 1;
+        const updated = await recordLoginFailure(req, user, "invalid_second_factor");
+        if (isLocked(updated)) {
+          delete req.session.pendingTwoFactor;
+        }
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      await clearLoginFailures(user);
+
+      await storage.createAuditLog({
+        actorId: user.id,
+        action: method === "recovery_code" ? "auth.login_recovery_code" : "auth.login_2fa",
+        targetType: "user",
+        targetId: user.id,
+        details: method === "recovery_code" ? { recoveryCodesRemaining: (user.totpRecoveryCodes?.length ?? 1) - 1 } : null,
+        ipAddress: clientIp(req),
+      });
+
+      // Logging in regenerates the session, which also drops the pending state
+      req.login(user, async (err) => {
+        if (err) return next(err);
+        try {
+          return res.status(200).json(await toSessionUser(user));
+        } catch (error: any) {
+          next(error);
+        }
+      });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+}
@@ -1,4 +1,4 @@
-import { randomBytes } from 'crypto';
+import { createHash, randomBytes } from 'crypto';
 
 /**
  * Generate a random verification token
@@ -8,6 +8,15 @@ export function generateVerificationToken(): string {
   return randomBytes(32).toString('hex');
 }
 
+/**
+ * Hash a token before storing it, so a leaked users row can't be replayed
+ * @param token The raw token sent to the user
+ * @returns Hex-encoded SHA-256 digest of the token
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
 /**
  * Generate an expiry date for a verification token
  * @param expiryHours Hours until the token expires
@@ -39,4 +48,25 @@ export function isTokenExpired(expiryDate: Date | null): boolean {
 export function buildVerificationUrl(baseUrl: string, userId: string, token: string): string {
   // Use a more email-friendly path-based URL instead of query parameters
   return `${baseUrl}/confirm-email/${userId}/${token}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Build password reset URL for email
+ * @param baseUrl Base URL of the application
+ * @param token Raw reset token
+ * @returns Full reset URL to include in email
+ */
+export function buildPasswordResetUrl(baseUrl: string, token: string): string {
+  return `${baseUrl}/reset-password/${token}`;
+}
+
+/**
+ * Build email change confirmation URL for email
+ * @param baseUrl Base URL of the application
+ * @param userId User ID
+ * @param token Raw email change token
+ * @returns Full confirmation URL to include in email
+ */
+export function buildEmailChangeUrl(baseUrl: string, userId: string, token: string): string {
+  return `${baseUrl}/confirm-email-change/${userId}/${token}`;
+}
@@ -0,0 +1,30 @@
+import { createHmac } from 'crypto';
+
+export interface WebhookSignatureInput {
+  // Unix seconds sent as x-anvil-timestamp
+  timestamp: number | string;
+  // Sent as x-anvil-delivery; retries of one delivery reuse it
+  deliveryId: string;
+  method: string;
+  // Request path and query string, e.g. /api/internal/jobs/<id>/progress
+  path: string;
+}
+
+/**
+ * Compute the x-anvil-signature header value for a callback: HMAC-SHA256 over
+ * `<timestamp>.<delivery id>.<METHOD>.<path>.<raw body>`. Signing the path ties
+ * the body to one job, so a captured callback can't be replayed to another.
+ * Kept free of app dependencies so tooling that impersonates anvil-api, such
+ * as the mock anvil-api, can sign its callbacks.
+ * @param secret The shared ANVIL_WEBHOOK_SECRET
+ * @param input What the signature covers besides the body
+ * @param body The raw request body
+ * @returns `sha256=<hex digest>`
+ */
+export function signWebhookPayload(secret: string, input: WebhookSignatureInput, body: string | Buffer): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${input.timestamp}.${input.deliveryId}.${input.method.toUpperCase()}.${input.path}.`)
+    .update(body)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
@@ -0,0 +1,143 @@
+/**
+ * Verification of anvil-api callbacks.
+ *
+ * anvil-api signs every callback with HMAC-SHA256 over
+ * `<timestamp>.<delivery id>.<METHOD>.<path>.<raw body>` using
+ * ANVIL_WEBHOOK_SECRET and sends:
+ *   x-anvil-timestamp: unix seconds
+ *   x-anvil-signature: sha256=<hex digest>
+ *   x-anvil-delivery:  unique id per delivery (retries reuse it)
+ *
+ * The legacy `x-webhook-secret` header is only accepted while the
+ * `anvil_webhook_legacy_secret` setting is "true".
+ */
+import { timingSafeEqual } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { getGlobalSetting } from "./settings";
+import { signWebhookPayload } from "./utils/webhook-signature";
+import { LEGACY_WEBHOOK_SECRET_SETTING } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+const ANVIL_WEBHOOK_SECRET = process.env.ANVIL_WEBHOOK_SECRET;
+const TOLERANCE_SECONDS = Number(process.env.ANVIL_WEBHOOK_TOLERANCE_SECONDS) || 300;
+
+// Delivery ids seen within the tolerance window. A delivery stays "in_flight"
+// until its response is sent, and only becomes "done" if that was a 2xx.
+const seenDeliveries = new Map<string, { state: "in_flight" | "done"; expiresAt: number }>();
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  if (bufA.length !== bufB.length) return false;
+  return timingSafeEqual(bufA, bufB);
+}
+
+function header(req: Request, name: string): string | undefined {
+  const value = req.headers[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Mark a delivery id as in flight. Returns the state it already had instead
+ * when it was seen before and has not expired.
+ */
+function claimDelivery(deliveryId: string): "in_flight" | "done" | null {
+  const now = Date.now();
+  seenDeliveries.forEach(({ expiresAt }, id) => {
+    if (expiresAt <= now) seenDeliveries.delete(id);
+  });
+
+  const seen = seenDeliveries.get(deliveryId);
+  if (seen) return seen.state;
+  // Keep ids slightly longer than the window a timestamp is accepted for
+  seenDeliveries.set(deliveryId, { state: "in_flight", expiresAt: now + TOLERANCE_SECONDS * 2 * 1000 });
+  return null;
+}
+
+async function isLegacySecretAllowed(): Promise<boolean> {
+  try {
+    return (await getGlobalSetting(LEGACY_WEBHOOK_SECRET_SETTING)) === true;
+  } catch (error) {
+    console.error("[webhook] Failed to read legacy secret setting:", error);
+    return false;
+  }
+}
+
+/**
+ * Express middleware guarding the internal anvil-api webhook routes.
+ * Requires the JSON body parser to have captured `req.rawBody`.
+ */
+export async function verifyAnvilWebhook(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!ANVIL_WEBHOOK_SECRET) {
+      return res.status(503).json({ message: "Webhook not configured" });
+    }
+
+    const signature = header(req, "x-anvil-signature");
+    const timestamp = header(req, "x-anvil-timestamp");
+    const deliveryId = header(req, "x-anvil-delivery");
+
+    if (!signature) {
+      const legacySecret = header(req, "x-webhook-secret");
+      if (legacySecret && await isLegacySecretAllowed()) {
+        if (!safeEqual(legacySecret, ANVIL_WEBHOOK_SECRET)) {
+          return res.status(401).json({ message: "Invalid webhook secret" });
+        }
+        console.warn(`[webhook] Accepted unsigned legacy callback for ${req.path}`);
+        return next();
+      }
+      return res.status(401).json({ message: "Missing webhook signature" });
+    }
+
+    const timestampSeconds = Number(timestamp);
+    if (!timestamp || !Number.isFinite(timestampSeconds)) {
+      return res.status(401).json({ message: "Missing or invalid webhook timestamp" });
+    }
+    if (Math.abs(Date.now() / 1000 - timestampSeconds) > TOLERANCE_SECONDS) {
+      return res.status(401).json({ message: "Webhook timestamp outside of tolerance window" });
+    }
+    if (!deliveryId) {
+      return res.status(401).json({ message: "Missing webhook delivery id" });
+    }
+
+    const expected = signWebhookPayload(
+      ANVIL_WEBHOOK_SECRET,
+      { timestamp, deliveryId, method: req.method, path: req.originalUrl },
+      req.rawBody ?? "",
+    );
+    if (!safeEqual(signature, expected)) {
+      return res.status(401).json({ message: "Invalid webhook signature" });
+    }
+
+    // The delivery id is signed, so a replay can't get past this by changing it
+    const seen = claimDelivery(deliveryId);
+    if (seen === "done") {
+      console.log(`[webhook] Dropping duplicate delivery ${deliveryId} for ${req.path}`);
+      return res.status(200).json({ ok: true, duplicate: true });
+    }
+    if (seen === "in_flight") {
+      // The first copy may still fail, so the sender has to try again rather than count this as delivered
+      res.setHeader("Retry-After", "1");
+      return res.status(503).json({ message: "Delivery is still being processed" });
+    }
+    // Only a delivery we acknowledged counts as done; after an error the sender's retry must go through
+    res.on("close", () => {
+      if (res.writableFinished && res.statusCode >= 200 && res.statusCode < 300) {
+        seenDeliveries.set(deliveryId, { state: "done", expiresAt: Date.now() + TOLERANCE_SECONDS * 2 * 1000 });
+      } else {
+        seenDeliveries.delete(deliveryId);
+      }
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
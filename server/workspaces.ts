@@ -0,0 +1,454 @@
+/**
+ * Team workspaces: ideas owned by a workspace are shared with its members.
+ * Owners manage the workspace, its members and invitations; editors can
+ * create and change ideas; viewers have read-only access. Personal ideas
+ * (workspaceId null) remain visible to their creator only.
+ */
+import { Express, Request } from "express";
+import rateLimit from "express-rate-limit";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { emailService } from "./email";
+import { generateTokenExpiry } from "./utils/auth-utils";
+import { insertWorkspaceSchema, workspaceRoles, type Idea, type Job, type WorkspaceRole } from "@shared/schema";
+
+const INVITATION_EXPIRY_HOURS = 7 * 24;
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+const invitationLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { message: "Too many requests, please try again later" },
+});
+
+const inviteSchema = z.object({
+  email: z.string().trim().email(),
+  role: z.enum(["editor", "viewer"]).default("viewer"),
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum(workspaceRoles),
+});
+
+export function hasWorkspaceRole(role: WorkspaceRole | null | undefined, minimum: WorkspaceRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+export async function getWorkspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+  const member = await storage.getWorkspaceMember(workspaceId, userId);
+  return (member?.role as WorkspaceRole | undefined) ?? null;
+}
+
+/** The role a user has on an idea: creators own personal ideas, workspace ideas follow membership. */
+export async function getIdeaRole(idea: Idea, userId: string): Promise<WorkspaceRole | null> {
+  if (!idea.workspaceId) {
+    return idea.userId === userId ? "owner" : null;
+  }
+  return getWorkspaceRole(idea.workspaceId, userId);
+}
+
+/** Access to a job follows access to the idea it belongs to. */
+export async function getJobRole(job: Job, userId: string): Promise<WorkspaceRole | null> {
+  const idea = await storage.getIdeaById(job.ideaId);
+  return idea ? getIdeaRole(idea, userId) : null;
+}
+
+export async function canEditIdea(idea: Idea, userId: string): Promise<boolean> {
+  return hasWorkspaceRole(await getIdeaRole(idea, userId), "editor");
+}
+
+/** Workspace owners can delete any of its ideas; editors only the ones they created. */
+export async function canDeleteIdea(idea: Idea, userId: string): Promise<boolean> {
+  const role = await getIdeaRole(idea, userId);
+  return role === "owner" || (role === "editor" && idea.userId === userId);
+}
+
+function clientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+function buildInvitationUrl(req: Request, token: string) {
+  const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+  return `${baseUrl}/invite/${token}`;
+}
+
+/** A workspace must always keep at least one owner. */
+async function isLastOwner(workspaceId: string, userId: string): Promise<boolean> {
+  const members = await storage.getWorkspaceMembers(workspaceId);
+  const owners = members.filter(m => m.role === "owner");
+  return owners.length === 1 && owners[0].userId === userId;
+}
+
+export function setupWorkspaceRoutes(app: Express) {
+  // ==================== WORKSPACES ====================
+
+  app.get("/api/workspaces", isAuthenticated, async (req, res, next) => {
+    try {
+      const workspaces = await storage.getWorkspacesForUser(req.user!.id);
+      return res.status(200).json(workspaces);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.post("/api/workspaces", isAuthenticated, async (req, res, next) => {
+    try {
+      const parsed = insertWorkspaceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+
+      const workspace = await storage.createWorkspace(parsed.data.name, req.user!.id);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "workspace.create",
+        targetType: "workspace",
+        targetId: workspace.id,
+        details: { name: workspace.name },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(201).json({ ...workspace, role: "owner", memberCount: 1 });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/workspaces/:id", isAuthenticated, async (req, res, next) => {
+    try {
+      const role = await getWorkspaceRole(req.params.id, req.user!.id);
+      if (!role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (role !== "owner") {
+        return res.status(403).json({ message: "Only workspace owners can rename the workspace" });
+      }
+
+      const parsed = insertWorkspaceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+
+      await storage.updateWorkspace(req.params.id, { name: parsed.data.name });
+      const workspace = await storage.getWorkspaceById(req.params.id);
+      return res.status(200).json(workspace);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/workspaces/:id", isAuthenticated, async (req, res, next) => {
+    try {
+      const workspaceId = req.params.id;
+      const role = await getWorkspaceRole(workspaceId, req.user!.id);
+      if (!role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (role !== "owner") {
+        return res.status(403).json({ message: "Only workspace owners can delete the workspace" });
+      }
+
+      const ideas = await storage.getIdeasByWorkspace(workspaceId);
+      if (ideas.length > 0) {
+        return res.status(409).json({ message: "Delete the workspace's ideas before deleting the workspace" });
+      }
+
+      await storage.deleteWorkspace(workspaceId);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "workspace.delete",
+        targetType: "workspace",
+        targetId: workspaceId,
+        details: null,
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ message: "Workspace deleted" });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  // ==================== MEMBERS ====================
+
+  app.get("/api/workspaces/:id/members", isAuthenticated, async (req, res, next) => {
+    try {
+      const role = await getWorkspaceRole(req.params.id, req.user!.id);
+      if (!role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+
+      const members = await storage.getWorkspaceMembers(req.params.id);
+      return res.status(200).json(members);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/workspaces/:id/members/:userId", isAuthenticated, async (req, res, next) => {
+    try {
+      const { id: workspaceId, userId: memberId } = req.params;
+      const role = await getWorkspaceRole(workspaceId, req.user!.id);
+      if (!role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (role !== "owner") {
+        return res.status(403).json({ message: "Only workspace owners can change member roles" });
+      }
+
+      const parsed = updateMemberSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+
+      const member = await storage.getWorkspaceMember(workspaceId, memberId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (parsed.data.role !== "owner" && await isLastOwner(workspaceId, memberId)) {
+        return res.status(409).json({ message: "A workspace must have at least one owner" });
+      }
+
+      await storage.updateWorkspaceMemberRole(workspaceId, memberId, parsed.data.role);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "workspace.update_member",
+        targetType: "workspace",
+        targetId: workspaceId,
+        details: { userId: memberId, from: member.role, to: parsed.data.role },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ ...member, role: parsed.data.role });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  // Owners can remove anyone; any member can remove themselves (leave)
+  app.delete("/api/workspaces/:id/members/:userId", isAuthenticated, async (req, res, next) => {
+    try {
+      const { id: workspaceId, userId: memberId } = req.params;
+      const role = await getWorkspaceRole(workspaceId, req.user!.id);
+      if (!role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (role !== "owner" && memberId !== req.user!.id) {
+        return res.status(403).json({ message: "Only workspace owners can remove other members" });
+      }
+
+      const member = await storage.getWorkspaceMember(workspaceId, memberId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (await isLastOwner(workspaceId, memberId)) {
+        return res.status(409).json({ message: "A workspace must have at least one owner" });
+      }
+
+      await storage.removeWorkspaceMember(workspaceId, memberId);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "workspace.remove_member",
+        targetType: "workspace",
+        targetId: workspaceId,
+        details: { userId: memberId, role: member.role },
+        ipAddress: clientIp(req),
+      });
+
+      return res.status(200).json({ message: "Member removed" });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  // ==================== INVITATIONS ====================
+
+  app.get("/api/workspaces/:id/invitations", isAuthenticated, async (req, res, next) => {
+    try {
+      const role = await getWorkspaceRole(req.params.id, req.user!.id);
+      if (!role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (role !== "owner") {
+        return res.status(403).json({ message: "Only workspace owners can view invitations" });
+      }
+
+      const invitations = await storage.getPendingWorkspaceInvitations(req.params.id);
+      // Tokens are only ever sent to the invitee
+      return res.status(200).json(invitations.map(({ token, ...invitation }) => invitation));
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.post("/api/workspaces/:id/invitations", isAuthenticated, invitationLimiter, async (req, res, next) => {
+    try {
+      const workspaceId = req.params.id;
+      const role = await getWorkspaceRole(workspaceId, req.user!.id);
+      if (!role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (role !== "owner") {
+        return res.status(403).json({ message: "Only workspace owners can invite members" });
+      }
+
+      const parsed = inviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: parsed.error.flatten().fieldErrors,
+        });
+      }
+      const email = parsed.data.email.toLowerCase();
+
+      const members = await storage.getWorkspaceMembers(workspaceId);
+      if (members.some(m => m.email?.toLowerCase() === email)) {
+        return res.status(409).json({ message: "This person is already a member of the workspace" });
+      }
+
+      // Re-inviting replaces any invitation still pending for the same address
+      const pending = await storage.getPendingWorkspaceInvitations(workspaceId);
+      for (const invitation of pending.filter(i => i.email === email)) {
+        await storage.deleteWorkspaceInvitation(invitation.id);
+      }
+
+      const workspace = await storage.getWorkspaceById(workspaceId);
+      const invitation = await storage.createWorkspaceInvitation({
+        workspaceId,
+        email,
+        role: parsed.data.role,
+        token: randomBytes(32).toString("hex"),
+        invitedBy: req.user!.id,
+        expiresAt: generateTokenExpiry(INVITATION_EXPIRY_HOURS),
+      });
+
+      const emailSent = await emailService.sendWorkspaceInvitationEmail(
+        email,
+        req.user!.username,
+        workspace?.name ?? "a workspace",
+        invitation.role,
+        buildInvitationUrl(req, invitation.token),
+      );
+
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "workspace.invite",
+        targetType: "workspace",
+        targetId: workspaceId,
+        details: { email, role: invitation.role, emailSent },
+        ipAddress: clientIp(req),
+      });
+
+      const { token, ...summary } = invitation;
+      return res.status(201).json({ ...summary, emailSent });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/workspaces/:id/invitations/:invitationId", isAuthenticated, async (req, res, next) => {
+    try {
+      const { id: workspaceId, invitationId } = req.params;
+      const role = await getWorkspaceRole(workspaceId, req.user!.id);
+      if (!role) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (role !== "owner") {
+        return res.status(403).json({ message: "Only workspace owners can revoke invitations" });
+      }
+
+      const invitation = await storage.getWorkspaceInvitationById(invitationId);
+      if (!invitation || invitation.workspaceId !== workspaceId) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      await storage.deleteWorkspaceInvitation(invitationId);
+      return res.status(200).json({ message: "Invitation revoked" });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  // Details shown on the invitation page before the invitee signs in
+  app.get("/api/workspace-invitations/:token", invitationLimiter, async (req, res, next) => {
+    try {
+      const invitation = await storage.getWorkspaceInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (invitation.acceptedAt) {
+        return res.status(410).json({ message: "This invitation has already been accepted" });
+      }
+      if (invitation.expiresAt.getTime() <= Date.now()) {
+        return res.status(410).json({ message: "This invitation has expired" });
+      }
+
+      const workspace = await storage.getWorkspaceById(invitation.workspaceId);
+      const inviter = await storage.getUser(invitation.invitedBy);
+      return res.status(200).json({
+        workspaceName: workspace?.name ?? null,
+        invitedBy: inviter?.username ?? null,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+      });
+    } catch (error: any) {
+      next(error);
+    }
+  });
+
+  app.post("/api/workspace-invitations/:token/accept", isAuthenticated, invitationLimiter, async (req, res, next) => {
+    try {
+      const invitation = await storage.getWorkspaceInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (invitation.acceptedAt) {
+        return res.status(410).json({ message: "This invitation has already been accepted" });
+      }
+      if (invitation.expiresAt.getTime() <= Date.now()) {
+        return res.status(410).json({ message: "This invitation has expired" });
+      }
+      if (req.user!.email?.toLowerCase() !== invitation.email) {
+        return res.status(403).json({ message: `This invitation was sent to ${invitation.email}. Sign in with that account to accept it.` });
+      }
+      // Anyone can register with the invitee's address; only a verified owner of it may join
+      if (!(await storage.isEmailVerified(req.user!.id))) {
+        return res.status(403).json({ message: `Verify ${invitation.email} before accepting this invitation.` });
+      }
+
+      await storage.acceptWorkspaceInvitation(invitation.id, req.user!.id);
+      await storage.createAuditLog({
+        actorId: req.user!.id,
+        action: "workspace.accept_invite",
+        targetType: "workspace",
+        targetId: invitation.workspaceId,
+        details: { invitationId: invitation.id, role: invitation.role },
+        ipAddress: clientIp(req),
+      });
+
+      const workspace = await storage.getWorkspaceById(invitation.workspaceId);
+      return res.status(200).json(workspace);
+    } catch (error: any) {
+      next(error);
+    }
+  });
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, timestamp, varchar, uuid, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, timestamp, varchar, uuid, jsonb, integer, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,6 +8,22 @@ export type IdeaStatus = typeof ideaStatuses[number];
 export const documentStatuses = ["generating", "completed", "failed"] as const;
 export type DocumentStatus = typeof documentStatuses[number];
 
+// Job lifecycle: queued → pending → processing → completed | failed | cancelled
+export const jobStatuses = ["queued", "pending", "processing", "completed", "failed", "cancelled"] as const;
+export type JobStatus = typeof jobStatuses[number];
+export const activeJobStatuses: readonly JobStatus[] = ["queued", "pending", "processing"];
+// Active jobs already handed to anvil-api, which count against the concurrency limits
+export const dispatchedJobStatuses: readonly JobStatus[] = ["pending", "processing"];
+
+// Order in which queued jobs are dispatched; higher goes first
+export const generationPriorities = ["low", "normal", "high"] as const;
+export type GenerationPriority = typeof generationPriorities[number];
+export const generationPriorityValues: Record<GenerationPriority, number> = {
+  low: -10,
+  normal: 0,
+  high: 10,
+};
+
 // Document types that can be created for each idea
 export const documentTypes = [
   "LeanCanvas",
@@ -23,6 +39,153 @@ export const documentTypes = [
 ] as const;
 export type DocumentType = typeof documentTypes[number];
 
+// Steps that can be (re)generated individually through anvil-api, in pipeline order
+export const pipelineSteps = ["lean_canvas", "prd", "brd", "frd", "workflows", "specs"] as const;
+export type PipelineStep = typeof pipelineSteps[number];
+
+export const pipelineStepLabels: Record<PipelineStep, string> = {
+  lean_canvas: "Lean Canvas",
+  prd: "Project Requirements",
+  brd: "Business Requirements",
+  frd: "Functional Requirements",
+  workflows: "Workflows",
+  specs: "Specifications & Estimate",
+};
+
+// Documents produced by each pipeline step
+export const stepDocumentTypes: Record<PipelineStep, DocumentType[]> = {
+  lean_canvas: ["LeanCanvas"],
+  prd: ["ProjectRequirements"],
+  brd: ["BusinessRequirements"],
+  frd: ["FunctionalRequirements"],
+  workflows: ["Workflows"],
+  specs: ["FrontEndSpecification", "BackEndSpecification", "Estimate"],
+};
+
+export function getDocumentStep(documentType: string): PipelineStep | undefined {
+  return pipelineSteps.find(step => (stepDocumentTypes[step] as readonly string[]).includes(documentType));
+}
+
+// Steps that run after `step` in the pipeline, in order
+export function getDownstreamSteps(step: PipelineStep): PipelineStep[] {
+  return pipelineSteps.slice(pipelineSteps.indexOf(step) + 1);
+}
+
+// Documents produced by earlier steps, which a document of this type is generated from
+export function getUpstreamDocumentTypes(documentType: string): DocumentType[] {
+  const step = getDocumentStep(documentType);
+  if (!step) return [];
+  return pipelineSteps.slice(0, pipelineSteps.indexOf(step)).flatMap(upstream => stepDocumentTypes[upstream]);
+}
+
+export interface PipelineSelection {
+  // Steps to run, in pipeline order
+  steps: PipelineStep[];
+  // Prerequisites that were not picked but have to run first
+  addedSteps: PipelineStep[];
+}
+
+/**
+ * Complete a custom selection of steps with the prerequisites it is missing.
+ * A step is generated from the documents of every step before it, so an
+ * earlier step is added unless it was picked or its documents are complete.
+ */
+export function resolvePipelineSelection(
+  selected: readonly PipelineStep[],
+  completedDocumentTypes: readonly string[],
+): PipelineSelection {
+  const completed = new Set(completedDocumentTypes);
+  const lastIndex = Math.max(...selected.map(step => pipelineSteps.indexOf(step)));
+  const steps = pipelineSteps.filter((step, index) =>
+    selected.includes(step)
+    || (index < lastIndex && !stepDocumentTypes[step].every(type => completed.has(type))));
+  return { steps, addedSteps: steps.filter(step => !selected.includes(step)) };
+}
+
+// Revision of each upstream document at the time a document was generated
+export type SourceRevisions = Partial<Record<DocumentType, number>>;
+
+export interface StaleDocument {
+  documentType: DocumentType;
+  // Upstream documents that changed after this one was generated
+  changedUpstream: DocumentType[];
+}
+
+/**
+ * Documents whose upstream documents have moved on since they were generated.
+ * Documents generated before revisions were tracked are never reported.
+ */
+export function findStaleDocuments(
+  docs: { documentType: string; revision: number; sourceRevisions: SourceRevisions | null }[],
+): StaleDocument[] {
+  const revisions = new Map(docs.map(doc => [doc.documentType, doc.revision]));
+  const stale: StaleDocument[] = [];
+  for (const doc of docs) {
+    if (!doc.sourceRevisions) continue;
+    const sources = doc.sourceRevisions;
+    const changedUpstream = getUpstreamDocumentTypes(doc.documentType).filter(upstream => {
+      const recorded = sources[upstream];
+      const current = revisions.get(upstream);
+      return recorded != null && current != null && current > recorded;
+    });
+    if (changedUpstream.length > 0) {
+      stale.push({ documentType: doc.documentType as DocumentType, changedUpstream });
+    }
+  }
+  return stale;
+}
+
+// Stages anvil-api reports progress for (1-based `step` in callbacks), with
+// the number of substeps each one runs — used to weight the progress bar
+export const pipelineStages = [
+  { name: "Lean Canvas", substeps: 9 },
+  { name: "Project Requirements", substeps: 13 },
+  { name: "Business Requirements", substeps: 13 },
+  { name: "Functional Requirements", substeps: 32 },
+  { name: "Workflow Vectorizer", substeps: 10 },
+  { name: "Workflow Interrogation", substeps: 27 },
+  { name: "Workflow Parsing", substeps: 10 },
+  { name: "Mermaid", substeps: 10 },
+  { name: "Vibe Coder", substeps: 29 },
+  { name: "Estimate", substeps: 10 },
+] as const;
+
+// Stages (1-based, see pipelineStages) each pipeline step runs through
+export const pipelineStepStages: Record<PipelineStep, number[]> = {
+  lean_canvas: [1],
+  prd: [2],
+  brd: [3],
+  frd: [4],
+  workflows: [5, 6, 7, 8],
+  specs: [9, 10],
+};
+
+// Stages the given steps run through, in pipeline order
+export function getStagesForSteps(steps: readonly PipelineStep[]): number[] {
+  return pipelineSteps.filter(step => steps.includes(step)).flatMap(step => pipelineStepStages[step]);
+}
+
+export function getPipelineStageName(step: number | null | undefined): string | null {
+  if (step == null) return null;
+  return pipelineStages[step - 1]?.name ?? null;
+}
+
+// Start/finish time of one pipeline stage within a job
+export interface JobStepTiming {
+  step: number;
+  name: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+// File formats an idea's document bundle can be exported as
+export const exportFormats = ["md", "pdf", "docx", "zip"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+// Why a document revision was superseded
+export const documentChangeReasons = ["manual_edit", "regeneration", "restore"] as const;
+export type DocumentChangeReason = typeof documentChangeReasons[number];
+
 export const canvasSections = [
   "Problem",
   "CustomerSegments",
@@ -62,6 +225,160 @@ export const users = pgTable("users", {
   emailVerified: text("email_verified").default("false"),
   verificationToken: text("verification_token"),
   verificationTokenExpiry: timestamp("verification_token_expiry"),
+  // Password reset and email change tokens are stored hashed; only the emailed link carries the raw token
+  passwordResetToken: text("password_reset_token"),
+  passwordResetTokenExpiry: timestamp("password_reset_token_expiry"),
+  pendingEmail: text("pending_email"),
+  emailChangeToken: text("email_change_token"),
+  emailChangeTokenExpiry: timestamp("email_change_token_expiry"),
+  // Set by a superadmin; disabled accounts can't sign in and lose their sessions
+  disabledAt: timestamp("disabled_at"),
+  // TOTP two-factor authentication; enabled once the first code from the app checks out
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  // Last accepted time step, so a code can't be replayed within its window
+  totpLastUsedStep: integer("totp_last_used_step"),
+  // SHA-256 hashes of the unused one-time recovery codes
+  totpRecoveryCodes: jsonb("totp_recovery_codes").$type<string[]>(),
+  // Consecutive wrong passwords since the last successful sign-in; repeated failures lock the account for a while
+  failedLoginCount: integer("failed_login_count").notNull().default(0),
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedUntil: timestamp("locked_until"),
+});
+
+// Who may create an account through POST /api/register, set by a superadmin
+export const registrationModes = ["disabled", "open", "invite_only", "domain"] as const;
+export type RegistrationMode = typeof registrationModes[number];
+export const REGISTRATION_MODE_SETTING = "registration_mode";
+export const REGISTRATION_DOMAINS_SETTING = "registration_allowed_domains";
+
+export interface RegistrationSettings {
+  mode: RegistrationMode;
+  allowedDomains: string[];
+}
+
+// Whether superadmins must have two-factor authentication before using their session, set by a superadmin
+export const SUPERADMIN_TWO_FACTOR_SETTING = "superadmin_two_factor_required";
+
+export const EMAIL_FROM_ADDRESS_SETTING = "email_from_address";
+// Whether anvil-api callbacks may still authenticate with the shared x-webhook-secret header
+export const LEGACY_WEBHOOK_SECRET_SETTING = "anvil_webhook_legacy_secret";
+export const COMMENT_MENTION_EMAILS_PREFERENCE = "comment_mention_emails";
+export const COMMENT_ACTIVITY_EMAILS_PREFERENCE = "comment_activity_emails";
+
+// Global settings apply to everyone; user settings are each user's own preferences
+export const settingScopes = ["global", "user"] as const;
+export type SettingScope = typeof settingScopes[number];
+
+interface SettingDefinitionBase {
+  key: string;
+  label: string;
+  description: string;
+  scope: SettingScope;
+  // Least privileged role that may see and change the setting
+  requiredRole: UserRole;
+}
+
+export type SettingDefinition =
+  | (SettingDefinitionBase & { type: "boolean"; schema: z.ZodType<boolean>; defaultValue: boolean })
+  | (SettingDefinitionBase & { type: "string"; schema: z.ZodType<string>; defaultValue: string; placeholder?: string });
+export type SettingValue = SettingDefinition["defaultValue"];
+export type SettingValues = Record<string, SettingValue>;
+
+/**
+ * Every setting the settings routes accept, and what the settings page shows.
+ * Registration and the superadmin two-factor policy aren't listed: changing
+ * them has rules beyond their own value, so they keep their own admin routes.
+ */
+export const settingDefinitions: SettingDefinition[] = [
+  {
+    key: EMAIL_FROM_ADDRESS_SETTING,
+    label: "Email From Address",
+    description: "Sender of every email the app sends. Leave empty to use the mail domain's no-reply address.",
+    scope: "global",
+    requiredRole: "superadmin",
+    type: "string",
+    schema: z.string().trim().max(200).refine(
+      value => value === "" || /^([^<>]+<)?[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+>?$/.test(value),
+      'Use "Display Name <email@example.com>" or "email@example.com"',
+    ),
+    defaultValue: "",
+    placeholder: "Anvil of Ideas <no-reply@anvilofideas.com>",
+  },
+  {
+    key: LEGACY_WEBHOOK_SECRET_SETTING,
+    label: "Accept legacy anvil-api webhook secret",
+    description: "Let anvil-api callbacks authenticate with the shared x-webhook-secret header instead of a signature. Turn off once every anvil-api deployment signs its callbacks.",
+    scope: "global",
+    requiredRole: "superadmin",
+    type: "boolean",
+    schema: z.boolean(),
+    defaultValue: false,
+  },
+  {
+    key: COMMENT_MENTION_EMAILS_PREFERENCE,
+    label: "Mentions",
+    description: "Email me when someone @mentions me in a comment.",
+    scope: "user",
+    requiredRole: "user",
+    type: "boolean",
+    schema: z.boolean(),
+    defaultValue: true,
+  },
+  {
+    key: COMMENT_ACTIVITY_EMAILS_PREFERENCE,
+    label: "Comment activity",
+    description: "Email me about replies to my threads and new comments on my ideas.",
+    scope: "user",
+    requiredRole: "user",
+    type: "boolean",
+    schema: z.boolean(),
+    defaultValue: true,
+  },
+];
+
+export function getSettingDefinition(scope: SettingScope, key: string): SettingDefinition | undefined {
+  return settingDefinitions.find(definition => definition.scope === scope && definition.key === key);
+}
+
+/** Whether `role` is at least as privileged as `required`. */
+export function hasUserRole(role: string, required: UserRole): boolean {
+  return userRoles.indexOf(role as UserRole) >= userRoles.indexOf(required);
+}
+
+// Workspace membership roles, from most to least privileged
+export const workspaceRoles = ["owner", "editor", "viewer"] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+
+export const workspaces = pgTable("workspaces", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  ownerId: uuid("owner_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  workspaceId: uuid("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").notNull().references(() => users.id),
+  role: text("role").notNull().default("viewer"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  workspaceUserUnique: unique().on(table.workspaceId, table.userId),
+}));
+
+// Pending invitation to join a workspace, accepted through an emailed token
+export const workspaceInvitations = pgTable("workspace_invitations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  workspaceId: uuid("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: text("role").notNull().default("viewer"),
+  token: text("token").notNull().unique(),
+  invitedBy: uuid("invited_by").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const auditLogs = pgTable("audit_logs", {
@@ -78,6 +395,8 @@ export const auditLogs = pgTable("audit_logs", {
 export const ideas = pgTable("ideas", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: uuid("user_id").notNull().references(() => users.id),
+  // Team workspace the idea belongs to; null for personal ideas
+  workspaceId: uuid("workspace_id").references(() => workspaces.id),
   title: text("title").notNull().default(""),
   description: text("description").notNull(),
   founderName: text("founder_name"),
@@ -90,6 +409,15 @@ export const ideas = pgTable("ideas", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Generation jobs started together for several ideas, e.g. from the dashboard
+export const jobBatches = pgTable("job_batches", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id),
+  // Step every job in the batch regenerates, or null for the full pipeline
+  pipelineStep: text("pipeline_step"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const jobs = pgTable("jobs", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: uuid("user_id").notNull().references(() => users.id),
@@ -97,10 +425,46 @@ export const jobs = pgTable("jobs", {
   status: text("status").default(""),
   documentType: text("document_type"),
   description: text("description"),
+  // Structured progress, as last reported by anvil-api
+  currentStep: integer("current_step"),
+  currentSubstep: integer("current_substep"),
+  totalSubsteps: integer("total_substeps"),
+  stepName: text("step_name"),
+  stepTimings: jsonb("step_timings").$type<JobStepTiming[]>(),
+  // What the user asked anvil-api to take into account for this run
+  guidanceNotes: text("guidance_notes"),
+  // Step a step regeneration job is running, and the steps queued to run after it
+  pipelineStep: text("pipeline_step"),
+  queuedSteps: jsonb("queued_steps").$type<PipelineStep[]>(),
+  // Every step the job runs, in order, or null for the full pipeline; unlike
+  // queuedSteps it doesn't shrink as steps finish, so progress can be weighted by it
+  plannedSteps: jsonb("planned_steps").$type<PipelineStep[]>(),
+  // Dispatch order while the job waits in the generation queue (see generationPriorityValues)
+  priority: integer("priority").notNull().default(0),
+  // When the queue handed the job to anvil-api
+  dispatchedAt: timestamp("dispatched_at"),
+  // Batch the job was started in, if any
+  batchId: uuid("batch_id").references(() => jobBatches.id, { onDelete: "set null" }),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Every status/progress update a job received, in order
+export const jobEvents = pgTable("job_events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  jobId: uuid("job_id").notNull().references(() => jobs.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").notNull().references(() => users.id),
+  status: text("status").notNull(),
+  message: text("message"),
+  step: integer("step"),
+  substep: integer("substep"),
+  totalSubsteps: integer("total_substeps"),
+  stepName: text("step_name"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Unified documents table - replaces both lean_canvas and project_documents
 export const documents = pgTable("documents", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -111,11 +475,88 @@ export const documents = pgTable("documents", {
   content: text("content"),
   contentSections: jsonb("content_sections"),
   status: text("status").notNull().default("generating"),
+  // Bumped on every content change, so downstream documents can tell they are stale
+  revision: integer("revision").notNull().default(1),
+  sourceRevisions: jsonb("source_revisions").$type<SourceRevisions>(),
+  // Job that last recorded the document as generated, so one run records it only once
+  generatedByJobId: uuid("generated_by_job_id"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   generatedAt: timestamp("generated_at").defaultNow(),
 });
 
+// Snapshot of a document's content taken just before it was overwritten
+export const documentVersions = pgTable("document_versions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  documentId: uuid("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  ideaId: uuid("idea_id").notNull().references(() => ideas.id),
+  userId: uuid("user_id").notNull().references(() => users.id),
+  documentType: text("document_type").notNull(),
+  versionNumber: integer("version_number").notNull(),
+  content: text("content"),
+  contentSections: jsonb("content_sections"),
+  changedBy: uuid("changed_by"),
+  changeReason: text("change_reason").notNull(),
+  jobId: uuid("job_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  // createDocumentVersion relies on it to retry a version number taken concurrently
+  documentVersionUnique: unique().on(table.documentId, table.versionNumber),
+}));
+
+// Read-only public link to an idea (documentId null) or a single document
+export const shareLinks = pgTable("share_links", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  ideaId: uuid("idea_id").notNull().references(() => ideas.id),
+  userId: uuid("user_id").notNull().references(() => users.id),
+  documentId: uuid("document_id").references(() => documents.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  passwordHash: text("password_hash"),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  viewCount: integer("view_count").notNull().default(0),
+  lastViewedAt: timestamp("last_viewed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Discussion anchored to one section of a document (documentId + sectionKey)
+// or to a Lean Canvas box (canvasSection). Replies point at the thread's root
+// comment through parentId; only roots are resolved.
+export const comments = pgTable("comments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  ideaId: uuid("idea_id").notNull().references(() => ideas.id),
+  documentId: uuid("document_id").references(() => documents.id, { onDelete: "cascade" }),
+  sectionKey: text("section_key"),
+  canvasSection: text("canvas_section"),
+  parentId: uuid("parent_id"),
+  userId: uuid("user_id").notNull().references(() => users.id),
+  body: text("body").notNull(),
+  // Ids of the users @mentioned in the body
+  mentions: jsonb("mentions").$type<string[]>().notNull().default([]),
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: uuid("resolved_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// What a personal API token may be used for
+export const apiTokenScopes = ["ideas:read", "ideas:write", "generation:trigger"] as const;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+// Personal access token for the public REST API; only a hash of the token is stored
+export const apiTokens = pgTable("api_tokens", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  // First characters of the raw token, so users can tell their tokens apart
+  tokenPrefix: text("token_prefix").notNull(),
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const appSettings = pgTable("app_settings", {
   id: serial("id").primaryKey(),
   key: varchar("key", { length: 50 }).notNull().unique(),
@@ -124,6 +565,17 @@ export const appSettings = pgTable("app_settings", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Each user's own values for the user-scoped settings in settingDefinitions
+export const userPreferences = pgTable("user_preferences", {
+  id: serial("id").primaryKey(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  key: varchar("key", { length: 50 }).notNull(),
+  value: text("value"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  userKeyUnique: unique().on(table.userId, table.key),
+}));
+
 // Define schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -132,11 +584,110 @@ export const insertUserSchema = createInsertSchema(users).pick({
   role: true,
 });
 
+export const registerUserSchema = z.object({
+  username: z.string().trim().min(3).max(50),
+  email: z.string().trim().email(),
+  password: z.string().min(6),
+  // Workspace invitation being accepted, required in invite-only mode
+  inviteToken: z.string().optional(),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+export const emailChangeSchema = z.object({
+  newEmail: z.string().trim().email(),
+  currentPassword: z.string().min(1),
+});
+
+// Either a six digit authenticator code or a one-time recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(32),
+});
+
+export const twoFactorDisableSchema = twoFactorCodeSchema.extend({
+  currentPassword: z.string().min(1),
+});
+
+export const twoFactorPolicySchema = z.object({
+  requireForSuperadmins: z.boolean(),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Choose at least one scope"),
+  // Null for a token that never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+});
+
+// Checked against the setting's own schema once the key is known
+export const settingUpdateSchema = z.object({
+  value: z.unknown(),
+});
+
+export const adminUserFiltersSchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  role: z.enum(userRoles).optional(),
+  status: z.enum(["active", "disabled"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const adminUpdateRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export const registrationSettingsSchema = z.object({
+  mode: z.enum(registrationModes),
+  allowedDomains: z.array(
+    z.string().trim().toLowerCase().regex(/^[a-z0-9.-]+\.[a-z]{2,}$/, "Invalid domain")
+  ).default([]),
+});
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces, {
+  name: z.string().trim().min(1).max(100),
+}).pick({
+  name: true,
+});
+
+export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWorkspaceInvitationSchema = createInsertSchema(workspaceInvitations).omit({
+  id: true,
+  acceptedAt: true,
+  createdAt: true,
+});
+
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   id: true,
   createdAt: true,
 });
 
+export const auditLogExportFormats = ["json", "csv", "ndjson"] as const;
+
+export const auditLogQuerySchema = z.object({
+  // Username or user id of whoever performed the action
+  actor: z.string().trim().min(1).optional(),
+  // Exact action, or an area like "admin" to match every "admin.*" action
+  action: z.string().trim().min(1).optional(),
+  targetType: z.string().trim().min(1).optional(),
+  targetId: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  format: z.enum(auditLogExportFormats).default("json"),
+});
+
 export const insertIdeaSchema = createInsertSchema(ideas).omit({
   id: true,
   userId: true,
@@ -147,6 +698,9 @@ export const insertIdeaSchema = createInsertSchema(ideas).omit({
 
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
+  revision: true,
+  sourceRevisions: true,
+  generatedByJobId: true,
   createdAt: true,
   updatedAt: true,
   generatedAt: true,
@@ -159,33 +713,268 @@ export const updateDocumentSchema = createInsertSchema(documents).pick({
   updatedAt: true,
 });
 
+export const insertDocumentVersionSchema = createInsertSchema(documentVersions).omit({
+  id: true,
+  versionNumber: true,
+  createdAt: true,
+});
+
+export const insertShareLinkSchema = createInsertSchema(shareLinks).omit({
+  id: true,
+  viewCount: true,
+  lastViewedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  lastUsedAt: true,
+  createdAt: true,
+});
+
+export const insertCommentSchema = createInsertSchema(comments).omit({
+  id: true,
+  resolvedAt: true,
+  resolvedBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertJobSchema = createInsertSchema(jobs).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertJobBatchSchema = createInsertSchema(jobBatches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertJobEventSchema = createInsertSchema(jobEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Export types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+// The signed-in user as sent to the browser, without credentials or two-factor secrets
+export type SessionUser = Omit<User, "password" | "totpSecret" | "totpLastUsedStep" | "totpRecoveryCodes"> & {
+  // Set for superadmins who must enrol in two-factor authentication before doing anything else
+  twoFactorEnrolmentRequired: boolean;
+};
+export type AdminUserFilters = z.infer<typeof adminUserFiltersSchema>;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  // Whether the user's role obliges them to keep two-factor authentication on
+  required: boolean;
+}
+
+// One of a user's signed-in sessions, as listed in their settings
+export interface UserSessionInfo {
+  // Derived from the session id, which itself is never sent to the browser
+  id: string;
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  expiresAt: Date;
+  ipAddress: string | null;
+  userAgent: string | null;
+  current: boolean;
+  // Started by a superadmin impersonating the user
+  impersonated: boolean;
+}
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+// A token as listed in the user's settings
+export type ApiTokenSummary = Omit<ApiToken, "tokenHash">;
+// Returned once, when the token is created
+export type CreatedApiToken = ApiTokenSummary & { token: string };
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+// A row in the superadmin user console
+export type AdminUserSummary = Pick<User, "id" | "username" | "email" | "role" | "emailVerified" | "pendingEmail" | "disabledAt" | "totpEnabledAt" | "lockedUntil"> & {
+  ideaCount: number;
+};
+
+export interface AdminUserPage {
+  users: AdminUserSummary[];
+  total: number;
+}
+
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
+export type WorkspaceInvitation = typeof workspaceInvitations.$inferSelect;
+export type InsertWorkspaceInvitation = z.infer<typeof insertWorkspaceInvitationSchema>;
+// A workspace as listed for one of its members
+export type WorkspaceWithRole = Workspace & { role: WorkspaceRole; memberCount: number };
+export type WorkspaceMemberWithUser = WorkspaceMember & { username: string; email: string | null };
 
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLogWithActor = AuditLog & { actorUsername: string | null };
+
+export interface AuditLogFilters {
+  actorId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Position after the last row of a page; rows are ordered newest first
+export interface AuditLogCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export interface AuditLogPage {
+  logs: AuditLogWithActor[];
+  nextCursor: string | null;
+}
 
 export type Idea = typeof ideas.$inferSelect;
 export type InsertIdea = z.infer<typeof insertIdeaSchema>;
+// An idea as returned to a user, with the role that user has on it
+export type IdeaWithAccess = Idea & { accessRole: WorkspaceRole };
 
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type UpdateDocument = z.infer<typeof updateDocumentSchema>;
 
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+// What owners see when listing links: never the password hash
+export type ShareLinkSummary = Omit<ShareLink, "passwordHash"> & { hasPassword: boolean; url: string };
+
+// Read-only content served to anyone holding a share token
+export interface SharedIdeaContent {
+  title: string;
+  companyName: string | null;
+  founderName: string | null;
+  expiresAt: string | null;
+  documents: {
+    id: string;
+    documentType: string;
+    content: string | null;
+    contentSections: unknown;
+  }[];
+  mermaidCode: string | null;
+}
+
+export type Comment = typeof comments.$inferSelect;
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type CommentWithAuthor = Comment & { username: string };
+// A root comment with its replies, oldest first
+export type CommentThread = CommentWithAuthor & { replies: CommentWithAuthor[] };
+
+// Where a comment thread lives: a document section or a Lean Canvas box
+export type CommentAnchor =
+  | { documentId: string; sectionKey: string; canvasSection?: null }
+  | { canvasSection: CanvasSection; documentId?: null; sectionKey?: null };
+
+// Comment totals per anchor, keyed by commentAnchorKey()
+export type CommentCounts = Record<string, { total: number; unresolved: number }>;
+
+export function commentAnchorKey(anchor: {
+  documentId?: string | null;
+  sectionKey?: string | null;
+  canvasSection?: string | null;
+}): string {
+  return anchor.canvasSection
+    ? `canvas:${anchor.canvasSection}`
+    : `document:${anchor.documentId}:${anchor.sectionKey}`;
+}
+
 export type Job = typeof jobs.$inferSelect;
 export type InsertJob = z.infer<typeof insertJobSchema>;
 export type UpdateJob = Partial<InsertJob>;
 
+// Body anvil-api posts to /api/internal/jobs/:id/progress. When a document
+// finishes, anvil-api names it explicitly via completedDocumentType and/or documentId.
+export const jobProgressPayloadSchema = z.object({
+  status: z.string().min(1),
+  description: z.string().nullish(),
+  step: z.number().int().positive().optional(),
+  substep: z.number().int().nonnegative().optional(),
+  totalSubsteps: z.number().int().positive().optional(),
+  completedDocumentType: z.enum(documentTypes).optional(),
+  documentId: z.string().uuid().optional(),
+});
+export type JobProgressPayload = z.infer<typeof jobProgressPayloadSchema>;
+
+// Whether anvil-api is accepting generation requests (GET /api/generation/status)
+export interface GenerationServiceStatus {
+  configured: boolean;
+  available: boolean;
+  // When the circuit breaker lets requests through again, while it is open
+  retryAt: string | null;
+}
+
+// Optional body of generation and regeneration requests. The notes are kept on
+// the job and forwarded to anvil-api, e.g. "focus on B2B healthcare buyers".
+export const GUIDANCE_NOTES_MAX_LENGTH = 2000;
+export const generationRequestSchema = z.object({
+  notes: z.string().trim().max(GUIDANCE_NOTES_MAX_LENGTH).nullish()
+    .transform(notes => notes || null),
+  // "high" is reserved for superadmins
+  priority: z.enum(generationPriorities).default("normal"),
+});
+export type GenerationRequest = z.infer<typeof generationRequestSchema>;
+
+// Body of POST /api/ideas/:id/generate: `steps` runs just those steps (plus
+// missing prerequisites, see resolvePipelineSelection) instead of the full pipeline
+export const pipelineRunSchema = generationRequestSchema.extend({
+  steps: z.array(z.enum(pipelineSteps)).min(1).nullish().transform(steps => steps ?? null),
+});
+export type PipelineRunRequest = z.infer<typeof pipelineRunSchema>;
+
+export type JobEvent = typeof jobEvents.$inferSelect;
+export type InsertJobEvent = z.infer<typeof insertJobEventSchema>;
+// queuePosition is 1-based and only set while the job is queued
+export type JobWithTimeline = Job & { events: JobEvent[]; queuePosition: number | null };
+
+// Body of POST /api/batches: start the full pipeline, or regenerate one step, for each idea
+export const BATCH_MAX_IDEAS = 50;
+export const batchGenerationSchema = generationRequestSchema.extend({
+  ideaIds: z.array(z.string().uuid()).min(1).max(BATCH_MAX_IDEAS)
+    .transform(ids => Array.from(new Set(ids))),
+  step: z.enum(pipelineSteps).nullish().transform(step => step ?? null),
+});
+export type BatchGenerationRequest = z.infer<typeof batchGenerationSchema>;
+
+export type JobBatch = typeof jobBatches.$inferSelect;
+export type InsertJobBatch = z.infer<typeof insertJobBatchSchema>;
+export type BatchJob = Job & { ideaTitle: string };
+export type JobBatchWithJobs = JobBatch & { jobs: BatchJob[] };
+// Outcome of starting one idea's job; ideas that could not start don't stop the rest
+export interface BatchStartResult {
+  ideaId: string;
+  jobId: string | null;
+  error: string | null;
+}
+
 export const insertAppSettingSchema = createInsertSchema(appSettings).pick({
   key: true,
   value: true
 });
 export type AppSetting = typeof appSettings.$inferSelect;
 export type InsertAppSetting = z.infer<typeof insertAppSettingSchema>;
+export type UserPreference = typeof userPreferences.$inferSelect;
@@ -4,11 +4,33 @@ CREATE OR REPLACE FUNCTION auth_user_id() RETURNS text AS $$
   SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::text;
 $$ LANGUAGE sql STABLE;
 
+-- Role of the current user in a workspace, or NULL if they are not a member.
+-- SECURITY DEFINER so policies can consult membership without recursing into
+-- the workspace_members policies.
+CREATE OR REPLACE FUNCTION workspace_role(target_workspace_id uuid) RETURNS text AS $$
+  SELECT role FROM workspace_members
+  WHERE workspace_id = target_workspace_id AND user_id::text = auth_user_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Role of the current user on an idea: creators own personal ideas,
+-- workspace ideas follow workspace membership
+CREATE OR REPLACE FUNCTION idea_role(target_idea_id uuid) RETURNS text AS $$
+  SELECT CASE
+    WHEN i.workspace_id IS NULL THEN
+      CASE WHEN i.user_id::text = auth_user_id() THEN 'owner' END
+    ELSE workspace_role(i.workspace_id)
+  END
+  FROM ideas i WHERE i.id = target_idea_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
 -- Enable RLS on tables
 ALTER TABLE ideas ENABLE ROW LEVEL SECURITY;
 ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
 ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_invitations ENABLE ROW LEVEL SECURITY;
 
 -- 1. Policies for 'users' table
 CREATE POLICY "Users can view own profile" ON users
@@ -17,33 +39,52 @@ CREATE POLICY "Users can view own profile" ON users
 CREATE POLICY "Users can update own profile" ON users
   FOR UPDATE USING (id::text = auth_user_id());
 
--- 2. Policies for 'ideas' table
-CREATE POLICY "Users can view own ideas" ON ideas
-  FOR SELECT USING (user_id::text = auth_user_id());
+-- 2. Policies for workspace tables
+-- Membership and invitations are managed by the backend connection; members
+-- can only read the workspaces they belong to and who else is in them.
+CREATE POLICY "Members can view their workspaces" ON workspaces
+  FOR SELECT USING (workspace_role(id) IS NOT NULL);
+
+CREATE POLICY "Members can view workspace members" ON workspace_members
+  FOR SELECT USING (workspace_role(workspace_id) IS NOT NULL);
+
+-- 3. Policies for 'ideas' table
+CREATE POLICY "Members can view ideas" ON ideas
+  FOR SELECT USING (idea_role(id) IS NOT NULL);
+
+CREATE POLICY "Editors can insert ideas" ON ideas
+  FOR INSERT WITH CHECK (
+    user_id::text = auth_user_id()
+    AND (workspace_id IS NULL OR workspace_role(workspace_id) IN ('owner', 'editor'))
+  );
 
-CREATE POLICY "Users can insert own ideas" ON ideas
-  FOR INSERT WITH CHECK (user_id::text = auth_user_id());
+CREATE POLICY "Editors can update ideas" ON ideas
+  FOR UPDATE USING (idea_role(id) IN ('owner', 'editor'));
 
-CREATE POLICY "Users can update own ideas" ON ideas
-  FOR UPDATE USING (user_id::text = auth_user_id());
+-- Workspace owners can delete any workspace idea, editors only their own
+CREATE POLICY "Owners can delete ideas" ON ideas
+  FOR DELETE USING (
+    idea_role(id) = 'owner'
+    OR (idea_role(id) = 'editor' AND user_id::text = auth_user_id())
+  );
 
-CREATE POLICY "Users can delete own ideas" ON ideas
-  FOR DELETE USING (user_id::text = auth_user_id());
+-- 4. Policies for 'jobs' table
+CREATE POLICY "Members can view jobs" ON jobs
+  FOR SELECT USING (idea_role(idea_id) IS NOT NULL);
 
--- 3. Policies for 'jobs' table
-CREATE POLICY "Users can manage own jobs" ON jobs
-  FOR ALL USING (user_id::text = auth_user_id());
+CREATE POLICY "Editors can manage jobs" ON jobs
+  FOR ALL USING (idea_role(idea_id) IN ('owner', 'editor'));
 
--- 4. Policies for 'documents' table
--- Documents have direct user_id FK, so we can use direct ownership check
-CREATE POLICY "Users can view own documents" ON documents
-  FOR SELECT USING (user_id::text = auth_user_id());
+-- 5. Policies for 'documents' table
+-- Documents follow the access rules of the idea they belong to
+CREATE POLICY "Members can view documents" ON documents
+  FOR SELECT USING (idea_role(idea_id) IS NOT NULL);
 
-CREATE POLICY "Users can insert own documents" ON documents
-  FOR INSERT WITH CHECK (user_id::text = auth_user_id());
+CREATE POLICY "Editors can insert documents" ON documents
+  FOR INSERT WITH CHECK (idea_role(idea_id) IN ('owner', 'editor'));
 
-CREATE POLICY "Users can update own documents" ON documents
-  FOR UPDATE USING (user_id::text = auth_user_id());
+CREATE POLICY "Editors can update documents" ON documents
+  FOR UPDATE USING (idea_role(idea_id) IN ('owner', 'editor'));
 
-CREATE POLICY "Users can delete own documents" ON documents
-  FOR DELETE USING (user_id::text = auth_user_id());
+CREATE POLICY "Editors can delete documents" ON documents
+  FOR DELETE USING (idea_role(idea_id) IN ('owner', 'editor'));
@@ -0,0 +1,16 @@
+-- Migration: Self-service account flows
+-- Hashed password reset tokens, and a pending address plus hashed
+-- confirmation token for email changes. Registration mode and allowed
+-- domains live in app_settings and need no schema change.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_reset_token TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_reset_token_expiry TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pending_email TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_change_token TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_change_token_expiry TIMESTAMP;
+
+COMMIT;
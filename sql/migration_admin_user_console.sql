@@ -0,0 +1,10 @@
+-- Migration: Superadmin user console
+-- Accounts a superadmin disables keep their data but can't sign in.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP;
+
+COMMIT;
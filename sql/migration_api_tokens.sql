@@ -0,0 +1,24 @@
+-- Migration: Personal API tokens
+-- Scoped tokens for the public REST API, sent as "Authorization: Bearer".
+-- Only a SHA-256 hash of each token is stored, plus a short prefix so users
+-- can tell their tokens apart.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id),
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  scopes JSONB NOT NULL,
+  expires_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS api_tokens_user_id_idx ON api_tokens (user_id);
+
+COMMIT;
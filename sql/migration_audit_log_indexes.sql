@@ -0,0 +1,13 @@
+-- Migration: Audit log viewer
+-- Indexes behind the superadmin audit log filters and newest-first cursor paging.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs (created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_actor_id ON audit_logs (actor_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs (action text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_target ON audit_logs (target_type, target_id);
+
+COMMIT;
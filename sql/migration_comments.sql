@@ -0,0 +1,51 @@
+-- Migration: Threaded comments
+-- Comments are anchored to a section of a generated document (document_id +
+-- section_key) or to a Lean Canvas box (canvas_section). Replies reference
+-- the first comment of their thread through parent_id.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  idea_id UUID NOT NULL REFERENCES ideas(id),
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE,
+  section_key TEXT,
+  canvas_section TEXT,
+  parent_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id),
+  body TEXT NOT NULL,
+  mentions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  resolved_at TIMESTAMP,
+  resolved_by UUID REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS comments_idea_id_idx ON comments (idea_id);
+CREATE INDEX IF NOT EXISTS comments_parent_id_idx ON comments (parent_id);
+
+-- Anyone with access to the idea can read and post; authors manage their own
+-- comments. Resolving and moderation are enforced by the backend.
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view comments" ON comments;
+CREATE POLICY "Members can view comments" ON comments
+  FOR SELECT USING (idea_role(idea_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Members can add comments" ON comments;
+CREATE POLICY "Members can add comments" ON comments
+  FOR INSERT WITH CHECK (user_id::text = auth_user_id() AND idea_role(idea_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Authors can update own comments" ON comments;
+CREATE POLICY "Authors can update own comments" ON comments
+  FOR UPDATE USING (user_id::text = auth_user_id() AND idea_role(idea_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Authors can delete own comments" ON comments;
+CREATE POLICY "Authors can delete own comments" ON comments
+  FOR DELETE USING (user_id::text = auth_user_id() OR idea_role(idea_id) = 'owner');
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON comments TO authenticated;
+
+COMMIT;
@@ -0,0 +1,19 @@
+-- Migration: Document staleness tracking and cascade regeneration
+-- Every content change bumps a document's revision; a generated document
+-- records the revisions of the upstream documents it was built from, so
+-- later upstream edits mark it stale; the job that recorded it is kept so a
+-- run records each document once. Step regenerations record the step
+-- being run and the downstream steps still queued behind it.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS source_revisions JSONB;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS generated_by_job_id UUID;
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS pipeline_step TEXT;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS queued_steps JSONB;
+
+COMMIT;
@@ -0,0 +1,44 @@
+-- Migration: Document version history
+-- Keeps a snapshot of every document revision that gets overwritten by a
+-- manual edit, a step regeneration or a restore.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  idea_id UUID NOT NULL REFERENCES ideas(id),
+  user_id UUID NOT NULL REFERENCES users(id),
+  document_type TEXT NOT NULL,
+  version_number INTEGER NOT NULL,
+  content TEXT,
+  content_sections JSONB,
+  changed_by UUID,
+  change_reason TEXT NOT NULL,
+  job_id UUID,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (document_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS document_versions_document_id_idx ON document_versions (document_id);
+
+-- RLS: versions follow the ownership of the document they belong to
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own document versions" ON document_versions;
+CREATE POLICY "Users can view own document versions" ON document_versions
+  FOR SELECT USING (user_id::text = auth_user_id());
+
+DROP POLICY IF EXISTS "Users can insert own document versions" ON document_versions;
+CREATE POLICY "Users can insert own document versions" ON document_versions
+  FOR INSERT WITH CHECK (user_id::text = auth_user_id());
+
+DROP POLICY IF EXISTS "Users can delete own document versions" ON document_versions;
+CREATE POLICY "Users can delete own document versions" ON document_versions
+  FOR DELETE USING (user_id::text = auth_user_id());
+
+GRANT SELECT, INSERT, DELETE ON document_versions TO authenticated;
+
+COMMIT;
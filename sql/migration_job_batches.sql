@@ -0,0 +1,23 @@
+-- Migration: Batch generation
+-- A batch groups the jobs started together for several ideas from the
+-- dashboard. Each idea still gets its own job; jobs keep their history when
+-- the batch is deleted.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS job_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id),
+  pipeline_step TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS job_batches_user_id_idx ON job_batches (user_id, created_at DESC);
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES job_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS jobs_batch_id_idx ON jobs (batch_id) WHERE batch_id IS NOT NULL;
+
+COMMIT;
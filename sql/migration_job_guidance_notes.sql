@@ -0,0 +1,11 @@
+-- Migration: Guidance notes on generation jobs
+-- Free-text instructions a user gave when starting a generation or
+-- regeneration, forwarded to anvil-api and kept for the job history.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS guidance_notes TEXT;
+
+COMMIT;
@@ -0,0 +1,12 @@
+-- Migration: Custom pipeline runs
+-- Jobs that run a chosen set of steps record all of them in planned_steps,
+-- so progress can be weighted by the steps in the run. Full pipeline runs
+-- leave it null.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS planned_steps JSONB;
+
+COMMIT;
@@ -0,0 +1,42 @@
+-- Migration: Structured job progress
+-- Persists the step/substep reported by anvil-api on each job, plus a
+-- job_events table holding every status/progress update as a timeline.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS current_step INTEGER;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS current_substep INTEGER;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS total_substeps INTEGER;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS step_name TEXT;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS step_timings JSONB;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS started_at TIMESTAMP;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS finished_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS job_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id),
+  status TEXT NOT NULL,
+  message TEXT,
+  step INTEGER,
+  substep INTEGER,
+  total_substeps INTEGER,
+  step_name TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS job_events_job_id_idx ON job_events (job_id, created_at);
+
+-- RLS: events are written by the backend without a user context (webhooks,
+-- reaper); users can read and delete the events of their own jobs
+ALTER TABLE job_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own job events" ON job_events;
+CREATE POLICY "Users can manage own job events" ON job_events
+  FOR ALL USING (user_id::text = auth_user_id());
+
+GRANT SELECT, DELETE ON job_events TO authenticated;
+
+COMMIT;
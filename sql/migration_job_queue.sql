@@ -0,0 +1,17 @@
+-- Migration: Generation queue
+-- Jobs now start as 'queued' and are handed to anvil-api by the dispatcher in
+-- server/job-orchestrator.ts within the global and per-user concurrency limits.
+-- Higher priority is dispatched first, then the oldest job.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS dispatched_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS jobs_queue_idx
+  ON jobs (priority DESC, created_at)
+  WHERE status = 'queued';
+
+COMMIT;
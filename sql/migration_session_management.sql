@@ -0,0 +1,17 @@
+-- Migration: Session management
+-- Sessions are listed per user straight from the connect-pg-simple "session"
+-- table, so index the signed-in user id inside the stored JSON.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+DO $$
+BEGIN
+  -- The app creates the table on first start; skip if it hasn't run yet
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'session') THEN
+    CREATE INDEX IF NOT EXISTS idx_session_passport_user ON session ((sess -> 'passport' ->> 'user'));
+  END IF;
+END $$;
+
+COMMIT;
@@ -0,0 +1,35 @@
+-- Migration: Share links
+-- Read-only public links to an idea or a single document, with optional
+-- expiry and password. Views are counted here and audited in audit_logs.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  idea_id UUID NOT NULL REFERENCES ideas(id),
+  user_id UUID NOT NULL REFERENCES users(id),
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  password_hash TEXT,
+  expires_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS share_links_idea_id_idx ON share_links (idea_id);
+
+-- RLS: owners manage their own links. Token lookups for public views run
+-- on the backend connection without a user context.
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own share links" ON share_links;
+CREATE POLICY "Users can manage own share links" ON share_links
+  FOR ALL USING (user_id::text = auth_user_id());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON share_links TO authenticated;
+
+COMMIT;
@@ -0,0 +1,14 @@
+-- Migration: TOTP two-factor authentication
+-- The shared secret, when it was turned on, the last accepted time step (to
+-- stop a code being replayed) and SHA-256 hashes of unused recovery codes.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_secret TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_enabled_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_last_used_step INTEGER;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_recovery_codes JSONB;
+
+COMMIT;
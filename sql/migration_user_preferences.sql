@@ -0,0 +1,18 @@
+-- Migration: User preferences
+-- Per-user values for the user-scoped settings in the settings registry
+-- (shared/schema.ts settingDefinitions). Global settings stay in app_settings.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  key VARCHAR(50) NOT NULL,
+  value TEXT,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, key)
+);
+
+COMMIT;
@@ -0,0 +1,172 @@
+-- Migration: Team workspaces
+-- Ideas can belong to a workspace whose members (owner, editor, viewer) share
+-- access to them and to their documents, jobs, versions and share links.
+-- Ideas without a workspace stay personal to their creator.
+--
+-- Safe to run multiple times (idempotent).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  owner_id UUID NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id),
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS workspace_members_user_id_idx ON workspace_members (user_id);
+
+CREATE TABLE IF NOT EXISTS workspace_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'viewer')),
+  token TEXT NOT NULL UNIQUE,
+  invited_by UUID NOT NULL REFERENCES users(id),
+  expires_at TIMESTAMP NOT NULL,
+  accepted_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS workspace_invitations_workspace_id_idx ON workspace_invitations (workspace_id);
+
+ALTER TABLE ideas ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id);
+CREATE INDEX IF NOT EXISTS ideas_workspace_id_idx ON ideas (workspace_id);
+
+-- Membership helpers used by the policies below (see enable_rls.sql)
+CREATE OR REPLACE FUNCTION workspace_role(target_workspace_id uuid) RETURNS text AS $$
+  SELECT role FROM workspace_members
+  WHERE workspace_id = target_workspace_id AND user_id::text = auth_user_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION idea_role(target_idea_id uuid) RETURNS text AS $$
+  SELECT CASE
+    WHEN i.workspace_id IS NULL THEN
+      CASE WHEN i.user_id::text = auth_user_id() THEN 'owner' END
+    ELSE workspace_role(i.workspace_id)
+  END
+  FROM ideas i WHERE i.id = target_idea_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Workspace tables: readable by members, written by the backend only
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their workspaces" ON workspaces;
+CREATE POLICY "Members can view their workspaces" ON workspaces
+  FOR SELECT USING (workspace_role(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Members can view workspace members" ON workspace_members;
+CREATE POLICY "Members can view workspace members" ON workspace_members
+  FOR SELECT USING (workspace_role(workspace_id) IS NOT NULL);
+
+GRANT SELECT ON workspaces, workspace_members TO authenticated;
+
+-- Ideas: replace the owner-only policies with membership checks
+DROP POLICY IF EXISTS "Users can view own ideas" ON ideas;
+DROP POLICY IF EXISTS "Users can insert own ideas" ON ideas;
+DROP POLICY IF EXISTS "Users can update own ideas" ON ideas;
+DROP POLICY IF EXISTS "Users can delete own ideas" ON ideas;
+
+DROP POLICY IF EXISTS "Members can view ideas" ON ideas;
+CREATE POLICY "Members can view ideas" ON ideas
+  FOR SELECT USING (idea_role(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Editors can insert ideas" ON ideas;
+CREATE POLICY "Editors can insert ideas" ON ideas
+  FOR INSERT WITH CHECK (
+    user_id::text = auth_user_id()
+    AND (workspace_id IS NULL OR workspace_role(workspace_id) IN ('owner', 'editor'))
+  );
+
+DROP POLICY IF EXISTS "Editors can update ideas" ON ideas;
+CREATE POLICY "Editors can update ideas" ON ideas
+  FOR UPDATE USING (idea_role(id) IN ('owner', 'editor'));
+
+DROP POLICY IF EXISTS "Owners can delete ideas" ON ideas;
+CREATE POLICY "Owners can delete ideas" ON ideas
+  FOR DELETE USING (
+    idea_role(id) = 'owner'
+    OR (idea_role(id) = 'editor' AND user_id::text = auth_user_id())
+  );
+
+-- Jobs
+DROP POLICY IF EXISTS "Users can manage own jobs" ON jobs;
+
+DROP POLICY IF EXISTS "Members can view jobs" ON jobs;
+CREATE POLICY "Members can view jobs" ON jobs
+  FOR SELECT USING (idea_role(idea_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Editors can manage jobs" ON jobs;
+CREATE POLICY "Editors can manage jobs" ON jobs
+  FOR ALL USING (idea_role(idea_id) IN ('owner', 'editor'));
+
+-- Job events follow the job they belong to
+DROP POLICY IF EXISTS "Users can manage own job events" ON job_events;
+
+DROP POLICY IF EXISTS "Members can view job events" ON job_events;
+CREATE POLICY "Members can view job events" ON job_events
+  FOR SELECT USING (EXISTS (SELECT 1 FROM jobs j WHERE j.id = job_id AND idea_role(j.idea_id) IS NOT NULL));
+
+DROP POLICY IF EXISTS "Editors can delete job events" ON job_events;
+CREATE POLICY "Editors can delete job events" ON job_events
+  FOR DELETE USING (EXISTS (SELECT 1 FROM jobs j WHERE j.id = job_id AND idea_role(j.idea_id) IN ('owner', 'editor')));
+
+-- Documents
+DROP POLICY IF EXISTS "Users can view own documents" ON documents;
+DROP POLICY IF EXISTS "Users can insert own documents" ON documents;
+DROP POLICY IF EXISTS "Users can update own documents" ON documents;
+DROP POLICY IF EXISTS "Users can delete own documents" ON documents;
+
+DROP POLICY IF EXISTS "Members can view documents" ON documents;
+CREATE POLICY "Members can view documents" ON documents
+  FOR SELECT USING (idea_role(idea_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Editors can insert documents" ON documents;
+CREATE POLICY "Editors can insert documents" ON documents
+  FOR INSERT WITH CHECK (idea_role(idea_id) IN ('owner', 'editor'));
+
+DROP POLICY IF EXISTS "Editors can update documents" ON documents;
+CREATE POLICY "Editors can update documents" ON documents
+  FOR UPDATE USING (idea_role(idea_id) IN ('owner', 'editor'));
+
+DROP POLICY IF EXISTS "Editors can delete documents" ON documents;
+CREATE POLICY "Editors can delete documents" ON documents
+  FOR DELETE USING (idea_role(idea_id) IN ('owner', 'editor'));
+
+-- Document versions
+DROP POLICY IF EXISTS "Users can view own document versions" ON document_versions;
+DROP POLICY IF EXISTS "Users can insert own document versions" ON document_versions;
+DROP POLICY IF EXISTS "Users can delete own document versions" ON document_versions;
+
+DROP POLICY IF EXISTS "Members can view document versions" ON document_versions;
+CREATE POLICY "Members can view document versions" ON document_versions
+  FOR SELECT USING (idea_role(idea_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Editors can insert document versions" ON document_versions;
+CREATE POLICY "Editors can insert document versions" ON document_versions
+  FOR INSERT WITH CHECK (idea_role(idea_id) IN ('owner', 'editor'));
+
+DROP POLICY IF EXISTS "Editors can delete document versions" ON document_versions;
+CREATE POLICY "Editors can delete document versions" ON document_versions
+  FOR DELETE USING (idea_role(idea_id) IN ('owner', 'editor'));
+
+-- Share links are managed by anyone who can edit the idea
+DROP POLICY IF EXISTS "Users can manage own share links" ON share_links;
+
+DROP POLICY IF EXISTS "Editors can manage share links" ON share_links;
+CREATE POLICY "Editors can manage share links" ON share_links
+  FOR ALL USING (idea_role(idea_id) IN ('owner', 'editor'));
+
+COMMIT;